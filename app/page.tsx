@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { PrivateKeyAccount } from "applesauce-accounts/accounts";
 import { Loader2 } from "lucide-react";
 import { toast } from "sonner";
@@ -11,6 +11,8 @@ import {
   useAccountManager,
   type AccountMetadata,
 } from "@/components/providers/ClientProviders";
+import { HANDOFF_PARAM_NAME, decryptHandoff } from "@/lib/keyHandoff";
+import { RoutstrNodeClient, isRoutstrNodeError } from "@/lib/routstrNodeClient";
 import { DEFAULT_BASE_URL } from "@/lib/utils";
 import {
   Dialog,
@@ -19,6 +21,8 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 
 type StoredApiKey = {
   key: string;
@@ -237,84 +241,25 @@ function getKeyCompositeId(keyData: StoredApiKey, fallbackBaseUrl: string): stri
   return `${base}::${keyData.key}`;
 }
 
-function isInvalidApiKeyPayload(payload: unknown): boolean {
-  if (!payload || typeof payload !== "object") return false;
-  const parsed = payload as {
-    detail?: string | { message?: string; error?: { code?: string; message?: string } };
-    error?: string;
-    message?: string;
-  };
-
-  const code =
-    parsed.detail && typeof parsed.detail === "object"
-      ? parsed.detail.error?.code || ""
-      : "";
-  const detailMessage =
-    typeof parsed.detail === "string"
-      ? parsed.detail
-      : parsed.detail?.message || parsed.detail?.error?.message || "";
-  const errorMessage = parsed.error || parsed.message || "";
-
-  const combined = `${code} ${detailMessage} ${errorMessage}`.toLowerCase();
-  return (
-    code === "invalid_api_key" ||
-    combined.includes("invalid api key") ||
-    combined.includes("invalid_api_key")
-  );
-}
-
 async function probeApiKeyOnEndpoint(
   endpoint: string,
   apiKey: string
 ): Promise<KeyProbeResult> {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 6000);
-
   try {
-    const response = await fetch(`${endpoint}v1/wallet/info`, {
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-      },
-      signal: controller.signal,
-    });
-
-    if (!response.ok) {
-      try {
-        const payload = (await response.json()) as unknown;
-        if (isInvalidApiKeyPayload(payload)) {
-          return { status: "invalid", endpoint };
-        }
-      } catch {
-        // Ignore parse failures.
-      }
-      return { status: "error", endpoint };
-    }
-
-    const payload = (await response.json()) as {
-      api_key?: unknown;
-      apiKey?: unknown;
-      balance?: unknown;
-    };
-    const resolvedKey =
-      typeof payload.api_key === "string" && payload.api_key
-        ? payload.api_key
-        : typeof payload.apiKey === "string" && payload.apiKey
-          ? payload.apiKey
-          : apiKey;
-
+    const info = await new RoutstrNodeClient(endpoint, { timeoutMs: 6000 }).getWalletInfo(
+      apiKey
+    );
     return {
       status: "valid",
       endpoint,
-      apiKey: resolvedKey,
-      balance:
-        typeof payload.balance === "number" && Number.isFinite(payload.balance)
-          ? payload.balance
-          : null,
+      apiKey: info.apiKey || apiKey,
+      balance: info.balance,
     };
-  } catch {
+  } catch (error) {
+    if (isRoutstrNodeError(error, "invalid_api_key")) {
+      return { status: "invalid", endpoint };
+    }
     return { status: "error", endpoint };
-  } finally {
-    clearTimeout(timeoutId);
   }
 }
 
@@ -382,55 +327,12 @@ export default function PlatformPage() {
   const importHandledRef = useRef(false);
   const [importSignal, setImportSignal] = useState(0);
   const [loginDialogOpen, setLoginDialogOpen] = useState(false);
+  const [pendingHandoff, setPendingHandoff] = useState<string | null>(null);
+  const [handoffPassphrase, setHandoffPassphrase] = useState("");
+  const [isUnlockingHandoff, setIsUnlockingHandoff] = useState(false);
 
-  useEffect(() => {
-    if (!authChecked || importHandledRef.current) return;
-    if (typeof window === "undefined") return;
-
-    const url = new URL(window.location.href);
-    const queryApiKey = getFirstParam(url.searchParams, API_KEY_PARAM_NAMES);
-
-    const rawHash = url.hash.startsWith("#") ? url.hash.slice(1) : url.hash;
-    const hashLooksLikeParams =
-      rawHash.length > 0 && (rawHash.includes("=") || rawHash.includes("&"));
-    const hashParams = hashLooksLikeParams ? new URLSearchParams(rawHash) : null;
-    const hashApiKey = hashParams
-      ? getFirstParam(hashParams, API_KEY_PARAM_NAMES)
-      : null;
-
-    const rawApiKey = (queryApiKey || hashApiKey || "").trim();
-    const hasApiKeyParam = Boolean(queryApiKey || hashApiKey);
-
-    importHandledRef.current = true;
-    if (!hasApiKeyParam) return;
-
-    const rawBaseUrl =
-      getFirstParam(url.searchParams, BASE_URL_PARAM_NAMES) ||
-      (hashParams ? getFirstParam(hashParams, BASE_URL_PARAM_NAMES) : null);
-    const rawLabel =
-      getFirstParam(url.searchParams, LABEL_PARAM_NAMES) ||
-      (hashParams ? getFirstParam(hashParams, LABEL_PARAM_NAMES) : null);
-
-    deleteParams(url.searchParams, API_KEY_PARAM_NAMES);
-    deleteParams(url.searchParams, BASE_URL_PARAM_NAMES);
-    deleteParams(url.searchParams, LABEL_PARAM_NAMES);
-
-    if (hashParams) {
-      deleteParams(hashParams, API_KEY_PARAM_NAMES);
-      deleteParams(hashParams, BASE_URL_PARAM_NAMES);
-      deleteParams(hashParams, LABEL_PARAM_NAMES);
-      const nextHash = hashParams.toString();
-      url.hash = nextHash ? `#${nextHash}` : "";
-    }
-
-    window.history.replaceState({}, "", `${url.pathname}${url.search}${url.hash}`);
-
-    if (!rawApiKey) {
-      toast.error("Missing API key in URL");
-      return;
-    }
-
-    void (async () => {
+  const importApiKey = useCallback(
+    async (rawApiKey: string, rawBaseUrl: string | null, rawLabel: string | null) => {
       const preferredBaseUrl = resolveImportBaseUrl(rawBaseUrl);
       const probe = await findMatchingKeyEndpoint(rawApiKey, preferredBaseUrl);
 
@@ -482,8 +384,82 @@ export default function PlatformPage() {
           : `API key imported (${new URL(match.endpoint).host})`
       );
       setImportSignal((current) => current + 1);
-    })();
-  }, [authChecked, manager, manualSave]);
+    },
+    [manager, manualSave]
+  );
+
+  useEffect(() => {
+    if (!authChecked || importHandledRef.current) return;
+    if (typeof window === "undefined") return;
+
+    const url = new URL(window.location.href);
+    const queryApiKey = getFirstParam(url.searchParams, API_KEY_PARAM_NAMES);
+
+    const rawHash = url.hash.startsWith("#") ? url.hash.slice(1) : url.hash;
+    const hashLooksLikeParams =
+      rawHash.length > 0 && (rawHash.includes("=") || rawHash.includes("&"));
+    const hashParams = hashLooksLikeParams ? new URLSearchParams(rawHash) : null;
+    const hashApiKey = hashParams
+      ? getFirstParam(hashParams, API_KEY_PARAM_NAMES)
+      : null;
+    // Encrypted handoff links only ever use the fragment
+    const handoffToken = hashParams?.get(HANDOFF_PARAM_NAME) ?? null;
+
+    const rawApiKey = (queryApiKey || hashApiKey || "").trim();
+    const hasApiKeyParam = Boolean(queryApiKey || hashApiKey);
+
+    importHandledRef.current = true;
+    if (!hasApiKeyParam && handoffToken === null) return;
+
+    const rawBaseUrl =
+      getFirstParam(url.searchParams, BASE_URL_PARAM_NAMES) ||
+      (hashParams ? getFirstParam(hashParams, BASE_URL_PARAM_NAMES) : null);
+    const rawLabel =
+      getFirstParam(url.searchParams, LABEL_PARAM_NAMES) ||
+      (hashParams ? getFirstParam(hashParams, LABEL_PARAM_NAMES) : null);
+
+    deleteParams(url.searchParams, API_KEY_PARAM_NAMES);
+    deleteParams(url.searchParams, BASE_URL_PARAM_NAMES);
+    deleteParams(url.searchParams, LABEL_PARAM_NAMES);
+
+    if (hashParams) {
+      deleteParams(hashParams, API_KEY_PARAM_NAMES);
+      deleteParams(hashParams, BASE_URL_PARAM_NAMES);
+      deleteParams(hashParams, LABEL_PARAM_NAMES);
+      hashParams.delete(HANDOFF_PARAM_NAME);
+      const nextHash = hashParams.toString();
+      url.hash = nextHash ? `#${nextHash}` : "";
+    }
+
+    window.history.replaceState({}, "", `${url.pathname}${url.search}${url.hash}`);
+
+    if (!hasApiKeyParam && handoffToken !== null) {
+      setPendingHandoff(handoffToken);
+      return;
+    }
+
+    if (!rawApiKey) {
+      toast.error("Missing API key in URL");
+      return;
+    }
+
+    void importApiKey(rawApiKey, rawBaseUrl, rawLabel);
+  }, [authChecked, importApiKey]);
+
+  const handleUnlockHandoff = async () => {
+    if (!pendingHandoff) return;
+    setIsUnlockingHandoff(true);
+    try {
+      const handoff = await decryptHandoff(pendingHandoff, handoffPassphrase);
+      setPendingHandoff(null);
+      setHandoffPassphrase("");
+      await importApiKey(handoff.apiKey, handoff.baseUrl ?? null, handoff.label ?? null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not unlock handoff link");
+    } finally {
+      setIsUnlockingHandoff(false);
+    }
+  };
 
   useEffect(() => {
     if (!isAuthenticated || importSignal === 0) return;
@@ -528,29 +504,79 @@ export default function PlatformPage() {
     );
   }
 
+  const handoffDialog = (
+    <Dialog
+      open={pendingHandoff !== null}
+      onOpenChange={(open) => {
+        if (open || isUnlockingHandoff) return;
+        setPendingHandoff(null);
+        setHandoffPassphrase("");
+      }}
+    >
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Import shared API key</DialogTitle>
+          <DialogDescription>
+            This link is passphrase-protected. Enter the passphrase you were given to import the
+            key.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex items-center gap-2">
+          <Input
+            type="password"
+            placeholder="Passphrase"
+            value={handoffPassphrase}
+            onChange={(event) => setHandoffPassphrase(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === "Enter" && handoffPassphrase) void handleUnlockHandoff();
+            }}
+            autoComplete="off"
+            autoFocus
+          />
+          <Button
+            onClick={() => void handleUnlockHandoff()}
+            disabled={isUnlockingHandoff || !handoffPassphrase}
+            type="button"
+          >
+            {isUnlockingHandoff ? <Loader2 className="h-4 w-4 animate-spin" /> : null}
+            Import
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+
   if (!isAuthenticated) {
     return (
-      <Dialog open={loginDialogOpen} onOpenChange={setLoginDialogOpen}>
-        <PlatformShell
-          activeTab="home"
-          allowUnauthenticated
-          onRequestLogin={() => setLoginDialogOpen(true)}
-        />
-        <DialogContent className="max-w-md p-4 sm:p-5">
-          <DialogHeader className="px-1">
-            <DialogTitle>Sign in</DialogTitle>
-            <DialogDescription>
-              Use your Nostr identity to continue.
-            </DialogDescription>
-          </DialogHeader>
-          <LoginMethodsCard
-            compact
-            onLoggedIn={() => setLoginDialogOpen(false)}
+      <>
+        <Dialog open={loginDialogOpen} onOpenChange={setLoginDialogOpen}>
+          <PlatformShell
+            activeTab="home"
+            allowUnauthenticated
+            onRequestLogin={() => setLoginDialogOpen(true)}
           />
-        </DialogContent>
-      </Dialog>
+          <DialogContent className="max-w-md p-4 sm:p-5">
+            <DialogHeader className="px-1">
+              <DialogTitle>Sign in</DialogTitle>
+              <DialogDescription>
+                Use your Nostr identity to continue.
+              </DialogDescription>
+            </DialogHeader>
+            <LoginMethodsCard
+              compact
+              onLoggedIn={() => setLoginDialogOpen(false)}
+            />
+          </DialogContent>
+        </Dialog>
+        {handoffDialog}
+      </>
     );
   }
 
-  return <PlatformShell activeTab="home" />;
+  return (
+    <>
+      <PlatformShell activeTab="home" />
+      {handoffDialog}
+    </>
+  );
 }
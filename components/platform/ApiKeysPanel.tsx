@@ -2,44 +2,66 @@
 
 import { useEffect, useMemo, useRef, useState } from "react";
 import { useSearchParams } from "next/navigation";
-import {
-  CashuMint,
-  CashuWallet,
-  CheckStateEnum,
-  getDecodedToken,
-  getEncodedTokenV4,
-  type Proof as CashuProof,
-} from "@cashu/cashu-ts";
 import {
   Check,
   ChevronDown,
   ChevronUp,
+  CheckSquare,
   Copy,
   Key,
   Pencil,
   Plus,
   RefreshCw,
+  Share2,
   Trash2,
   Wallet,
   X,
 } from "lucide-react";
-import { SimplePool, type Event as NostrEvent, type EventTemplate } from "nostr-tools";
+import type { Event as NostrEvent, EventTemplate } from "nostr-tools";
 import { toast } from "sonner";
 import { useObservableState } from "applesauce-react/hooks";
 import { useAccountManager } from "@/components/providers/ClientProviders";
 import {
-  appendTransaction,
-  getProofsBalanceSats,
-  readCashuProofs,
-  writeCashuProofs,
-} from "@/lib/platformWallet";
+  getMintBalanceSats,
+  receive as receiveCashuToken,
+  reclaimSend,
+  send as sendCashuToken,
+  settleSend,
+} from "@/lib/cashuEngine";
+import { RoutstrNodeClient, isRoutstrNodeError } from "@/lib/routstrNodeClient";
+import {
+  parseStoredApiKeys,
+  recordApiKeyDeletions,
+  stampApiKeyChanges,
+  syncApiKeys,
+  type StoredApiKey,
+} from "@/lib/apiKeySync";
+import { removeAutoTopupRules, runAutoTopups } from "@/lib/autoTopup";
+import { removeChildKeysForParents } from "@/lib/childKeys";
 import {
-  annotateProofsWithMint,
-  getProofsForMint,
-  publishNip60MintSnapshot,
-  type WalletProof,
-} from "@/lib/nip60WalletSync";
+  recordBalanceSnapshot,
+  removeKeyUsageHistory,
+  type BalanceSnapshotSource,
+} from "@/lib/keyUsage";
+import type { KeyHandoff } from "@/lib/keyHandoff";
 import { DEFAULT_BASE_URL } from "@/lib/utils";
+import AutoTopupPanel from "@/components/platform/AutoTopupPanel";
+import ChildKeyConsole from "@/components/platform/ChildKeyConsole";
+import KeyHandoffDialog from "@/components/platform/KeyHandoffDialog";
+import {
+  BulkJobDialog,
+  BulkKeyActionsBar,
+  splitTopupAmount,
+  type BulkJob,
+  type BulkRelabel,
+} from "@/components/platform/BulkKeyActions";
+import KeyListToolbar, {
+  DEFAULT_KEY_LIST_VIEW,
+  applyKeyListView,
+  type KeyListView,
+} from "@/components/platform/KeyListToolbar";
+import KeyMetadataEditor, { type KeyMetadata } from "@/components/platform/KeyMetadataEditor";
+import KeyUsagePanel from "@/components/platform/KeyUsagePanel";
 import NodeKeyWorkflows from "@/components/platform/NodeKeyWorkflows";
 import {
   Dialog,
@@ -59,14 +81,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
-
-export interface StoredApiKey {
-  key: string;
-  balance: number | null;
-  label?: string;
-  baseUrl?: string;
-  isInvalid?: boolean;
-}
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
 type DirectoryProvider = {
   endpoint_url?: string;
@@ -76,25 +91,13 @@ type DirectoryProvider = {
   onion_urls?: string[];
 };
 
+type KeysView = "keys" | "usage" | "auto-topup" | "child-keys";
+
 const CHAT_LOCAL_API_KEYS_STORAGE_KEY = "api_keys";
 const LOCAL_CASHU_TOKENS_STORAGE_KEY = "local_cashu_tokens";
-const NOSTR_APP_CONFIG_STORAGE_KEY = "nostr:app-config";
-const NOSTR_RELAYS_STORAGE_KEY = "nostr_relays";
-const API_KEYS_SYNC_KIND = 30078;
-const API_KEYS_SYNC_D_TAG = "routstr-chat-api-keys-v1";
-const FALLBACK_MINT_URL = "https://mint.minibits.cash/Bitcoin";
 const ACTIVE_MINT_STORAGE_KEY = "platform_active_mint_url";
-type MintUnit = "sat" | "msat";
-type CreateTokenOptions = {
-  strictPreferredMint?: boolean;
-};
-
-const DEFAULT_SYNC_RELAYS = [
-  "wss://relay.chorus.community",
-  "wss://relay.damus.io",
-  "wss://relay.nostr.band",
-  "wss://nos.lol",
-];
+const AUTO_BALANCE_REFRESH_MS = 5 * 60 * 1000;
+const KEY_LIST_VIEW_STORAGE_KEY = "platform_api_keys_view";
 const RECOMMENDED_PROVIDERS: Array<{
   url: string;
   label: string;
@@ -134,78 +137,6 @@ function isCloudSyncCapableAccount(
   );
 }
 
-function parseStoredApiKeys(raw: string | null): StoredApiKey[] {
-  if (!raw) return [];
-  try {
-    const parsed = JSON.parse(raw);
-    if (!Array.isArray(parsed)) return [];
-    return parsed
-      .filter(
-        (item): item is StoredApiKey =>
-          !!item &&
-          typeof item === "object" &&
-          typeof (item as StoredApiKey).key === "string"
-      )
-      .map((item) => ({
-        key: item.key,
-        balance:
-          typeof item.balance === "number" && Number.isFinite(item.balance)
-            ? item.balance
-            : null,
-        label: typeof item.label === "string" ? item.label : undefined,
-        baseUrl: typeof item.baseUrl === "string" ? item.baseUrl : undefined,
-        isInvalid: Boolean(item.isInvalid),
-      }));
-  } catch {
-    return [];
-  }
-}
-
-function uniqueRelayUrls(candidates: string[]): string[] {
-  const urls = new Set<string>();
-  for (const candidate of candidates) {
-    if (typeof candidate !== "string") continue;
-    const trimmed = candidate.trim();
-    if (!trimmed) continue;
-    if (!/^wss?:\/\//i.test(trimmed)) continue;
-    urls.add(trimmed);
-  }
-  return Array.from(urls);
-}
-
-function getConfiguredRelayUrls(): string[] {
-  if (typeof window === "undefined") return DEFAULT_SYNC_RELAYS;
-
-  const fromAppConfig = (() => {
-    try {
-      const raw = localStorage.getItem(NOSTR_APP_CONFIG_STORAGE_KEY);
-      if (!raw) return [];
-      const parsed = JSON.parse(raw) as { relayUrls?: string[] };
-      return Array.isArray(parsed?.relayUrls) ? parsed.relayUrls : [];
-    } catch {
-      return [];
-    }
-  })();
-
-  const fromRelayStorage = (() => {
-    try {
-      const raw = localStorage.getItem(NOSTR_RELAYS_STORAGE_KEY);
-      if (!raw) return [];
-      const parsed = JSON.parse(raw);
-      return Array.isArray(parsed) ? parsed : [];
-    } catch {
-      return [];
-    }
-  })();
-
-  const relays = uniqueRelayUrls([
-    ...fromAppConfig,
-    ...fromRelayStorage,
-    ...DEFAULT_SYNC_RELAYS,
-  ]);
-  return relays.length > 0 ? relays : DEFAULT_SYNC_RELAYS;
-}
-
 function isOnionUrl(url: string): boolean {
   if (!url) return false;
   try {
@@ -230,318 +161,32 @@ function normalizeMintUrl(url: string): string {
   return withProtocol.replace(/\/+$/, "");
 }
 
-function proofIdentity(proof: WalletProof): string {
-  if (typeof proof.secret === "string" && proof.secret.length > 0) {
-    return proof.secret;
-  }
-  return `${String(proof.id)}:${Number(proof.amount)}:${String(proof.C || "")}`;
-}
-
-function sumProofsBalanceSats(proofs: WalletProof[]): number {
-  return proofs.reduce((sum, proof) => sum + Number(proof.amount || 0), 0);
-}
-
-async function removeSpentProofsForMint(
-  wallet: CashuWallet,
-  proofsForMint: WalletProof[]
-): Promise<WalletProof[]> {
-  const proofStates = await wallet.checkProofsStates(proofsForMint as CashuProof[]);
-  if (!Array.isArray(proofStates) || proofStates.length === 0) {
-    return proofsForMint;
-  }
-
-  const spentProofIds = new Set<string>();
-  const remainingProofs: WalletProof[] = [];
-  proofsForMint.forEach((proof, index) => {
-    const state = proofStates[index]?.state;
-    if (state === CheckStateEnum.SPENT) {
-      spentProofIds.add(proofIdentity(proof));
-      return;
-    }
-    remainingProofs.push(proof);
-  });
-
-  if (spentProofIds.size === 0) {
-    return proofsForMint;
-  }
-
-  const currentProofs = readCashuProofs() as WalletProof[];
-  const nextProofs = currentProofs.filter(
-    (proof) => !spentProofIds.has(proofIdentity(proof))
-  );
-  writeCashuProofs(nextProofs);
-  return remainingProofs;
-}
-
-function encodeCashuTokenV4(
-  mintUrl: string,
-  unit: MintUnit,
-  proofs: CashuProof[]
-): string {
-  const normalizedProofs = proofs.map((proof) => ({
-    id: String(proof.id || ""),
-    amount: Number(proof.amount || 0),
-    secret: String(proof.secret || ""),
-    C: String(proof.C || ""),
-  }));
-
-  if (
-    normalizedProofs.some(
-      (proof) =>
-        !proof.id ||
-        !proof.secret ||
-        !proof.C ||
-        !Number.isFinite(proof.amount) ||
-        proof.amount <= 0
-    )
-  ) {
-    throw new Error("Mint returned invalid proofs for token generation");
-  }
-
-  return getEncodedTokenV4({
-    mint: mintUrl,
-    unit,
-    proofs: normalizedProofs,
-  });
-}
-
-async function createWalletForMint(
-  candidateMintUrl: string
-): Promise<{ wallet: CashuWallet; unit: MintUnit; preferredKeysetId?: string }> {
-  const mint = new CashuMint(candidateMintUrl);
-  const keysets = await mint.getKeySets();
-  const activeKeysets = keysets.keysets.filter((keyset) => keyset.active);
-  const msatKeyset = activeKeysets.find(
-    (keyset) => String(keyset.unit).toLowerCase() === "msat"
-  );
-  const satKeyset = activeKeysets.find(
-    (keyset) => String(keyset.unit).toLowerCase() === "sat"
-  );
-  const preferredUnit = msatKeyset ? "msat" : satKeyset ? "sat" : null;
-
-  if (!preferredUnit) {
-    const units = [...new Set(activeKeysets.map((keyset) => String(keyset.unit).toLowerCase()))];
-    throw new Error(
-      `Mint ${candidateMintUrl} has no active sat/msat keyset (units: ${
-        units.join(", ") || "none"
-      })`
-    );
-  }
-
-  const wallet = new CashuWallet(mint, { unit: preferredUnit });
-  await wallet.loadMint();
-  return {
-    wallet,
-    unit: preferredUnit,
-    preferredKeysetId: (preferredUnit === "msat" ? msatKeyset?.id : satKeyset?.id) || undefined,
-  };
-}
-
 async function fetchAcceptedMints(baseUrl: string): Promise<string[]> {
   try {
-    const response = await fetch(`${baseUrl}v1/info`, {
-      cache: "no-store",
-    });
-    if (!response.ok) return [];
-    const payload = (await response.json()) as { mints?: string[] };
-    if (!Array.isArray(payload?.mints)) return [];
-    return payload.mints.map((mint) => normalizeMintUrl(mint)).filter(Boolean);
+    const mints = await new RoutstrNodeClient(baseUrl).getAcceptedMints();
+    return mints.map((mint) => normalizeMintUrl(mint)).filter(Boolean);
   } catch {
     return [];
   }
 }
 
+function readStoredKeyListView(): KeyListView {
+  if (typeof window === "undefined") return DEFAULT_KEY_LIST_VIEW;
+  return {
+    ...DEFAULT_KEY_LIST_VIEW,
+    ...safeJsonParse<Partial<KeyListView>>(
+      localStorage.getItem(KEY_LIST_VIEW_STORAGE_KEY),
+      {}
+    ),
+    search: "",
+  };
+}
+
 function readStoredActiveMint(): string {
   if (typeof window === "undefined") return "";
   return normalizeMintUrl(localStorage.getItem(ACTIVE_MINT_STORAGE_KEY) || "");
 }
 
-async function getMintBalanceSats(mintUrl: string): Promise<number> {
-  const normalizedMint = normalizeMintUrl(mintUrl);
-  if (!normalizedMint) return 0;
-
-  const proofsForMint = getProofsForMint(
-    readCashuProofs() as WalletProof[],
-    normalizedMint
-  );
-  if (!Array.isArray(proofsForMint) || proofsForMint.length === 0) {
-    return 0;
-  }
-
-  const rawBalance = sumProofsBalanceSats(proofsForMint);
-  if (!Number.isFinite(rawBalance) || rawBalance <= 0) {
-    return 0;
-  }
-
-  try {
-    const { unit } = await createWalletForMint(normalizedMint);
-    return unit === "msat" ? rawBalance / 1000 : rawBalance;
-  } catch {
-    return rawBalance;
-  }
-}
-
-async function createTokenFromBalance(
-  amountSats: number,
-  nodeMints: string[],
-  preferredMint: string,
-  transactionMessage: string,
-  options: CreateTokenOptions = {}
-): Promise<{ token: string }> {
-  const initialProofs = readCashuProofs() as WalletProof[];
-  if (!Array.isArray(initialProofs) || initialProofs.length === 0) {
-    throw new Error("No wallet balance available");
-  }
-
-  const walletMintBalances = new Map<string, number>();
-  for (const proof of initialProofs) {
-    const mint = normalizeMintUrl(proof.mintUrl || "");
-    if (!mint) continue;
-    walletMintBalances.set(
-      mint,
-      (walletMintBalances.get(mint) || 0) + Number(proof.amount || 0)
-    );
-  }
-
-  const sortedWalletMints = Array.from(walletMintBalances.entries())
-    .sort((a, b) => b[1] - a[1])
-    .map(([mint]) => mint);
-
-  const normalizedNodeMints = Array.from(
-    new Set(nodeMints.map((mint) => normalizeMintUrl(mint)).filter(Boolean))
-  );
-  const sortedNodeMints = normalizedNodeMints.sort(
-    (a, b) => (walletMintBalances.get(b) || 0) - (walletMintBalances.get(a) || 0)
-  );
-
-  const nodeMintSet = new Set(sortedNodeMints);
-  const hasNodeMintHints = nodeMintSet.size > 0;
-  const normalizedPreferredMint = normalizeMintUrl(preferredMint);
-  const strictPreferredMint = options.strictPreferredMint === true;
-
-  if (strictPreferredMint && !normalizedPreferredMint) {
-    throw new Error("No active mint selected");
-  }
-
-  if (
-    strictPreferredMint &&
-    hasNodeMintHints &&
-    normalizedPreferredMint &&
-    !nodeMintSet.has(normalizedPreferredMint)
-  ) {
-    throw new Error("Active mint is not supported by the selected node");
-  }
-
-  const baseCandidates = strictPreferredMint
-    ? [normalizedPreferredMint]
-    : Array.from(
-        new Set(
-          [
-            normalizedPreferredMint,
-            ...sortedWalletMints,
-            normalizeMintUrl(FALLBACK_MINT_URL),
-          ].filter(Boolean)
-        )
-      );
-  const candidates = strictPreferredMint
-    ? baseCandidates
-    : hasNodeMintHints
-      ? [
-          ...baseCandidates.filter((mint) => nodeMintSet.has(mint)),
-          ...baseCandidates.filter((mint) => !nodeMintSet.has(mint)),
-        ]
-      : baseCandidates;
-
-  if (candidates.length === 0) {
-    throw new Error("No eligible mint found for wallet balance");
-  }
-
-  let lastError: unknown = null;
-
-  for (const mint of candidates) {
-    try {
-      const { wallet, unit, preferredKeysetId } = await createWalletForMint(mint);
-      let proofsSnapshot = readCashuProofs() as WalletProof[];
-      let proofsForMint = getProofsForMint(proofsSnapshot, mint);
-      if (!Array.isArray(proofsForMint) || proofsForMint.length === 0) {
-        continue;
-      }
-      const amountInMintUnit = unit === "msat" ? amountSats * 1000 : amountSats;
-      const availableForMint = sumProofsBalanceSats(proofsForMint);
-      if (availableForMint < amountInMintUnit) {
-        continue;
-      }
-
-      const sendOptions = {
-        ...(preferredKeysetId ? { keysetId: preferredKeysetId } : {}),
-      };
-      let sendResult: Awaited<ReturnType<CashuWallet["send"]>>;
-      try {
-        sendResult = await wallet.send(amountInMintUnit, proofsForMint as CashuProof[], {
-          ...sendOptions,
-          includeFees: true,
-        });
-      } catch (firstSendError) {
-        const firstMessage =
-          firstSendError instanceof Error
-            ? firstSendError.message
-            : String(firstSendError);
-        if (
-          firstMessage.includes("Not enough funds available") ||
-          firstMessage.includes("Token already spent") ||
-          firstMessage.includes("Not enough balance to send")
-        ) {
-          proofsForMint = await removeSpentProofsForMint(wallet, proofsForMint);
-          if (proofsForMint.length === 0) {
-            throw new Error("Token already spent. Please sync wallet and retry.");
-          }
-          proofsSnapshot = readCashuProofs() as WalletProof[];
-          if (sumProofsBalanceSats(proofsForMint) < amountInMintUnit) {
-            throw new Error("Not enough funds on this mint after removing spent proofs");
-          }
-          sendResult = await wallet.send(amountInMintUnit, proofsForMint as CashuProof[], {
-            ...sendOptions,
-          });
-        } else {
-          throw firstSendError;
-        }
-      }
-
-      const sendProofs = (sendResult?.send || []) as CashuProof[];
-      const keepProofs = (sendResult?.keep || []) as CashuProof[];
-      if (sendProofs.length === 0) {
-        throw new Error("Unable to generate Cashu token");
-      }
-
-      const mintedProofIds = new Set(proofsForMint.map((proof) => proofIdentity(proof)));
-      const untouched = proofsSnapshot.filter(
-        (proof) => !mintedProofIds.has(proofIdentity(proof))
-      );
-      const keepWithMetadata = annotateProofsWithMint(keepProofs, mint);
-      writeCashuProofs([...untouched, ...keepWithMetadata]);
-
-      const nextBalance = getProofsBalanceSats();
-      appendTransaction({
-        type: "send",
-        amount: amountSats,
-        timestamp: Date.now(),
-        status: "success",
-        message: transactionMessage,
-        balance: nextBalance,
-      });
-
-      return { token: encodeCashuTokenV4(mint, unit, sendProofs) };
-    } catch (error) {
-      lastError = error;
-    }
-  }
-
-  if (lastError instanceof Error) {
-    throw new Error(lastError.message);
-  }
-  throw new Error("Insufficient wallet balance on available mints");
-}
-
 function shouldAllowHttp(url: string): boolean {
   return !url.startsWith("http://");
 }
@@ -649,67 +294,6 @@ function readLocalApiKeys(
   return merged;
 }
 
-async function fetchCloudApiKeys(
-  account: CloudSyncCapableAccount,
-  fallbackBaseUrl: string
-): Promise<StoredApiKey[]> {
-  const relays = getConfiguredRelayUrls();
-  const pool = new SimplePool();
-  try {
-    const events = await pool.querySync(
-      relays,
-      {
-        kinds: [API_KEYS_SYNC_KIND],
-        authors: [account.pubkey],
-        "#d": [API_KEYS_SYNC_D_TAG],
-        limit: 50,
-      },
-      { maxWait: 6000 }
-    );
-
-    if (!events || events.length === 0) return [];
-
-    const latest = [...events].sort((a, b) => {
-      if (a.created_at !== b.created_at) return b.created_at - a.created_at;
-      return b.id.localeCompare(a.id);
-    })[0];
-
-    const decrypted = await account.nip44.decrypt(account.pubkey, latest.content);
-    const parsed = parseStoredApiKeys(decrypted);
-    return normalizeStoredKeys(parsed, fallbackBaseUrl);
-  } finally {
-    pool.close(relays);
-    pool.destroy();
-  }
-}
-
-async function publishCloudApiKeys(
-  account: CloudSyncCapableAccount,
-  keys: StoredApiKey[]
-): Promise<void> {
-  const relays = getConfiguredRelayUrls();
-  const pool = new SimplePool();
-  try {
-    const encryptedContent = await account.nip44.encrypt(
-      account.pubkey,
-      JSON.stringify(keys)
-    );
-
-    const eventTemplate: EventTemplate = {
-      kind: API_KEYS_SYNC_KIND,
-      created_at: Math.floor(Date.now() / 1000),
-      tags: [["d", API_KEYS_SYNC_D_TAG]],
-      content: encryptedContent,
-    };
-
-    const signedEvent = await account.signEvent(eventTemplate);
-    await Promise.allSettled(pool.publish(relays, signedEvent));
-  } finally {
-    pool.close(relays);
-    pool.destroy();
-  }
-}
-
 export default function ApiKeysPanel({
   baseUrl,
 }: {
@@ -777,9 +361,15 @@ export default function ApiKeysPanel({
 
   const [isAdding, setIsAdding] = useState(false);
   const [isRefreshingAll, setIsRefreshingAll] = useState(false);
+  const [keysView, setKeysView] = useState<KeysView>("keys");
+  const [keyToShare, setKeyToShare] = useState<KeyHandoff | null>(null);
   const [isRefreshingKey, setIsRefreshingKey] = useState<string | null>(null);
   const [isDeletingKey, setIsDeletingKey] = useState<string | null>(null);
   const [isTopupKey, setIsTopupKey] = useState<string | null>(null);
+  const [selectMode, setSelectMode] = useState(false);
+  const [selectedKeyIds, setSelectedKeyIds] = useState<Set<string>>(new Set());
+  const [bulkJob, setBulkJob] = useState<BulkJob | null>(null);
+  const [keyListView, setKeyListView] = useState<KeyListView>(readStoredKeyListView);
   const [isRefundingKey, setIsRefundingKey] = useState<string | null>(null);
   const [isCreatingKey, setIsCreatingKey] = useState(false);
   const [refundFailed, setRefundFailed] = useState(false);
@@ -823,24 +413,11 @@ export default function ApiKeysPanel({
         setIsSyncBootstrapping(true);
       }
       try {
-        const cloudKeys = await fetchCloudApiKeys(syncAccount, normalizedBaseUrl);
+        const result = await syncApiKeys(syncAccount, localKeys);
         if (cancelled) return;
-        if (cloudKeys.length > 0) {
-          setStoredApiKeys(cloudKeys);
-          localStorage.setItem(CHAT_LOCAL_API_KEYS_STORAGE_KEY, JSON.stringify(cloudKeys));
-          return;
-        }
-
-        if (localKeys.length > 0) {
-          await publishCloudApiKeys(syncAccount, localKeys);
-          if (cancelled) return;
-          setStoredApiKeys(localKeys);
-          localStorage.removeItem(CHAT_LOCAL_API_KEYS_STORAGE_KEY);
-          return;
-        }
-
-        setStoredApiKeys([]);
-        localStorage.removeItem(CHAT_LOCAL_API_KEYS_STORAGE_KEY);
+        const mergedKeys = normalizeStoredKeys(result.keys, normalizedBaseUrl);
+        setStoredApiKeys(mergedKeys);
+        localStorage.setItem(CHAT_LOCAL_API_KEYS_STORAGE_KEY, JSON.stringify(mergedKeys));
       } catch {
         if (cancelled) return;
         setStoredApiKeys(localKeys);
@@ -858,35 +435,64 @@ export default function ApiKeysPanel({
     };
   }, [syncAccount, normalizedBaseUrl, cloudSyncEnabled]);
 
+  /**
+   * Saves the key list. Pass an updater for changes computed after awaiting
+   * something, so keys added or edited meanwhile aren't overwritten.
+   */
   const persistKeys = async (
-    keys: StoredApiKey[],
+    keys: StoredApiKey[] | ((current: StoredApiKey[]) => StoredApiKey[]),
     successMessage?: string
   ): Promise<void> => {
-    setStoredApiKeys(keys);
-    localStorage.setItem(CHAT_LOCAL_API_KEYS_STORAGE_KEY, JSON.stringify(keys));
+    const current = readLocalApiKeys(normalizedBaseUrl);
+    const stampedKeys = stampApiKeyChanges(
+      current,
+      typeof keys === "function" ? keys(current) : keys
+    );
+    setStoredApiKeys(stampedKeys);
+    localStorage.setItem(CHAT_LOCAL_API_KEYS_STORAGE_KEY, JSON.stringify(stampedKeys));
 
+    let queued = false;
     if (cloudSyncEnabled) {
       if (!syncAccount) {
         throw new Error("User not logged in");
       }
-      await publishCloudApiKeys(syncAccount, keys);
+      // Merge rather than overwrite so edits from other devices survive
+      const result = await syncApiKeys(syncAccount, stampedKeys);
+      const mergedKeys = normalizeStoredKeys(result.keys, normalizedBaseUrl);
+      setStoredApiKeys(mergedKeys);
+      localStorage.setItem(CHAT_LOCAL_API_KEYS_STORAGE_KEY, JSON.stringify(mergedKeys));
+      queued = !result.synced;
     }
     window.dispatchEvent(new Event("platform-api-keys-updated"));
     if (successMessage) {
-      toast.success(successMessage);
+      toast.success(
+        queued ? "Saved locally. Cloud sync will retry when relays are reachable." : successMessage
+      );
     }
   };
 
+  useEffect(() => {
+    // Keys can be added in the background, e.g. when a node invoice is paid
+    const reloadLocalKeys = () => {
+      setStoredApiKeys(readLocalApiKeys(normalizedBaseUrl));
+    };
+    window.addEventListener("platform-api-keys-updated", reloadLocalKeys);
+    return () => {
+      window.removeEventListener("platform-api-keys-updated", reloadLocalKeys);
+    };
+  }, [normalizedBaseUrl]);
+
   useEffect(() => {
     if (!cloudSyncEnabled || !syncAccount) return;
 
     let cancelled = false;
     const syncFromCloud = async () => {
       try {
-        const cloudKeys = await fetchCloudApiKeys(syncAccount, normalizedBaseUrl);
+        const result = await syncApiKeys(syncAccount, readLocalApiKeys(normalizedBaseUrl));
         if (cancelled) return;
-        setStoredApiKeys(cloudKeys);
-        localStorage.setItem(CHAT_LOCAL_API_KEYS_STORAGE_KEY, JSON.stringify(cloudKeys));
+        const mergedKeys = normalizeStoredKeys(result.keys, normalizedBaseUrl);
+        setStoredApiKeys(mergedKeys);
+        localStorage.setItem(CHAT_LOCAL_API_KEYS_STORAGE_KEY, JSON.stringify(mergedKeys));
         window.dispatchEvent(new Event("platform-api-keys-updated"));
       } catch {
         // Keep current keys on transient relay/network errors
@@ -909,14 +515,6 @@ export default function ApiKeysPanel({
     };
   }, [syncAccount, normalizedBaseUrl, cloudSyncEnabled]);
 
-  const deleteApiKeyFromCloud = async (keyToDelete: string): Promise<void> => {
-    if (!syncAccount) {
-      throw new Error("User not logged in");
-    }
-    const updatedKeys = storedApiKeys.filter((keyData) => keyData.key !== keyToDelete);
-    await publishCloudApiKeys(syncAccount, updatedKeys);
-  };
-
   useEffect(() => {
     let cancelled = false;
 
@@ -1055,72 +653,45 @@ export default function ApiKeysPanel({
   };
 
   const fetchKeyInfo = async (base: string, key: string) => {
-    const response = await fetch(`${base}v1/wallet/info`, {
-      headers: {
-        Authorization: `Bearer ${key}`,
-      },
-    });
-
-    if (!response.ok) {
-      let message = "Failed to fetch key info";
-      try {
-        const data = await response.json();
-        if (data?.detail?.error?.code === "invalid_api_key") {
-          message = "Invalid API key";
-        }
-      } catch {
-        // ignore
+    try {
+      return await new RoutstrNodeClient(base).getWalletInfo(key);
+    } catch (error) {
+      if (isRoutstrNodeError(error, "invalid_api_key")) {
+        throw new Error("Invalid API key");
       }
-      throw new Error(message);
+      throw error;
     }
-
-    const data = await response.json();
-    return {
-      apiKey: String(data.api_key || data.apiKey || key),
-      balance: Number(data.balance ?? 0),
-    };
   };
 
   const fetchUpdatedKey = async (
-    keyData: StoredApiKey
+    keyData: StoredApiKey,
+    source: BalanceSnapshotSource = "manual"
   ): Promise<{
     updatedKey: StoredApiKey | null;
     error: "invalid_api_key" | "network" | "other" | null;
   }> => {
     const urlToUse = getKeyBase(keyData);
     try {
-      const response = await fetch(`${urlToUse}v1/wallet/info`, {
-        headers: {
-          Authorization: `Bearer ${keyData.key}`,
-        },
-      });
-
-      if (!response.ok) {
-        try {
-          const data = await response.json();
-          if (data?.detail?.error?.code === "invalid_api_key") {
-            return {
-              updatedKey: { ...keyData, balance: null, isInvalid: true },
-              error: "invalid_api_key",
-            };
-          }
-        } catch {
-          // ignore parse errors
-        }
-        return { updatedKey: null, error: "other" };
-      }
-
-      const data = await response.json();
+      const info = await new RoutstrNodeClient(urlToUse).getWalletInfo(keyData.key);
+      recordBalanceSnapshot(keyData.key, urlToUse, info.balance, source);
+      const spent = keyData.balance !== null && info.balance < keyData.balance;
       return {
         updatedKey: {
           ...keyData,
-          balance: Number(data.balance ?? 0),
+          balance: info.balance,
           isInvalid: false,
+          lastUsedAt: spent ? Date.now() : keyData.lastUsedAt,
         },
         error: null,
       };
     } catch (error) {
-      if (error instanceof TypeError) {
+      if (isRoutstrNodeError(error, "invalid_api_key")) {
+        return {
+          updatedKey: { ...keyData, balance: null, isInvalid: true },
+          error: "invalid_api_key",
+        };
+      }
+      if (isRoutstrNodeError(error, "network") || isRoutstrNodeError(error, "timeout")) {
         return {
           updatedKey: { ...keyData, balance: null, isInvalid: true },
           error: "network",
@@ -1176,7 +747,7 @@ export default function ApiKeysPanel({
         isInvalid: false,
       };
       await persistKeys(
-        [...storedApiKeys, candidate],
+        (current) => [...current, candidate],
         cloudSyncEnabled
           ? "API Key added and synced to cloud successfully!"
           : "API Key added and stored locally!"
@@ -1193,24 +764,51 @@ export default function ApiKeysPanel({
     }
   };
 
+  /** Runs auto top-up rules on fresh balances and re-reads keys that were topped up. */
+  const applyAutoTopups = async (keys: StoredApiKey[]): Promise<StoredApiKey[]> => {
+    const attempts = await runAutoTopups(keys, {
+      syncAccount,
+      fallbackBaseUrl: normalizedBaseUrl,
+    });
+    const toppedUp = new Set<string>();
+    for (const entry of attempts) {
+      // An unconfirmed top-up may still have reached the node, so re-read it too
+      if (entry.status !== "failed") toppedUp.add(entry.key);
+      if (entry.status === "success") {
+        toast.success(`Auto top-up added ${entry.amountSats} sats to ${entry.label}`);
+      } else {
+        toast.error(`Auto top-up failed for ${entry.label}: ${entry.error || "unknown error"}`);
+      }
+    }
+    if (toppedUp.size === 0) return keys;
+
+    return Promise.all(
+      keys.map(async (keyData) => {
+        if (!toppedUp.has(keyData.key)) return keyData;
+        const { updatedKey, error } = await fetchUpdatedKey(keyData, "auto");
+        return updatedKey && !error ? updatedKey : keyData;
+      })
+    );
+  };
+
   const refreshSingleKey = async (keyData: StoredApiKey) => {
     const targetId = getKeyId(keyData);
     setIsRefreshingKey(targetId);
     try {
       const { updatedKey, error } = await fetchUpdatedKey(keyData);
       if (updatedKey) {
-        const updated = storedApiKeys.map((item) =>
-          getKeyId(item) === targetId ? updatedKey : item
+        const [checkedKey] = await applyAutoTopups([updatedKey]);
+        await persistKeys(
+          (current) => current.map((item) => (getKeyId(item) === targetId ? checkedKey : item)),
+          "API key balance refreshed!"
         );
-        await persistKeys(updated, "API key balance refreshed!");
         return;
       }
       const fallback = handleFetchError(error, keyData, "single");
       if (fallback) {
-        const updated = storedApiKeys.map((item) =>
-          getKeyId(item) === targetId ? fallback : item
+        await persistKeys((current) =>
+          current.map((item) => (getKeyId(item) === targetId ? fallback : item))
         );
-        await persistKeys(updated);
       }
     } finally {
       setIsRefreshingKey(null);
@@ -1230,8 +828,11 @@ export default function ApiKeysPanel({
           if (fallback) updated.push(fallback);
         }
       }
+      const checked = new Map(
+        (await applyAutoTopups(updated)).map((keyData) => [getKeyId(keyData), keyData])
+      );
       await persistKeys(
-        updated,
+        (current) => current.map((item) => checked.get(getKeyId(item)) ?? item),
         cloudSyncEnabled
           ? "API Key balances refreshed and synced to cloud!"
           : "API Key balances refreshed!"
@@ -1241,6 +842,69 @@ export default function ApiKeysPanel({
     }
   };
 
+  const autoRefreshBalancesRef = useRef<() => Promise<void>>(async () => {});
+  autoRefreshBalancesRef.current = async () => {
+    if (isRefreshingAll || isRefreshingKey || storedApiKeys.length === 0) return;
+    let changed = false;
+    const updated: StoredApiKey[] = [];
+    for (const keyData of storedApiKeys) {
+      if (keyData.isInvalid) {
+        updated.push(keyData);
+        continue;
+      }
+      const { updatedKey, error } = await fetchUpdatedKey(keyData, "auto");
+      // Transient failures shouldn't mark keys invalid in the background
+      if (updatedKey && !error && updatedKey.balance !== keyData.balance) {
+        changed = true;
+        updated.push(updatedKey);
+      } else {
+        updated.push(keyData);
+      }
+    }
+    const checked = await applyAutoTopups(updated);
+    if (!changed && checked === updated) return;
+    const latest = new Map(checked.map((keyData) => [getKeyId(keyData), keyData]));
+    await persistKeys((current) => current.map((item) => latest.get(getKeyId(item)) ?? item));
+  };
+
+  useEffect(() => {
+    const intervalId = window.setInterval(() => {
+      if (document.visibilityState !== "visible") return;
+      void autoRefreshBalancesRef.current().catch(() => {
+        // Background refresh; the next manual refresh surfaces errors
+      });
+    }, AUTO_BALANCE_REFRESH_MS);
+    return () => {
+      window.clearInterval(intervalId);
+    };
+  }, []);
+
+  useEffect(() => {
+    const persisted: Partial<KeyListView> = { ...keyListView };
+    delete persisted.search;
+    localStorage.setItem(KEY_LIST_VIEW_STORAGE_KEY, JSON.stringify(persisted));
+  }, [keyListView]);
+
+  const visibleKeyGroups = useMemo(
+    () => applyKeyListView(storedApiKeys, keyListView, normalizedBaseUrl),
+    [storedApiKeys, keyListView, normalizedBaseUrl]
+  );
+
+  const saveKeyMetadata = async (keyData: StoredApiKey, metadata: KeyMetadata) => {
+    const targetId = getKeyId(keyData);
+    const updated = storedApiKeys.map((item) =>
+      getKeyId(item) === targetId ? { ...item, ...metadata } : item
+    );
+    try {
+      await persistKeys(
+        updated,
+        cloudSyncEnabled ? "Key details saved and synced to cloud!" : "Key details saved!"
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save key details");
+    }
+  };
+
   const startRename = (keyData: StoredApiKey) => {
     const keyId = getKeyId(keyData);
     setEditingLabelKey(keyId);
@@ -1268,40 +932,17 @@ export default function ApiKeysPanel({
     keyData: StoredApiKey
   ): Promise<{ token?: string; requestId?: string }> => {
     const base = getKeyBase(keyData);
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 60000);
     try {
-      const response = await fetch(`${base}v1/wallet/refund`, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${keyData.key}`,
-          "Content-Type": "application/json",
-        },
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeoutId);
-      const requestId = response.headers.get("x-routstr-request-id") || undefined;
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => null);
-        if (response.status === 400 && errorData?.detail === "No balance to refund") {
-          throw new Error("No balance to refund");
-        }
+      return await new RoutstrNodeClient(base).refund(keyData.key);
+    } catch (error) {
+      if (isRoutstrNodeError(error, "insufficient_balance")) {
+        throw new Error("No balance to refund");
+      }
+      if (isRoutstrNodeError(error, "http") && error.status) {
         throw new Error(
-          `Refund request failed with status ${response.status}: ${
-            errorData?.detail || response.statusText
-          }`
+          `Refund request failed with status ${error.status}: ${error.message}`
         );
       }
-
-      const data = (await response.json()) as { token?: string };
-      return { token: data.token, requestId };
-    } catch (error) {
-      clearTimeout(timeoutId);
-      if (error instanceof Error && error.name === "AbortError") {
-        throw new Error("Request timed out after 1 minute");
-      }
       throw error instanceof Error ? error : new Error("Refund failed");
     }
   };
@@ -1310,32 +951,37 @@ export default function ApiKeysPanel({
     mintUrl: string,
     amount: number,
     base: string,
-    transactionMessage: string
+    transactionMessage: string,
+    purpose: string
   ): Promise<{
     token: string | null;
+    reservationId: string | null;
     status: "success" | "failed";
     balance: number;
     error?: string;
   }> => {
     try {
       const nodeMints = await fetchAcceptedMints(base);
-      const { token } = await createTokenFromBalance(
-        amount,
+      const { token, reservationId } = await sendCashuToken(amount, {
         nodeMints,
-        mintUrl,
-        transactionMessage
-      );
+        preferredMint: mintUrl,
+        message: transactionMessage,
+        purpose,
+        syncAccount,
+      });
       if (base) {
         setLocalCashuToken(base, token);
       }
       return {
         token,
+        reservationId,
         status: "success",
         balance: amount,
       };
     } catch (error) {
       return {
         token: null,
+        reservationId: null,
         status: "failed",
         balance: 0,
         error: error instanceof Error ? error.message : String(error),
@@ -1343,74 +989,29 @@ export default function ApiKeysPanel({
     }
   };
 
-  const storeRefundToken = async (token: string): Promise<number> => {
-    const decoded = getDecodedToken(token);
-    const mintUrl = normalizeMintUrl(String(decoded?.mint || ""));
-    if (!mintUrl) {
-      throw new Error("Refund returned an invalid token (missing mint)");
-    }
-
-    const proofsBefore = readCashuProofs() as WalletProof[];
-    const { wallet } = await createWalletForMint(mintUrl);
-    const receiveResult = await wallet.receive(token);
-    const receivedProofs = Array.isArray(receiveResult)
-      ? (receiveResult as CashuProof[])
-      : (receiveResult &&
-            typeof receiveResult === "object" &&
-            Array.isArray((receiveResult as { proofs?: unknown }).proofs)
-        ? ((receiveResult as { proofs: CashuProof[] }).proofs as CashuProof[])
-        : []);
-
-    if (!receivedProofs.length) {
-      throw new Error("Refund token contained no spendable proofs");
-    }
-
-    const annotatedReceivedProofs = annotateProofsWithMint(receivedProofs, mintUrl);
-    const proofsAfter = [...proofsBefore, ...annotatedReceivedProofs];
-    writeCashuProofs(proofsAfter);
-
-    if (syncAccount) {
-      const beforeMintProofs = getProofsForMint(proofsBefore, mintUrl);
-      const afterMintProofs = getProofsForMint(proofsAfter, mintUrl);
-      const eventIdsToDelete = Array.from(
-        new Set(
-          beforeMintProofs
-            .map((proof) => proof.eventId)
-            .filter((eventId): eventId is string => typeof eventId === "string")
-        )
-      );
-
-      const newEventId = await publishNip60MintSnapshot(
-        syncAccount,
-        mintUrl,
-        afterMintProofs,
-        eventIdsToDelete
-      );
-
-      writeCashuProofs(
-        proofsAfter.map((proof) =>
-          normalizeMintUrl(proof.mintUrl || "") === mintUrl
-            ? { ...proof, eventId: newEventId }
-            : proof
-        )
+  const reclaimSpentToken = async (reservationId: string | null, base: string) => {
+    if (!reservationId) return;
+    try {
+      const { reclaimed, amountSats } = await reclaimSend(reservationId, { syncAccount });
+      if (reclaimed) {
+        removeLocalCashuToken(base);
+        toast.success(`Reclaimed ${amountSats} sats back to your wallet`);
+      }
+    } catch (error) {
+      toast.error(
+        `${
+          error instanceof Error ? error.message : String(error)
+        }. The token is listed under pending tokens in the wallet.`
       );
     }
+  };
 
-    const amountInMintUnit = receivedProofs.reduce(
-      (sum, proof) => sum + Number(proof.amount || 0),
-      0
-    );
-    const amountSats = decoded?.unit === "msat" ? amountInMintUnit / 1000 : amountInMintUnit;
-
-    appendTransaction({
-      type: "refund",
-      amount: amountSats,
-      timestamp: Date.now(),
-      status: "success",
+  const storeRefundToken = async (token: string): Promise<number> => {
+    const { amountSats } = await receiveCashuToken(token, {
+      transactionType: "refund",
       message: "API key refund received",
-      balance: getProofsBalanceSats(),
+      syncAccount,
     });
-
     return amountSats;
   };
 
@@ -1439,22 +1040,35 @@ export default function ApiKeysPanel({
     }
   };
 
+  const removeKeys = async (keyIds: string[], successMessage: string) => {
+    const removed = new Set(keyIds);
+    const keep = (items: StoredApiKey[]) => items.filter((item) => !removed.has(getKeyId(item)));
+    removeKeyUsageHistory(keyIds);
+    removeAutoTopupRules(keyIds);
+    removeChildKeysForParents(keyIds);
+    if (cloudSyncEnabled) {
+      await persistKeys(keep, successMessage);
+    } else {
+      const updated = keep(readLocalApiKeys(normalizedBaseUrl));
+      recordApiKeyDeletions(keyIds);
+      localStorage.setItem(CHAT_LOCAL_API_KEYS_STORAGE_KEY, JSON.stringify(updated));
+      setStoredApiKeys(updated);
+      toast.success(successMessage);
+      window.dispatchEvent(new Event("platform-api-keys-updated"));
+    }
+  };
+
   const deleteKey = async () => {
     if (!keyToDelete) return;
     const deleteId = getKeyId(keyToDelete);
     setIsDeletingKey(deleteId);
     try {
-      const updated = storedApiKeys.filter((item) => getKeyId(item) !== deleteId);
-      if (cloudSyncEnabled) {
-        await deleteApiKeyFromCloud(deleteId);
-        setStoredApiKeys(updated);
-        toast.success("API Key deleted and synced to cloud successfully!");
-      } else {
-        localStorage.setItem(CHAT_LOCAL_API_KEYS_STORAGE_KEY, JSON.stringify(updated));
-        setStoredApiKeys(updated);
-        toast.success("API Key deleted locally!");
-      }
-      window.dispatchEvent(new Event("platform-api-keys-updated"));
+      await removeKeys(
+        [deleteId],
+        cloudSyncEnabled
+          ? "API Key deleted and synced to cloud successfully!"
+          : "API Key deleted locally!"
+      );
       setShowDeleteDialog(false);
       setKeyToDelete(null);
       setRefundFailed(false);
@@ -1494,6 +1108,8 @@ export default function ApiKeysPanel({
 
   const confirmCreateApiKey = async () => {
     setIsCreatingKey(true);
+    let reservationId: string | null = null;
+    let reservationBase = "";
     try {
       let token: string | null | { hasTokens: false } | undefined;
 
@@ -1513,7 +1129,8 @@ export default function ApiKeysPanel({
         activeMint,
         Number.parseInt(createApiAmount, 10),
         createBase,
-        "Spent wallet balance for API key creation"
+        "Spent wallet balance for API key creation",
+        `Create API key on ${createBase}`
       );
 
       if (result.status === "failed" || !result.token) {
@@ -1524,34 +1141,30 @@ export default function ApiKeysPanel({
       }
 
       token = result.token;
-
-      const response = await fetch(`${createBase}v1/wallet/info`, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error("Failed to fetch API key from wallet endpoint");
-      }
-
-      const data = (await response.json()) as {
-        api_key?: string;
-        balance?: number | string;
-      };
-      const newApiKey = String(data.api_key || "").trim();
+      reservationId = result.reservationId;
+      reservationBase = createBase;
+
+      const info = await new RoutstrNodeClient(createBase)
+        .getWalletInfo(token)
+        .catch((error: unknown) => {
+          throw isRoutstrNodeError(error, "http")
+            ? new Error("Failed to fetch API key from wallet endpoint")
+            : error;
+        });
+      const newApiKey = info.apiKey;
       if (!newApiKey) {
         throw new Error("API key response did not include an api_key");
       }
-      const newApiKeyBalance = Number(data.balance ?? 0);
+      if (reservationId) await settleSend(reservationId);
+      reservationId = null;
       const newStoredKey: StoredApiKey = {
         key: newApiKey,
-        balance: Number.isFinite(newApiKeyBalance) ? newApiKeyBalance : 0,
+        balance: info.balance,
         label: createApiLabel || "Unnamed",
         baseUrl: createBase,
         isInvalid: false,
       };
-      const updatedKeys = [...storedApiKeys, newStoredKey];
+      const updatedKeys = (current: StoredApiKey[]) => [...current, newStoredKey];
       if (cloudSyncEnabled) {
         await persistKeys(updatedKeys, "API Key created and synced to cloud successfully!");
       } else {
@@ -1568,12 +1181,46 @@ export default function ApiKeysPanel({
           error instanceof Error ? error.message : String(error)
         }`
       );
+      await reclaimSpentToken(reservationId, reservationBase);
     } finally {
       setIsCreatingKey(false);
       setShowCreateDialog(false);
     }
   };
 
+  /** Spends `amountSats` from the active mint into one key; throws on failure. */
+  const topupKeyAmount = async (keyData: StoredApiKey, amountSats: number) => {
+    const base = getKeyBase(keyData);
+    if (!activeMintUrl) {
+      throw new Error("No active mint selected");
+    }
+
+    const result = await spendCashu(
+      activeMintUrl,
+      amountSats,
+      base,
+      "Spent wallet balance for API key top-up",
+      `Top up ${keyData.label || "API key"} on ${base}`
+    );
+    if (result.status === "failed" || !result.token) {
+      throw new Error(result.error || "Failed to generate Cashu token for top up.");
+    }
+
+    let reservationId = result.reservationId;
+    try {
+      const data = await new RoutstrNodeClient(base).topup(keyData.key, result.token);
+      if (reservationId) await settleSend(reservationId);
+      reservationId = null;
+      if (data.msats) removeLocalCashuToken(baseUrl);
+    } catch (error) {
+      await reclaimSpentToken(reservationId, base);
+      if (isRoutstrNodeError(error, "network") || isRoutstrNodeError(error, "timeout")) {
+        throw new Error(`Base URL ${base} is not responding`);
+      }
+      throw error;
+    }
+  };
+
   const topupKey = async () => {
     if (!keyToTopup || !topupAmount || Number.parseInt(topupAmount, 10) <= 0) {
       toast.error("Please enter a valid amount for top up.");
@@ -1583,62 +1230,205 @@ export default function ApiKeysPanel({
     const topupId = getKeyId(keyToTopup);
     setIsTopupKey(topupId);
     setShowTopupDialog(false);
-    const base = getKeyBase(keyToTopup);
     try {
-      let cashuToken: string | null | { hasTokens: false } | undefined;
-      const activeMint = activeMintUrl;
-      if (!activeMint) {
-        toast.error("No active mint selected");
-        return;
+      await topupKeyAmount(keyToTopup, Number.parseInt(topupAmount, 10));
+      toast.success(`Successfully topped up ${topupAmount} sats!`);
+      await refreshSingleKey(keyToTopup);
+    } catch (error) {
+      toast.error(
+        `Top up failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    } finally {
+      setIsTopupKey(null);
+      setTopupAmount("");
+      setKeyToTopup(null);
+    }
+  };
+
+  const selectedKeys = storedApiKeys.filter((keyData) =>
+    selectedKeyIds.has(getKeyId(keyData))
+  );
+
+  const toggleSelected = (keyId: string) => {
+    setSelectedKeyIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(keyId)) {
+        next.delete(keyId);
+      } else {
+        next.add(keyId);
       }
+      return next;
+    });
+  };
 
-      const result = await spendCashu(
-        activeMint,
-        Number.parseInt(topupAmount, 10),
-        base,
-        "Spent wallet balance for API key top-up"
+  const exitSelectMode = () => {
+    setSelectMode(false);
+    setSelectedKeyIds(new Set());
+  };
+
+  /**
+   * Runs `worker` on each key in turn, tracking per-key progress in the bulk
+   * job dialog. Returns the ids of keys the worker finished without throwing.
+   */
+  const runBulkJob = async (
+    title: string,
+    keys: StoredApiKey[],
+    worker: (keyData: StoredApiKey, index: number) => Promise<string | void>
+  ): Promise<Set<string>> => {
+    const updateItem = (keyId: string, patch: Partial<BulkJob["items"][number]>) => {
+      setBulkJob((prev) =>
+        prev
+          ? {
+              ...prev,
+              items: prev.items.map((item) =>
+                item.key === keyId ? { ...item, ...patch } : item
+              ),
+            }
+          : prev
       );
-      if (result.status === "failed" || !result.token) {
-        toast.error(result.error || "Failed to generate Cashu token for top up.");
-        return;
+    };
+
+    setBulkJob({
+      title,
+      finished: false,
+      items: keys.map((keyData) => ({
+        key: getKeyId(keyData),
+        label: keyData.label || "Unnamed",
+        status: "pending",
+      })),
+    });
+
+    const succeeded = new Set<string>();
+    for (const [index, keyData] of keys.entries()) {
+      const keyId = getKeyId(keyData);
+      updateItem(keyId, { status: "running" });
+      try {
+        const message = await worker(keyData, index);
+        succeeded.add(keyId);
+        updateItem(keyId, { status: "done", message: message || undefined });
+      } catch (error) {
+        updateItem(keyId, {
+          status: "failed",
+          message: error instanceof Error ? error.message : String(error),
+        });
       }
-      cashuToken = result.token;
-
-      const response = await fetch(
-        `${base}v1/wallet/topup?cashu_token=${encodeURIComponent(cashuToken)}`,
-        {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${keyToTopup.key}`,
-            "Content-Type": "application/json",
-          },
-        }
-      );
+    }
+    setBulkJob((prev) => (prev ? { ...prev, finished: true } : prev));
+    return succeeded;
+  };
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.detail || `Top up failed with status ${response.status}`);
+  const bulkRefresh = async () => {
+    const refreshed = new Map<string, StoredApiKey>();
+    await runBulkJob(`Refreshing ${selectedKeys.length} keys`, selectedKeys, async (keyData) => {
+      const { updatedKey, error } = await fetchUpdatedKey(keyData);
+      if (updatedKey) refreshed.set(getKeyId(keyData), updatedKey);
+      if (error === "invalid_api_key") throw new Error("Invalid API key");
+      if (error === "network") throw new Error(`${getKeyBase(keyData)} is not responding`);
+      if (error || !updatedKey) throw new Error("Error refreshing balance");
+      return formatSats(updatedKey.balance);
+    });
+    if (refreshed.size === 0) return;
+    const checked = new Map(
+      (await applyAutoTopups(Array.from(refreshed.values()))).map((keyData) => [
+        getKeyId(keyData),
+        keyData,
+      ])
+    );
+    await persistKeys((current) => current.map((item) => checked.get(getKeyId(item)) ?? item));
+  };
+
+  const bulkRefundAndDelete = async () => {
+    const refunded = await runBulkJob(
+      `Refunding and deleting ${selectedKeys.length} keys`,
+      selectedKeys,
+      async (keyData) => {
+        const result = await unifiedRefund(keyData);
+        if (result.success) return `Refunded ${result.refundedAmount ?? 0} sats`;
+        // Empty keys have nothing to lose, so they can go
+        if (result.message === "No balance to refund") return "Nothing to refund";
+        throw new Error(result.message || "Refund failed");
       }
+    );
+    if (refunded.size > 0) {
+      await removeKeys(
+        Array.from(refunded),
+        `Deleted ${refunded.size} key${refunded.size === 1 ? "" : "s"}`
+      );
+    }
+    // Keep failed keys selected so they can be retried or deleted anyway
+    setSelectedKeyIds(
+      new Set(Array.from(selectedKeyIds).filter((keyId) => !refunded.has(keyId)))
+    );
+  };
 
-      const data = (await response.json()) as { msats?: number };
-      toast.success(`Successfully topped up ${topupAmount} sats!`);
-      await refreshSingleKey(keyToTopup);
-      if (data.msats) removeLocalCashuToken(baseUrl);
-    } catch (error) {
-      if (error instanceof TypeError) {
-        toast.error(`Base URL ${base} is not responding. Top up failed.`);
-      } else {
-        toast.error(
-          `Top up failed: ${error instanceof Error ? error.message : String(error)}`
+  const bulkDelete = async () => {
+    const keyIds = selectedKeys.map(getKeyId);
+    await removeKeys(keyIds, `Deleted ${keyIds.length} key${keyIds.length === 1 ? "" : "s"}`);
+    setSelectedKeyIds(new Set());
+  };
+
+  const bulkTopup = async (totalSats: number) => {
+    const keys = selectedKeys.filter((keyData) => !keyData.isInvalid);
+    const amounts = splitTopupAmount(totalSats, keys.length);
+    const refreshed = new Map<string, StoredApiKey>();
+    await runBulkJob(`Topping up ${keys.length} keys`, keys, async (keyData, index) => {
+      await topupKeyAmount(keyData, amounts[index]);
+      const { updatedKey, error } = await fetchUpdatedKey(keyData);
+      if (updatedKey && !error) refreshed.set(getKeyId(keyData), updatedKey);
+      return `+${amounts[index]} sats`;
+    });
+    if (refreshed.size > 0) {
+      await persistKeys((current) =>
+        current.map((item) => refreshed.get(getKeyId(item)) ?? item)
+      );
+    }
+  };
+
+  const bulkRelabel = async ({ label, addTags, removeTags }: BulkRelabel) => {
+    const removed = new Set(removeTags);
+    const relabel = (current: StoredApiKey[]) => {
+      let position = 0;
+      return current.map((item) => {
+        if (!selectedKeyIds.has(getKeyId(item))) return item;
+        position += 1;
+        const tags = Array.from(new Set([...(item.tags ?? []), ...addTags])).filter(
+          (tag) => !removed.has(tag)
         );
-      }
-    } finally {
-      setIsTopupKey(null);
-      setTopupAmount("");
-      setKeyToTopup(null);
+        return {
+          ...item,
+          label: label ? label.replaceAll("{n}", String(position)) : item.label,
+          tags: tags.length > 0 ? tags : undefined,
+        };
+      });
+    };
+    const count = selectedKeys.length;
+    try {
+      await persistKeys(relabel, `Updated ${count} key${count === 1 ? "" : "s"}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update keys");
     }
   };
 
+  const bulkExport = () => {
+    const exported = selectedKeys.map((keyData) => ({
+      key: keyData.key,
+      label: keyData.label,
+      baseUrl: getKeyBase(keyData),
+      balance: keyData.balance,
+      tags: keyData.tags,
+    }));
+    const blob = new Blob([JSON.stringify(exported, null, 2)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `routstr-api-keys-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+    toast.success(`Exported ${exported.length} key${exported.length === 1 ? "" : "s"}`);
+  };
+
   const upsertKeyFromWorkflow = async (
     workflowBaseUrl: string,
     workflowApiKey: string,
@@ -1660,7 +1450,7 @@ export default function ApiKeysPanel({
       isInvalid: false,
     };
 
-    await persistKeys([...storedApiKeys, newStoredKey]);
+    await persistKeys((current) => [...current, newStoredKey]);
   };
 
   const activeMintDisplay = activeMintUrl
@@ -1798,9 +1588,43 @@ export default function ApiKeysPanel({
         >
           Child Keys
         </Button>
+        <Button
+          onClick={() => {
+            if (selectMode) {
+              exitSelectMode();
+            } else {
+              setSelectMode(true);
+              setKeysView("keys");
+            }
+          }}
+          variant={selectMode ? "secondary" : "outline"}
+          disabled={storedApiKeys.length === 0}
+          type="button"
+        >
+          <CheckSquare className="h-4 w-4" />
+          Select
+        </Button>
+        <Tabs
+          value={keysView}
+          onValueChange={(value) => setKeysView(value as KeysView)}
+          className="ml-auto"
+        >
+          <TabsList>
+            <TabsTrigger value="keys">Keys</TabsTrigger>
+            <TabsTrigger value="usage">Usage</TabsTrigger>
+            <TabsTrigger value="auto-topup">Auto top-up</TabsTrigger>
+            <TabsTrigger value="child-keys">Child keys</TabsTrigger>
+          </TabsList>
+        </Tabs>
       </div>
 
-      {showSyncSkeleton ? (
+      {keysView === "usage" ? (
+        <KeyUsagePanel keys={storedApiKeys} fallbackBaseUrl={normalizedBaseUrl} />
+      ) : keysView === "auto-topup" ? (
+        <AutoTopupPanel keys={storedApiKeys} />
+      ) : keysView === "child-keys" ? (
+        <ChildKeyConsole keys={storedApiKeys} />
+      ) : showSyncSkeleton ? (
         <div
           className="space-y-3"
           role="status"
@@ -1828,211 +1652,301 @@ export default function ApiKeysPanel({
         </div>
       ) : (
         <div className="space-y-3">
-          {storedApiKeys.map((keyData) => {
-            const keyId = getKeyId(keyData);
-            const expanded = expandedKeys.has(keyId);
-            const displayUrl = getKeyBase(keyData)
-              .replace(/^https?:\/\//, "")
-              .replace(/\/$/, "");
-            return (
-              <div
-                key={keyId}
-                className="bg-muted/50 rounded-xl border border-border overflow-hidden"
-              >
-                <div
-                  className="flex items-center justify-between p-3 hover:bg-muted/60 cursor-pointer"
-                  onClick={() => toggleExpanded(keyId)}
-                >
-                  <div className="flex items-center gap-2 min-w-0 flex-1">
-                    {editingLabelKey === keyId ? (
-                      <div className="flex items-center gap-1 min-w-0 flex-1">
-                        <Input
-                          value={editingLabelValue}
-                          onChange={(event) => setEditingLabelValue(event.target.value)}
-                          onClick={(event) => event.stopPropagation()}
-                          autoFocus
-                        />
-                        <Button
-                          onClick={(event) => {
-                            event.stopPropagation();
-                            void saveRename(keyData);
-                          }}
-                          variant="ghost"
-                          size="icon-xs"
-                          type="button"
-                          title="Save"
-                        >
-                          <Check className="h-4 w-4 text-muted-foreground" />
-                        </Button>
-                        <Button
-                          onClick={(event) => {
-                            event.stopPropagation();
-                            setEditingLabelKey(null);
-                            setEditingLabelValue("");
-                          }}
-                          variant="ghost"
-                          size="icon-xs"
-                          type="button"
-                          title="Cancel"
-                        >
-                          <X className="h-4 w-4 text-muted-foreground" />
-                        </Button>
+          <KeyListToolbar
+            keys={storedApiKeys}
+            view={keyListView}
+            fallbackBaseUrl={normalizedBaseUrl}
+            onChange={setKeyListView}
+          />
+          {selectMode ? (
+            <BulkKeyActionsBar
+              selectedKeys={selectedKeys}
+              totalKeys={storedApiKeys.length}
+              busy={Boolean(bulkJob && !bulkJob.finished)}
+              activeMintBalanceSats={activeMintBalanceSats}
+              onToggleAll={() =>
+                setSelectedKeyIds(
+                  selectedKeys.length === storedApiKeys.length
+                    ? new Set()
+                    : new Set(storedApiKeys.map(getKeyId))
+                )
+              }
+              onExit={exitSelectMode}
+              onRefresh={() => void bulkRefresh()}
+              onRefundAndDelete={() => void bulkRefundAndDelete()}
+              onDelete={() => void bulkDelete()}
+              onTopup={(totalSats) => void bulkTopup(totalSats)}
+              onRelabel={(change) => void bulkRelabel(change)}
+              onExport={bulkExport}
+            />
+          ) : null}
+          {visibleKeyGroups.length === 0 ? (
+            <p className="px-1 text-sm text-muted-foreground">No keys match these filters.</p>
+          ) : null}
+          {visibleKeyGroups.map((group) => (
+            <div key={group.id} className="space-y-3">
+              {group.label ? (
+                <div className="flex items-center gap-2 px-1 pt-1 text-xs text-muted-foreground">
+                  <span className="font-medium text-foreground/85">{group.label}</span>
+                  <span>
+                    {group.keys.length} key{group.keys.length === 1 ? "" : "s"} ·{" "}
+                    {formatSats(
+                      group.keys.reduce((sum, keyData) => sum + (keyData.balance ?? 0), 0)
+                    )}
+                  </span>
+                </div>
+              ) : null}
+              {group.keys.map((keyData) => {
+                const keyId = getKeyId(keyData);
+                const expanded = expandedKeys.has(keyId);
+                const displayUrl = getKeyBase(keyData)
+                  .replace(/^https?:\/\//, "")
+                  .replace(/\/$/, "");
+                return (
+                  <div
+                    key={keyId}
+                    className="bg-muted/50 rounded-xl border border-border overflow-hidden"
+                  >
+                    <div
+                      className="flex items-center justify-between p-3 hover:bg-muted/60 cursor-pointer"
+                      onClick={() => (selectMode ? toggleSelected(keyId) : toggleExpanded(keyId))}
+                    >
+                      <div className="flex items-center gap-2 min-w-0 flex-1">
+                        {selectMode ? (
+                          <input
+                            type="checkbox"
+                            checked={selectedKeyIds.has(keyId)}
+                            onChange={() => toggleSelected(keyId)}
+                            onClick={(event) => event.stopPropagation()}
+                            className="h-4 w-4 shrink-0 accent-foreground"
+                            aria-label={`Select ${keyData.label || "API key"}`}
+                          />
+                        ) : null}
+                        {editingLabelKey === keyId ? (
+                          <div className="flex items-center gap-1 min-w-0 flex-1">
+                            <Input
+                              value={editingLabelValue}
+                              onChange={(event) => setEditingLabelValue(event.target.value)}
+                              onClick={(event) => event.stopPropagation()}
+                              autoFocus
+                            />
+                            <Button
+                              onClick={(event) => {
+                                event.stopPropagation();
+                                void saveRename(keyData);
+                              }}
+                              variant="ghost"
+                              size="icon-xs"
+                              type="button"
+                              title="Save"
+                            >
+                              <Check className="h-4 w-4 text-muted-foreground" />
+                            </Button>
+                            <Button
+                              onClick={(event) => {
+                                event.stopPropagation();
+                                setEditingLabelKey(null);
+                                setEditingLabelValue("");
+                              }}
+                              variant="ghost"
+                              size="icon-xs"
+                              type="button"
+                              title="Cancel"
+                            >
+                              <X className="h-4 w-4 text-muted-foreground" />
+                            </Button>
+                          </div>
+                        ) : (
+                          <>
+                            <span className="text-sm font-medium text-foreground truncate">
+                              {keyData.label || "Unnamed API Key"}
+                            </span>
+                            <Button
+                              onClick={(event) => {
+                                event.stopPropagation();
+                                startRename(keyData);
+                              }}
+                              variant="ghost"
+                              size="icon-xs"
+                              type="button"
+                              title="Rename"
+                            >
+                              <Pencil className="h-3.5 w-3.5 text-muted-foreground" />
+                            </Button>
+                          </>
+                        )}
+                        <span className="text-xs text-muted-foreground truncate">
+                          ({displayUrl})
+                        </span>
+                        {keyData.project || keyData.environment ? (
+                          <span className="hidden shrink-0 text-xs text-muted-foreground sm:inline">
+                            {[keyData.project, keyData.environment].filter(Boolean).join(" / ")}
+                          </span>
+                        ) : null}
+                        {keyData.tags?.map((tag) => (
+                          <span
+                            key={tag}
+                            className="hidden shrink-0 rounded-full border border-border bg-background px-2 py-0.5 text-xs text-muted-foreground sm:inline"
+                          >
+                            {tag}
+                          </span>
+                        ))}
+                        {keyData.isInvalid && (
+                          <span className="px-2 py-0.5 text-xs rounded-full border border-border bg-background text-muted-foreground">
+                            Invalid
+                          </span>
+                        )}
                       </div>
-                    ) : (
-                      <>
-                        <span className="text-sm font-medium text-foreground truncate">
-                          {keyData.label || "Unnamed API Key"}
+                      <div className="flex items-center gap-2 shrink-0">
+                        <span className="text-sm font-medium text-foreground">
+                          {formatSats(keyData.balance)}
                         </span>
                         <Button
                           onClick={(event) => {
                             event.stopPropagation();
-                            startRename(keyData);
+                            toggleExpanded(keyId);
                           }}
                           variant="ghost"
                           size="icon-xs"
                           type="button"
-                          title="Rename"
                         >
-                          <Pencil className="h-3.5 w-3.5 text-muted-foreground" />
+                          {expanded ? (
+                            <ChevronUp className="h-4 w-4 text-muted-foreground" />
+                          ) : (
+                            <ChevronDown className="h-4 w-4 text-muted-foreground" />
+                          )}
                         </Button>
-                      </>
-                    )}
-                    <span className="text-xs text-muted-foreground truncate">
-                      ({displayUrl})
-                    </span>
-                    {keyData.isInvalid && (
-                      <span className="px-2 py-0.5 text-xs rounded-full border border-border bg-background text-muted-foreground">
-                        Invalid
-                      </span>
-                    )}
-                  </div>
-                  <div className="flex items-center gap-2 shrink-0">
-                    <span className="text-sm font-medium text-foreground">
-                      {formatSats(keyData.balance)}
-                    </span>
-                    <Button
-                      onClick={(event) => {
-                        event.stopPropagation();
-                        toggleExpanded(keyId);
-                      }}
-                      variant="ghost"
-                      size="icon-xs"
-                      type="button"
-                    >
-                      {expanded ? (
-                        <ChevronUp className="h-4 w-4 text-muted-foreground" />
-                      ) : (
-                        <ChevronDown className="h-4 w-4 text-muted-foreground" />
-                      )}
-                    </Button>
-                  </div>
-                </div>
-
-                {expanded && (
-                  <div className="px-4 pb-4 pt-2 space-y-3 border-t border-border">
-                    <div className="flex items-center gap-2">
-                      <Input
-                        type="password"
-                        readOnly
-                        value={keyData.key}
-                        className="grow font-mono text-xs"
-                      />
-                      <Button
-                        onClick={() => void handleCopy(keyData.key, keyId)}
-                        variant="outline"
-                        size="icon-sm"
-                        type="button"
-                        title="Copy API key"
-                      >
-                        {copiedKey === keyId ? (
-                          <Check className="h-4 w-4 text-muted-foreground" />
-                        ) : (
-                          <Copy className="h-4 w-4 text-muted-foreground" />
-                        )}
-                      </Button>
-                      <Button
-                        onClick={() => void refreshSingleKey(keyData)}
-                        variant="outline"
-                        size="sm"
-                        type="button"
-                        disabled={isRefreshingKey === keyId}
-                      >
-                        <RefreshCw
-                          className={`h-3.5 w-3.5 ${
-                            isRefreshingKey === keyId ? "animate-spin" : ""
-                          }`}
-                        />
-                        Refresh
-                      </Button>
+                      </div>
                     </div>
 
-                    <div className="flex flex-wrap justify-end gap-2">
-                      <Button
-                        onClick={() => {
-                          setKeyToTopup(keyData);
-                          setTopupAmount("");
-                          setShowTopupDialog(true);
-                        }}
-                        variant="outline"
-                        size="sm"
-                        type="button"
-                        disabled={keyData.isInvalid || isTopupKey === keyId}
-                      >
-                        <Wallet className="h-3.5 w-3.5" />
-                        {isTopupKey === keyId ? "Topping up..." : "Top Up"}
-                      </Button>
-                      <Button
-                        onClick={async () => {
-                          setIsRefundingKey(keyId);
-                          try {
-                            const refundResult = await unifiedRefund(keyData);
-                            if (refundResult.success) {
-                              toast.success(
-                                refundResult.message ||
-                                  "Refund completed successfully!"
-                              );
-                              await refreshAllKeys();
-                            } else {
-                              toast.error(
-                                refundResult.message ||
-                                  "Failed to complete refund."
-                              );
+                    {expanded && (
+                      <div className="px-4 pb-4 pt-2 space-y-3 border-t border-border">
+                        <div className="flex items-center gap-2">
+                          <Input
+                            type="password"
+                            readOnly
+                            value={keyData.key}
+                            className="grow font-mono text-xs"
+                          />
+                          <Button
+                            onClick={() => void handleCopy(keyData.key, keyId)}
+                            variant="outline"
+                            size="icon-sm"
+                            type="button"
+                            title="Copy API key"
+                          >
+                            {copiedKey === keyId ? (
+                              <Check className="h-4 w-4 text-muted-foreground" />
+                            ) : (
+                              <Copy className="h-4 w-4 text-muted-foreground" />
+                            )}
+                          </Button>
+                          <Button
+                            onClick={() =>
+                              setKeyToShare({
+                                apiKey: keyData.key,
+                                baseUrl: keyData.baseUrl || normalizedBaseUrl,
+                                label: keyData.label,
+                              })
                             }
-                          } catch (error) {
-                            toast.error(
-                              error instanceof Error ? error.message : "Refund failed"
-                            );
-                          } finally {
-                            setIsRefundingKey(null);
-                          }
-                        }}
-                        variant="ghost"
-                        size="sm"
-                        type="button"
-                        disabled={isRefundingKey === keyId}
-                      >
-                        {isRefundingKey === keyId ? "Refunding..." : "Refund"}
-                      </Button>
-                      <Button
-                        onClick={() => {
-                          setKeyToDelete(keyData);
-                          setRefundFailed(false);
-                          setShowDeleteDialog(true);
-                        }}
-                        variant="outline"
-                        size="sm"
-                        type="button"
-                        disabled={isDeletingKey === keyId}
-                      >
-                        <Trash2 className="h-3.5 w-3.5" />
-                        Delete
-                      </Button>
-                    </div>
+                            variant="outline"
+                            size="icon-sm"
+                            type="button"
+                            title="Share handoff link"
+                          >
+                            <Share2 className="h-4 w-4 text-muted-foreground" />
+                          </Button>
+                          <Button
+                            onClick={() => void refreshSingleKey(keyData)}
+                            variant="outline"
+                            size="sm"
+                            type="button"
+                            disabled={isRefreshingKey === keyId}
+                          >
+                            <RefreshCw
+                              className={`h-3.5 w-3.5 ${
+                                isRefreshingKey === keyId ? "animate-spin" : ""
+                              }`}
+                            />
+                            Refresh
+                          </Button>
+                        </div>
+
+                        <KeyMetadataEditor
+                          key={`${keyId}:${keyData.updatedAt ?? 0}`}
+                          keyData={keyData}
+                          onSave={(metadata) => saveKeyMetadata(keyData, metadata)}
+                        />
+
+                        <div className="flex flex-wrap justify-end gap-2">
+                          <Button
+                            onClick={() => {
+                              setKeyToTopup(keyData);
+                              setTopupAmount("");
+                              setShowTopupDialog(true);
+                            }}
+                            variant="outline"
+                            size="sm"
+                            type="button"
+                            disabled={keyData.isInvalid || isTopupKey === keyId}
+                          >
+                            <Wallet className="h-3.5 w-3.5" />
+                            {isTopupKey === keyId ? "Topping up..." : "Top Up"}
+                          </Button>
+                          <Button
+                            onClick={async () => {
+                              setIsRefundingKey(keyId);
+                              try {
+                                const refundResult = await unifiedRefund(keyData);
+                                if (refundResult.success) {
+                                  toast.success(
+                                    refundResult.message ||
+                                      "Refund completed successfully!"
+                                  );
+                                  await refreshAllKeys();
+                                } else {
+                                  toast.error(
+                                    refundResult.message ||
+                                      "Failed to complete refund."
+                                  );
+                                }
+                              } catch (error) {
+                                toast.error(
+                                  error instanceof Error ? error.message : "Refund failed"
+                                );
+                              } finally {
+                                setIsRefundingKey(null);
+                              }
+                            }}
+                            variant="ghost"
+                            size="sm"
+                            type="button"
+                            disabled={isRefundingKey === keyId}
+                          >
+                            {isRefundingKey === keyId ? "Refunding..." : "Refund"}
+                          </Button>
+                          <Button
+                            onClick={() => {
+                              setKeyToDelete(keyData);
+                              setRefundFailed(false);
+                              setShowDeleteDialog(true);
+                            }}
+                            variant="outline"
+                            size="sm"
+                            type="button"
+                            disabled={isDeletingKey === keyId}
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                            Delete
+                          </Button>
+                        </div>
+                      </div>
+                    )}
                   </div>
-                )}
-              </div>
-            );
-          })}
+                );
+              })}
+            </div>
+          ))}
         </div>
       )}
 
@@ -2120,6 +2034,8 @@ export default function ApiKeysPanel({
         </DialogContent>
       </Dialog>
 
+      <KeyHandoffDialog handoff={keyToShare} onClose={() => setKeyToShare(null)} />
+
       <Dialog open={showChildWorkflowDialog} onOpenChange={setShowChildWorkflowDialog}>
         <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
           <DialogHeader>
@@ -2282,6 +2198,8 @@ export default function ApiKeysPanel({
           ) : null}
         </DialogContent>
       </Dialog>
+
+      <BulkJobDialog job={bulkJob} onClose={() => setBulkJob(null)} />
     </div>
   );
 }
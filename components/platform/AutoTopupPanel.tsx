@@ -0,0 +1,254 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Zap } from "lucide-react";
+import { toast } from "sonner";
+import type { StoredApiKey } from "@/lib/apiKeySync";
+import {
+  PLATFORM_AUTO_TOPUP_UPDATED_EVENT,
+  clearAutoTopupLog,
+  getAutoTopupSpentToday,
+  isAutoTopupPaused,
+  readAutoTopupLog,
+  readAutoTopupRules,
+  saveAutoTopupRule,
+  setAutoTopupPaused,
+  type AutoTopupLogEntry,
+  type AutoTopupRule,
+} from "@/lib/autoTopup";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+
+type RuleDraft = {
+  enabled: boolean;
+  thresholdSats: string;
+  amountSats: string;
+  dailyCapSats: string;
+};
+
+const DEFAULT_DRAFT: RuleDraft = {
+  enabled: false,
+  thresholdSats: "500",
+  amountSats: "2000",
+  dailyCapSats: "10000",
+};
+
+function toDraft(rule: AutoTopupRule | undefined): RuleDraft {
+  if (!rule) return DEFAULT_DRAFT;
+  return {
+    enabled: rule.enabled,
+    thresholdSats: String(rule.thresholdSats),
+    amountSats: String(rule.amountSats),
+    dailyCapSats: String(rule.dailyCapSats),
+  };
+}
+
+interface AutoTopupPanelProps {
+  keys: StoredApiKey[];
+}
+
+const AutoTopupPanel: React.FC<AutoTopupPanelProps> = ({ keys }) => {
+  const [rules, setRules] = useState<Record<string, AutoTopupRule>>({});
+  const [drafts, setDrafts] = useState<Record<string, RuleDraft>>({});
+  const [log, setLog] = useState<AutoTopupLogEntry[]>([]);
+  const [paused, setPaused] = useState(false);
+
+  useEffect(() => {
+    const refresh = () => {
+      setRules(readAutoTopupRules());
+      setLog(readAutoTopupLog());
+      setPaused(isAutoTopupPaused());
+    };
+    refresh();
+    window.addEventListener(PLATFORM_AUTO_TOPUP_UPDATED_EVENT, refresh);
+    return () => {
+      window.removeEventListener(PLATFORM_AUTO_TOPUP_UPDATED_EVENT, refresh);
+    };
+  }, []);
+
+  const getDraft = (key: string) => drafts[key] ?? toDraft(rules[key]);
+
+  const updateDraft = (key: string, patch: Partial<RuleDraft>) => {
+    setDrafts((prev) => ({ ...prev, [key]: { ...getDraft(key), ...patch } }));
+  };
+
+  const saveRule = (key: string, patch: Partial<RuleDraft> = {}) => {
+    const draft = { ...getDraft(key), ...patch };
+    try {
+      saveAutoTopupRule({
+        key,
+        enabled: draft.enabled,
+        thresholdSats: Number.parseInt(draft.thresholdSats, 10),
+        amountSats: Number.parseInt(draft.amountSats, 10),
+        dailyCapSats: Number.parseInt(draft.dailyCapSats, 10),
+        mintUrl: rules[key]?.mintUrl,
+      });
+      setDrafts((prev) => {
+        const next = { ...prev };
+        delete next[key];
+        return next;
+      });
+      if (patch.enabled === undefined) toast.success("Auto top-up rule saved");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save rule");
+    }
+  };
+
+  const labels = new Map(keys.map((keyData) => [keyData.key, keyData.label || "Unnamed"]));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3 rounded-xl border border-border bg-muted/30 p-3">
+        <Zap className="h-4 w-4 shrink-0 text-muted-foreground" />
+        <div className="min-w-0 flex-1">
+          <p className="text-sm font-medium text-foreground">Automatic top-ups</p>
+          <p className="text-xs text-muted-foreground">
+            {paused
+              ? "Paused. No rule will spend from your wallet."
+              : "Rules run on every balance refresh while the app is open, paid from the active mint."}
+          </p>
+        </div>
+        <Switch
+          checked={!paused}
+          onCheckedChange={(checked) => setAutoTopupPaused(!checked)}
+          aria-label="Enable automatic top-ups"
+        />
+      </div>
+
+      {keys.length === 0 ? (
+        <div className="rounded-xl border border-dashed border-border p-5 text-sm text-muted-foreground">
+          Add an API key to set up automatic top-ups.
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {keys.map((keyData) => {
+            const draft = getDraft(keyData.key);
+            const isDirty = Boolean(drafts[keyData.key]);
+            const spentToday = getAutoTopupSpentToday(keyData.key);
+            return (
+              <div
+                key={keyData.key}
+                className="space-y-2 rounded-xl border border-border bg-background/40 p-3"
+              >
+                <div className="flex items-center gap-2">
+                  <p className="min-w-0 flex-1 truncate text-sm font-medium text-foreground">
+                    {keyData.label || "Unnamed"}
+                  </p>
+                  {spentToday > 0 ? (
+                    <span className="text-xs text-muted-foreground">
+                      {spentToday.toLocaleString()} sats added today
+                    </span>
+                  ) : null}
+                  <Switch
+                    checked={draft.enabled}
+                    onCheckedChange={(checked) => saveRule(keyData.key, { enabled: checked })}
+                    aria-label={`Auto top-up ${keyData.label || "key"}`}
+                  />
+                </div>
+                <div className="grid grid-cols-1 gap-2 sm:grid-cols-[1fr_1fr_1fr_auto] sm:items-end">
+                  <label className="space-y-1 text-xs text-muted-foreground">
+                    When below (sats)
+                    <Input
+                      type="number"
+                      min="1"
+                      value={draft.thresholdSats}
+                      onChange={(event) =>
+                        updateDraft(keyData.key, { thresholdSats: event.target.value })
+                      }
+                      className="h-8 text-xs"
+                    />
+                  </label>
+                  <label className="space-y-1 text-xs text-muted-foreground">
+                    Add (sats)
+                    <Input
+                      type="number"
+                      min="1"
+                      value={draft.amountSats}
+                      onChange={(event) =>
+                        updateDraft(keyData.key, { amountSats: event.target.value })
+                      }
+                      className="h-8 text-xs"
+                    />
+                  </label>
+                  <label className="space-y-1 text-xs text-muted-foreground">
+                    At most per day (sats)
+                    <Input
+                      type="number"
+                      min="1"
+                      value={draft.dailyCapSats}
+                      onChange={(event) =>
+                        updateDraft(keyData.key, { dailyCapSats: event.target.value })
+                      }
+                      className="h-8 text-xs"
+                    />
+                  </label>
+                  <Button
+                    onClick={() => saveRule(keyData.key)}
+                    disabled={!isDirty}
+                    variant="outline"
+                    size="sm"
+                    type="button"
+                  >
+                    Save
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="space-y-1.5">
+        <div className="flex items-center gap-2">
+          <h3 className="text-sm font-medium text-foreground/85">Audit log</h3>
+          {log.length > 0 ? (
+            <Button
+              onClick={clearAutoTopupLog}
+              variant="ghost"
+              size="xs"
+              className="ml-auto"
+              type="button"
+            >
+              Clear
+            </Button>
+          ) : null}
+        </div>
+        {log.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No automatic top-ups yet.</p>
+        ) : (
+          <div className="max-h-64 space-y-1 overflow-y-auto">
+            {log.map((entry) => (
+              <div
+                key={entry.id}
+                className="flex items-center gap-2 rounded-md border border-border bg-muted/25 px-2.5 py-1.5 text-xs"
+              >
+                <span className="w-32 shrink-0 text-muted-foreground">
+                  {new Date(entry.at).toLocaleString([], {
+                    month: "short",
+                    day: "numeric",
+                    hour: "2-digit",
+                    minute: "2-digit",
+                  })}
+                </span>
+                <span className="min-w-0 flex-1 truncate text-foreground" title={entry.error}>
+                  {labels.get(entry.key) ?? entry.label} ·{" "}
+                  {entry.status === "success"
+                    ? `+${entry.amountSats.toLocaleString()} sats`
+                    : entry.status === "unconfirmed"
+                      ? `+${entry.amountSats.toLocaleString()} sats spent, unconfirmed: ${entry.error || "unknown error"}`
+                      : `failed: ${entry.error || "unknown error"}`}
+                </span>
+                <span className="shrink-0 text-muted-foreground">
+                  from {Math.floor(entry.balanceBeforeMsats / 1000).toLocaleString()} sats
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AutoTopupPanel;
@@ -0,0 +1,370 @@
+"use client";
+
+import React, { useState } from "react";
+import { Check, Download, Loader2, RefreshCw, Tag, Trash2, Wallet, X } from "lucide-react";
+import type { StoredApiKey } from "@/lib/apiKeySync";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+export type BulkItemStatus = "pending" | "running" | "done" | "failed";
+
+export interface BulkJobItem {
+  key: string;
+  label: string;
+  status: BulkItemStatus;
+  message?: string;
+}
+
+export interface BulkJob {
+  title: string;
+  items: BulkJobItem[];
+  finished: boolean;
+}
+
+export interface BulkRelabel {
+  /** New label; `{n}` is replaced with the key's position in the selection. */
+  label: string;
+  addTags: string[];
+  removeTags: string[];
+}
+
+function parseTagList(value: string): string[] {
+  return Array.from(
+    new Set(
+      value
+        .split(",")
+        .map((tag) => tag.trim().toLowerCase())
+        .filter(Boolean)
+    )
+  );
+}
+
+/** Splits `totalSats` across `count` keys, giving any remainder to the first keys. */
+export function splitTopupAmount(totalSats: number, count: number): number[] {
+  if (count <= 0) return [];
+  const base = Math.floor(totalSats / count);
+  const remainder = totalSats - base * count;
+  return Array.from({ length: count }, (_, index) => base + (index < remainder ? 1 : 0));
+}
+
+interface BulkKeyActionsBarProps {
+  selectedKeys: StoredApiKey[];
+  totalKeys: number;
+  busy: boolean;
+  activeMintBalanceSats: number | null;
+  onToggleAll: () => void;
+  onExit: () => void;
+  onRefresh: () => void;
+  onRefundAndDelete: () => void;
+  onDelete: () => void;
+  onTopup: (totalSats: number) => void;
+  onRelabel: (change: BulkRelabel) => void;
+  onExport: () => void;
+}
+
+export const BulkKeyActionsBar: React.FC<BulkKeyActionsBarProps> = ({
+  selectedKeys,
+  totalKeys,
+  busy,
+  activeMintBalanceSats,
+  onToggleAll,
+  onExit,
+  onRefresh,
+  onRefundAndDelete,
+  onDelete,
+  onTopup,
+  onRelabel,
+  onExport,
+}) => {
+  const [confirmAction, setConfirmAction] = useState<"refund-delete" | "delete" | null>(null);
+  const [showTopup, setShowTopup] = useState(false);
+  const [topupTotal, setTopupTotal] = useState("");
+  const [showRelabel, setShowRelabel] = useState(false);
+  const [relabelValue, setRelabelValue] = useState("");
+  const [addTagsValue, setAddTagsValue] = useState("");
+  const [removeTagsValue, setRemoveTagsValue] = useState("");
+
+  const count = selectedKeys.length;
+  const disabled = busy || count === 0;
+  const topupKeys = selectedKeys.filter((keyData) => !keyData.isInvalid);
+  const topupTotalSats = Number.parseInt(topupTotal, 10);
+  const topupSplit =
+    topupTotalSats > 0 ? splitTopupAmount(topupTotalSats, topupKeys.length) : [];
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-xl border border-border bg-muted/30 p-2">
+      <Button onClick={onToggleAll} variant="ghost" size="sm" type="button">
+        <Check className="h-3.5 w-3.5" />
+        {count === totalKeys && totalKeys > 0 ? "Clear" : "Select all"}
+      </Button>
+      <span className="text-xs text-muted-foreground">
+        {count} of {totalKeys} selected
+      </span>
+      <div className="ml-auto flex flex-wrap items-center gap-1.5">
+        <Button onClick={onRefresh} disabled={disabled} variant="outline" size="sm" type="button">
+          <RefreshCw className="h-3.5 w-3.5" />
+          Refresh
+        </Button>
+        <Button
+          onClick={() => setShowTopup(true)}
+          disabled={busy || topupKeys.length === 0}
+          variant="outline"
+          size="sm"
+          type="button"
+        >
+          <Wallet className="h-3.5 w-3.5" />
+          Top Up
+        </Button>
+        <Button
+          onClick={() => setShowRelabel(true)}
+          disabled={disabled}
+          variant="outline"
+          size="sm"
+          type="button"
+        >
+          <Tag className="h-3.5 w-3.5" />
+          Label
+        </Button>
+        <Button onClick={onExport} disabled={disabled} variant="outline" size="sm" type="button">
+          <Download className="h-3.5 w-3.5" />
+          Export
+        </Button>
+        <Button
+          onClick={() => setConfirmAction("refund-delete")}
+          disabled={disabled}
+          variant="outline"
+          size="sm"
+          type="button"
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+          Refund & Delete
+        </Button>
+        <Button
+          onClick={onExit}
+          variant="ghost"
+          size="icon-sm"
+          aria-label="Exit selection"
+          type="button"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <Dialog
+        open={confirmAction !== null}
+        onOpenChange={(open) => {
+          if (!open) setConfirmAction(null);
+        }}
+      >
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {confirmAction === "delete" ? "Delete" : "Refund and delete"} {count} key
+              {count === 1 ? "" : "s"}?
+            </DialogTitle>
+            <DialogDescription>
+              {confirmAction === "delete"
+                ? "Remaining balances on these keys are lost."
+                : "Each key's balance is refunded to your wallet first. Keys whose refund fails are kept so you can retry or delete them anyway."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex justify-end gap-2">
+            {confirmAction === "refund-delete" ? (
+              <Button
+                onClick={() => setConfirmAction("delete")}
+                variant="ghost"
+                type="button"
+              >
+                Delete without refund
+              </Button>
+            ) : null}
+            <Button onClick={() => setConfirmAction(null)} variant="outline" type="button">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => {
+                if (confirmAction === "delete") onDelete();
+                else onRefundAndDelete();
+                setConfirmAction(null);
+              }}
+              type="button"
+            >
+              {confirmAction === "delete" ? "Delete" : "Refund & Delete"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showTopup} onOpenChange={setShowTopup}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Top up {topupKeys.length} keys</DialogTitle>
+            <DialogDescription>
+              The total is split evenly across the selected keys. Invalid keys are skipped.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <Input
+              type="number"
+              min="1"
+              placeholder="Total amount (sats)"
+              value={topupTotal}
+              onChange={(event) => setTopupTotal(event.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              {activeMintBalanceSats !== null
+                ? `Available: ${Math.floor(activeMintBalanceSats).toLocaleString()} sats. `
+                : ""}
+              {topupSplit.length > 0
+                ? topupSplit[0] === topupSplit[topupSplit.length - 1]
+                  ? `${topupSplit[0].toLocaleString()} sats per key.`
+                  : `${topupSplit[topupSplit.length - 1].toLocaleString()}–${topupSplit[0].toLocaleString()} sats per key.`
+                : ""}
+            </p>
+            <div className="flex justify-end gap-2">
+              <Button onClick={() => setShowTopup(false)} variant="outline" type="button">
+                Cancel
+              </Button>
+              <Button
+                onClick={() => {
+                  onTopup(topupTotalSats);
+                  setShowTopup(false);
+                  setTopupTotal("");
+                }}
+                disabled={
+                  !(topupTotalSats >= topupKeys.length) ||
+                  (activeMintBalanceSats !== null && topupTotalSats > activeMintBalanceSats)
+                }
+                type="button"
+              >
+                Top Up
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showRelabel} onOpenChange={setShowRelabel}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Label {count} keys</DialogTitle>
+            <DialogDescription>
+              Leave the label empty to keep existing labels. Use {"{n}"} to number keys.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <Input
+              placeholder="Label, e.g. ci-runner-{n}"
+              value={relabelValue}
+              onChange={(event) => setRelabelValue(event.target.value)}
+            />
+            <Input
+              placeholder="Add tags (comma separated)"
+              value={addTagsValue}
+              onChange={(event) => setAddTagsValue(event.target.value)}
+            />
+            <Input
+              placeholder="Remove tags (comma separated)"
+              value={removeTagsValue}
+              onChange={(event) => setRemoveTagsValue(event.target.value)}
+            />
+            <div className="flex justify-end gap-2">
+              <Button onClick={() => setShowRelabel(false)} variant="outline" type="button">
+                Cancel
+              </Button>
+              <Button
+                onClick={() => {
+                  onRelabel({
+                    label: relabelValue.trim(),
+                    addTags: parseTagList(addTagsValue),
+                    removeTags: parseTagList(removeTagsValue),
+                  });
+                  setShowRelabel(false);
+                  setRelabelValue("");
+                  setAddTagsValue("");
+                  setRemoveTagsValue("");
+                }}
+                disabled={!relabelValue.trim() && !addTagsValue.trim() && !removeTagsValue.trim()}
+                type="button"
+              >
+                Apply
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+interface BulkJobDialogProps {
+  job: BulkJob | null;
+  onClose: () => void;
+}
+
+export const BulkJobDialog: React.FC<BulkJobDialogProps> = ({ job, onClose }) => {
+  if (!job) return null;
+  const done = job.items.filter((item) => item.status === "done").length;
+  const failed = job.items.filter((item) => item.status === "failed");
+
+  return (
+    <Dialog
+      open
+      onOpenChange={(open) => {
+        if (!open && job.finished) onClose();
+      }}
+    >
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{job.title}</DialogTitle>
+          <DialogDescription>
+            {job.finished
+              ? failed.length > 0
+                ? `${done} succeeded, ${failed.length} failed.`
+                : `All ${done} succeeded.`
+              : `${done + failed.length} of ${job.items.length} processed...`}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-1">
+          {job.items.map((item) => (
+            <div
+              key={item.key}
+              className="flex items-center gap-2 rounded-md border border-border bg-muted/25 px-2.5 py-1.5 text-xs"
+            >
+              {item.status === "running" ? (
+                <Loader2 className="h-3.5 w-3.5 shrink-0 animate-spin text-muted-foreground" />
+              ) : item.status === "done" ? (
+                <Check className="h-3.5 w-3.5 shrink-0 text-foreground/80" />
+              ) : item.status === "failed" ? (
+                <X className="h-3.5 w-3.5 shrink-0 text-foreground/80" />
+              ) : (
+                <span className="h-3.5 w-3.5 shrink-0" />
+              )}
+              <span className="min-w-0 flex-1 truncate text-foreground">{item.label}</span>
+              {item.message ? (
+                <span
+                  className="max-w-[55%] truncate text-muted-foreground"
+                  title={item.message}
+                >
+                  {item.message}
+                </span>
+              ) : null}
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-end">
+          <Button onClick={onClose} disabled={!job.finished} variant="outline" type="button">
+            {job.finished ? "Done" : "Working..."}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,403 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  Ban,
+  Copy,
+  KeyRound,
+  Loader2,
+  RefreshCw,
+  RotateCw,
+  Share2,
+  Trash2,
+} from "lucide-react";
+import { toast } from "sonner";
+import type { StoredApiKey } from "@/lib/apiKeySync";
+import {
+  PLATFORM_CHILD_KEYS_UPDATED_EVENT,
+  getChildKeyState,
+  readChildKeys,
+  refreshChildKeyStatuses,
+  reissueChildKey,
+  removeChildKeys,
+  revokeChildKeys,
+  type ChildKeyRecord,
+  type ChildKeyState,
+} from "@/lib/childKeys";
+import type { KeyHandoff } from "@/lib/keyHandoff";
+import KeyHandoffDialog from "@/components/platform/KeyHandoffDialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const STATUS_POLL_INTERVAL_MS = 60 * 1000;
+
+const STATE_LABELS: Record<ChildKeyState, string> = {
+  active: "Active",
+  drained: "Drained",
+  expired: "Expired",
+  revoked: "Revoked",
+};
+
+type StateFilter = "live" | "all" | ChildKeyState;
+
+const FILTER_LABELS: Record<StateFilter, string> = {
+  live: "Not revoked",
+  all: "All child keys",
+  active: "Active",
+  drained: "Drained",
+  expired: "Expired",
+  revoked: "Revoked",
+};
+
+function formatSats(msats: number): string {
+  const sats = msats / 1000;
+  return `${sats >= 100 ? Math.round(sats).toLocaleString() : sats.toFixed(2)} sats`;
+}
+
+function shortKey(key: string): string {
+  if (key.length <= 16) return key;
+  return `${key.slice(0, 8)}...${key.slice(-6)}`;
+}
+
+interface ChildKeyConsoleProps {
+  keys: StoredApiKey[];
+}
+
+const ChildKeyConsole: React.FC<ChildKeyConsoleProps> = ({ keys }) => {
+  const [records, setRecords] = useState<ChildKeyRecord[]>([]);
+  const [filter, setFilter] = useState<StateFilter>("live");
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [reissuingKey, setReissuingKey] = useState<string | null>(null);
+  const [keyToRevoke, setKeyToRevoke] = useState<ChildKeyRecord | null>(null);
+  const [keyToShare, setKeyToShare] = useState<KeyHandoff | null>(null);
+
+  useEffect(() => {
+    const refresh = () => setRecords(readChildKeys());
+    refresh();
+    window.addEventListener(PLATFORM_CHILD_KEYS_UPDATED_EVENT, refresh);
+    return () => {
+      window.removeEventListener(PLATFORM_CHILD_KEYS_UPDATED_EVENT, refresh);
+    };
+  }, []);
+
+  const refreshStatuses = useCallback(async (showToast: boolean) => {
+    setIsRefreshing(true);
+    try {
+      const { checked, failed } = await refreshChildKeyStatuses();
+      if (!showToast) return;
+      if (failed > 0) {
+        toast.error(`${failed} of ${checked} child key checks failed`);
+      } else {
+        toast.success(`Checked ${checked} child key${checked === 1 ? "" : "s"}`);
+      }
+    } finally {
+      setIsRefreshing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refreshStatuses(false);
+    const interval = setInterval(() => {
+      if (document.visibilityState === "visible") void refreshStatuses(false);
+    }, STATUS_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [refreshStatuses]);
+
+  const copyKey = async (key: string) => {
+    try {
+      await navigator.clipboard.writeText(key);
+      toast.success("Child key copied");
+    } catch {
+      toast.error("Failed to copy");
+    }
+  };
+
+  const handleReissue = async (record: ChildKeyRecord) => {
+    setReissuingKey(record.key);
+    try {
+      const replacement = await reissueChildKey(record);
+      await navigator.clipboard.writeText(replacement.key).catch(() => undefined);
+      toast.success("Child key re-issued. The new key was copied; the old one is revoked.");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to re-issue child key");
+    } finally {
+      setReissuingKey(null);
+    }
+  };
+
+  const parentLabels = useMemo(
+    () => new Map(keys.map((keyData) => [keyData.key, keyData.label || "Unnamed"])),
+    [keys]
+  );
+
+  const groups = useMemo(() => {
+    const now = Date.now();
+    const byParent = new Map<string, Array<{ record: ChildKeyRecord; state: ChildKeyState }>>();
+    for (const record of records) {
+      const state = getChildKeyState(record, now);
+      const visible =
+        filter === "all" || (filter === "live" ? state !== "revoked" : state === filter);
+      if (!visible) continue;
+      byParent.set(record.parentKey, [...(byParent.get(record.parentKey) ?? []), { record, state }]);
+    }
+    return Array.from(byParent.entries()).map(([parentKey, children]) => ({
+      parentKey,
+      children: children.sort((a, b) => b.record.createdAt - a.record.createdAt),
+    }));
+  }, [filter, records]);
+
+  const counts = useMemo(() => {
+    const now = Date.now();
+    const result: Record<ChildKeyState, number> = {
+      active: 0,
+      drained: 0,
+      expired: 0,
+      revoked: 0,
+    };
+    for (const record of records) result[getChildKeyState(record, now)] += 1;
+    return result;
+  }, [records]);
+
+  if (records.length === 0) {
+    return (
+      <div className="rounded-xl border border-dashed border-border p-5 text-sm text-muted-foreground">
+        Child keys you generate from a parent key are tracked here.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <p className="text-xs text-muted-foreground">
+          {(Object.keys(STATE_LABELS) as ChildKeyState[])
+            .map((state) => `${counts[state]} ${STATE_LABELS[state].toLowerCase()}`)
+            .join(" · ")}
+        </p>
+        <div className="ml-auto flex items-center gap-2">
+          <Select value={filter} onValueChange={(value) => setFilter(value as StateFilter)}>
+            <SelectTrigger className="h-8 w-36 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(FILTER_LABELS) as StateFilter[]).map((option) => (
+                <SelectItem key={option} value={option}>
+                  {FILTER_LABELS[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={() => void refreshStatuses(true)}
+            disabled={isRefreshing}
+            variant="outline"
+            size="sm"
+            type="button"
+          >
+            <RefreshCw className={`h-3.5 w-3.5 ${isRefreshing ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {groups.length === 0 ? (
+        <div className="rounded-xl border border-dashed border-border p-5 text-sm text-muted-foreground">
+          No child keys match this filter.
+        </div>
+      ) : (
+        groups.map((group) => (
+          <div key={group.parentKey} className="space-y-1.5">
+            <p className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground">
+              <KeyRound className="h-3.5 w-3.5" />
+              {parentLabels.get(group.parentKey) ?? "Removed parent"}
+              <span className="font-mono font-normal">{shortKey(group.parentKey)}</span>
+            </p>
+            {group.children.map(({ record, state }) => {
+              const status = record.status;
+              const limit = status?.balanceLimitMsats ?? record.balanceLimitMsats;
+              const reset = status?.balanceLimitReset ?? record.balanceLimitReset;
+              const validity = status?.validityDateUnix ?? record.validityDateUnix;
+              const spent = status?.totalSpentMsats ?? null;
+              const usedPercent =
+                limit && spent !== null ? Math.min(100, (spent / limit) * 100) : null;
+              return (
+                <div
+                  key={record.key}
+                  className={`space-y-1.5 rounded-xl border border-border bg-background/40 p-3 ${
+                    state === "revoked" ? "opacity-60" : ""
+                  }`}
+                >
+                  <div className="flex items-center gap-2">
+                    <p className="min-w-0 flex-1 truncate text-sm font-medium text-foreground">
+                      {record.label || "Unassigned"}
+                      <span className="ml-2 font-mono text-xs font-normal text-muted-foreground">
+                        {shortKey(record.key)}
+                      </span>
+                    </p>
+                    <span
+                      className={`rounded-md border px-1.5 py-0.5 text-[11px] ${
+                        state === "active"
+                          ? "border-border text-foreground/80"
+                          : "border-border/60 bg-muted/40 text-muted-foreground"
+                      }`}
+                    >
+                      {STATE_LABELS[state]}
+                    </span>
+                  </div>
+
+                  <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-muted-foreground">
+                    <span>
+                      Spent {spent !== null ? formatSats(spent) : "—"}
+                      {limit !== null ? ` of ${formatSats(limit)}` : " · no limit"}
+                    </span>
+                    {reset ? <span>Resets {reset}</span> : null}
+                    <span>
+                      {validity !== null
+                        ? `Valid until ${new Date(validity * 1000).toLocaleDateString()}`
+                        : "No expiry"}
+                    </span>
+                    {status ? (
+                      <span>Checked {new Date(status.checkedAt).toLocaleTimeString()}</span>
+                    ) : null}
+                  </div>
+
+                  {usedPercent !== null ? (
+                    <div className="h-1 overflow-hidden rounded-full bg-muted">
+                      <div
+                        className="h-full bg-foreground/60"
+                        style={{ width: `${usedPercent}%` }}
+                      />
+                    </div>
+                  ) : null}
+
+                  {status?.error && state !== "revoked" ? (
+                    <p className="text-xs text-muted-foreground">Last check failed: {status.error}</p>
+                  ) : null}
+                  {record.replacedBy ? (
+                    <p className="text-xs text-muted-foreground">
+                      Re-issued as {shortKey(record.replacedBy)}
+                    </p>
+                  ) : null}
+
+                  <div className="flex flex-wrap justify-end gap-1.5">
+                    <Button
+                      onClick={() => void copyKey(record.key)}
+                      variant="ghost"
+                      size="xs"
+                      type="button"
+                    >
+                      <Copy className="h-3 w-3" />
+                      Copy
+                    </Button>
+                    {state === "revoked" ? (
+                      <Button
+                        onClick={() => removeChildKeys([record.key])}
+                        variant="ghost"
+                        size="xs"
+                        type="button"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                        Remove
+                      </Button>
+                    ) : (
+                      <>
+                        <Button
+                          onClick={() =>
+                            setKeyToShare({
+                              apiKey: record.key,
+                              baseUrl: record.baseUrl,
+                              label: record.label,
+                            })
+                          }
+                          variant="ghost"
+                          size="xs"
+                          type="button"
+                        >
+                          <Share2 className="h-3 w-3" />
+                          Share
+                        </Button>
+                        <Button
+                          onClick={() => void handleReissue(record)}
+                          disabled={reissuingKey !== null}
+                          variant="outline"
+                          size="xs"
+                          type="button"
+                        >
+                          {reissuingKey === record.key ? (
+                            <Loader2 className="h-3 w-3 animate-spin" />
+                          ) : (
+                            <RotateCw className="h-3 w-3" />
+                          )}
+                          Re-issue
+                        </Button>
+                        <Button
+                          onClick={() => setKeyToRevoke(record)}
+                          variant="outline"
+                          size="xs"
+                          type="button"
+                        >
+                          <Ban className="h-3 w-3" />
+                          Revoke
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ))
+      )}
+
+      <KeyHandoffDialog handoff={keyToShare} onClose={() => setKeyToShare(null)} />
+
+      <Dialog
+        open={keyToRevoke !== null}
+        onOpenChange={(open) => {
+          if (!open) setKeyToRevoke(null);
+        }}
+      >
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Revoke {keyToRevoke?.label || "child key"}?</DialogTitle>
+            <DialogDescription>
+              Nodes don&apos;t offer a way to disable a single child key yet, so this only marks
+              it revoked here and stops tracking it. The key keeps spending from its parent until
+              it expires or hits its limit; to cut it off now, move the parent&apos;s balance to a
+              new key.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex justify-end gap-2">
+            <Button onClick={() => setKeyToRevoke(null)} variant="outline" type="button">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => {
+                if (keyToRevoke) revokeChildKeys([keyToRevoke.key]);
+                setKeyToRevoke(null);
+              }}
+              type="button"
+            >
+              Revoke
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ChildKeyConsole;
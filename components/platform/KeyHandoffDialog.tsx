@@ -0,0 +1,201 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { Check, Copy, Loader2, Lock, Printer } from "lucide-react";
+import { QRCodeSVG } from "qrcode.react";
+import { toast } from "sonner";
+import {
+  buildEncryptedHandoffLink,
+  buildHandoffLink,
+  type KeyHandoff,
+} from "@/lib/keyHandoff";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+
+function getNodeHost(url: string | undefined): string {
+  return (url || "").replace(/^https?:\/\//, "").replace(/\/$/, "");
+}
+
+interface KeyHandoffDialogProps {
+  handoff: KeyHandoff | null;
+  onClose: () => void;
+}
+
+const KeyHandoffDialog: React.FC<KeyHandoffDialogProps> = ({ handoff, onClose }) => {
+  const cardRef = useRef<HTMLDivElement>(null);
+  const [encrypt, setEncrypt] = useState(false);
+  const [passphrase, setPassphrase] = useState("");
+  const [encryptedLink, setEncryptedLink] = useState("");
+  const [isEncrypting, setIsEncrypting] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    setEncrypt(false);
+    setPassphrase("");
+    setEncryptedLink("");
+    setCopied(false);
+  }, [handoff]);
+
+  if (!handoff) return null;
+
+  const link = encrypt ? encryptedLink : buildHandoffLink(handoff);
+
+  const handleEncrypt = async () => {
+    setIsEncrypting(true);
+    try {
+      setEncryptedLink(await buildEncryptedHandoffLink(handoff, passphrase));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to encrypt link");
+    } finally {
+      setIsEncrypting(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      toast.error("Copy failed");
+    }
+  };
+
+  const handlePrint = () => {
+    if (!cardRef.current) return;
+    const printWindow = window.open("", "_blank", "width=480,height=640");
+    if (!printWindow) {
+      toast.error("Allow pop-ups to print the card");
+      return;
+    }
+    printWindow.document.title = handoff.label || "API key card";
+    printWindow.document.body.style.cssText =
+      "margin:0;padding:24px;display:flex;justify-content:center;font-family:system-ui,sans-serif";
+    printWindow.document.body.append(printWindow.document.importNode(cardRef.current, true));
+    printWindow.onafterprint = () => printWindow.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  return (
+    <Dialog
+      open
+      onOpenChange={(open) => {
+        if (!open) onClose();
+      }}
+    >
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Share {handoff.label || "API key"}</DialogTitle>
+          <DialogDescription>
+            Opening the link imports the key into Routstr. The key travels in the URL fragment,
+            so it never reaches a server.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <label className="flex items-center gap-2 text-sm">
+            <Switch checked={encrypt} onCheckedChange={setEncrypt} />
+            <Lock className="h-3.5 w-3.5 text-muted-foreground" />
+            Protect with a passphrase
+          </label>
+          {encrypt ? (
+            <div className="flex items-center gap-2">
+              <Input
+                type="password"
+                placeholder="Passphrase (share it separately)"
+                value={passphrase}
+                onChange={(event) => {
+                  setPassphrase(event.target.value);
+                  setEncryptedLink("");
+                }}
+                autoComplete="new-password"
+              />
+              <Button
+                onClick={() => void handleEncrypt()}
+                disabled={isEncrypting || passphrase.length < 8}
+                variant="outline"
+                size="sm"
+                type="button"
+              >
+                {isEncrypting ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : null}
+                Encrypt
+              </Button>
+            </div>
+          ) : null}
+
+          {link ? (
+            <>
+              <div className="flex items-center gap-2">
+                <Input readOnly value={link} className="grow font-mono text-xs" />
+                <Button
+                  onClick={() => void handleCopy()}
+                  variant="outline"
+                  size="icon-sm"
+                  type="button"
+                  title="Copy link"
+                >
+                  {copied ? (
+                    <Check className="h-4 w-4 text-muted-foreground" />
+                  ) : (
+                    <Copy className="h-4 w-4 text-muted-foreground" />
+                  )}
+                </Button>
+              </div>
+
+              <div className="flex justify-center">
+                {/* Inline styles so the card prints the same outside the app */}
+                <div
+                  ref={cardRef}
+                  style={{
+                    width: 280,
+                    padding: 20,
+                    border: "1px solid #d4d4d4",
+                    borderRadius: 12,
+                    background: "#ffffff",
+                    color: "#171717",
+                    textAlign: "center",
+                  }}
+                >
+                  <p style={{ margin: 0, fontSize: 16, fontWeight: 600 }}>
+                    {handoff.label || "Routstr API key"}
+                  </p>
+                  {handoff.baseUrl ? (
+                    <p style={{ margin: "4px 0 0", fontSize: 12, color: "#525252" }}>
+                      {getNodeHost(handoff.baseUrl)}
+                    </p>
+                  ) : null}
+                  <div style={{ margin: "16px auto", width: 200 }}>
+                    <QRCodeSVG value={link} size={200} />
+                  </div>
+                  <p style={{ margin: 0, fontSize: 11, color: "#525252" }}>
+                    {encrypt
+                      ? "Scan to import. Ask the sender for the passphrase."
+                      : "Scan to import. Anyone with this card can spend the key's balance."}
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex justify-end">
+                <Button onClick={handlePrint} variant="outline" size="sm" type="button">
+                  <Printer className="h-3.5 w-3.5" />
+                  Print card
+                </Button>
+              </div>
+            </>
+          ) : null}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default KeyHandoffDialog;
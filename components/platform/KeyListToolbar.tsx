@@ -0,0 +1,271 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { Search } from "lucide-react";
+import type { StoredApiKey } from "@/lib/apiKeySync";
+import { fuzzyScore } from "@/lib/utils";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+export type KeySortOption =
+  | "balance-high"
+  | "balance-low"
+  | "node"
+  | "last-used"
+  | "created"
+  | "name";
+
+export type KeyGroupOption = "none" | "project" | "environment" | "node" | "tag";
+
+export interface KeyListView {
+  search: string;
+  /** "all", "invalid", or a `tag:`, `project:`, `environment:` or `node:` value. */
+  filter: string;
+  sort: KeySortOption;
+  group: KeyGroupOption;
+}
+
+export interface KeyGroup {
+  id: string;
+  /** Empty when the list isn't grouped. */
+  label: string;
+  keys: StoredApiKey[];
+}
+
+export const DEFAULT_KEY_LIST_VIEW: KeyListView = {
+  search: "",
+  filter: "all",
+  sort: "balance-high",
+  group: "none",
+};
+
+const SORT_LABELS: Record<KeySortOption, string> = {
+  "balance-high": "Balance: high to low",
+  "balance-low": "Balance: low to high",
+  node: "Node",
+  "last-used": "Last used",
+  created: "Newest",
+  name: "Name",
+};
+
+const GROUP_LABELS: Record<KeyGroupOption, string> = {
+  none: "No grouping",
+  project: "By project",
+  environment: "By environment",
+  node: "By node",
+  tag: "By tag",
+};
+
+export function getKeyNodeHost(keyData: StoredApiKey, fallbackBaseUrl: string): string {
+  return (keyData.baseUrl || fallbackBaseUrl).replace(/^https?:\/\//, "").replace(/\/$/, "");
+}
+
+function matchesFilter(keyData: StoredApiKey, filter: string, fallbackBaseUrl: string): boolean {
+  if (filter === "all") return true;
+  if (filter === "invalid") return Boolean(keyData.isInvalid);
+  const separator = filter.indexOf(":");
+  const field = filter.slice(0, separator);
+  const value = filter.slice(separator + 1);
+  if (field === "tag") return Boolean(keyData.tags?.includes(value));
+  if (field === "project") return keyData.project === value;
+  if (field === "environment") return keyData.environment === value;
+  if (field === "node") return getKeyNodeHost(keyData, fallbackBaseUrl) === value;
+  return true;
+}
+
+function searchScore(keyData: StoredApiKey, search: string, fallbackBaseUrl: string): number {
+  return Math.max(
+    fuzzyScore(keyData.label || "", search),
+    fuzzyScore(keyData.project || "", search),
+    fuzzyScore(keyData.environment || "", search),
+    fuzzyScore(keyData.notes || "", search),
+    fuzzyScore(getKeyNodeHost(keyData, fallbackBaseUrl), search),
+    ...(keyData.tags ?? []).map((tag) => fuzzyScore(tag, search))
+  );
+}
+
+function compareKeys(
+  a: StoredApiKey,
+  b: StoredApiKey,
+  sort: KeySortOption,
+  fallbackBaseUrl: string
+): number {
+  switch (sort) {
+    case "balance-high":
+      return (b.balance ?? -1) - (a.balance ?? -1);
+    case "balance-low":
+      return (a.balance ?? Infinity) - (b.balance ?? Infinity);
+    case "node":
+      return getKeyNodeHost(a, fallbackBaseUrl).localeCompare(getKeyNodeHost(b, fallbackBaseUrl));
+    case "last-used":
+      return (b.lastUsedAt ?? 0) - (a.lastUsedAt ?? 0);
+    case "created":
+      return (b.createdAt ?? 0) - (a.createdAt ?? 0);
+    case "name":
+      return (a.label || "").localeCompare(b.label || "");
+  }
+}
+
+function getGroupLabel(
+  keyData: StoredApiKey,
+  group: KeyGroupOption,
+  fallbackBaseUrl: string
+): string {
+  switch (group) {
+    case "project":
+      return keyData.project || "No project";
+    case "environment":
+      return keyData.environment || "No environment";
+    case "node":
+      return getKeyNodeHost(keyData, fallbackBaseUrl);
+    case "tag":
+      // Keys show up once, under their first tag
+      return keyData.tags?.[0] || "Untagged";
+    case "none":
+      return "";
+  }
+}
+
+/**
+ * Filters, searches, sorts and groups keys. A search ranks by match quality
+ * instead of the chosen sort, like the node list.
+ */
+export function applyKeyListView(
+  keys: StoredApiKey[],
+  view: KeyListView,
+  fallbackBaseUrl: string
+): KeyGroup[] {
+  const search = view.search.trim();
+  const ranked = keys
+    .filter((keyData) => matchesFilter(keyData, view.filter, fallbackBaseUrl))
+    .map((keyData) => ({
+      keyData,
+      score: search ? searchScore(keyData, search, fallbackBaseUrl) : 1,
+    }))
+    .filter((item) => item.score > 0)
+    .sort((a, b) =>
+      search
+        ? b.score - a.score
+        : compareKeys(a.keyData, b.keyData, view.sort, fallbackBaseUrl)
+    )
+    .map((item) => item.keyData);
+
+  const groups = new Map<string, StoredApiKey[]>();
+  for (const keyData of ranked) {
+    const label = getGroupLabel(keyData, view.group, fallbackBaseUrl);
+    groups.set(label, [...(groups.get(label) ?? []), keyData]);
+  }
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([label, groupKeys]) => ({ id: label || "all", label, keys: groupKeys }));
+}
+
+interface KeyListToolbarProps {
+  keys: StoredApiKey[];
+  view: KeyListView;
+  fallbackBaseUrl: string;
+  onChange: (view: KeyListView) => void;
+}
+
+const KeyListToolbar: React.FC<KeyListToolbarProps> = ({
+  keys,
+  view,
+  fallbackBaseUrl,
+  onChange,
+}) => {
+  const filterOptions = useMemo(() => {
+    const unique = (values: Array<string | undefined>) =>
+      Array.from(new Set(values.filter((value): value is string => Boolean(value)))).sort();
+    return [
+      ...unique(keys.map((keyData) => keyData.project)).map((value) => ({
+        value: `project:${value}`,
+        label: `Project: ${value}`,
+      })),
+      ...unique(keys.map((keyData) => keyData.environment)).map((value) => ({
+        value: `environment:${value}`,
+        label: `Env: ${value}`,
+      })),
+      ...unique(keys.flatMap((keyData) => keyData.tags ?? [])).map((value) => ({
+        value: `tag:${value}`,
+        label: `Tag: ${value}`,
+      })),
+      ...unique(keys.map((keyData) => getKeyNodeHost(keyData, fallbackBaseUrl))).map(
+        (value) => ({ value: `node:${value}`, label: `Node: ${value}` })
+      ),
+    ];
+  }, [keys, fallbackBaseUrl]);
+
+  const filterExists =
+    view.filter === "all" ||
+    view.filter === "invalid" ||
+    filterOptions.some((option) => option.value === view.filter);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="relative min-w-[12rem] flex-1">
+        <Search className="pointer-events-none absolute left-2.5 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          value={view.search}
+          onChange={(event) => onChange({ ...view, search: event.target.value })}
+          placeholder="Search keys, tags, notes"
+          className="h-8 pl-8 text-xs"
+        />
+      </div>
+      <Select
+        value={filterExists ? view.filter : "all"}
+        onValueChange={(filter) => onChange({ ...view, filter })}
+      >
+        <SelectTrigger className="h-8 w-40 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All keys</SelectItem>
+          <SelectItem value="invalid">Invalid keys</SelectItem>
+          {filterOptions.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={view.group}
+        onValueChange={(group) => onChange({ ...view, group: group as KeyGroupOption })}
+      >
+        <SelectTrigger className="h-8 w-36 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(GROUP_LABELS) as KeyGroupOption[]).map((option) => (
+            <SelectItem key={option} value={option}>
+              {GROUP_LABELS[option]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={view.sort}
+        onValueChange={(sort) => onChange({ ...view, sort: sort as KeySortOption })}
+      >
+        <SelectTrigger className="h-8 w-44 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(SORT_LABELS) as KeySortOption[]).map((option) => (
+            <SelectItem key={option} value={option}>
+              {SORT_LABELS[option]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export default KeyListToolbar;
@@ -0,0 +1,113 @@
+"use client";
+
+import React, { useState } from "react";
+import type { StoredApiKey } from "@/lib/apiKeySync";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+
+export type KeyMetadata = Pick<StoredApiKey, "project" | "environment" | "notes" | "tags">;
+
+function formatTimestamp(value: number | undefined): string {
+  return value ? new Date(value).toLocaleString() : "Never";
+}
+
+function toFormState(keyData: StoredApiKey) {
+  return {
+    project: keyData.project || "",
+    environment: keyData.environment || "",
+    tags: (keyData.tags ?? []).join(", "),
+    notes: keyData.notes || "",
+  };
+}
+
+interface KeyMetadataEditorProps {
+  keyData: StoredApiKey;
+  onSave: (metadata: KeyMetadata) => Promise<void>;
+}
+
+const KeyMetadataEditor: React.FC<KeyMetadataEditorProps> = ({ keyData, onSave }) => {
+  const [form, setForm] = useState(() => toFormState(keyData));
+  const [isSaving, setIsSaving] = useState(false);
+  const isDirty = JSON.stringify(form) !== JSON.stringify(toFormState(keyData));
+
+  const handleSave = async () => {
+    const tags = Array.from(
+      new Set(
+        form.tags
+          .split(",")
+          .map((tag) => tag.trim().toLowerCase())
+          .filter(Boolean)
+      )
+    );
+    setIsSaving(true);
+    try {
+      await onSave({
+        project: form.project.trim() || undefined,
+        environment: form.environment.trim() || undefined,
+        notes: form.notes.trim() || undefined,
+        tags: tags.length > 0 ? tags : undefined,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-1 gap-2 sm:grid-cols-3">
+        <Input
+          placeholder="Project"
+          value={form.project}
+          onChange={(event) => setForm({ ...form, project: event.target.value })}
+          className="h-8 text-xs"
+        />
+        <Input
+          placeholder="Environment"
+          value={form.environment}
+          onChange={(event) => setForm({ ...form, environment: event.target.value })}
+          className="h-8 text-xs"
+        />
+        <Input
+          placeholder="Tags (comma separated)"
+          value={form.tags}
+          onChange={(event) => setForm({ ...form, tags: event.target.value })}
+          className="h-8 text-xs"
+        />
+      </div>
+      <Textarea
+        placeholder="Notes"
+        value={form.notes}
+        onChange={(event) => setForm({ ...form, notes: event.target.value })}
+        className="min-h-12 text-xs md:text-xs"
+      />
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+        <span>Created {formatTimestamp(keyData.createdAt)}</span>
+        <span>Last used {formatTimestamp(keyData.lastUsedAt)}</span>
+        {isDirty ? (
+          <div className="ml-auto flex gap-1.5">
+            <Button
+              onClick={() => setForm(toFormState(keyData))}
+              variant="ghost"
+              size="xs"
+              type="button"
+            >
+              Reset
+            </Button>
+            <Button
+              onClick={() => void handleSave()}
+              disabled={isSaving}
+              variant="outline"
+              size="xs"
+              type="button"
+            >
+              {isSaving ? "Saving..." : "Save details"}
+            </Button>
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+};
+
+export default KeyMetadataEditor;
@@ -0,0 +1,304 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { AlertTriangle, BarChart3 } from "lucide-react";
+import type { StoredApiKey } from "@/lib/apiKeySync";
+import {
+  DAY_MS,
+  HOUR_MS,
+  PLATFORM_KEY_USAGE_UPDATED_EVENT,
+  getSpendBuckets,
+  readKeyUsageHistory,
+  summarizeKeyUsage,
+  type KeyUsageHistory,
+} from "@/lib/keyUsage";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+type UsageRange = "day" | "week" | "month";
+
+const RANGES: Record<UsageRange, { label: string; spanMs: number; bucketMs: number }> = {
+  day: { label: "Last 24 hours", spanMs: DAY_MS, bucketMs: HOUR_MS },
+  week: { label: "Last 7 days", spanMs: 7 * DAY_MS, bucketMs: DAY_MS },
+  month: { label: "Last 30 days", spanMs: 30 * DAY_MS, bucketMs: DAY_MS },
+};
+
+const RUNWAY_WINDOWS = [
+  { value: "24", label: "24 hours" },
+  { value: "72", label: "3 days" },
+  { value: "168", label: "7 days" },
+];
+
+const ALL_KEYS = "all";
+const CLOCK_TICK_MS = 60_000;
+
+function formatSats(msats: number | null): string {
+  if (msats === null) return "—";
+  const sats = msats / 1000;
+  return `${sats >= 100 ? Math.round(sats).toLocaleString() : sats.toFixed(2)} sats`;
+}
+
+function formatRunway(hours: number | null): string {
+  if (hours === null) return "—";
+  if (hours < 1) return `${Math.max(1, Math.round(hours * 60))}m`;
+  if (hours < 48) return `${Math.round(hours)}h`;
+  return `${Math.round(hours / 24)}d`;
+}
+
+function getNodeHost(url: string): string {
+  return url.replace(/^https?:\/\//, "").replace(/\/$/, "");
+}
+
+function formatBucketLabel(start: number, bucketMs: number): string {
+  const date = new Date(start);
+  return bucketMs < DAY_MS
+    ? date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+    : date.toLocaleDateString([], { month: "short", day: "numeric" });
+}
+
+interface KeyUsagePanelProps {
+  keys: StoredApiKey[];
+  fallbackBaseUrl: string;
+}
+
+const KeyUsagePanel: React.FC<KeyUsagePanelProps> = ({ keys, fallbackBaseUrl }) => {
+  const [histories, setHistories] = useState<KeyUsageHistory[]>([]);
+  const [range, setRange] = useState<UsageRange>("day");
+  const [scope, setScope] = useState<string>(ALL_KEYS);
+  const [runwayWindowHours, setRunwayWindowHours] = useState("72");
+  // Kept in state so the charts stay pure and still move forward while open
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const refresh = () => {
+      setHistories(readKeyUsageHistory());
+      setNow(Date.now());
+    };
+    refresh();
+    const timer = window.setInterval(() => setNow(Date.now()), CLOCK_TICK_MS);
+    window.addEventListener(PLATFORM_KEY_USAGE_UPDATED_EVENT, refresh);
+    return () => {
+      window.clearInterval(timer);
+      window.removeEventListener(PLATFORM_KEY_USAGE_UPDATED_EVENT, refresh);
+    };
+  }, []);
+
+  const labels = useMemo(
+    () => new Map(keys.map((keyData) => [keyData.key, keyData.label || "Unnamed"])),
+    [keys]
+  );
+
+  // Only keys still in the list; removed keys keep their history until pruned
+  const activeHistories = useMemo(
+    () => histories.filter((history) => labels.has(history.key)),
+    [histories, labels]
+  );
+
+  const summaries = useMemo(
+    () =>
+      activeHistories
+        .map((history) => summarizeKeyUsage(history, now))
+        .sort((a, b) => (b.burnRateMsatsPerHour ?? 0) - (a.burnRateMsatsPerHour ?? 0)),
+    [activeHistories, now]
+  );
+
+  const nodeSummaries = useMemo(() => {
+    const nodes = new Map<string, { keys: number; spentLastDay: number; burnRate: number }>();
+    for (const summary of summaries) {
+      const node = getNodeHost(summary.baseUrl || fallbackBaseUrl);
+      const entry = nodes.get(node) ?? { keys: 0, spentLastDay: 0, burnRate: 0 };
+      entry.keys += 1;
+      entry.spentLastDay += summary.spentLastDayMsats;
+      entry.burnRate += summary.burnRateMsatsPerHour ?? 0;
+      nodes.set(node, entry);
+    }
+    return Array.from(nodes.entries()).sort((a, b) => b[1].spentLastDay - a[1].spentLastDay);
+  }, [summaries, fallbackBaseUrl]);
+
+  const { spanMs, bucketMs } = RANGES[range];
+  const buckets = useMemo(() => {
+    const scoped =
+      scope === ALL_KEYS
+        ? activeHistories
+        : activeHistories.filter((history) => history.key === scope);
+    return getSpendBuckets(scoped, bucketMs, now - spanMs, now);
+  }, [activeHistories, scope, bucketMs, spanMs, now]);
+
+  const maxBucket = Math.max(...buckets.map((bucket) => bucket.spentMsats), 1);
+  const totalSpent = buckets.reduce((sum, bucket) => sum + bucket.spentMsats, 0);
+  const runwayLimit = Number(runwayWindowHours);
+  const atRisk = summaries.filter(
+    (summary) => summary.runwayHours !== null && summary.runwayHours <= runwayLimit
+  );
+
+  if (activeHistories.length === 0) {
+    return (
+      <div className="rounded-xl border border-dashed border-border p-5 text-sm text-muted-foreground">
+        No usage recorded yet. Balance refreshes and playground runs add snapshots here.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {atRisk.length > 0 ? (
+        <div className="flex items-start gap-2 rounded-md border border-border bg-muted/40 p-3 text-sm">
+          <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-foreground/80" />
+          <div className="min-w-0">
+            <p className="font-medium text-foreground">
+              {atRisk.length} key{atRisk.length === 1 ? "" : "s"} may run dry within{" "}
+              {RUNWAY_WINDOWS.find((option) => option.value === runwayWindowHours)?.label}
+            </p>
+            <p className="truncate text-xs text-muted-foreground">
+              {atRisk
+                .map(
+                  (summary) =>
+                    `${labels.get(summary.key)} (${formatRunway(summary.runwayHours)} left)`
+                )
+                .join(", ")}
+            </p>
+          </div>
+        </div>
+      ) : null}
+
+      <div className="rounded-xl border border-border bg-muted/30 p-3">
+        <div className="mb-3 flex flex-wrap items-center gap-2">
+          <BarChart3 className="h-4 w-4 text-muted-foreground" />
+          <span className="text-sm font-medium text-foreground">
+            {formatSats(totalSpent)} spent
+          </span>
+          <div className="ml-auto flex flex-wrap items-center gap-2">
+            <Select value={scope} onValueChange={setScope}>
+              <SelectTrigger className="h-8 w-40 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_KEYS}>All keys</SelectItem>
+                {activeHistories.map((history) => (
+                  <SelectItem key={history.key} value={history.key}>
+                    {labels.get(history.key)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={range} onValueChange={(value) => setRange(value as UsageRange)}>
+              <SelectTrigger className="h-8 w-36 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(RANGES) as UsageRange[]).map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {RANGES[option].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="flex h-32 items-end gap-0.5" role="img" aria-label="Spend over time">
+          {buckets.map((bucket) => (
+            <div
+              key={bucket.start}
+              className="flex-1 rounded-t-sm bg-foreground/70"
+              style={{
+                height: `${(bucket.spentMsats / maxBucket) * 100}%`,
+                minHeight: bucket.spentMsats > 0 ? 2 : 0,
+              }}
+              title={`${formatBucketLabel(bucket.start, bucketMs)} · ${formatSats(
+                bucket.spentMsats
+              )}`}
+            />
+          ))}
+        </div>
+        <div className="mt-1 flex justify-between text-[11px] text-muted-foreground">
+          <span>{buckets[0] ? formatBucketLabel(buckets[0].start, bucketMs) : ""}</span>
+          <span>Now</span>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto rounded-xl border border-border">
+        <table className="w-full text-sm">
+          <thead className="bg-muted/40 text-xs text-muted-foreground">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium">Key</th>
+              <th className="px-3 py-2 text-right font-medium">Balance</th>
+              <th className="px-3 py-2 text-right font-medium">Spent 24h</th>
+              <th className="px-3 py-2 text-right font-medium">Per hour</th>
+              <th className="px-3 py-2 text-right font-medium">Runway</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summaries.map((summary) => {
+              const flagged =
+                summary.runwayHours !== null && summary.runwayHours <= runwayLimit;
+              return (
+                <tr key={summary.key} className="border-t border-border">
+                  <td className="max-w-[12rem] px-3 py-2">
+                    <p className="truncate font-medium text-foreground">
+                      {labels.get(summary.key)}
+                    </p>
+                    <p className="truncate text-xs text-muted-foreground">
+                      {getNodeHost(summary.baseUrl || fallbackBaseUrl)}
+                    </p>
+                  </td>
+                  <td className="px-3 py-2 text-right">{formatSats(summary.balance)}</td>
+                  <td className="px-3 py-2 text-right">
+                    {formatSats(summary.spentLastDayMsats)}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    {formatSats(summary.burnRateMsatsPerHour)}
+                  </td>
+                  <td
+                    className={`px-3 py-2 text-right ${
+                      flagged ? "font-medium text-foreground" : "text-muted-foreground"
+                    }`}
+                  >
+                    {flagged ? <AlertTriangle className="mr-1 inline h-3 w-3" /> : null}
+                    {formatRunway(summary.runwayHours)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap items-start gap-4">
+        <div className="min-w-0 flex-1 space-y-1.5">
+          <h3 className="text-sm font-medium text-foreground/85">By node</h3>
+          {nodeSummaries.map(([node, entry]) => (
+            <div key={node} className="flex items-center gap-2 text-xs">
+              <span className="min-w-0 flex-1 truncate text-foreground">{node}</span>
+              <span className="text-muted-foreground">
+                {entry.keys} key{entry.keys === 1 ? "" : "s"} ·{" "}
+                {formatSats(entry.spentLastDay)} / 24h · {formatSats(entry.burnRate)} / h
+              </span>
+            </div>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-xs text-muted-foreground">
+          Warn when a key runs dry within
+          <Select value={runwayWindowHours} onValueChange={setRunwayWindowHours}>
+            <SelectTrigger className="h-8 w-28 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RUNWAY_WINDOWS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default KeyUsagePanel;
@@ -1,16 +1,27 @@
 "use client";
 
 import { useCallback, useEffect, useMemo, useState } from "react";
-import { CashuMint, CashuWallet, CheckStateEnum, type Proof as CashuProof } from "@cashu/cashu-ts";
-import { Plus, RefreshCw, Trash2 } from "lucide-react";
+import { ArrowRightLeft, Plus, RefreshCw, Trash2 } from "lucide-react";
 import { useObservableState } from "applesauce-react/hooks";
 import { toast } from "sonner";
+import RelayStatusPanel from "@/components/platform/RelayStatusPanel";
+import VaultBackupPanel from "@/components/platform/VaultBackupPanel";
+import ReconciliationSummary from "@/components/wallet/ReconciliationSummary";
+import SeedBackup from "@/components/wallet/SeedBackup";
+import SyncConflicts from "@/components/wallet/SyncConflicts";
 import WalletTab from "@/components/wallet/WalletTab";
 import { useAccountManager } from "@/components/providers/ClientProviders";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Tooltip,
   TooltipContent,
@@ -21,18 +32,28 @@ import { getStorageBoolean, setStorageBoolean } from "@/lib/storage";
 import {
   getProofsBalanceSats,
   PLATFORM_WALLET_UPDATED_EVENT,
+  commitCashuProofChanges,
+  loadPlatformWallet,
   readCashuProofs,
   readTransactionHistory,
   type WalletTransactionHistory,
-  writeCashuProofs,
 } from "@/lib/platformWallet";
+import {
+  balanceByMint,
+  moveFunds,
+  resolveSnapshotConflicts,
+  type MintBalance,
+} from "@/lib/cashuEngine";
+import { getWalletEventMnemonic } from "@/lib/cashuSeed";
+import { runWalletReconciliation } from "@/lib/walletReconciler";
+import { retryQueuedPublishes } from "@/lib/relayManager";
+import { RoutstrNodeClient } from "@/lib/routstrNodeClient";
 import { DEFAULT_BASE_URL } from "@/lib/utils";
 import {
-  fetchNip60ActiveProofs,
+  countUnsyncedWalletEvents,
+  fetchNip60WalletState,
   fetchNip60WalletConfig,
-  getProofsForMint,
   isCloudSyncCapableAccount,
-  publishNip60MintSnapshot,
   publishNip60WalletMints,
   type WalletProof,
 } from "@/lib/nip60WalletSync";
@@ -112,39 +133,6 @@ function cleanMintUrl(mintUrl: string): string {
   }
 }
 
-function proofIdentity(proof: StoredProofWithMint): string {
-  if (typeof proof.secret === "string" && proof.secret.length > 0) {
-    return proof.secret;
-  }
-  return `${String(proof.id || "")}:${Number(proof.amount || 0)}:${String(proof.C || "")}`;
-}
-
-async function createWalletForMint(candidateMintUrl: string): Promise<CashuWallet> {
-  const mint = new CashuMint(candidateMintUrl);
-  const keysets = await mint.getKeySets();
-  const activeKeysets = keysets.keysets.filter((keyset) => keyset.active);
-  const msatKeyset = activeKeysets.find(
-    (keyset) => String(keyset.unit).toLowerCase() === "msat"
-  );
-  const satKeyset = activeKeysets.find(
-    (keyset) => String(keyset.unit).toLowerCase() === "sat"
-  );
-  const preferredUnit = msatKeyset ? "msat" : satKeyset ? "sat" : null;
-
-  if (!preferredUnit) {
-    const units = [...new Set(activeKeysets.map((keyset) => String(keyset.unit).toLowerCase()))];
-    throw new Error(
-      `Mint ${candidateMintUrl} has no active sat/msat keyset (units: ${
-        units.join(", ") || "none"
-      })`
-    );
-  }
-
-  const wallet = new CashuWallet(mint, { unit: preferredUnit });
-  await wallet.loadMint();
-  return wallet;
-}
-
 async function isReachableMint(url: string): Promise<boolean> {
   const normalized = normalizeMintUrl(url);
   if (!normalized || isOnionUrl(normalized)) return false;
@@ -184,6 +172,7 @@ export default function Nip60WalletPanel({
     NORMALIZED_FALLBACK_MINT,
   ]);
   const [walletPrivkey, setWalletPrivkey] = useState<string | null>(null);
+  const [walletMnemonic, setWalletMnemonic] = useState<string | null>(null);
   const [customMintUrl, setCustomMintUrl] = useState("");
   const [showAddMintInput, setShowAddMintInput] = useState(false);
   const [showRemoveMintMode, setShowRemoveMintMode] = useState(false);
@@ -193,6 +182,13 @@ export default function Nip60WalletPanel({
   const [isCleaningAllProofs, setIsCleaningAllProofs] = useState(false);
   const [walletSyncError, setWalletSyncError] = useState<string | null>(null);
   const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(null);
+  const [mintBalanceDetails, setMintBalanceDetails] = useState<MintBalance[] | null>(null);
+  const [nodeMints, setNodeMints] = useState<string[]>([]);
+  const [showMoveFunds, setShowMoveFunds] = useState(false);
+  const [moveFromMint, setMoveFromMint] = useState("");
+  const [moveToMint, setMoveToMint] = useState("");
+  const [moveAmount, setMoveAmount] = useState("");
+  const [isMovingFunds, setIsMovingFunds] = useState(false);
 
   const syncAccount = useMemo(
     () => (isCloudSyncCapableAccount(activeAccount) ? activeAccount : null),
@@ -208,19 +204,27 @@ export default function Nip60WalletPanel({
   }, [baseUrl]);
 
   useEffect(() => {
+    let cancelled = false;
     ensureNip60Enabled();
-    setWalletBalance(getProofsBalanceSats());
-    setTransactionHistory(readTransactionHistory());
 
     const refreshWalletState = () => {
       setWalletBalance(getProofsBalanceSats());
       setTransactionHistory(readTransactionHistory());
+      void balanceByMint()
+        .then((balances) => {
+          if (!cancelled) setMintBalanceDetails(balances);
+        })
+        .catch(() => {
+          if (!cancelled) setMintBalanceDetails(null);
+        });
     };
+    refreshWalletState();
 
     window.addEventListener(PLATFORM_WALLET_UPDATED_EVENT, refreshWalletState);
     window.addEventListener("storage", refreshWalletState);
 
     return () => {
+      cancelled = true;
       window.removeEventListener(
         PLATFORM_WALLET_UPDATED_EVENT,
         refreshWalletState
@@ -245,16 +249,33 @@ export default function Nip60WalletPanel({
     setIsSyncingNip60(true);
     setWalletSyncError(null);
     try {
-      let syncedProofs = await fetchNip60ActiveProofs(syncAccount);
+      await loadPlatformWallet();
+      if (countUnsyncedWalletEvents(syncAccount.pubkey) > 0) {
+        await retryQueuedPublishes({ force: true });
+        const unsynced = countUnsyncedWalletEvents(syncAccount.pubkey);
+        if (unsynced > 0) {
+          // Relays still hold older snapshots; keep the local proofs until they catch up
+          setWalletSyncError(
+            `${unsynced} wallet change${unsynced === 1 ? " is" : "s are"} waiting for relays.`
+          );
+          setWalletBalance(getProofsBalanceSats());
+          return;
+        }
+      }
+      let remoteState = await fetchNip60WalletState(syncAccount);
       const localProofs = readCashuProofs() as WalletProof[];
-      if (syncedProofs.length === 0 && localProofs.length === 0) {
-        syncedProofs = await fetchNip60ActiveProofs(syncAccount, {
+      if (remoteState.proofs.length === 0 && localProofs.length === 0) {
+        remoteState = await fetchNip60WalletState(syncAccount, {
           maxWaitMs: EMPTY_REMOTE_SYNC_RETRY_WAIT_MS,
         });
       }
+      const syncedProofs = remoteState.proofs;
       const shouldPersistRemote = syncedProofs.length > 0 || localProofs.length === 0;
       if (shouldPersistRemote) {
-        writeCashuProofs(syncedProofs);
+        await commitCashuProofChanges(localProofs, syncedProofs);
+      }
+      if (remoteState.divergentMints.length > 0) {
+        await resolveSnapshotConflicts(remoteState.divergentMints, { syncAccount });
       }
       setWalletBalance(getProofsBalanceSats());
       setLastSyncedAt(Date.now());
@@ -267,144 +288,32 @@ export default function Nip60WalletPanel({
     }
   }, [syncAccount]);
 
-  const syncMintSnapshotToNip60 = useCallback(
-    async (
-      mintToSync: string,
-      beforeProofs: WalletProof[],
-      afterProofs: WalletProof[]
-    ): Promise<WalletProof[]> => {
-      if (!syncAccount) return afterProofs;
-
-      const normalizedMint = normalizeMintUrl(mintToSync);
-      const beforeMintProofs = getProofsForMint(beforeProofs, normalizedMint);
-      const afterMintProofs = getProofsForMint(afterProofs, normalizedMint);
-      const eventIdsToDelete = Array.from(
-        new Set(
-          beforeMintProofs
-            .map((proof) => proof.eventId)
-            .filter((eventId): eventId is string => typeof eventId === "string")
-        )
-      );
-
-      if (afterMintProofs.length === 0 && eventIdsToDelete.length === 0) {
-        return afterProofs;
-      }
-
-      const newEventId = await publishNip60MintSnapshot(
-        syncAccount,
-        normalizedMint,
-        afterMintProofs,
-        eventIdsToDelete
-      );
-
-      return afterProofs.map((proof) => {
-        if (normalizeMintUrl(proof.mintUrl || "") !== normalizedMint) {
-          return proof;
-        }
-        return {
-          ...proof,
-          eventId: newEventId,
-        };
-      });
-    },
-    [syncAccount]
-  );
-
   const handleCleanAllSpentProofs = useCallback(async (): Promise<void> => {
     if (isCleaningAllProofs) return;
 
     setIsCleaningAllProofs(true);
     setWalletSyncError(null);
     try {
-      const proofsBefore = readCashuProofs() as WalletProof[];
-      if (proofsBefore.length === 0) {
-        toast.success("No proofs found");
-        return;
-      }
-
-      const proofMints = uniqueMints(
-        proofsBefore
-          .map((proof) => normalizeMintUrl(proof.mintUrl || ""))
-          .filter((mint) => mint.length > 0)
-      );
-
-      if (proofMints.length === 0) {
-        toast.success("No mint proofs found");
-        return;
-      }
-
-      const spentProofIds = new Set<string>();
-      const changedMints = new Set<string>();
-      const failedMints: string[] = [];
-
-      for (const mint of proofMints) {
-        try {
-          const proofsForMint = getProofsForMint(proofsBefore, mint);
-          if (proofsForMint.length === 0) continue;
-
-          const wallet = await createWalletForMint(mint);
-          const proofStates = await wallet.checkProofsStates(proofsForMint as CashuProof[]);
-          if (!Array.isArray(proofStates) || proofStates.length === 0) continue;
-
-          let foundSpentForMint = false;
-          proofsForMint.forEach((proof, index) => {
-            if (proofStates[index]?.state === CheckStateEnum.SPENT) {
-              spentProofIds.add(proofIdentity(proof));
-              foundSpentForMint = true;
-            }
-          });
-          if (foundSpentForMint) {
-            changedMints.add(mint);
-          }
-        } catch {
-          failedMints.push(cleanMintUrl(mint));
-        }
-      }
-
-      if (spentProofIds.size === 0) {
-        if (failedMints.length > 0) {
-          const errorMessage = `Unable to check ${failedMints.length} mint${
-            failedMints.length === 1 ? "" : "s"
-          }.`;
-          setWalletSyncError(errorMessage);
+      const report = await runWalletReconciliation(syncAccount);
+      const spentProofs = report.mints.reduce((sum, mint) => sum + mint.spentProofs, 0);
+      const spentSats = report.mints.reduce((sum, mint) => sum + mint.spentSats, 0);
+
+      if (report.unreachableMints.length > 0) {
+        const errorMessage = `Unable to check ${report.unreachableMints.length} mint${
+          report.unreachableMints.length === 1 ? "" : "s"
+        }.`;
+        setWalletSyncError(errorMessage);
+        if (spentProofs === 0) {
           toast.error(errorMessage);
-        } else {
-          toast.success("No spent proofs found");
+          return;
         }
-        return;
       }
 
-      let proofsAfter = proofsBefore.filter(
-        (proof) => !spentProofIds.has(proofIdentity(proof))
-      );
-
-      let nip60SyncFailed = false;
-      for (const mint of changedMints) {
-        try {
-          proofsAfter = await syncMintSnapshotToNip60(mint, proofsBefore, proofsAfter);
-        } catch (syncError) {
-          console.warn("Failed to sync cleaned proofs to NIP-60", syncError);
-          nip60SyncFailed = true;
-        }
-      }
-
-      if (nip60SyncFailed || failedMints.length > 0) {
-        const parts: string[] = [];
-        if (failedMints.length > 0) {
-          parts.push(
-            `Unable to check ${failedMints.length} mint${failedMints.length === 1 ? "" : "s"}.`
-          );
-        }
-        if (nip60SyncFailed) {
-          parts.push("Cleaned proofs locally, but failed to publish part of NIP-60 snapshots.");
-        }
-        setWalletSyncError(parts.join(" "));
-      }
-
-      writeCashuProofs(proofsAfter);
       setWalletBalance(getProofsBalanceSats());
       toast.success(
-        `Cleaned ${spentProofIds.size} spent proof${spentProofIds.size === 1 ? "" : "s"}`
+        spentProofs > 0
+          ? `Cleaned ${spentProofs} spent proof${spentProofs === 1 ? "" : "s"} (${spentSats.toLocaleString()} sats)`
+          : "No spent proofs found"
       );
     } catch (error) {
       const message =
@@ -414,7 +323,7 @@ export default function Nip60WalletPanel({
     } finally {
       setIsCleaningAllProofs(false);
     }
-  }, [isCleaningAllProofs, syncMintSnapshotToNip60]);
+  }, [isCleaningAllProofs, syncAccount]);
 
   useEffect(() => {
     void syncProofsFromNip60();
@@ -438,6 +347,7 @@ export default function Nip60WalletPanel({
             const walletConfig = await fetchNip60WalletConfig(syncAccount);
             if (cancelled) return;
             setWalletPrivkey(walletConfig.privkey);
+            setWalletMnemonic(walletConfig.mnemonic);
             walletConfigMints = walletConfig.mints;
           } catch {
             if (!cancelled) setWalletPrivkey(null);
@@ -446,23 +356,20 @@ export default function Nip60WalletPanel({
           setWalletPrivkey(null);
         }
 
-        let nodeMints: string[] = [];
+        let acceptedMints: string[] = [];
         try {
-          const response = await fetch(`${normalizedBaseUrl}v1/info`, {
-            cache: "no-store",
-          });
-          if (response.ok) {
-            const payload = (await response.json()) as { mints?: string[] };
-            nodeMints = Array.isArray(payload?.mints) ? payload.mints : [];
-          }
+          acceptedMints = uniqueMints(
+            await new RoutstrNodeClient(normalizedBaseUrl).getAcceptedMints()
+          );
         } catch {
           // Ignore endpoint errors and keep wallet-config mints
         }
+        if (!cancelled) setNodeMints(acceptedMints);
 
         const nextMints = uniqueMints([
           ...walletConfigMints,
           ...proofMints,
-          ...nodeMints,
+          ...acceptedMints,
           NORMALIZED_FALLBACK_MINT,
         ]);
 
@@ -508,10 +415,13 @@ export default function Nip60WalletPanel({
       }
 
       let privkey = walletPrivkey;
+      let mnemonic = walletMnemonic;
       if (!privkey) {
         const walletConfig = await fetchNip60WalletConfig(syncAccount);
         privkey = walletConfig.privkey;
+        mnemonic = walletConfig.mnemonic;
         setWalletPrivkey(walletConfig.privkey);
+        setWalletMnemonic(walletConfig.mnemonic);
       }
 
       if (!privkey) {
@@ -520,9 +430,17 @@ export default function Nip60WalletPanel({
         );
       }
 
-      await publishNip60WalletMints(syncAccount, nextMints, privkey);
+      const { queued } = await publishNip60WalletMints(
+        syncAccount,
+        nextMints,
+        privkey,
+        getWalletEventMnemonic(mnemonic)
+      );
+      if (queued) {
+        toast.success("Saved locally. Wallet sync will retry when relays are reachable.");
+      }
     },
-    [syncAccount, walletPrivkey]
+    [syncAccount, walletPrivkey, walletMnemonic]
   );
 
   const handleAddMint = useCallback(async () => {
@@ -583,26 +501,38 @@ export default function Nip60WalletPanel({
   );
 
   const mintBalances: Record<string, number> = {};
+  const mintUnits: Record<string, string> = {};
   for (const mint of availableMints) {
     mintBalances[mint] = 0;
   }
 
   let untaggedBalance = 0;
-  const storedProofs = readCashuProofs() as StoredProofWithMint[];
-  for (const proof of storedProofs) {
-    const amount = Number(proof?.amount || 0);
-    if (!Number.isFinite(amount) || amount <= 0) continue;
-
-    const proofMint = normalizeMintUrl(proof?.mintUrl || "");
-    if (!proofMint) {
-      untaggedBalance += amount;
-      continue;
+  if (mintBalanceDetails) {
+    for (const detail of mintBalanceDetails) {
+      if (!detail.mintUrl) {
+        untaggedBalance += detail.sats;
+        continue;
+      }
+      mintBalances[detail.mintUrl] = (mintBalances[detail.mintUrl] || 0) + detail.sats;
+      if (detail.unit) mintUnits[detail.mintUrl] = detail.unit;
     }
+  } else {
+    const storedProofs = readCashuProofs() as StoredProofWithMint[];
+    for (const proof of storedProofs) {
+      const amount = Number(proof?.amount || 0);
+      if (!Number.isFinite(amount) || amount <= 0) continue;
+
+      const proofMint = normalizeMintUrl(proof?.mintUrl || "");
+      if (!proofMint) {
+        untaggedBalance += amount;
+        continue;
+      }
 
-    if (mintBalances[proofMint] === undefined) {
-      mintBalances[proofMint] = 0;
+      if (mintBalances[proofMint] === undefined) {
+        mintBalances[proofMint] = 0;
+      }
+      mintBalances[proofMint] += amount;
     }
-    mintBalances[proofMint] += amount;
   }
 
   if (untaggedBalance > 0) {
@@ -613,6 +543,65 @@ export default function Nip60WalletPanel({
     mintBalances[targetMint] = (mintBalances[targetMint] || 0) + untaggedBalance;
   }
 
+  const totalBalanceSats = mintBalanceDetails
+    ? mintBalanceDetails.reduce((sum, detail) => sum + detail.sats, 0)
+    : walletBalance;
+  const fundedMints = Object.keys(mintBalances).filter((mint) => mintBalances[mint] > 0);
+  const nodeMintSet = new Set(nodeMints);
+  const moveTargetOptions = uniqueMints([...nodeMints, ...availableMints]).filter(
+    (mint) => mint !== moveFromMint
+  );
+
+  const openMoveFunds = () => {
+    const source =
+      fundedMints.find((mint) => !nodeMintSet.has(mint)) || fundedMints[0] || "";
+    const target =
+      nodeMints.find((mint) => mint !== source) ||
+      availableMints.find((mint) => mint !== source) ||
+      "";
+    setMoveFromMint(source);
+    setMoveToMint(target);
+    setMoveAmount(source ? String(Math.floor(mintBalances[source] || 0)) : "");
+    setShowMoveFunds((previous) => !previous);
+  };
+
+  const handleMoveFunds = async () => {
+    const amount = Number.parseInt(moveAmount, 10);
+    if (!moveFromMint || !moveToMint) {
+      toast.error("Select a source and a destination mint");
+      return;
+    }
+    if (!Number.isFinite(amount) || amount <= 0) {
+      toast.error("Enter a valid amount in sats");
+      return;
+    }
+
+    setIsMovingFunds(true);
+    setWalletSyncError(null);
+    try {
+      const result = await moveFunds(moveFromMint, moveToMint, amount, { syncAccount });
+      if (result.claimed) {
+        toast.success(
+          `Moved ${result.amountSats.toLocaleString()} sats to ${cleanMintUrl(
+            result.toMintUrl
+          )} (fee ${result.feePaidSats.toLocaleString()} sats)`
+        );
+      } else {
+        toast.success(
+          `Paid ${cleanMintUrl(result.toMintUrl)}. Funds will be claimed once the mint confirms the invoice.`
+        );
+      }
+      setShowMoveFunds(false);
+      setMoveAmount("");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to move funds";
+      setWalletSyncError(message);
+      toast.error(message);
+    } finally {
+      setIsMovingFunds(false);
+    }
+  };
+
   return (
     <div className="min-w-0 space-y-4">
       <div className="space-y-2">
@@ -639,13 +628,14 @@ export default function Nip60WalletPanel({
         {walletSyncError ? (
           <p className="text-xs text-foreground/80">{walletSyncError}</p>
         ) : null}
+        <SyncConflicts />
       </div>
 
       <Card className="min-w-0 gap-0 bg-muted/20 p-4 py-4 shadow-none">
         <div className="flex items-center justify-between gap-3">
           <span className="text-sm text-muted-foreground">Available balance</span>
           <span className="text-lg font-semibold text-foreground">
-            {walletBalance.toLocaleString()} sats
+            {totalBalanceSats.toLocaleString()} sats
           </span>
         </div>
 
@@ -653,6 +643,17 @@ export default function Nip60WalletPanel({
           <div className="mb-2 flex flex-wrap items-center gap-2">
             <h3 className="text-sm font-medium text-foreground/85">Mints</h3>
             <div className="ml-auto flex items-center gap-1.5">
+              <Button
+                onClick={openMoveFunds}
+                disabled={isMovingFunds || isLoadingMints || fundedMints.length === 0}
+                variant="outline"
+                size="icon-sm"
+                aria-label="Move funds between mints"
+                title="Move funds between mints"
+                type="button"
+              >
+                <ArrowRightLeft className="h-4 w-4" />
+              </Button>
               <Button
                 onClick={() => setShowAddMintInput((previous) => !previous)}
                 disabled={!syncAccount || isSavingMints || isLoadingMints}
@@ -754,6 +755,16 @@ export default function Nip60WalletPanel({
                     >
                       {cleanMintUrl(mint)}
                     </label>
+                    {nodeMintSet.has(mint) ? (
+                      <span className="shrink-0 rounded-full border border-border/70 px-1.5 text-[10px] text-muted-foreground">
+                        node
+                      </span>
+                    ) : null}
+                    {mintUnits[mint] ? (
+                      <span className="shrink-0 text-[10px] uppercase text-muted-foreground">
+                        {mintUnits[mint]}
+                      </span>
+                    ) : null}
                     <span className="shrink-0 text-xs font-medium text-muted-foreground">
                       {(mintBalances[mint] || 0).toLocaleString()} sats
                     </span>
@@ -782,6 +793,65 @@ export default function Nip60WalletPanel({
             </RadioGroup>
           )}
 
+          {showMoveFunds ? (
+            <div className="mt-3 space-y-2 border-t border-border pt-3">
+              <p className="text-xs text-muted-foreground">
+                Melt from one mint and mint into another through a Lightning
+                payment. Mints marked &quot;node&quot; are accepted by the selected node.
+              </p>
+              <div className="grid gap-2 sm:grid-cols-2">
+                <Select value={moveFromMint} onValueChange={setMoveFromMint}>
+                  <SelectTrigger className="w-full min-w-0">
+                    <SelectValue placeholder="From mint" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {fundedMints.map((mint) => (
+                      <SelectItem key={`move-from-${mint}`} value={mint}>
+                        {cleanMintUrl(mint)} · {(mintBalances[mint] || 0).toLocaleString()} sats
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={moveToMint} onValueChange={setMoveToMint}>
+                  <SelectTrigger className="w-full min-w-0">
+                    <SelectValue placeholder="To mint" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {moveTargetOptions.map((mint) => (
+                      <SelectItem key={`move-to-${mint}`} value={mint}>
+                        {cleanMintUrl(mint)}
+                        {nodeMintSet.has(mint) ? " (node)" : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex flex-col gap-2 sm:flex-row">
+                <Input
+                  type="number"
+                  value={moveAmount}
+                  onChange={(event) => setMoveAmount(event.target.value)}
+                  className="flex-1"
+                  placeholder="Amount in sats"
+                />
+                <Button
+                  onClick={() => {
+                    void handleMoveFunds();
+                  }}
+                  disabled={isMovingFunds || !moveFromMint || !moveToMint || !moveAmount}
+                  variant="outline"
+                  type="button"
+                >
+                  {isMovingFunds ? "Moving..." : "Move funds"}
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Lightning fees are paid from the source mint, so leave some headroom
+                when moving a full balance.
+              </p>
+            </div>
+          ) : null}
+
           {showAddMintInput ? (
             <div className="mt-3 border-t border-border pt-3">
               <div className="flex flex-col gap-2 sm:flex-row">
@@ -816,12 +886,30 @@ export default function Nip60WalletPanel({
             <p className="mt-2 text-xs text-muted-foreground">
               Mint editing is available after signer login.
             </p>
+          ) : walletPrivkey ? (
+            <p className="mt-2 text-xs text-muted-foreground">
+              Nutzaps to your npub on these mints are redeemed into this wallet.
+            </p>
           ) : null}
+
+          <ReconciliationSummary />
         </div>
       </Card>
 
+      <Card className="min-w-0 gap-0 bg-muted/20 p-4 py-4 shadow-none">
+        <SeedBackup account={syncAccount} mints={availableMints} />
+      </Card>
+
+      <Card className="min-w-0 gap-0 bg-muted/20 p-4 py-4 shadow-none">
+        <RelayStatusPanel pubkey={syncAccount?.pubkey} />
+      </Card>
+
+      <Card className="min-w-0 gap-0 bg-muted/20 p-4 py-4 shadow-none">
+        <VaultBackupPanel />
+      </Card>
+
       <WalletTab
-        balance={walletBalance}
+        balance={totalBalanceSats}
         setBalance={setWalletBalance}
         mintUrl={mintUrl}
         setTransactionHistory={setTransactionHistory}
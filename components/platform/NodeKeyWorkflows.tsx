@@ -2,27 +2,27 @@
 
 import { useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from "react";
 import { format, isValid, parse } from "date-fns";
-import {
-  CashuMint,
-  CashuWallet,
-  CheckStateEnum,
-  getEncodedTokenV4,
-  type Proof as CashuProof,
-} from "@cashu/cashu-ts";
 import { CalendarDays, Check, Copy, Loader2, QrCode, RefreshCw, Zap } from "lucide-react";
 import { QRCodeSVG } from "qrcode.react";
 import { toast } from "sonner";
 import {
-  appendTransaction,
-  getProofsBalanceSats,
-  readCashuProofs,
-  writeCashuProofs,
-} from "@/lib/platformWallet";
+  reclaimSend,
+  send as sendCashuToken,
+  settleSend,
+  type SendResult,
+} from "@/lib/cashuEngine";
+import { issueChildKeys } from "@/lib/childKeys";
+import {
+  applyNodeInvoiceStatus,
+  markNodeInvoiceRecovered,
+  trackNodeInvoice,
+} from "@/lib/nodeInvoices";
 import {
-  annotateProofsWithMint,
-  getProofsForMint,
-  type WalletProof,
-} from "@/lib/nip60WalletSync";
+  RoutstrNodeClient,
+  type RoutstrChildKeyRequest,
+  type RoutstrLightningInvoice,
+  type RoutstrLightningInvoiceStatus,
+} from "@/lib/routstrNodeClient";
 import { Button } from "@/components/ui/button";
 import { Calendar } from "@/components/ui/calendar";
 import { Card } from "@/components/ui/card";
@@ -46,30 +46,6 @@ type StoredApiKeyLike = {
   isInvalid?: boolean;
 };
 
-type LightningInvoice = {
-  invoice_id: string;
-  bolt11: string;
-  amount_sats: number;
-  expires_at: number;
-  payment_hash: string;
-};
-
-type LightningInvoiceStatus = {
-  status: string;
-  api_key?: string;
-  amount_sats: number;
-  paid_at?: number;
-  created_at: number;
-  expires_at: number;
-};
-
-type ChildKeyCreateResponse = {
-  api_keys?: string[];
-  count?: number;
-  cost_msats?: number;
-  parent_balance?: number;
-};
-
 type ChildKeyStatus = {
   totalSpentMsats: number;
   balanceLimitMsats: number | null;
@@ -78,9 +54,7 @@ type ChildKeyStatus = {
   isDrained: boolean;
 };
 
-const FALLBACK_MINT_URL = "https://mint.minibits.cash/Bitcoin";
 const ACTIVE_MINT_STORAGE_KEY = "platform_active_mint_url";
-type MintUnit = "sat" | "msat";
 
 type NodeKeyWorkflowsProps = {
   defaultBaseUrl: string;
@@ -141,113 +115,6 @@ function normalizeMintUrl(url: string): string {
   return withProtocol.replace(/\/+$/, "");
 }
 
-function proofIdentity(proof: WalletProof): string {
-  if (typeof proof.secret === "string" && proof.secret.length > 0) {
-    return proof.secret;
-  }
-  return `${String(proof.id)}:${Number(proof.amount)}:${String(proof.C || "")}`;
-}
-
-function sumProofsBalanceSats(proofs: WalletProof[]): number {
-  return proofs.reduce((sum, proof) => sum + Number(proof.amount || 0), 0);
-}
-
-async function removeSpentProofsForMint(
-  wallet: CashuWallet,
-  proofsForMint: WalletProof[]
-): Promise<WalletProof[]> {
-  const proofStates = await wallet.checkProofsStates(proofsForMint as CashuProof[]);
-  if (!Array.isArray(proofStates) || proofStates.length === 0) {
-    return proofsForMint;
-  }
-
-  const spentProofIds = new Set<string>();
-  const remainingProofs: WalletProof[] = [];
-  proofsForMint.forEach((proof, index) => {
-    const state = proofStates[index]?.state;
-    if (state === CheckStateEnum.SPENT) {
-      spentProofIds.add(proofIdentity(proof));
-      return;
-    }
-    remainingProofs.push(proof);
-  });
-
-  if (spentProofIds.size === 0) {
-    return proofsForMint;
-  }
-
-  const currentProofs = readCashuProofs() as WalletProof[];
-  const nextProofs = currentProofs.filter(
-    (proof) => !spentProofIds.has(proofIdentity(proof))
-  );
-  writeCashuProofs(nextProofs);
-  return remainingProofs;
-}
-
-function encodeCashuTokenV4(
-  mintUrl: string,
-  unit: MintUnit,
-  proofs: CashuProof[]
-): string {
-  const normalizedProofs = proofs.map((proof) => ({
-    id: String(proof.id || ""),
-    amount: Number(proof.amount || 0),
-    secret: String(proof.secret || ""),
-    C: String(proof.C || ""),
-  }));
-
-  if (
-    normalizedProofs.some(
-      (proof) =>
-        !proof.id ||
-        !proof.secret ||
-        !proof.C ||
-        !Number.isFinite(proof.amount) ||
-        proof.amount <= 0
-    )
-  ) {
-    throw new Error("Mint returned invalid proofs for token generation");
-  }
-
-  return getEncodedTokenV4({
-    mint: mintUrl,
-    unit,
-    proofs: normalizedProofs,
-  });
-}
-
-async function createWalletForMint(
-  candidateMintUrl: string
-): Promise<{ wallet: CashuWallet; unit: MintUnit; preferredKeysetId?: string }> {
-  const mint = new CashuMint(candidateMintUrl);
-  const keysets = await mint.getKeySets();
-  const activeKeysets = keysets.keysets.filter((keyset) => keyset.active);
-  const msatKeyset = activeKeysets.find(
-    (keyset) => String(keyset.unit).toLowerCase() === "msat"
-  );
-  const satKeyset = activeKeysets.find(
-    (keyset) => String(keyset.unit).toLowerCase() === "sat"
-  );
-  const preferredUnit = msatKeyset ? "msat" : satKeyset ? "sat" : null;
-
-  if (!preferredUnit) {
-    const units = [...new Set(activeKeysets.map((keyset) => String(keyset.unit).toLowerCase()))];
-    throw new Error(
-      `Mint ${candidateMintUrl} has no active sat/msat keyset (units: ${
-        units.join(", ") || "none"
-      })`
-    );
-  }
-
-  const wallet = new CashuWallet(mint, { unit: preferredUnit });
-  await wallet.loadMint();
-  return {
-    wallet,
-    unit: preferredUnit,
-    preferredKeysetId: (preferredUnit === "msat" ? msatKeyset?.id : satKeyset?.id) || undefined,
-  };
-}
-
 function formatSats(msats: number): string {
   return `${(msats / 1000).toLocaleString()} sats`;
 }
@@ -290,89 +157,6 @@ function keyCompositeId(item: StoredApiKeyLike, fallbackBaseUrl: string): string
   return `${base}::${item.key}`;
 }
 
-async function parseResponseError(response: Response, fallback: string): Promise<Error> {
-  let detail = "";
-  try {
-    const payload = await response.json();
-    if (typeof payload?.detail === "string") {
-      detail = payload.detail;
-    } else if (typeof payload?.error === "string") {
-      detail = payload.error;
-    } else if (typeof payload?.message === "string") {
-      detail = payload.message;
-    } else if (payload?.detail && typeof payload.detail?.message === "string") {
-      detail = payload.detail.message;
-    }
-  } catch {
-    try {
-      detail = await response.text();
-    } catch {
-      detail = "";
-    }
-  }
-  return new Error(detail || fallback);
-}
-
-async function createLightningInvoice(
-  baseUrl: string,
-  payload: {
-    amount_sats: number;
-    purpose: "create" | "topup";
-    api_key?: string;
-    balance_limit?: number;
-    balance_limit_reset?: string;
-    validity_date?: number;
-  }
-): Promise<LightningInvoice> {
-  const response = await fetch(`${baseUrl}v1/balance/lightning/invoice`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(payload),
-  });
-
-  if (!response.ok) {
-    throw await parseResponseError(response, "Failed to create Lightning invoice");
-  }
-
-  return (await response.json()) as LightningInvoice;
-}
-
-async function fetchLightningInvoiceStatus(
-  baseUrl: string,
-  invoiceId: string
-): Promise<LightningInvoiceStatus> {
-  const response = await fetch(`${baseUrl}v1/balance/lightning/invoice/${invoiceId}/status`, {
-    cache: "no-store",
-  });
-
-  if (!response.ok) {
-    throw await parseResponseError(response, "Failed to check invoice status");
-  }
-
-  return (await response.json()) as LightningInvoiceStatus;
-}
-
-async function recoverLightningInvoice(
-  baseUrl: string,
-  bolt11: string
-): Promise<LightningInvoiceStatus> {
-  const response = await fetch(`${baseUrl}v1/balance/lightning/recover`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({ bolt11 }),
-  });
-
-  if (!response.ok) {
-    throw await parseResponseError(response, "Failed to recover invoice");
-  }
-
-  return (await response.json()) as LightningInvoiceStatus;
-}
-
 export default function NodeKeyWorkflows({
   defaultBaseUrl,
   availableBaseUrls,
@@ -474,7 +258,7 @@ export default function NodeKeyWorkflows({
   const [selectedTopupKeyId, setSelectedTopupKeyId] = useState<string>("");
   const [topupApiKey, setTopupApiKey] = useState("");
   const [topupAmount, setTopupAmount] = useState("");
-  const [topupInvoice, setTopupInvoice] = useState<LightningInvoice | null>(null);
+  const [topupInvoice, setTopupInvoice] = useState<RoutstrLightningInvoice | null>(null);
   const [topupInvoiceStatus, setTopupInvoiceStatus] = useState<string>("idle");
   const [isCreatingTopupInvoice, setIsCreatingTopupInvoice] = useState(false);
   const [isPollingTopupInvoice, setIsPollingTopupInvoice] = useState(false);
@@ -510,12 +294,14 @@ export default function NodeKeyWorkflows({
       baseUrl: string,
       invoiceId: string,
       onStatus: (status: string) => void
-    ): Promise<LightningInvoiceStatus> => {
+    ): Promise<RoutstrLightningInvoiceStatus> => {
       const maxAttempts = 60;
-      let lastStatus: LightningInvoiceStatus | null = null;
+      let lastStatus: RoutstrLightningInvoiceStatus | null = null;
 
       for (let attempt = 0; attempt < maxAttempts; attempt += 1) {
-        const status = await fetchLightningInvoiceStatus(baseUrl, invoiceId);
+        const status = await new RoutstrNodeClient(baseUrl).getLightningInvoiceStatus(
+          invoiceId
+        );
         lastStatus = status;
         onStatus(status.status);
 
@@ -553,188 +339,35 @@ export default function NodeKeyWorkflows({
 
     const fetchAcceptedMints = async (baseUrl: string): Promise<string[]> => {
       try {
-        const response = await fetch(`${baseUrl}v1/info`, {
-          cache: "no-store",
-        });
-        if (!response.ok) return [];
-        const payload = (await response.json()) as { mints?: string[] };
-        if (!Array.isArray(payload?.mints)) return [];
-        return payload.mints.map((mint) => normalizeMintUrl(mint)).filter(Boolean);
+        const mints = await new RoutstrNodeClient(baseUrl).getAcceptedMints();
+        return mints.map((mint) => normalizeMintUrl(mint)).filter(Boolean);
       } catch {
         return [];
       }
     };
 
-    const createTokenFromBalance = async (
-      amountSats: number,
-      nodeMints: string[],
-      preferredMint: string
-    ): Promise<{ token: string }> => {
-      const initialProofs = readCashuProofs() as WalletProof[];
-      if (!Array.isArray(initialProofs) || initialProofs.length === 0) {
-        throw new Error("No wallet balance available");
-      }
-
-      const walletMintBalances = new Map<string, number>();
-      for (const proof of initialProofs) {
-        const mint = normalizeMintUrl(proof.mintUrl || "");
-        if (!mint) continue;
-        walletMintBalances.set(
-          mint,
-          (walletMintBalances.get(mint) || 0) + Number(proof.amount || 0)
-        );
-      }
-
-      const sortedWalletMints = Array.from(walletMintBalances.entries())
-        .sort((a, b) => b[1] - a[1])
-        .map(([mint]) => mint);
-
-      const normalizedNodeMints = Array.from(
-        new Set(nodeMints.map((mint) => normalizeMintUrl(mint)).filter(Boolean))
-      );
-      const sortedNodeMints = normalizedNodeMints.sort(
-        (a, b) => (walletMintBalances.get(b) || 0) - (walletMintBalances.get(a) || 0)
-      );
-
-      const nodeMintSet = new Set(sortedNodeMints);
-      const hasNodeMintHints = nodeMintSet.size > 0;
-      const baseCandidates = Array.from(
-        new Set(
-          [
-            normalizeMintUrl(preferredMint),
-            ...sortedWalletMints,
-            normalizeMintUrl(FALLBACK_MINT_URL),
-          ].filter(Boolean)
-        )
-      );
-      const candidates = hasNodeMintHints
-        ? [
-            ...baseCandidates.filter((mint) => nodeMintSet.has(mint)),
-            ...baseCandidates.filter((mint) => !nodeMintSet.has(mint)),
-          ]
-        : baseCandidates;
-
-      if (candidates.length === 0) {
-        throw new Error("No eligible mint found for wallet balance");
-      }
-
-      let lastError: unknown = null;
-
-      for (const mint of candidates) {
-        try {
-          const { wallet, unit, preferredKeysetId } = await createWalletForMint(mint);
-          let proofsSnapshot = readCashuProofs() as WalletProof[];
-          let proofsForMint = getProofsForMint(proofsSnapshot, mint);
-          if (!Array.isArray(proofsForMint) || proofsForMint.length === 0) {
-            continue;
-          }
-          const amountInMintUnit = unit === "msat" ? amountSats * 1000 : amountSats;
-          const availableForMint = sumProofsBalanceSats(proofsForMint);
-          if (availableForMint < amountInMintUnit) {
-            continue;
-          }
-
-          const sendOptions = {
-            ...(preferredKeysetId ? { keysetId: preferredKeysetId } : {}),
-          };
-          let sendResult: Awaited<ReturnType<CashuWallet["send"]>>;
-          try {
-            sendResult = await wallet.send(amountInMintUnit, proofsForMint as CashuProof[], {
-              ...sendOptions,
-              includeFees: true,
-            });
-          } catch (firstSendError) {
-            const firstMessage =
-              firstSendError instanceof Error
-                ? firstSendError.message
-                : String(firstSendError);
-            if (
-              firstMessage.includes("Not enough funds available") ||
-              firstMessage.includes("Token already spent") ||
-              firstMessage.includes("Not enough balance to send")
-            ) {
-              proofsForMint = await removeSpentProofsForMint(wallet, proofsForMint);
-              if (proofsForMint.length === 0) {
-                throw new Error("Token already spent. Please sync wallet and retry.");
-              }
-              proofsSnapshot = readCashuProofs() as WalletProof[];
-              if (sumProofsBalanceSats(proofsForMint) < amountInMintUnit) {
-                throw new Error(
-                  "Not enough funds on this mint after removing spent proofs"
-                );
-              }
-              sendResult = await wallet.send(amountInMintUnit, proofsForMint as CashuProof[], {
-                ...sendOptions,
-              });
-            } else {
-              throw firstSendError;
-            }
-          }
-
-          const sendProofs = (sendResult?.send || []) as CashuProof[];
-          const keepProofs = (sendResult?.keep || []) as CashuProof[];
-          if (sendProofs.length === 0) {
-            throw new Error("Unable to generate Cashu token");
-          }
-
-          const mintedProofIds = new Set(proofsForMint.map((proof) => proofIdentity(proof)));
-          const untouched = proofsSnapshot.filter(
-            (proof) => !mintedProofIds.has(proofIdentity(proof))
-          );
-          const keepWithMetadata = annotateProofsWithMint(keepProofs, mint);
-          writeCashuProofs([...untouched, ...keepWithMetadata]);
-
-          const nextBalance = getProofsBalanceSats();
-          appendTransaction({
-            type: "send",
-            amount: amountSats,
-            timestamp: Date.now(),
-            status: "success",
-            message: "Spent wallet balance for API key creation",
-            balance: nextBalance,
-          });
-
-          return { token: encodeCashuTokenV4(mint, unit, sendProofs) };
-        } catch (error) {
-          lastError = error;
-        }
-      }
-
-      if (lastError instanceof Error) {
-        throw new Error(lastError.message);
-      }
-      throw new Error("Insufficient wallet balance on available mints");
-    };
-
     setIsCreatingFromBalance(true);
     setCreatedApiKey(null);
 
+    let sent: SendResult | null = null;
     try {
       const nodeMints = await fetchAcceptedMints(createBaseUrl);
       const preferredMint = readStoredActiveMint();
-      const result = await createTokenFromBalance(amount, nodeMints, preferredMint);
-
-      const response = await fetch(`${createBaseUrl}v1/wallet/info`, {
-        headers: {
-          Authorization: `Bearer ${result.token}`,
-        },
+      sent = await sendCashuToken(amount, {
+        nodeMints,
+        preferredMint,
+        message: "Spent wallet balance for API key creation",
+        purpose: `Create API key on ${createBaseUrl}`,
       });
 
-      if (!response.ok) {
-        throw await parseResponseError(
-          response,
-          "Failed to create API key from wallet balance"
-        );
-      }
-
-      const payload = (await response.json()) as {
-        api_key?: string;
-        apiKey?: string;
-      };
-      const apiKey = String(payload.api_key || payload.apiKey || "").trim();
+      const { apiKey } = await new RoutstrNodeClient(createBaseUrl).getWalletInfo(
+        sent.token
+      );
       if (!apiKey) {
         throw new Error("API key response did not include an api_key");
       }
+      await settleSend(sent.reservationId);
+      sent = null;
 
       await onUpsertKey(createBaseUrl, apiKey, createLabel.trim() || "Unnamed");
       setCreatedApiKey(apiKey);
@@ -744,6 +377,17 @@ export default function NodeKeyWorkflows({
       onCreateSuccess?.();
     } catch (error) {
       toast.error(getErrorMessage(error, "Failed to create API key from balance"));
+      if (sent) {
+        await reclaimSend(sent.reservationId)
+          .then(({ reclaimed, amountSats }) => {
+            if (reclaimed) toast.success(`Reclaimed ${amountSats} sats to your wallet`);
+          })
+          .catch((reclaimError: unknown) => {
+            toast.error(
+              getErrorMessage(reclaimError, "Token is still pending; reclaim it from the wallet")
+            );
+          });
+      }
     } finally {
       setIsCreatingFromBalance(false);
     }
@@ -771,12 +415,16 @@ export default function NodeKeyWorkflows({
     setTopupInvoiceStatus("pending");
 
     try {
-      const invoice = await createLightningInvoice(topupBaseUrl, {
+      const invoice = await new RoutstrNodeClient(topupBaseUrl).createLightningInvoice({
         amount_sats: amount,
         purpose: "topup",
         api_key: topupApiKey.trim(),
       });
       setTopupInvoice(invoice);
+      const tracked = trackNodeInvoice(topupBaseUrl, invoice, {
+        purpose: "topup",
+        apiKey: topupApiKey.trim(),
+      });
       toast.success("Top-up invoice created");
 
       setIsPollingTopupInvoice(true);
@@ -786,8 +434,8 @@ export default function NodeKeyWorkflows({
         setTopupInvoiceStatus
       );
 
+      await applyNodeInvoiceStatus(tracked, status);
       if (status.status === "paid") {
-        await onUpsertKey(topupBaseUrl, topupApiKey.trim(), "Top-up key");
         toast.success("Top-up confirmed and key refreshed");
       } else {
         toast.error(`Invoice ${status.status}`);
@@ -799,7 +447,7 @@ export default function NodeKeyWorkflows({
       setIsCreatingTopupInvoice(false);
       setIsPollingTopupInvoice(false);
     }
-  }, [onUpsertKey, pollInvoiceUntilResolved, topupAmount, topupApiKey, topupBaseUrl]);
+  }, [pollInvoiceUntilResolved, topupAmount, topupApiKey, topupBaseUrl]);
 
   const handleRecoverInvoice = useCallback(async () => {
     const bolt11 = recoverBolt11.trim();
@@ -812,9 +460,10 @@ export default function NodeKeyWorkflows({
     setRecoveredApiKey(null);
 
     try {
-      const status = await recoverLightningInvoice(recoverBaseUrl, bolt11);
+      const status = await new RoutstrNodeClient(recoverBaseUrl).recoverLightningInvoice(bolt11);
       if (status.status === "paid" && status.api_key) {
         await onUpsertKey(recoverBaseUrl, status.api_key, "Recovered key");
+        markNodeInvoiceRecovered(bolt11, status.api_key);
         setRecoveredApiKey(status.api_key);
         toast.success("Recovered and synced API key");
       } else {
@@ -833,6 +482,7 @@ export default function NodeKeyWorkflows({
   const [childBalanceLimit, setChildBalanceLimit] = useState("");
   const [childBalanceLimitReset, setChildBalanceLimitReset] = useState("");
   const [childValidityDate, setChildValidityDate] = useState("");
+  const [childLabel, setChildLabel] = useState("");
   const [isChildValidityCalendarOpen, setIsChildValidityCalendarOpen] = useState(false);
   const [isCreatingChildKeys, setIsCreatingChildKeys] = useState(false);
   const [createdChildKeys, setCreatedChildKeys] = useState<string[]>([]);
@@ -877,12 +527,7 @@ export default function NodeKeyWorkflows({
 
     setIsCreatingChildKeys(true);
     try {
-      const payload: {
-        count: number;
-        balance_limit?: number;
-        balance_limit_reset?: string;
-        validity_date?: number;
-      } = { count };
+      const payload: RoutstrChildKeyRequest = { count };
 
       if (childBalanceLimit.trim()) {
         const parsed = Number.parseInt(childBalanceLimit.trim(), 10);
@@ -900,28 +545,11 @@ export default function NodeKeyWorkflows({
         payload.validity_date = validityDate;
       }
 
-      const response = await fetch(`${childBaseUrl}v1/balance/child-key`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${parent}`,
-        },
-        body: JSON.stringify(payload),
-      });
-
-      if (!response.ok) {
-        throw await parseResponseError(response, "Failed to create child keys");
-      }
-
-      const result = (await response.json()) as ChildKeyCreateResponse;
-      const newKeys = Array.isArray(result.api_keys) ? result.api_keys : [];
+      const result = await issueChildKeys(childBaseUrl, parent, payload, childLabel);
+      const newKeys = result.records.map((record) => record.key);
       setCreatedChildKeys(newKeys);
-      setChildCostMsats(
-        typeof result.cost_msats === "number" ? result.cost_msats : null
-      );
-      setParentBalanceMsats(
-        typeof result.parent_balance === "number" ? result.parent_balance : null
-      );
+      setChildCostMsats(result.costMsats);
+      setParentBalanceMsats(result.parentBalance);
 
       await onUpsertKey(childBaseUrl, parent, "Parent key");
 
@@ -938,6 +566,7 @@ export default function NodeKeyWorkflows({
     childBalanceLimitReset,
     childBaseUrl,
     childCount,
+    childLabel,
     childValidityDate,
     onUpsertKey,
     parentApiKey,
@@ -954,38 +583,17 @@ export default function NodeKeyWorkflows({
     setChildKeyStatus(null);
 
     try {
-      const response = await fetch(`${checkChildBaseUrl}v1/balance/info`, {
-        cache: "no-store",
-        headers: {
-          Authorization: `Bearer ${key}`,
-        },
-      });
-
-      if (!response.ok) {
-        throw await parseResponseError(response, "Failed to check child key");
-      }
-
-      const payload = (await response.json()) as {
-        total_spent?: number;
-        balance_limit?: number | null;
-        validity_date?: number | null;
-      };
-
-      const totalSpent = Number(payload.total_spent ?? 0);
-      const balanceLimit =
-        typeof payload.balance_limit === "number" ? payload.balance_limit : null;
-      const validityDate =
-        typeof payload.validity_date === "number" ? payload.validity_date : null;
+      const info = await new RoutstrNodeClient(checkChildBaseUrl).getBalanceInfo(key);
       const now = Math.floor(Date.now() / 1000);
 
       const status: ChildKeyStatus = {
-        totalSpentMsats: Number.isFinite(totalSpent) ? totalSpent : 0,
-        balanceLimitMsats: balanceLimit,
-        validityDateUnix: validityDate,
-        isExpired: validityDate !== null ? now > validityDate : false,
+        totalSpentMsats: info.totalSpentMsats,
+        balanceLimitMsats: info.balanceLimitMsats,
+        validityDateUnix: info.validityDateUnix,
+        isExpired: info.validityDateUnix !== null ? now > info.validityDateUnix : false,
         isDrained:
-          balanceLimit !== null
-            ? (Number.isFinite(totalSpent) ? totalSpent : 0) >= balanceLimit
+          info.balanceLimitMsats !== null
+            ? info.totalSpentMsats >= info.balanceLimitMsats
             : false,
       };
 
@@ -1510,6 +1118,14 @@ export default function NodeKeyWorkflows({
                     </PopoverContent>
                   </Popover>
                 </label>
+                <label className="space-y-1.5">
+                  <span className={labelClass}>Assigned to (optional)</span>
+                  <Input
+                    value={childLabel}
+                    onChange={(event) => setChildLabel(event.target.value)}
+                    placeholder="alice, acme-corp"
+                  />
+                </label>
               </div>
 
               <Button
@@ -6,7 +6,12 @@ import { Check, CheckCircle2, Copy, RefreshCw, XCircle } from "lucide-react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import { toast } from "sonner";
-import { DEFAULT_BASE_URL } from "@/lib/utils";
+import {
+  RoutstrNodeClient,
+  type RoutstrNodeInfo,
+  type RoutstrNodeModel,
+} from "@/lib/routstrNodeClient";
+import { DEFAULT_BASE_URL, fuzzyScore } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import {
@@ -37,23 +42,9 @@ type DirectoryProvider = {
   pubkey?: string;
 };
 
-type NodeInfo = {
-  name?: string;
-  description?: string;
-  version?: string;
-  npub?: string | null;
-  mints?: string[];
-};
+type NodeInfo = RoutstrNodeInfo;
 
-type NodeModel = {
-  id?: string;
-  name?: string;
-  sats_pricing?: {
-    prompt?: number;
-    completion?: number;
-  } | null;
-  [key: string]: unknown;
-};
+type NodeModel = RoutstrNodeModel;
 
 type NodeSummary = {
   endpoint: string;
@@ -91,43 +82,6 @@ type ModelSortOption =
   | "price-low"
   | "price-high";
 
-function normalizeSearchText(value: string): string {
-  return value.toLowerCase().replace(/[^a-z0-9]+/g, "");
-}
-
-function fuzzyScore(candidate: string, query: string): number {
-  const normalizedQuery = normalizeSearchText(query);
-  if (!normalizedQuery) return 1;
-
-  const normalizedCandidate = normalizeSearchText(candidate);
-  if (!normalizedCandidate) return 0;
-
-  const directIndex = normalizedCandidate.indexOf(normalizedQuery);
-  if (directIndex >= 0) {
-    return 300 - directIndex;
-  }
-
-  let queryIndex = 0;
-  let streak = 0;
-  let bonus = 0;
-
-  for (const char of normalizedCandidate) {
-    if (char === normalizedQuery[queryIndex]) {
-      queryIndex += 1;
-      streak += 1;
-      bonus += 2 + streak;
-      if (queryIndex === normalizedQuery.length) break;
-    } else {
-      streak = 0;
-    }
-  }
-
-  if (queryIndex !== normalizedQuery.length) return 0;
-
-  const density = normalizedQuery.length / normalizedCandidate.length;
-  return 100 + bonus + density * 10;
-}
-
 function normalizeBaseUrl(url: string): string {
   const trimmed = url.trim();
   if (!trimmed) return "";
@@ -312,43 +266,14 @@ async function fetchProvidersDirectory(): Promise<DirectoryProvider[]> {
   return Array.isArray(payload.providers) ? payload.providers : [];
 }
 
-async function fetchNodeInfo(baseUrl: string): Promise<NodeInfo> {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 8000);
-  try {
-    const response = await fetch(`${baseUrl}/v1/info`, {
-      cache: "no-store",
-      headers: { "Content-Type": "application/json" },
-      signal: controller.signal,
-    });
-    if (!response.ok) {
-      throw new Error(`Unable to load node info (${response.status})`);
-    }
-    const payload = (await response.json()) as NodeInfo;
-    return payload || {};
-  } finally {
-    clearTimeout(timeoutId);
-  }
-}
+const NODE_REQUEST_TIMEOUT_MS = 8000;
 
-async function fetchNodeModels(baseUrl: string): Promise<NodeModel[]> {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 8000);
-  try {
-    const response = await fetch(`${baseUrl}/v1/models`, {
-      cache: "no-store",
-      headers: { "Content-Type": "application/json" },
-      signal: controller.signal,
-    });
-    if (!response.ok) {
-      throw new Error(`Unable to load models (${response.status})`);
-    }
+function fetchNodeInfo(baseUrl: string): Promise<NodeInfo> {
+  return new RoutstrNodeClient(baseUrl, { timeoutMs: NODE_REQUEST_TIMEOUT_MS }).getInfo();
+}
 
-    const payload = (await response.json()) as { data?: NodeModel[] };
-    return Array.isArray(payload.data) ? payload.data : [];
-  } finally {
-    clearTimeout(timeoutId);
-  }
+function fetchNodeModels(baseUrl: string): Promise<NodeModel[]> {
+  return new RoutstrNodeClient(baseUrl, { timeoutMs: NODE_REQUEST_TIMEOUT_MS }).getModels();
 }
 
 export default function NodesPanel({
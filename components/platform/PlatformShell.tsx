@@ -33,6 +33,7 @@ import NodesPanel from "@/components/platform/NodesPanel";
 import PlaygroundPanel from "@/components/platform/PlaygroundPanel";
 import ApiKeysPanel from "@/components/platform/ApiKeysPanel";
 import Nip60WalletPanel from "@/components/platform/Nip60WalletPanel";
+import UnsyncedChangesBadge from "@/components/platform/UnsyncedChangesBadge";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
@@ -425,6 +426,7 @@ export default function PlatformShell({
               <div className="mt-3 space-y-3 md:mt-auto">
                 {isAuthenticated ? (
                   <div className="space-y-1">
+                    <UnsyncedChangesBadge className="mb-2 w-full justify-start text-xs" />
                     <Button
                       onClick={() => setShowExportDialog(true)}
                       variant="ghost"
@@ -655,6 +657,7 @@ export default function PlatformShell({
                 <p className="text-xs font-medium text-muted-foreground">
                   Account
                 </p>
+                <UnsyncedChangesBadge className="h-11 w-full justify-start" />
                 <Button
                   variant="outline"
                   size="lg"
@@ -19,6 +19,9 @@ import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import { toast } from "sonner";
 import { useAccountManager } from "@/components/providers/ClientProviders";
+import { markApiKeyUsed } from "@/lib/apiKeySync";
+import { recordBalanceSnapshot } from "@/lib/keyUsage";
+import { isRoutstrNodeError, RoutstrNodeClient } from "@/lib/routstrNodeClient";
 import { DEFAULT_BASE_URL } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
@@ -453,26 +456,8 @@ async function fetchProvidersDirectory(): Promise<DirectoryProvider[]> {
   return Array.isArray(payload.providers) ? payload.providers : [];
 }
 
-async function fetchNodeModels(baseUrl: string): Promise<NodeModel[]> {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 8000);
-  try {
-    const response = await fetch(`${baseUrl}/v1/models`, {
-      cache: "no-store",
-      headers: { "Content-Type": "application/json" },
-      signal: controller.signal,
-    });
-
-    if (!response.ok) {
-      throw new Error(`Unable to load models (${response.status})`);
-    }
-
-    const payload = (await response.json()) as { data?: NodeModel[] } | NodeModel[];
-    if (Array.isArray(payload)) return payload;
-    return Array.isArray(payload.data) ? payload.data : [];
-  } finally {
-    clearTimeout(timeoutId);
-  }
+function fetchNodeModels(baseUrl: string): Promise<NodeModel[]> {
+  return new RoutstrNodeClient(baseUrl, { timeoutMs: 8000 }).getModels();
 }
 
 export default function PlaygroundPanel({
@@ -894,54 +879,10 @@ export default function PlaygroundPanel({
     });
 
     try {
-      const response = await fetch(`${normalizedBaseUrl}/v1/chat/completions`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${selectedEndpointKey.key}`,
-        },
-        body: JSON.stringify({ ...requestPayload, stream: true }),
-      });
-
-      if (!response.ok) {
-        const rawText = await response.text();
-        const latencyMs = Math.round(performance.now() - startedAt);
-        let parsedPayload: unknown = null;
-        try {
-          parsedPayload = rawText ? JSON.parse(rawText) : null;
-        } catch {
-          parsedPayload = null;
-        }
-
-        const detail =
-          parsedPayload &&
-          typeof parsedPayload === "object" &&
-          ("detail" in parsedPayload || "error" in parsedPayload)
-            ? (() => {
-                const payload = parsedPayload as { detail?: unknown; error?: unknown };
-                if (typeof payload.detail === "string" && payload.detail) {
-                  return payload.detail;
-                }
-                if (typeof payload.error === "string" && payload.error) {
-                  return payload.error;
-                }
-                return `Request failed (${response.status})`;
-              })()
-            : rawText || `Request failed (${response.status})`;
-
-        setRunState({
-          status: "error",
-          latencyMs,
-          rawJson:
-            parsedPayload !== null
-              ? JSON.stringify(parsedPayload, null, 2)
-              : rawText || "{}",
-          error: detail,
-          completedAt: Date.now(),
-        });
-        toast.error("Request failed");
-        return;
-      }
+      const response = await new RoutstrNodeClient(normalizedBaseUrl).createChatCompletion(
+        selectedEndpointKey.key,
+        { ...requestPayload, stream: true }
+      );
 
       const assistantMessageId = createMessageId();
       const assistantCreatedAt = Date.now();
@@ -1075,11 +1016,28 @@ export default function PlaygroundPanel({
         error: null,
         completedAt: Date.now(),
       });
+
+      const runKey = selectedEndpointKey.key;
+      markApiKeyUsed(runKey);
+      void new RoutstrNodeClient(normalizedBaseUrl, { timeoutMs: 8000 })
+        .getWalletInfo(runKey)
+        .then((info) => {
+          recordBalanceSnapshot(runKey, normalizedBaseUrl, info.balance, "playground");
+        })
+        .catch(() => {
+          // Usage tracking is best effort
+        });
     } catch (error) {
+      const errorPayload = isRoutstrNodeError(error) ? error.payload : null;
       setRunState({
         status: "error",
         latencyMs: Math.round(performance.now() - startedAt),
-        rawJson: "",
+        rawJson:
+          errorPayload === null || errorPayload === undefined
+            ? ""
+            : typeof errorPayload === "string"
+              ? errorPayload
+              : JSON.stringify(errorPayload, null, 2),
         error: getErrorMessage(error, "Request failed"),
         completedAt: Date.now(),
       });
@@ -0,0 +1,305 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Activity, Loader2, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  DEFAULT_SYNC_RELAYS,
+  MIN_PUBLISH_CONFIRMATIONS,
+  PLATFORM_RELAYS_UPDATED_EVENT,
+  getSyncRelays,
+  normalizeRelayUrl,
+  readOutboxRelays,
+  readPublishQueue,
+  readRelayStats,
+  readStoredRelayUrls,
+  refreshOutboxRelays,
+  removeQueuedPublish,
+  retryQueuedPublishes,
+  testRelay,
+  writeStoredRelayUrls,
+  type OutboxRelays,
+  type QueuedPublish,
+  type RelayStats,
+} from "@/lib/relayManager";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+function getRelayHost(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+function getRelayHealth(stats: RelayStats | undefined): "ok" | "failing" | "unknown" {
+  if (!stats || (!stats.lastOkAt && !stats.lastFailedAt)) return "unknown";
+  return (stats.lastOkAt ?? 0) >= (stats.lastFailedAt ?? 0) ? "ok" : "failing";
+}
+
+interface RelayStatusPanelProps {
+  pubkey?: string | null;
+}
+
+const RelayStatusPanel: React.FC<RelayStatusPanelProps> = ({ pubkey }) => {
+  const [relays, setRelays] = useState<string[]>([]);
+  const [writeRelays, setWriteRelays] = useState<string[]>([]);
+  const [outbox, setOutbox] = useState<OutboxRelays | null>(null);
+  const [editableRelays, setEditableRelays] = useState<string[]>([]);
+  const [stats, setStats] = useState<Record<string, RelayStats>>({});
+  const [queue, setQueue] = useState<QueuedPublish[]>([]);
+  const [newRelayUrl, setNewRelayUrl] = useState("");
+  const [testingRelay, setTestingRelay] = useState<string | null>(null);
+  const [isRetrying, setIsRetrying] = useState(false);
+  const [isRefreshingOutbox, setIsRefreshingOutbox] = useState(false);
+
+  useEffect(() => {
+    const refresh = () => {
+      setRelays(getSyncRelays(pubkey, "read"));
+      setWriteRelays(getSyncRelays(pubkey, "write"));
+      setOutbox(readOutboxRelays(pubkey));
+      setEditableRelays(readStoredRelayUrls() ?? DEFAULT_SYNC_RELAYS);
+      setStats(readRelayStats());
+      setQueue(readPublishQueue());
+    };
+    refresh();
+    window.addEventListener(PLATFORM_RELAYS_UPDATED_EVENT, refresh);
+    return () => {
+      window.removeEventListener(PLATFORM_RELAYS_UPDATED_EVENT, refresh);
+    };
+  }, [pubkey]);
+
+  const handleAddRelay = () => {
+    const url = normalizeRelayUrl(newRelayUrl);
+    if (!/^wss?:\/\/[^/\s]+/i.test(url)) {
+      toast.error("Enter a valid wss:// relay URL");
+      return;
+    }
+    if (relays.includes(url)) {
+      toast.error("Relay already added");
+      return;
+    }
+    writeStoredRelayUrls([...editableRelays, url]);
+    setNewRelayUrl("");
+  };
+
+  const handleRemoveRelay = (url: string) => {
+    const remaining = editableRelays.filter((relay) => relay !== url);
+    if (remaining.length === 0) {
+      toast.error("Keep at least one relay");
+      return;
+    }
+    writeStoredRelayUrls(remaining);
+  };
+
+  const handleTestRelay = async (url: string) => {
+    setTestingRelay(url);
+    try {
+      const result = await testRelay(url);
+      if (result.ok) {
+        toast.success(`${getRelayHost(url)} responded in ${result.latencyMs}ms`);
+      } else {
+        toast.error(`${getRelayHost(url)}: ${result.error || "No response"}`);
+      }
+    } finally {
+      setTestingRelay(null);
+    }
+  };
+
+  const handleRefreshOutbox = async () => {
+    if (!pubkey) return;
+    setIsRefreshingOutbox(true);
+    try {
+      const next = await refreshOutboxRelays(pubkey, { force: true });
+      toast.success(
+        next.relayListAt
+          ? `Loaded ${next.write.length} write relay${next.write.length === 1 ? "" : "s"}`
+          : "No relay list (NIP-65) found"
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to fetch relay list");
+    } finally {
+      setIsRefreshingOutbox(false);
+    }
+  };
+
+  const handleRetryQueue = async () => {
+    setIsRetrying(true);
+    try {
+      const delivered = await retryQueuedPublishes({ force: true });
+      const remaining = readPublishQueue().length;
+      if (remaining === 0) {
+        toast.success("All queued events were published");
+      } else {
+        toast.error(
+          `${remaining} event${remaining === 1 ? "" : "s"} still waiting` +
+            (delivered > 0 ? ` (${delivered} published)` : "")
+        );
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Retry failed");
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Activity className="h-4 w-4 text-muted-foreground" />
+        <h3 className="text-sm font-medium text-foreground/85">Relays</h3>
+        <span className="text-xs text-muted-foreground">
+          Sync needs {MIN_PUBLISH_CONFIRMATIONS} confirmations
+        </span>
+        {pubkey ? (
+          <Button
+            onClick={() => void handleRefreshOutbox()}
+            disabled={isRefreshingOutbox}
+            variant="ghost"
+            size="xs"
+            className="ml-auto"
+            type="button"
+          >
+            <RefreshCw className={`h-3 w-3 ${isRefreshingOutbox ? "animate-spin" : ""}`} />
+            Relay list
+          </Button>
+        ) : null}
+      </div>
+      {outbox?.relayListAt ? (
+        <p className="text-xs text-muted-foreground">
+          Writing to your NIP-65 write relays
+          {outbox.walletRelays.length > 0 ? " and wallet relay hints" : ""}, updated{" "}
+          {new Date(outbox.relayListAt * 1000).toLocaleDateString()}.
+        </p>
+      ) : null}
+
+      <div className="space-y-1.5">
+        {relays.map((url) => {
+          const relayStats = stats[url];
+          const health = getRelayHealth(relayStats);
+          const isEditable = editableRelays.includes(url);
+          const isOutbox = Boolean(
+            outbox?.write.includes(url) || outbox?.walletRelays.includes(url)
+          );
+          return (
+            <div
+              key={url}
+              className="flex items-center gap-2 rounded-md border border-border bg-background/40 px-2.5 py-1.5"
+            >
+              <span
+                className={`h-2 w-2 shrink-0 rounded-full ${
+                  health === "ok"
+                    ? "bg-foreground/70"
+                    : health === "failing"
+                      ? "border border-foreground/60"
+                      : "bg-muted-foreground/30"
+                }`}
+                title={health === "failing" ? relayStats?.lastError : health}
+              />
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-xs font-medium text-foreground" title={url}>
+                  {getRelayHost(url)}
+                  <span className="ml-1.5 font-normal text-muted-foreground">
+                    {isOutbox ? "outbox" : writeRelays.includes(url) ? "read/write" : "read"}
+                  </span>
+                </p>
+                <p className="truncate text-[11px] text-muted-foreground">
+                  {relayStats
+                    ? `${relayStats.publishOk + relayStats.queryOk} ok · ${
+                        relayStats.publishFailed + relayStats.queryFailed
+                      } failed` +
+                      (relayStats.avgLatencyMs !== null
+                        ? ` · ~${relayStats.avgLatencyMs}ms`
+                        : "") +
+                      (health === "failing" && relayStats.lastError
+                        ? ` · ${relayStats.lastError}`
+                        : "")
+                    : "No activity yet"}
+                </p>
+              </div>
+              <Button
+                onClick={() => void handleTestRelay(url)}
+                disabled={testingRelay !== null}
+                variant="ghost"
+                size="xs"
+                type="button"
+              >
+                {testingRelay === url ? <Loader2 className="h-3 w-3 animate-spin" /> : "Test"}
+              </Button>
+              {isEditable ? (
+                <Button
+                  onClick={() => handleRemoveRelay(url)}
+                  variant="ghost"
+                  size="icon-xs"
+                  aria-label={`Remove ${url}`}
+                  type="button"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              ) : null}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Input
+          value={newRelayUrl}
+          onChange={(event) => setNewRelayUrl(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === "Enter") handleAddRelay();
+          }}
+          placeholder="wss://relay.example.com"
+          className="h-8 text-xs"
+        />
+        <Button onClick={handleAddRelay} variant="outline" size="sm" type="button">
+          <Plus className="h-3.5 w-3.5" />
+          Add
+        </Button>
+      </div>
+
+      {queue.length > 0 ? (
+        <div className="rounded-md border border-border bg-muted/25 p-3 text-xs text-muted-foreground">
+          <div className="mb-1.5 flex items-center gap-2">
+            <span className="font-medium text-foreground/85">
+              {queue.length} event{queue.length === 1 ? "" : "s"} waiting for relays
+            </span>
+            <Button
+              onClick={() => void handleRetryQueue()}
+              disabled={isRetrying}
+              variant="outline"
+              size="xs"
+              className="ml-auto"
+              type="button"
+            >
+              <RefreshCw className={`h-3 w-3 ${isRetrying ? "animate-spin" : ""}`} />
+              Retry now
+            </Button>
+          </div>
+          <div className="space-y-1">
+            {queue.map((item) => (
+              <div key={item.event.id} className="flex items-center gap-2">
+                <p className="min-w-0 flex-1 truncate" title={item.lastError}>
+                  {item.label} · {item.attempts} attempt{item.attempts === 1 ? "" : "s"}
+                  {item.lastError ? ` · ${item.lastError}` : ""}
+                </p>
+                <Button
+                  onClick={() => removeQueuedPublish(item.event.id)}
+                  variant="ghost"
+                  size="icon-xs"
+                  aria-label="Discard queued event"
+                  type="button"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+export default RelayStatusPanel;
@@ -0,0 +1,68 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { CloudOff, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import {
+  PLATFORM_RELAYS_UPDATED_EVENT,
+  countQueuedPublishes,
+  retryQueuedPublishes,
+} from "@/lib/relayManager";
+import { Button } from "@/components/ui/button";
+
+const UnsyncedChangesBadge: React.FC<{ className?: string }> = ({ className }) => {
+  const [count, setCount] = useState(0);
+  const [isRetrying, setIsRetrying] = useState(false);
+
+  useEffect(() => {
+    const refresh = () => setCount(countQueuedPublishes());
+    refresh();
+    window.addEventListener(PLATFORM_RELAYS_UPDATED_EVENT, refresh);
+    window.addEventListener("storage", refresh);
+    return () => {
+      window.removeEventListener(PLATFORM_RELAYS_UPDATED_EVENT, refresh);
+      window.removeEventListener("storage", refresh);
+    };
+  }, []);
+
+  if (count === 0) return null;
+
+  const handleRetry = async () => {
+    setIsRetrying(true);
+    try {
+      await retryQueuedPublishes({ force: true });
+      const remaining = countQueuedPublishes();
+      if (remaining === 0) {
+        toast.success("All changes synced");
+      } else {
+        toast.error(
+          `${remaining} change${remaining === 1 ? "" : "s"} still waiting for relays`
+        );
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Sync retry failed");
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  return (
+    <Button
+      onClick={() => void handleRetry()}
+      disabled={isRetrying}
+      variant="outline"
+      className={className}
+      title="Retry publishing to relays"
+      type="button"
+    >
+      {isRetrying ? (
+        <RefreshCw className="h-3.5 w-3.5 animate-spin" />
+      ) : (
+        <CloudOff className="h-3.5 w-3.5" />
+      )}
+      {count} change{count === 1 ? "" : "s"} not yet synced
+    </Button>
+  );
+};
+
+export default UnsyncedChangesBadge;
@@ -0,0 +1,293 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import { Download, Loader2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import {
+  applyVault,
+  collectVaultContents,
+  decryptVault,
+  diffVault,
+  encryptVault,
+  type VaultContents,
+  type VaultSectionDiff,
+  type VaultSectionId,
+} from "@/lib/vault";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+const PREVIEW_ITEM_LIMIT = 5;
+
+function downloadFile(name: string, content: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: "application/json" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+const VaultBackupPanel: React.FC = () => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [exportPassphrase, setExportPassphrase] = useState("");
+  const [exportConfirm, setExportConfirm] = useState("");
+  const [isExporting, setIsExporting] = useState(false);
+
+  const [importFile, setImportFile] = useState<{ name: string; content: string } | null>(null);
+  const [importPassphrase, setImportPassphrase] = useState("");
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [incoming, setIncoming] = useState<VaultContents | null>(null);
+  const [diff, setDiff] = useState<VaultSectionDiff[]>([]);
+  const [selectedSections, setSelectedSections] = useState<Set<VaultSectionId>>(new Set());
+
+  const resetImport = () => {
+    setImportFile(null);
+    setImportPassphrase("");
+    setIncoming(null);
+    setDiff([]);
+    setSelectedSections(new Set());
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleExport = async () => {
+    if (exportPassphrase !== exportConfirm) {
+      toast.error("Passphrases do not match");
+      return;
+    }
+    setIsExporting(true);
+    try {
+      const contents = await collectVaultContents();
+      const file = await encryptVault(contents, exportPassphrase);
+      downloadFile(`routstr-vault-${new Date().toISOString().slice(0, 10)}.json`, file);
+      setExportPassphrase("");
+      setExportConfirm("");
+      toast.success("Vault exported");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Export failed");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setIncoming(null);
+    setDiff([]);
+    setImportFile({ name: file.name, content: await file.text() });
+  };
+
+  const handlePreview = async () => {
+    if (!importFile) return;
+    setIsDecrypting(true);
+    try {
+      const contents = await decryptVault(importFile.content, importPassphrase);
+      const sections = diffVault(await collectVaultContents(), contents);
+      setIncoming(contents);
+      setDiff(sections);
+      setSelectedSections(
+        new Set(
+          sections
+            .filter((section) => section.added.length + section.overwritten.length > 0)
+            .map((section) => section.id)
+        )
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not read vault");
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!incoming) return;
+    setIsImporting(true);
+    try {
+      await applyVault(incoming, Array.from(selectedSections));
+      toast.success("Vault imported");
+      resetImport();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Import failed");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const toggleSection = (id: VaultSectionId) => {
+    setSelectedSections((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-sm font-medium text-foreground/85">Vault backup</h3>
+        <p className="text-xs text-muted-foreground">
+          API keys, wallet proofs, invoices, local tokens, playground and relay settings in one
+          passphrase-encrypted file. Works without a Nostr signer, except for the wallet seed,
+          which stays encrypted to your Nostr account and unlocks only with it.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+          <Input
+            type="password"
+            placeholder="Passphrase"
+            value={exportPassphrase}
+            onChange={(event) => setExportPassphrase(event.target.value)}
+            autoComplete="new-password"
+          />
+          <Input
+            type="password"
+            placeholder="Confirm passphrase"
+            value={exportConfirm}
+            onChange={(event) => setExportConfirm(event.target.value)}
+            autoComplete="new-password"
+          />
+        </div>
+        <Button
+          onClick={() => void handleExport()}
+          disabled={isExporting || !exportPassphrase || !exportConfirm}
+          variant="outline"
+          size="sm"
+          type="button"
+        >
+          {isExporting ? (
+            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+          ) : (
+            <Download className="h-3.5 w-3.5" />
+          )}
+          Export vault
+        </Button>
+      </div>
+
+      <div className="space-y-2 border-t border-border pt-4">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(event) => void handleFileChange(event)}
+        />
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            onClick={() => fileInputRef.current?.click()}
+            variant="outline"
+            size="sm"
+            type="button"
+          >
+            <Upload className="h-3.5 w-3.5" />
+            Choose vault file
+          </Button>
+          {importFile ? (
+            <span className="min-w-0 truncate text-xs text-muted-foreground">
+              {importFile.name}
+            </span>
+          ) : null}
+        </div>
+        {importFile && !incoming ? (
+          <div className="flex items-center gap-2">
+            <Input
+              type="password"
+              placeholder="Vault passphrase"
+              value={importPassphrase}
+              onChange={(event) => setImportPassphrase(event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === "Enter" && importPassphrase) void handlePreview();
+              }}
+              autoComplete="current-password"
+            />
+            <Button
+              onClick={() => void handlePreview()}
+              disabled={isDecrypting || !importPassphrase}
+              variant="outline"
+              size="sm"
+              type="button"
+            >
+              {isDecrypting ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : null}
+              Preview
+            </Button>
+          </div>
+        ) : null}
+
+        {incoming ? (
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">
+              Exported {new Date(incoming.exportedAt).toLocaleString()}. Choose what to import;
+              nothing is removed from this device.
+            </p>
+            {diff.length === 0 ? (
+              <p className="text-xs text-muted-foreground">The vault is empty.</p>
+            ) : (
+              diff.map((section) => {
+                const changes = section.added.length + section.overwritten.length;
+                const items = [
+                  ...section.overwritten.map((item) => ({ ...item, change: "overwrite" })),
+                  ...section.added.map((item) => ({ ...item, change: "add" })),
+                ];
+                return (
+                  <label
+                    key={section.id}
+                    className="flex items-start gap-2 rounded-md border border-border bg-muted/25 px-2.5 py-2 text-xs"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selectedSections.has(section.id)}
+                      onChange={() => toggleSection(section.id)}
+                      disabled={changes === 0}
+                      className="mt-0.5 h-3.5 w-3.5 accent-foreground"
+                    />
+                    <div className="min-w-0 flex-1">
+                      <p className="font-medium text-foreground">
+                        {section.label}
+                        <span className="ml-1.5 font-normal text-muted-foreground">
+                          {section.added.length} new · {section.overwritten.length} overwritten ·{" "}
+                          {section.unchanged} unchanged
+                        </span>
+                      </p>
+                      {items.slice(0, PREVIEW_ITEM_LIMIT).map((item) => (
+                        <p key={item.id} className="truncate text-muted-foreground">
+                          {item.change === "add" ? "+" : "~"} {item.label}
+                        </p>
+                      ))}
+                      {items.length > PREVIEW_ITEM_LIMIT ? (
+                        <p className="text-muted-foreground">
+                          and {items.length - PREVIEW_ITEM_LIMIT} more
+                        </p>
+                      ) : null}
+                    </div>
+                  </label>
+                );
+              })
+            )}
+            <div className="flex justify-end gap-2">
+              <Button onClick={resetImport} variant="ghost" size="sm" type="button">
+                Cancel
+              </Button>
+              <Button
+                onClick={() => void handleImport()}
+                disabled={isImporting || selectedSections.size === 0}
+                size="sm"
+                type="button"
+              >
+                {isImporting ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : null}
+                Import selected
+              </Button>
+            </div>
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+};
+
+export default VaultBackupPanel;
@@ -5,7 +5,17 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { AccountManager } from "applesauce-accounts";
 import { registerCommonAccountTypes } from "applesauce-accounts/accounts";
 import { Subject } from "rxjs";
+import { toast } from "sonner";
 import { ThemeProvider } from "@/components/providers/ThemeProvider";
+import { startAutoTopupMonitor } from "@/lib/autoTopup";
+import { lockSeed, unlockStoredSeed } from "@/lib/cashuSeed";
+import { startInvoiceWatcher } from "@/lib/invoiceWatcher";
+import { isCloudSyncCapableAccount, publishNip60HistoryEvent } from "@/lib/nip60WalletSync";
+import { startAccountNutzapReceiver } from "@/lib/nutzapReceiver";
+import { setTransactionSyncHandler } from "@/lib/platformWallet";
+import { refreshOutboxRelays, startRelayRetryQueue } from "@/lib/relayManager";
+import { DEFAULT_BASE_URL } from "@/lib/utils";
+import { startWalletReconciler } from "@/lib/walletReconciler";
 
 export interface AccountMetadata {
   name: string;
@@ -15,6 +25,11 @@ const accountManager = new AccountManager<unknown>();
 registerCommonAccountTypes(accountManager);
 const manualSave = new Subject<void>();
 
+function getActiveSyncAccount() {
+  const account = accountManager.active;
+  return isCloudSyncCapableAccount(account) ? account : null;
+}
+
 interface AccountContextValue {
   manager: AccountManager<unknown>;
   manualSave: Subject<void>;
@@ -52,12 +67,33 @@ export default function ClientProviders({ children }: { children: ReactNode }) {
       localStorage.setItem("accounts", JSON.stringify(accountManager.toJSON()));
     });
 
+    let stopNutzapReceiver: (() => void) | null = null;
     const activeSub = accountManager.active$.subscribe((account) => {
+      stopNutzapReceiver?.();
+      stopNutzapReceiver = null;
       if (account) {
         localStorage.setItem("activeAccount", account.id);
       } else {
         localStorage.removeItem("activeAccount");
       }
+      if (isCloudSyncCapableAccount(account)) {
+        void unlockStoredSeed(account);
+        void refreshOutboxRelays(account.pubkey).catch((error) => {
+          console.warn("Failed to fetch relay list:", error);
+        });
+        setTransactionSyncHandler((transaction) => {
+          if (transaction.status !== "success") return;
+          void publishNip60HistoryEvent(account, transaction).catch((error) => {
+            console.warn("Failed to publish NIP-60 history event:", error);
+          });
+        });
+        stopNutzapReceiver = startAccountNutzapReceiver(account, (_nutzap, result) => {
+          toast.success(`Received a ${result.amountSats.toLocaleString()} sat nutzap`);
+        });
+      } else {
+        lockSeed();
+        setTransactionSyncHandler(null);
+      }
     });
 
     const manualSub = manualSave.subscribe(() => {
@@ -67,10 +103,35 @@ export default function ClientProviders({ children }: { children: ReactNode }) {
     return () => {
       accountSub.unsubscribe();
       activeSub.unsubscribe();
+      stopNutzapReceiver?.();
       manualSub.unsubscribe();
     };
   }, []);
 
+  useEffect(() => startRelayRetryQueue(), []);
+
+  useEffect(() => startAutoTopupMonitor(getActiveSyncAccount, DEFAULT_BASE_URL), []);
+
+  useEffect(() => startWalletReconciler(getActiveSyncAccount), []);
+
+  useEffect(
+    () =>
+      startInvoiceWatcher(getActiveSyncAccount, (settled) => {
+        if (settled.kind === "mint") {
+          toast.success(`Received ${settled.amount} sats`);
+        } else if (settled.kind === "melt") {
+          toast.success(
+            settled.count === 1
+              ? "Lightning payment completed"
+              : `${settled.count} Lightning payments completed`
+          );
+        } else {
+          toast.success("Lightning invoice paid. API key saved.");
+        }
+      }),
+    []
+  );
+
   return (
     <AccountContext.Provider value={{ manager: accountManager, manualSave }}>
       <ThemeProvider>
@@ -63,6 +63,17 @@ function formatRelativeDate(timestamp: number): string {
   return date.toLocaleDateString();
 }
 
+function getInvoiceTitle(invoice: WalletInvoice): string {
+  if (invoice.type === "node") {
+    return invoice.node?.purpose === "create" ? "Buy API key" : "Top up API key";
+  }
+  return invoice.type === "mint" ? "Receive" : "Send";
+}
+
+function getNodeHost(url: string): string {
+  return url.replace(/^https?:\/\//, "").replace(/\/$/, "");
+}
+
 function truncateInvoice(paymentRequest: string): string {
   if (!paymentRequest || paymentRequest.length <= 20) return paymentRequest;
   return `${paymentRequest.slice(0, 10)}...${paymentRequest.slice(-10)}`;
@@ -100,8 +111,9 @@ const InvoiceHistory: React.FC<InvoiceHistoryProps> = ({
   }, []);
 
   const filteredInvoices = useMemo(() => {
+    // Node invoices aren't tied to a mint, so they show for every mint
     const list = mintUrl
-      ? invoices.filter((invoice) => invoice.mintUrl === mintUrl)
+      ? invoices.filter((invoice) => invoice.type === "node" || invoice.mintUrl === mintUrl)
       : invoices;
     return [...list].sort((a, b) => b.createdAt - a.createdAt);
   }, [invoices, mintUrl]);
@@ -190,7 +202,7 @@ const InvoiceHistory: React.FC<InvoiceHistoryProps> = ({
                 <div className="min-w-0 flex-1">
                   <div className="mb-1 flex flex-wrap items-center gap-2">
                     <span className="text-sm font-medium text-foreground">
-                      {invoice.type === "mint" ? "Receive" : "Send"}
+                      {getInvoiceTitle(invoice)}
                     </span>
                     <span className="text-sm text-muted-foreground">
                       {formatSats(invoice.amount)}
@@ -202,6 +214,12 @@ const InvoiceHistory: React.FC<InvoiceHistoryProps> = ({
 
                   <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
                     <span>{formatRelativeDate(invoice.createdAt)}</span>
+                    {invoice.node ? (
+                      <>
+                        <span>•</span>
+                        <span>{getNodeHost(invoice.node.baseUrl)}</span>
+                      </>
+                    ) : null}
                     {invoice.paidAt ? (
                       <>
                         <span>•</span>
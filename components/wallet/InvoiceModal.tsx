@@ -21,6 +21,8 @@ interface InvoiceModalProps {
   mintUnit: string;
   isAutoChecking: boolean;
   countdown: number;
+  /** True while the mint pushes quote updates over its WebSocket. */
+  liveUpdates?: boolean;
   setShowInvoiceModal: (show: boolean) => void;
   setMintInvoice: (invoice: string) => void;
   setMintQuote: (quote: MintQuoteLike | null) => void;
@@ -39,6 +41,7 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({
   mintUnit,
   isAutoChecking,
   countdown,
+  liveUpdates,
   setShowInvoiceModal,
   setMintInvoice,
   setMintQuote,
@@ -133,7 +136,7 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({
                 After payment, tokens will be automatically minted
               </span>
               <span className="flex items-center text-xs text-muted-foreground">
-                {countdown}s
+                {liveUpdates ? "Live" : `${countdown}s`}
                 <svg className="ml-2 w-3 h-3 animate-spin" viewBox="0 0 24 24">
                   <path
                     d="M21 12a9 9 0 1 1-6.219-8.56"
@@ -0,0 +1,185 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { AlertCircle, Check, Copy, Loader2, RefreshCw, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  PLATFORM_WALLET_UPDATED_EVENT,
+  readOutgoingTokens,
+  type OutgoingToken,
+} from "@/lib/platformWallet";
+import type { ReclaimResult } from "@/lib/cashuEngine";
+import { getMintHost } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+
+interface PendingTokensProps {
+  onReclaim: (reservationId: string) => Promise<ReclaimResult>;
+  onCheckNow: () => Promise<number>;
+}
+
+function formatRelativeDate(timestamp: number): string {
+  const diffMins = Math.floor((Date.now() - timestamp) / 60000);
+  if (diffMins < 1) return "Just now";
+  if (diffMins < 60) return `${diffMins}m ago`;
+  const diffHours = Math.floor(diffMins / 60);
+  if (diffHours < 24) return `${diffHours}h ago`;
+  const diffDays = Math.floor(diffHours / 24);
+  if (diffDays < 7) return `${diffDays}d ago`;
+  return new Date(timestamp).toLocaleDateString();
+}
+
+const PendingTokens: React.FC<PendingTokensProps> = ({ onReclaim, onCheckNow }) => {
+  const [outgoing, setOutgoing] = useState<OutgoingToken[]>([]);
+  const [reclaimingId, setReclaimingId] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  useEffect(() => {
+    const refresh = () => setOutgoing(readOutgoingTokens());
+    refresh();
+    window.addEventListener(PLATFORM_WALLET_UPDATED_EVENT, refresh);
+    return () => {
+      window.removeEventListener(PLATFORM_WALLET_UPDATED_EVENT, refresh);
+    };
+  }, []);
+
+  const pendingTokens = useMemo(
+    () =>
+      outgoing
+        .filter((item) => item.status === "pending")
+        .sort((a, b) => b.createdAt - a.createdAt),
+    [outgoing]
+  );
+  const pendingTotal = pendingTokens.reduce((sum, item) => sum + item.amountSats, 0);
+
+  const handleReclaim = async (item: OutgoingToken) => {
+    setReclaimingId(item.id);
+    try {
+      const { reclaimed, amountSats } = await onReclaim(item.id);
+      if (reclaimed) {
+        toast.success(`Reclaimed ${amountSats.toLocaleString()} sats`);
+      } else {
+        toast.success("Token was already redeemed by its recipient");
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to reclaim token");
+    } finally {
+      setReclaimingId(null);
+    }
+  };
+
+  const handleCheckNow = async () => {
+    setIsChecking(true);
+    try {
+      const settled = await onCheckNow();
+      toast.success(
+        settled > 0
+          ? `${settled} token${settled === 1 ? " was" : "s were"} redeemed`
+          : "No pending tokens were redeemed yet"
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to check tokens");
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleCopy = async (item: OutgoingToken) => {
+    try {
+      await navigator.clipboard.writeText(item.token);
+      setCopiedId(item.id);
+      setTimeout(() => {
+        setCopiedId((current) => (current === item.id ? null : current));
+      }, 1400);
+    } catch {
+      toast.error("Unable to copy token");
+    }
+  };
+
+  if (pendingTokens.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h4 className="text-sm font-medium">Pending outgoing tokens</h4>
+          <p className="text-xs text-muted-foreground">
+            {pendingTokens.length} token{pendingTokens.length === 1 ? "" : "s"} ·{" "}
+            {pendingTotal.toLocaleString()} sats reserved until redeemed or reclaimed
+          </p>
+        </div>
+        <Button
+          onClick={() => void handleCheckNow()}
+          disabled={isChecking}
+          variant="outline"
+          size="sm"
+          type="button"
+        >
+          <RefreshCw className={`h-3 w-3 ${isChecking ? "animate-spin" : ""}`} />
+          {isChecking ? "Checking..." : "Check"}
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        {pendingTokens.map((item) => (
+          <div
+            key={item.id}
+            className="rounded-md border border-border bg-muted/50 p-3"
+          >
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="min-w-0 flex-1 truncate text-sm font-medium text-foreground">
+                {item.purpose}
+              </span>
+              <span className="text-sm text-muted-foreground">
+                {item.amountSats.toLocaleString()} sats
+              </span>
+            </div>
+            <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+              <span>{getMintHost(item.mintUrl)}</span>
+              <span>•</span>
+              <span>{formatRelativeDate(item.createdAt)}</span>
+            </div>
+            {item.error ? (
+              <div className="mt-2 flex items-start gap-1.5 text-xs text-muted-foreground">
+                <AlertCircle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+                <span className="break-words">{item.error}</span>
+              </div>
+            ) : null}
+            <div className="mt-2 flex flex-wrap items-center gap-2">
+              <Button
+                onClick={() => void handleReclaim(item)}
+                disabled={reclaimingId !== null}
+                variant="outline"
+                size="xs"
+                type="button"
+              >
+                {reclaimingId === item.id ? (
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                ) : (
+                  <Undo2 className="h-3 w-3" />
+                )}
+                {reclaimingId === item.id ? "Reclaiming..." : "Reclaim"}
+              </Button>
+              <Button
+                onClick={() => void handleCopy(item)}
+                variant="ghost"
+                size="xs"
+                title="Copy token"
+                type="button"
+              >
+                {copiedId === item.id ? (
+                  <Check className="h-3 w-3" />
+                ) : (
+                  <Copy className="h-3 w-3" />
+                )}
+                Copy
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PendingTokens;
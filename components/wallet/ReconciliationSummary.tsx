@@ -0,0 +1,59 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { AlertCircle } from "lucide-react";
+import type { ReconciliationReport } from "@/lib/cashuEngine";
+import {
+  PLATFORM_RECONCILIATION_UPDATED_EVENT,
+  readReconciliationReport,
+} from "@/lib/walletReconciler";
+import { getMintHost } from "@/lib/utils";
+
+const ReconciliationSummary: React.FC = () => {
+  const [report, setReport] = useState<ReconciliationReport | null>(null);
+
+  useEffect(() => {
+    const refresh = () => setReport(readReconciliationReport());
+    refresh();
+    window.addEventListener(PLATFORM_RECONCILIATION_UPDATED_EVENT, refresh);
+    return () => {
+      window.removeEventListener(PLATFORM_RECONCILIATION_UPDATED_EVENT, refresh);
+    };
+  }, []);
+
+  if (!report) return null;
+
+  const changedMints = report.mints.filter(
+    (mint) => mint.spentProofs > 0 || mint.pendingProofs > 0 || mint.releasedProofs > 0
+  );
+
+  return (
+    <div className="mt-3 space-y-1 border-t border-border pt-3 text-xs text-muted-foreground">
+      <p>
+        Proof states checked {new Date(report.finishedAt).toLocaleTimeString()} across{" "}
+        {report.mints.length} mint{report.mints.length === 1 ? "" : "s"}
+        {changedMints.length === 0 ? ", no changes." : ":"}
+      </p>
+      {changedMints.map((mint) => (
+        <p key={`reconcile-${mint.mintUrl}`} className="truncate" title={mint.mintUrl}>
+          {getMintHost(mint.mintUrl)}
+          {mint.spentSats > 0 ? ` · removed ${mint.spentSats.toLocaleString()} sats spent` : ""}
+          {mint.pendingSats > 0 ? ` · ${mint.pendingSats.toLocaleString()} sats pending` : ""}
+          {mint.releasedSats > 0
+            ? ` · ${mint.releasedSats.toLocaleString()} sats released`
+            : ""}
+        </p>
+      ))}
+      {report.unreachableMints.length > 0 ? (
+        <p className="flex items-start gap-1.5">
+          <AlertCircle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+          <span className="break-words">
+            Unreachable: {report.unreachableMints.map(getMintHost).join(", ")}
+          </span>
+        </p>
+      ) : null}
+    </div>
+  );
+};
+
+export default ReconciliationSummary;
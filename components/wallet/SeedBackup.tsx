@@ -0,0 +1,346 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Check, Copy, Eye, EyeOff, KeyRound, Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import {
+  PLATFORM_SEED_UPDATED_EVENT,
+  fetchSeedFromNostr,
+  generateSeedMnemonic,
+  getUnlockedMnemonic,
+  isValidSeedMnemonic,
+  readSeedInfo,
+  saveSeedMnemonic,
+  syncSeedToNostr,
+  unlockStoredSeed,
+  type SeedInfo,
+} from "@/lib/cashuSeed";
+import { restoreFromSeed, type RestoreResult } from "@/lib/cashuEngine";
+import type { CloudSyncCapableAccount } from "@/lib/nip60WalletSync";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+
+const NOSTR_RETRY_MESSAGE = "The Nostr backup will retry when relays are reachable.";
+
+interface SeedBackupProps {
+  account: CloudSyncCapableAccount | null;
+  mints: string[];
+}
+
+function summarizeRestore(results: RestoreResult[]): void {
+  const restoredSats = results.reduce((sum, result) => sum + result.restoredSats, 0);
+  const failed = results.filter((result) => result.error);
+  if (restoredSats > 0) {
+    toast.success(`Restored ${restoredSats.toLocaleString()} sats from seed`);
+  } else if (failed.length < results.length) {
+    toast.success("No unspent proofs found for this seed");
+  }
+  if (failed.length > 0) {
+    toast.error(
+      `Could not scan ${failed.length} mint${failed.length === 1 ? "" : "s"}: ${failed[0].error}`
+    );
+  }
+}
+
+const SeedBackup: React.FC<SeedBackupProps> = ({ account, mints }) => {
+  const [seedInfo, setSeedInfo] = useState<SeedInfo>(() => readSeedInfo());
+  const [draftMnemonic, setDraftMnemonic] = useState<string | null>(null);
+  const [restoreInput, setRestoreInput] = useState("");
+  const [showRestore, setShowRestore] = useState(false);
+  const [showPhrase, setShowPhrase] = useState(false);
+  const [syncToNostr, setSyncToNostr] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [busyAction, setBusyAction] = useState<string | null>(null);
+
+  useEffect(() => {
+    const refresh = () => setSeedInfo(readSeedInfo());
+    refresh();
+    window.addEventListener(PLATFORM_SEED_UPDATED_EVENT, refresh);
+    return () => {
+      window.removeEventListener(PLATFORM_SEED_UPDATED_EVENT, refresh);
+    };
+  }, []);
+
+  const hasSeedForAccount = Boolean(account && seedInfo.pubkey === account.pubkey);
+  const isUnlocked = hasSeedForAccount && seedInfo.status === "unlocked";
+  const visibleMnemonic = draftMnemonic ?? (showPhrase ? getUnlockedMnemonic() : null);
+
+  const runAction = async (action: string, task: () => Promise<void>) => {
+    setBusyAction(action);
+    try {
+      await task();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Seed action failed");
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleCopy = async (mnemonic: string) => {
+    try {
+      await navigator.clipboard.writeText(mnemonic);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1400);
+    } catch {
+      toast.error("Unable to copy recovery phrase");
+    }
+  };
+
+  const handleConfirmNewSeed = () =>
+    runAction("create", async () => {
+      if (!account || !draftMnemonic) return;
+      const { queued } = await saveSeedMnemonic(account, draftMnemonic, { syncToNostr });
+      setDraftMnemonic(null);
+      toast.success(
+        queued
+          ? `Wallet seed saved locally. ${NOSTR_RETRY_MESSAGE}`
+          : "Wallet seed saved. New eCash is now recoverable from it."
+      );
+    });
+
+  const handleUnlock = () =>
+    runAction("unlock", async () => {
+      if (!account) return;
+      const unlocked = await unlockStoredSeed(account);
+      if (!unlocked) throw new Error("Unable to decrypt the stored seed with this account");
+    });
+
+  const handleToggleSync = (enabled: boolean) =>
+    runAction("sync", async () => {
+      if (!account) return;
+      const { queued } = await syncSeedToNostr(account, enabled);
+      if (queued) {
+        toast.success(`Saved locally. ${NOSTR_RETRY_MESSAGE}`);
+      } else {
+        toast.success(enabled ? "Seed backed up to Nostr" : "Seed removed from Nostr backup");
+      }
+    });
+
+  const handleLoadFromNostr = () =>
+    runAction("fetch", async () => {
+      if (!account) return;
+      const mnemonic = await fetchSeedFromNostr(account);
+      if (!mnemonic) throw new Error("No seed backup found in your NIP-60 wallet");
+      setRestoreInput(mnemonic);
+    });
+
+  const handleRestore = () =>
+    runAction("restore", async () => {
+      if (!account) return;
+      if (!isValidSeedMnemonic(restoreInput)) {
+        throw new Error("Invalid recovery phrase");
+      }
+      const { queued } = await saveSeedMnemonic(account, restoreInput, { syncToNostr });
+      if (queued) toast.success(`Wallet seed saved locally. ${NOSTR_RETRY_MESSAGE}`);
+      setRestoreInput("");
+      setShowRestore(false);
+      summarizeRestore(await restoreFromSeed(mints, { syncAccount: account }));
+    });
+
+  const handleRescan = () =>
+    runAction("rescan", async () => {
+      summarizeRestore(await restoreFromSeed(mints, { syncAccount: account }));
+    });
+
+  if (!account) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        Seed backup is available after signer login.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <KeyRound className="h-4 w-4 text-muted-foreground" />
+        <h3 className="text-sm font-medium text-foreground/85">Seed backup</h3>
+        <span className="rounded-full border border-border/70 px-1.5 text-[10px] text-muted-foreground">
+          {!hasSeedForAccount ? "no seed" : isUnlocked ? "active" : "locked"}
+        </span>
+        {hasSeedForAccount && seedInfo.syncedToNostr ? (
+          <span className="rounded-full border border-border/70 px-1.5 text-[10px] text-muted-foreground">
+            on Nostr
+          </span>
+        ) : null}
+      </div>
+
+      {!hasSeedForAccount && !draftMnemonic ? (
+        <p className="text-xs text-muted-foreground">
+          Without a seed, eCash secrets are random and lost with this browser&apos;s
+          storage. Create a recovery phrase to make new proofs restorable.
+        </p>
+      ) : null}
+
+      {visibleMnemonic ? (
+        <div className="space-y-2 rounded-md border border-border bg-muted/50 p-3">
+          <p className="break-words font-mono text-sm text-foreground">{visibleMnemonic}</p>
+          <div className="flex flex-wrap items-center gap-2">
+            <Button
+              onClick={() => void handleCopy(visibleMnemonic)}
+              variant="ghost"
+              size="xs"
+              type="button"
+            >
+              {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+              Copy
+            </Button>
+            {draftMnemonic ? (
+              <span className="text-xs text-muted-foreground">
+                Write these words down. Anyone with them can spend your eCash.
+              </span>
+            ) : null}
+          </div>
+        </div>
+      ) : null}
+
+      {!hasSeedForAccount || draftMnemonic ? (
+        <label
+          className="inline-flex items-center gap-2 text-xs text-muted-foreground"
+          htmlFor="platform-seed-sync-new"
+        >
+          <Switch
+            id="platform-seed-sync-new"
+            checked={syncToNostr}
+            onCheckedChange={setSyncToNostr}
+          />
+          Back up the phrase in my encrypted NIP-60 wallet event
+        </label>
+      ) : null}
+
+      <div className="flex flex-wrap items-center gap-2">
+        {draftMnemonic ? (
+          <>
+            <Button
+              onClick={() => void handleConfirmNewSeed()}
+              disabled={busyAction !== null}
+              variant="outline"
+              size="sm"
+              type="button"
+            >
+              {busyAction === "create" ? <Loader2 className="h-3 w-3 animate-spin" /> : null}
+              I saved it, use this seed
+            </Button>
+            <Button
+              onClick={() => setDraftMnemonic(null)}
+              disabled={busyAction !== null}
+              variant="ghost"
+              size="sm"
+              type="button"
+            >
+              Cancel
+            </Button>
+          </>
+        ) : !hasSeedForAccount ? (
+          <>
+            <Button
+              onClick={() => setDraftMnemonic(generateSeedMnemonic())}
+              disabled={busyAction !== null}
+              variant="outline"
+              size="sm"
+              type="button"
+            >
+              Create recovery phrase
+            </Button>
+            <Button
+              onClick={() => setShowRestore((previous) => !previous)}
+              disabled={busyAction !== null}
+              variant="ghost"
+              size="sm"
+              type="button"
+            >
+              Restore from seed
+            </Button>
+          </>
+        ) : !isUnlocked ? (
+          <Button
+            onClick={() => void handleUnlock()}
+            disabled={busyAction !== null}
+            variant="outline"
+            size="sm"
+            type="button"
+          >
+            {busyAction === "unlock" ? <Loader2 className="h-3 w-3 animate-spin" /> : null}
+            Unlock seed
+          </Button>
+        ) : (
+          <>
+            <Button
+              onClick={() => setShowPhrase((previous) => !previous)}
+              variant="outline"
+              size="sm"
+              type="button"
+            >
+              {showPhrase ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
+              {showPhrase ? "Hide phrase" : "Show phrase"}
+            </Button>
+            <Button
+              onClick={() => void handleRescan()}
+              disabled={busyAction !== null || mints.length === 0}
+              variant="outline"
+              size="sm"
+              type="button"
+            >
+              <RotateCcw
+                className={`h-3 w-3 ${busyAction === "rescan" ? "animate-spin" : ""}`}
+              />
+              {busyAction === "rescan" ? "Scanning..." : "Rescan mints"}
+            </Button>
+            <label
+              className="inline-flex items-center gap-2 text-xs text-muted-foreground"
+              htmlFor="platform-seed-sync"
+            >
+              <Switch
+                id="platform-seed-sync"
+                checked={seedInfo.syncedToNostr}
+                disabled={busyAction !== null}
+                onCheckedChange={(checked) => void handleToggleSync(checked)}
+              />
+              Backed up on Nostr
+            </label>
+          </>
+        )}
+      </div>
+
+      {showRestore && !hasSeedForAccount && !draftMnemonic ? (
+        <div className="space-y-2 border-t border-border pt-3">
+          <Textarea
+            value={restoreInput}
+            onChange={(event) => setRestoreInput(event.target.value)}
+            className="min-h-20 font-mono text-sm"
+            placeholder="Enter your 12 or 24 word recovery phrase"
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <Button
+              onClick={() => void handleRestore()}
+              disabled={busyAction !== null || !restoreInput.trim()}
+              variant="outline"
+              size="sm"
+              type="button"
+            >
+              {busyAction === "restore" ? <Loader2 className="h-3 w-3 animate-spin" /> : null}
+              {busyAction === "restore" ? "Restoring..." : "Restore wallet"}
+            </Button>
+            <Button
+              onClick={() => void handleLoadFromNostr()}
+              disabled={busyAction !== null}
+              variant="ghost"
+              size="sm"
+              type="button"
+            >
+              {busyAction === "fetch" ? <Loader2 className="h-3 w-3 animate-spin" /> : null}
+              Load from Nostr backup
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Restoring scans every keyset of {mints.length} mint
+            {mints.length === 1 ? "" : "s"} and adds any unspent proofs found.
+          </p>
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+export default SeedBackup;
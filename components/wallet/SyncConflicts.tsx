@@ -0,0 +1,68 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { GitMerge } from "lucide-react";
+import {
+  NIP60_CONFLICTS_UPDATED_EVENT,
+  clearNip60Conflicts,
+  readNip60Conflicts,
+  type Nip60ConflictRecord,
+} from "@/lib/nip60WalletSync";
+import { getMintHost } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+
+const VISIBLE_CONFLICTS = 3;
+
+const SyncConflicts: React.FC = () => {
+  const [conflicts, setConflicts] = useState<Nip60ConflictRecord[]>([]);
+
+  useEffect(() => {
+    const refresh = () => setConflicts(readNip60Conflicts());
+    refresh();
+    window.addEventListener(NIP60_CONFLICTS_UPDATED_EVENT, refresh);
+    return () => {
+      window.removeEventListener(NIP60_CONFLICTS_UPDATED_EVENT, refresh);
+    };
+  }, []);
+
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div className="rounded-md border border-border bg-muted/25 p-3 text-xs text-muted-foreground">
+      <div className="mb-1.5 flex items-center gap-1.5">
+        <GitMerge className="h-3.5 w-3.5" />
+        <span className="font-medium text-foreground/85">
+          Resolved {conflicts.length} sync conflict{conflicts.length === 1 ? "" : "s"}
+        </span>
+        <Button
+          onClick={clearNip60Conflicts}
+          variant="ghost"
+          size="xs"
+          className="ml-auto"
+          type="button"
+        >
+          Dismiss
+        </Button>
+      </div>
+      <div className="space-y-1">
+        {conflicts.slice(0, VISIBLE_CONFLICTS).map((conflict) => (
+          <p key={conflict.id} className="truncate" title={conflict.mintUrl}>
+            {new Date(conflict.resolvedAt).toLocaleString()} · {getMintHost(conflict.mintUrl)} ·
+            merged {conflict.divergentEventIds.length} snapshot
+            {conflict.divergentEventIds.length === 1 ? "" : "s"}
+            {conflict.mergedProofs > 0
+              ? `, recovered ${conflict.mergedProofs} proof${
+                  conflict.mergedProofs === 1 ? "" : "s"
+                } (${conflict.mergedSats.toLocaleString()} sats)`
+              : ""}
+            {conflict.droppedSpentProofs > 0
+              ? `, dropped ${conflict.droppedSpentProofs} spent`
+              : ""}
+          </p>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SyncConflicts;
@@ -0,0 +1,163 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { ArrowDownLeft, ArrowUpRight, Cloud, History, RefreshCw } from "lucide-react";
+import { useObservableState } from "applesauce-react/hooks";
+import { useAccountManager } from "@/components/providers/ClientProviders";
+import {
+  PLATFORM_WALLET_UPDATED_EVENT,
+  readTransactionHistory,
+  type WalletTransactionHistory,
+} from "@/lib/platformWallet";
+import {
+  fetchNip60History,
+  isCloudSyncCapableAccount,
+  mergeTransactionHistory,
+  type Nip60HistoryEntry,
+} from "@/lib/nip60WalletSync";
+import { Button } from "@/components/ui/button";
+
+function formatRelativeDate(timestamp: number): string {
+  const diffMins = Math.floor((Date.now() - timestamp) / 60000);
+  if (diffMins < 1) return "Just now";
+  if (diffMins < 60) return `${diffMins}m ago`;
+  const diffHours = Math.floor(diffMins / 60);
+  if (diffHours < 24) return `${diffHours}h ago`;
+  const diffDays = Math.floor(diffHours / 24);
+  if (diffDays < 7) return `${diffDays}d ago`;
+  return new Date(timestamp).toLocaleDateString();
+}
+
+function getTransactionLabel(transaction: WalletTransactionHistory): string {
+  if (transaction.message) return transaction.message;
+  if (transaction.type === "mint") return "Lightning deposit";
+  if (transaction.type === "refund") return "Refund";
+  return transaction.type === "send" ? "Sent" : "Received";
+}
+
+const TransactionHistory: React.FC = () => {
+  const { manager } = useAccountManager();
+  const activeAccount = useObservableState(manager.active$);
+  const syncAccount = useMemo(
+    () => (isCloudSyncCapableAccount(activeAccount) ? activeAccount : null),
+    [activeAccount]
+  );
+  const [localHistory, setLocalHistory] = useState<WalletTransactionHistory[]>([]);
+  const [relayHistory, setRelayHistory] = useState<Nip60HistoryEntry[]>([]);
+  const [isFetching, setIsFetching] = useState(false);
+
+  useEffect(() => {
+    const refresh = () => setLocalHistory(readTransactionHistory());
+    refresh();
+    window.addEventListener(PLATFORM_WALLET_UPDATED_EVENT, refresh);
+    return () => {
+      window.removeEventListener(PLATFORM_WALLET_UPDATED_EVENT, refresh);
+    };
+  }, []);
+
+  const fetchRelayHistory = useCallback(async () => {
+    if (!syncAccount) {
+      setRelayHistory([]);
+      return;
+    }
+    setIsFetching(true);
+    try {
+      setRelayHistory(await fetchNip60History(syncAccount));
+    } catch (error) {
+      console.warn("Failed to fetch NIP-60 history:", error);
+    } finally {
+      setIsFetching(false);
+    }
+  }, [syncAccount]);
+
+  useEffect(() => {
+    void fetchRelayHistory();
+  }, [fetchRelayHistory]);
+
+  const timeline = useMemo(
+    () => mergeTransactionHistory(localHistory, relayHistory),
+    [localHistory, relayHistory]
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h3 className="text-base font-semibold tracking-tight">Transactions</h3>
+          <p className="text-sm text-muted-foreground">
+            {syncAccount
+              ? "Local activity merged with your NIP-60 history."
+              : "Local activity. Sign in with a signer to sync history."}
+          </p>
+        </div>
+        {syncAccount ? (
+          <Button
+            onClick={() => void fetchRelayHistory()}
+            disabled={isFetching}
+            variant="outline"
+            size="sm"
+            type="button"
+          >
+            <RefreshCw className={`h-3 w-3 ${isFetching ? "animate-spin" : ""}`} />
+            {isFetching ? "Loading..." : "Refresh"}
+          </Button>
+        ) : null}
+      </div>
+
+      {timeline.length === 0 ? (
+        <div className="text-center py-6 text-muted-foreground">
+          <History className="h-10 w-10 mx-auto mb-3 opacity-50" />
+          <p className="text-sm">No transactions yet</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {timeline.map(({ key, transaction, local, synced }) => (
+            <div
+              key={key}
+              className="flex items-start gap-2 rounded-md border border-border bg-muted/50 p-3"
+            >
+              <div className="shrink-0 pt-0.5">
+                {transaction.type === "send" ? (
+                  <ArrowUpRight className="h-4 w-4 text-muted-foreground" />
+                ) : (
+                  <ArrowDownLeft className="h-4 w-4 text-foreground/85" />
+                )}
+              </div>
+              <div className="min-w-0 flex-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="min-w-0 flex-1 truncate text-sm font-medium text-foreground">
+                    {getTransactionLabel(transaction)}
+                  </span>
+                  <span className="text-sm text-muted-foreground">
+                    {transaction.type === "send" ? "-" : "+"}
+                    {transaction.amount.toLocaleString()} sats
+                  </span>
+                </div>
+                <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                  <span>{formatRelativeDate(transaction.timestamp)}</span>
+                  {transaction.status === "failed" ? (
+                    <>
+                      <span>•</span>
+                      <span>Failed</span>
+                    </>
+                  ) : null}
+                  {synced ? (
+                    <>
+                      <span>•</span>
+                      <span className="inline-flex items-center gap-1">
+                        <Cloud className="h-3 w-3" />
+                        {local ? "Synced" : "From another device"}
+                      </span>
+                    </>
+                  ) : null}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TransactionHistory;
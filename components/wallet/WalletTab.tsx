@@ -12,9 +12,17 @@ import {
 import { MintQuoteState } from "@cashu/cashu-ts";
 import { toast } from "sonner";
 import { useWalletOperations } from "@/hooks/useWalletOperations";
-import type { WalletTransactionHistory } from "@/lib/platformWallet";
+import { balanceByMint, type MintBalance } from "@/lib/cashuEngine";
+import { checkNodeInvoices } from "@/lib/nodeInvoices";
+import {
+  PLATFORM_WALLET_UPDATED_EVENT,
+  type WalletTransactionHistory,
+} from "@/lib/platformWallet";
+import { getMintHost } from "@/lib/utils";
 import InvoiceModal from "@/components/wallet/InvoiceModal";
 import InvoiceHistory from "@/components/wallet/InvoiceHistory";
+import TransactionHistory from "@/components/wallet/TransactionHistory";
+import PendingTokens from "@/components/wallet/PendingTokens";
 import BitcoinConnectStatusRow from "@/components/wallet/BitcoinConnectStatusRow";
 import {
   requestBitcoinConnectProvider,
@@ -22,6 +30,13 @@ import {
 } from "@/hooks/useBitcoinConnect";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
 import { Textarea } from "@/components/ui/textarea";
 
@@ -39,6 +54,8 @@ interface MeltQuoteResponse {
   expiry?: number;
 }
 
+const AUTO_SEND_MINT = "auto";
+
 interface WalletTabProps {
   balance: number;
   setBalance: (balance: number | ((prevBalance: number) => number)) => void;
@@ -64,9 +81,12 @@ const WalletTab: React.FC<WalletTabProps> = ({
   const [isMinting, setIsMinting] = useState(false);
   const [isAutoChecking, setIsAutoChecking] = useState(false);
   const [countdown, setCountdown] = useState(3);
+  const [liveUpdates, setLiveUpdates] = useState(false);
   const [sendAmount, setSendAmount] = useState("");
   const [isGeneratingSendToken, setIsGeneratingSendToken] = useState(false);
   const [generatedToken, setGeneratedToken] = useState("");
+  const [sendMintUrl, setSendMintUrl] = useState(AUTO_SEND_MINT);
+  const [mintBalances, setMintBalances] = useState<MintBalance[]>([]);
   const [copiedToken, setCopiedToken] = useState(false);
   const [tokenToImport, setTokenToImport] = useState("");
   const [isImporting, setIsImporting] = useState(false);
@@ -108,6 +128,8 @@ const WalletTab: React.FC<WalletTabProps> = ({
     importToken: hookImportToken,
     generateSendToken: hookGenerateSendToken,
     checkPendingInvoices,
+    reclaimPendingToken,
+    checkPendingTokens,
     setupAutoRefresh,
     checkIntervalRef,
     countdownIntervalRef,
@@ -165,7 +187,8 @@ const WalletTab: React.FC<WalletTabProps> = ({
       sendAmount,
       balance,
       setSendAmount,
-      setGeneratedToken
+      setGeneratedToken,
+      sendMintUrl === AUTO_SEND_MINT ? "" : sendMintUrl
     );
   };
 
@@ -294,10 +317,12 @@ const WalletTab: React.FC<WalletTabProps> = ({
     setError("");
     try {
       const result = await checkPendingInvoices();
-      if (result.updated > 0) {
-        setSuccessMessage(`Recovered ${result.updated} paid invoice(s).`);
+      const nodeResult = await checkNodeInvoices({ force: true });
+      const updated = result.updated + nodeResult.settled.length;
+      if (updated > 0) {
+        setSuccessMessage(`Recovered ${updated} paid invoice(s).`);
       } else {
-        setSuccessMessage(`Checked ${result.checked} pending invoice(s).`);
+        setSuccessMessage(`Checked ${result.checked + nodeResult.checked} pending invoice(s).`);
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to check invoices");
@@ -339,6 +364,37 @@ const WalletTab: React.FC<WalletTabProps> = ({
     void initializeWallet();
   }, [mintUrl, initWallet]);
 
+  useEffect(() => {
+    let cancelled = false;
+
+    const refreshMintBalances = async () => {
+      try {
+        const balances = await balanceByMint();
+        if (!cancelled) {
+          setMintBalances(balances.filter((item) => item.mintUrl && item.amount > 0));
+        }
+      } catch {
+        if (!cancelled) setMintBalances([]);
+      }
+    };
+
+    void refreshMintBalances();
+    window.addEventListener(PLATFORM_WALLET_UPDATED_EVENT, refreshMintBalances);
+    window.addEventListener("storage", refreshMintBalances);
+    return () => {
+      cancelled = true;
+      window.removeEventListener(PLATFORM_WALLET_UPDATED_EVENT, refreshMintBalances);
+      window.removeEventListener("storage", refreshMintBalances);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (sendMintUrl === AUTO_SEND_MINT) return;
+    if (!mintBalances.some((item) => item.mintUrl === sendMintUrl)) {
+      setSendMintUrl(AUTO_SEND_MINT);
+    }
+  }, [mintBalances, sendMintUrl]);
+
   useEffect(() => {
     const cleanup = setupAutoRefresh(
       mintInvoice,
@@ -346,7 +402,8 @@ const WalletTab: React.FC<WalletTabProps> = ({
       checkMintQuote,
       isAutoChecking,
       setIsAutoChecking,
-      setCountdown
+      setCountdown,
+      setLiveUpdates
     );
 
     return cleanup;
@@ -381,6 +438,15 @@ const WalletTab: React.FC<WalletTabProps> = ({
       : null;
   const canCoverPayBudget =
     payTotalBudget !== null ? balance >= payTotalBudget : false;
+  const parsedSendAmount = Number.parseInt(sendAmount, 10);
+  const selectedSendMintBalance =
+    sendMintUrl === AUTO_SEND_MINT
+      ? null
+      : (mintBalances.find((item) => item.mintUrl === sendMintUrl) ?? null);
+  const sendMintShortfall =
+    selectedSendMintBalance !== null &&
+    Number.isFinite(parsedSendAmount) &&
+    parsedSendAmount > selectedSendMintBalance.sats;
 
   return (
     <div className="min-w-0 space-y-5">
@@ -722,6 +788,30 @@ const WalletTab: React.FC<WalletTabProps> = ({
                         </Button>
                       ))}
                     </div>
+                    <label className="flex min-w-0 flex-col gap-1.5">
+                      <span className="text-xs text-muted-foreground">Send from mint</span>
+                      <Select value={sendMintUrl} onValueChange={setSendMintUrl}>
+                        <SelectTrigger className="w-full min-w-0">
+                          <SelectValue placeholder="Any mint with enough balance" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={AUTO_SEND_MINT}>
+                            Any mint with enough balance
+                          </SelectItem>
+                          {mintBalances.map((item) => (
+                            <SelectItem key={item.mintUrl} value={item.mintUrl}>
+                              {getMintHost(item.mintUrl)} · {item.sats.toLocaleString()} sats
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </label>
+                    {sendMintShortfall ? (
+                      <p className="text-xs text-muted-foreground">
+                        {getMintHost(sendMintUrl)} only holds{" "}
+                        {selectedSendMintBalance?.sats.toLocaleString()} sats.
+                      </p>
+                    ) : null}
                     <div className="grid gap-2 sm:grid-cols-[minmax(0,1fr)_minmax(0,13rem)]">
                       <Input
                         className="min-w-0"
@@ -738,7 +828,7 @@ const WalletTab: React.FC<WalletTabProps> = ({
                       />
                       <Button
                         onClick={() => void generateSendToken()}
-                        disabled={isGeneratingSendToken || !sendAmount}
+                        disabled={isGeneratingSendToken || !sendAmount || sendMintShortfall}
                         className="w-full"
                         type="button"
                       >
@@ -773,6 +863,10 @@ const WalletTab: React.FC<WalletTabProps> = ({
                       </p>
                     )}
                   </div>
+                  <PendingTokens
+                    onReclaim={reclaimPendingToken}
+                    onCheckNow={checkPendingTokens}
+                  />
                 </div>
               </div>
             </div>
@@ -780,7 +874,8 @@ const WalletTab: React.FC<WalletTabProps> = ({
 
           {activeTab === "history" && (
             <div className="h-full space-y-3 overflow-x-clip pb-[calc(7rem+env(safe-area-inset-bottom))] lg:overflow-y-auto lg:pr-1 lg:pb-0">
-              <div>
+              <TransactionHistory />
+              <div className="border-t border-border pt-3">
                 <h3 className="text-base font-semibold tracking-tight">Invoices</h3>
                 <p className="text-sm text-muted-foreground">
                   Inspect pending invoices and recover paid quotes.
@@ -803,6 +898,7 @@ const WalletTab: React.FC<WalletTabProps> = ({
         mintUnit="sat"
         isAutoChecking={isAutoChecking}
         countdown={countdown}
+        liveUpdates={liveUpdates}
         setShowInvoiceModal={setShowInvoiceModal}
         setMintInvoice={setMintInvoice}
         setMintQuote={setMintQuote}
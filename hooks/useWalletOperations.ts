@@ -2,41 +2,45 @@
 
 import { useCallback, useRef } from "react";
 import {
-  CashuMint,
   CashuWallet,
   MeltQuoteState,
   MintQuoteState,
 } from "@cashu/cashu-ts";
 import {
-  appendCashuProofs,
   appendTransaction,
   getProofsBalanceSats,
-  readCashuProofs,
   readTransactionHistory,
   readWalletInvoices,
-  type WalletInvoiceState,
   type WalletTransactionHistory,
   updateWalletInvoiceByQuote,
   upsertWalletInvoice,
-  writeCashuProofs,
 } from "@/lib/platformWallet";
 import { useObservableState } from "applesauce-react/hooks";
 import { useAccountManager } from "@/components/providers/ClientProviders";
+import { isCloudSyncCapableAccount } from "@/lib/nip60WalletSync";
 import {
-  annotateProofsWithMint,
-  getProofsForMint,
-  isCloudSyncCapableAccount,
-  publishNip60MintSnapshot,
-  type WalletProof,
-} from "@/lib/nip60WalletSync";
-
-interface CashuProof {
-  amount: number;
-  secret: string;
-  C: string;
-  id: string;
-  [key: string]: unknown;
-}
+  getMintWallet,
+  melt,
+  meltQuote as createEngineMeltQuote,
+  mintQuote as createEngineMintQuote,
+  normalizeMintUrl,
+  receive,
+  reclaimSend,
+  refreshOutgoingTokens,
+  send,
+  subscribeMintQuotes,
+  type ReclaimResult,
+  type SendResult,
+  type SubscriptionCanceller,
+} from "@/lib/cashuEngine";
+import {
+  checkPendingQuotes,
+  claimPaidMintQuote,
+  isAlreadyProcessedError,
+  mapMeltStateToInvoiceState,
+  mapMintStateToInvoiceState,
+} from "@/lib/invoiceWatcher";
+import { getMintHost } from "@/lib/utils";
 
 interface MintQuoteResponse {
   quote: string;
@@ -69,6 +73,8 @@ interface CheckPendingInvoicesResult {
 }
 
 const FALLBACK_MINT_URL = "https://mint.minibits.cash/Bitcoin";
+const POLL_INTERVAL_SECONDS = 3;
+const LIVE_SAFETY_POLL_SECONDS = 30;
 
 function getInvoiceAmountFallback(quoteId: string): number | null {
   const invoice = readWalletInvoices().find((item) => item.quoteId === quoteId);
@@ -76,56 +82,6 @@ function getInvoiceAmountFallback(quoteId: string): number | null {
   return Number.isFinite(invoice.amount) ? invoice.amount : null;
 }
 
-function mapMintStateToInvoiceState(state: MintQuoteState): WalletInvoiceState {
-  const upper = String(state).toUpperCase();
-  if (upper === "UNPAID") return "UNPAID";
-  if (upper === "PAID") return "PAID";
-  if (upper === "ISSUED") return "ISSUED";
-  return "PENDING";
-}
-
-function mapMeltStateToInvoiceState(state: MeltQuoteState | string): WalletInvoiceState {
-  const upper = String(state).toUpperCase();
-  if (upper === "UNPAID") return "UNPAID";
-  if (upper === "PAID") return "PAID";
-  if (upper === "ISSUED") return "ISSUED";
-  if (upper === "EXPIRED" || upper === "FAILED") return "EXPIRED";
-  return "PENDING";
-}
-
-function isAlreadyProcessedError(message: string): boolean {
-  const value = message.toLowerCase();
-  return (
-    value.includes("already issued") ||
-    value.includes("already minted") ||
-    value.includes("already spent") ||
-    value.includes("token already spent")
-  );
-}
-
-function addMintTransaction(
-  quoteId: string,
-  amount: number,
-  balance: number
-): WalletTransactionHistory {
-  return {
-    type: "mint",
-    amount,
-    timestamp: Date.now(),
-    status: "success",
-    message: "Tokens minted",
-    balance,
-    quoteId,
-  };
-}
-
-function proofIdentity(proof: CashuProof | WalletProof): string {
-  if (typeof proof.secret === "string" && proof.secret.length > 0) {
-    return proof.secret;
-  }
-  return `${String(proof.id)}:${Number(proof.amount)}:${String(proof.C || "")}`;
-}
-
 export function useWalletOperations({
   mintUrl,
   setBalance,
@@ -134,6 +90,7 @@ export function useWalletOperations({
   const { manager } = useAccountManager();
   const activeAccount = useObservableState(manager.active$);
   const cashuWalletRef = useRef<CashuWallet | null>(null);
+  const walletMintUrlRef = useRef(normalizeMintUrl(mintUrl));
   const mintQuoteRef = useRef<MintQuoteResponse | null>(null);
   const checkIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const countdownIntervalRef = useRef<ReturnType<typeof setInterval> | null>(
@@ -146,73 +103,6 @@ export function useWalletOperations({
     setTransactionHistory(readTransactionHistory());
   }, [setBalance, setTransactionHistory]);
 
-  const syncMintSnapshotToNip60 = useCallback(
-    async (
-      mintUrlToSync: string,
-      beforeProofs: WalletProof[],
-      afterProofs: WalletProof[]
-    ) => {
-      if (!syncAccount) return;
-
-      const beforeMintProofs = getProofsForMint(beforeProofs, mintUrlToSync);
-      const afterMintProofs = getProofsForMint(afterProofs, mintUrlToSync);
-
-      const eventIdsToDelete = Array.from(
-        new Set(
-          beforeMintProofs
-            .map((proof) => proof.eventId)
-            .filter((eventId): eventId is string => typeof eventId === "string")
-        )
-      );
-
-      if (afterMintProofs.length === 0 && eventIdsToDelete.length === 0) {
-        return;
-      }
-
-      try {
-        const newEventId = await publishNip60MintSnapshot(
-          syncAccount,
-          mintUrlToSync,
-          afterMintProofs,
-          eventIdsToDelete
-        );
-
-        const updatedProofs = afterProofs.map((proof) => {
-          if (proof.mintUrl !== mintUrlToSync) return proof;
-          return {
-            ...proof,
-            eventId: newEventId,
-          };
-        });
-        writeCashuProofs(updatedProofs);
-      } catch (error) {
-        console.warn("Failed to sync NIP-60 wallet proofs:", error);
-      }
-    },
-    [syncAccount]
-  );
-
-  const createWalletForMint = useCallback(async (candidateMintUrl: string) => {
-    const mint = new CashuMint(candidateMintUrl);
-    const keysets = await mint.getKeySets();
-    const activeKeysets = keysets.keysets.filter((k) => k.active);
-    const units = [...new Set(activeKeysets.map((k) => String(k.unit).toLowerCase()))];
-
-    const preferredUnit =
-      units.includes("msat") ? "msat" : units.includes("sat") ? "sat" : null;
-    if (!preferredUnit) {
-      throw new Error(
-        `Mint ${candidateMintUrl} has no active sat/msat keyset (units: ${
-          units.join(", ") || "none"
-        })`
-      );
-    }
-
-    const wallet = new CashuWallet(mint, { unit: preferredUnit });
-    await wallet.loadMint();
-    return wallet;
-  }, []);
-
   const initWallet = useCallback(async () => {
     const candidates = Array.from(
       new Set([mintUrl, FALLBACK_MINT_URL].filter(Boolean))
@@ -221,8 +111,9 @@ export function useWalletOperations({
     let lastError: unknown = null;
     for (const candidate of candidates) {
       try {
-        const wallet = await createWalletForMint(candidate);
+        const { wallet } = await getMintWallet(candidate);
         cashuWalletRef.current = wallet;
+        walletMintUrlRef.current = normalizeMintUrl(candidate);
         return wallet;
       } catch (error) {
         lastError = error;
@@ -232,7 +123,7 @@ export function useWalletOperations({
     const reason =
       lastError instanceof Error ? lastError.message : "Unknown wallet error";
     throw new Error(`Failed to initialize wallet for ${mintUrl}. ${reason}`);
-  }, [createWalletForMint, mintUrl]);
+  }, [mintUrl]);
 
   const checkMintQuote = useCallback(
     async (
@@ -286,30 +177,25 @@ export function useWalletOperations({
 
         try {
           if (amount > 0) {
-            const proofs = (await cashuWalletRef.current.mintProofs(
+            const proofs = await claimPaidMintQuote(
+              walletMintUrlRef.current,
+              quoteId,
               amount,
-              quoteId
-            )) as CashuProof[];
-
-            if (Array.isArray(proofs) && proofs.length > 0) {
-              const proofsBefore = readCashuProofs() as WalletProof[];
-              appendCashuProofs(annotateProofsWithMint(proofs, mintUrl));
-              const proofsAfter = readCashuProofs() as WalletProof[];
-              await syncMintSnapshotToNip60(mintUrl, proofsBefore, proofsAfter);
-              const balance = getProofsBalanceSats();
-              appendTransaction(addMintTransaction(quoteId, amount, balance));
+              { syncAccount }
+            );
+
+            if (proofs.length > 0) {
               setSuccessMessage("Payment received! Tokens minted successfully.");
             } else {
               setSuccessMessage("Payment confirmed. No new proofs returned.");
             }
           } else {
+            updateWalletInvoiceByQuote(quoteId, {
+              state: "ISSUED",
+              paidAt: Date.now(),
+            });
             setSuccessMessage("Payment confirmed.");
           }
-
-          updateWalletInvoiceByQuote(quoteId, {
-            state: "ISSUED",
-            paidAt: Date.now(),
-          });
         } catch (mintError) {
           const message =
             mintError instanceof Error
@@ -344,7 +230,7 @@ export function useWalletOperations({
         }
       }
     },
-    [mintUrl, syncBalanceAndHistory, syncMintSnapshotToNip60]
+    [syncAccount, syncBalanceAndHistory]
   );
 
   const createMintQuote = useCallback(
@@ -370,7 +256,7 @@ export function useWalletOperations({
           throw new Error("Please enter a valid amount");
         }
 
-        const quote = await cashuWalletRef.current.createMintQuote(amount);
+        const quote = await createEngineMintQuote(walletMintUrlRef.current, amount);
         setMintQuote(quote);
         mintQuoteRef.current = quote;
         setMintInvoice(quote.request || "");
@@ -378,7 +264,7 @@ export function useWalletOperations({
         upsertWalletInvoice({
           id: `invoice-${quote.quote}`,
           type: "mint",
-          mintUrl,
+          mintUrl: walletMintUrlRef.current,
           quoteId: quote.quote,
           paymentRequest: quote.request || "",
           amount,
@@ -398,7 +284,7 @@ export function useWalletOperations({
         setIsMinting(false);
       }
     },
-    [mintUrl]
+    []
   );
 
   const createMeltQuote = useCallback(
@@ -415,9 +301,10 @@ export function useWalletOperations({
         throw new Error("Please enter a Lightning invoice");
       }
 
-      const meltQuote = (await cashuWalletRef.current.createMeltQuote(
+      const meltQuote = await createEngineMeltQuote(
+        walletMintUrlRef.current,
         normalizedRequest
-      )) as MeltQuoteResponse;
+      );
 
       const normalizedQuote: MeltQuoteResponse = {
         ...meltQuote,
@@ -442,27 +329,14 @@ export function useWalletOperations({
         throw new Error("Wallet is not initialized");
       }
 
-      const proofsBefore = readCashuProofs() as WalletProof[];
-      if (!Array.isArray(proofsBefore) || proofsBefore.length === 0) {
-        throw new Error("No tokens available to pay this invoice");
-      }
-
-      const proofsForMint = getProofsForMint(proofsBefore, mintUrl);
-      if (proofsForMint.length === 0) {
-        throw new Error("No tokens available for the selected mint");
-      }
-
+      const walletMintUrl = walletMintUrlRef.current;
       const amount = Number(meltQuote.amount || 0);
       const feeReserve = Number(meltQuote.fee_reserve || 0);
-      const amountToSend = amount + feeReserve;
-      if (!Number.isFinite(amountToSend) || amountToSend <= 0) {
-        throw new Error("Invalid invoice amount");
-      }
 
       upsertWalletInvoice({
         id: `invoice-${meltQuote.quote}`,
         type: "melt",
-        mintUrl,
+        mintUrl: walletMintUrl,
         quoteId: meltQuote.quote,
         paymentRequest,
         amount,
@@ -473,53 +347,11 @@ export function useWalletOperations({
         fee: feeReserve,
       });
 
-      const currentBalance = getProofsBalanceSats();
-      if (amountToSend > currentBalance) {
-        throw new Error("Insufficient balance to pay invoice");
-      }
-
-      const sendResult = await cashuWalletRef.current.send(
-        amountToSend,
-        proofsForMint,
-        {
-          includeFees: true,
-        }
+      const meltResult = await melt(
+        walletMintUrl,
+        meltQuote as Parameters<typeof melt>[1],
+        { syncAccount }
       );
-      const { send, keep } = sendResult;
-
-      if (!send || send.length === 0) {
-        throw new Error("Unable to select proofs for payment");
-      }
-
-      const meltResult = await cashuWalletRef.current.meltProofs(
-        meltQuote as Parameters<CashuWallet["meltProofs"]>[0],
-        send
-      );
-
-      const change = Array.isArray(meltResult?.change)
-        ? (meltResult.change as CashuProof[])
-        : [];
-
-      const previousByIdentity = new Map(
-        proofsForMint.map((proof) => [proofIdentity(proof), proof])
-      );
-      const keepWithMetadata = (keep as CashuProof[]).map((proof) => {
-        const existing = previousByIdentity.get(proofIdentity(proof));
-        return {
-          ...proof,
-          mintUrl,
-          ...(existing?.eventId ? { eventId: existing.eventId } : {}),
-        };
-      });
-      const changeWithMetadata = annotateProofsWithMint(change, mintUrl);
-
-      const updatedMintProofs = [...keepWithMetadata, ...changeWithMetadata];
-      const untouchedProofs = proofsBefore.filter(
-        (proof) => proof.mintUrl && proof.mintUrl !== mintUrl
-      );
-      const nextProofs = [...untouchedProofs, ...updatedMintProofs];
-      writeCashuProofs(nextProofs);
-      await syncMintSnapshotToNip60(mintUrl, proofsBefore, nextProofs);
 
       try {
         const checkedQuote = await cashuWalletRef.current.checkMeltQuote(
@@ -543,17 +375,18 @@ export function useWalletOperations({
       const nextBalance = getProofsBalanceSats();
       appendTransaction({
         type: "send",
-        amount,
+        amount: meltResult.amountSats,
         timestamp: Date.now(),
         status: "success",
         message: "Lightning invoice paid",
         balance: nextBalance,
         quoteId: meltQuote.quote,
+        tokenEvents: meltResult.tokenEvents,
       });
 
       syncBalanceAndHistory();
     },
-    [initWallet, mintUrl, syncBalanceAndHistory, syncMintSnapshotToNip60]
+    [initWallet, syncAccount, syncBalanceAndHistory]
   );
 
   const importToken = useCallback(
@@ -571,35 +404,10 @@ export function useWalletOperations({
       setSuccessMessage("");
 
       try {
-        const result = await cashuWalletRef.current.receive(tokenToImport);
-        const proofs = Array.isArray(result)
-          ? (result as CashuProof[])
-          : (result &&
-              typeof result === "object" &&
-              Array.isArray((result as { proofs?: unknown }).proofs)
-            ? ((result as { proofs: CashuProof[] }).proofs as CashuProof[])
-            : []);
-
-        if (!proofs || proofs.length === 0) {
-          setError("Invalid token format. Please check and try again.");
-          return;
-        }
-
-        appendCashuProofs(proofs);
-
-        const importedAmount = proofs.reduce(
-          (total: number, proof: CashuProof) => total + proof.amount,
-          0
-        );
-
-        const balance = getProofsBalanceSats();
-        appendTransaction({
-          type: "import",
-          amount: importedAmount,
-          timestamp: Date.now(),
-          status: "success",
+        const { amountSats: importedAmount } = await receive(tokenToImport, {
+          transactionType: "import",
           message: "Tokens imported",
-          balance,
+          syncAccount,
         });
 
         syncBalanceAndHistory();
@@ -620,37 +428,25 @@ export function useWalletOperations({
         setIsImporting(false);
       }
     },
-    [syncBalanceAndHistory]
+    [syncAccount, syncBalanceAndHistory]
   );
 
-  const generateTokenCore = useCallback(async (amount: number): Promise<string> => {
-    if (!cashuWalletRef.current) {
-      throw new Error("Wallet not initialized");
-    }
-
-    if (isNaN(amount) || amount <= 0) {
-      throw new Error("Please enter a valid amount");
-    }
-
-    const existingProofs = readCashuProofs() as CashuProof[];
-    if (!existingProofs || existingProofs.length === 0) {
-      throw new Error("No tokens available to send");
-    }
-
-    const sendResult = await cashuWalletRef.current.send(amount, existingProofs);
-    const { send, keep } = sendResult;
-
-    if (!send || send.length === 0) {
-      throw new Error("Failed to generate token");
-    }
-
-    writeCashuProofs(keep as CashuProof[]);
+  const generateTokenCore = useCallback(
+    async (amount: number, sendMintUrl = ""): Promise<SendResult> => {
+      if (isNaN(amount) || amount <= 0) {
+        throw new Error("Please enter a valid amount");
+      }
 
-    const tokenObj = {
-      token: [{ mint: mintUrl, proofs: send }],
-    };
-    return `cashuA${btoa(JSON.stringify(tokenObj))}`;
-  }, [mintUrl]);
+      const selectedMint = normalizeMintUrl(sendMintUrl);
+      return send(amount, {
+        preferredMint: selectedMint || walletMintUrlRef.current,
+        strictPreferredMint: Boolean(selectedMint),
+        purpose: "eCash token sent from the wallet",
+        syncAccount,
+      });
+    },
+    [syncAccount]
+  );
 
   const generateSendToken = useCallback(
     async (
@@ -660,10 +456,9 @@ export function useWalletOperations({
       sendAmount: string,
       balance: number,
       setSendAmount: (amount: string) => void,
-      setGeneratedToken: (token: string) => void
+      setGeneratedToken: (token: string) => void,
+      sendMintUrl = ""
     ) => {
-      if (!cashuWalletRef.current) return;
-
       setIsGeneratingSendToken(true);
       setError("");
       setSuccessMessage("");
@@ -679,8 +474,8 @@ export function useWalletOperations({
           throw new Error("Amount exceeds available balance");
         }
 
-        const token = await generateTokenCore(amount);
-        setGeneratedToken(token);
+        const result = await generateTokenCore(amount, sendMintUrl);
+        setGeneratedToken(result.token);
 
         const nextBalance = getProofsBalanceSats();
         appendTransaction({
@@ -690,11 +485,14 @@ export function useWalletOperations({
           status: "success",
           message: "Tokens sent",
           balance: nextBalance,
+          tokenEvents: result.tokenEvents,
         });
 
         syncBalanceAndHistory();
         setSuccessMessage(
-          `Generated token for ${amount} sats. Share it with the recipient.`
+          `Generated token for ${amount} sats from ${
+            getMintHost(result.mintUrl)
+          }. Share it with the recipient.`
         );
         setSendAmount("");
       } catch (err) {
@@ -706,6 +504,21 @@ export function useWalletOperations({
     [generateTokenCore, syncBalanceAndHistory]
   );
 
+  const reclaimPendingToken = useCallback(
+    async (reservationId: string): Promise<ReclaimResult> => {
+      const result = await reclaimSend(reservationId, { syncAccount });
+      syncBalanceAndHistory();
+      return result;
+    },
+    [syncAccount, syncBalanceAndHistory]
+  );
+
+  const checkPendingTokens = useCallback(async (): Promise<number> => {
+    const settled = await refreshOutgoingTokens();
+    syncBalanceAndHistory();
+    return settled;
+  }, [syncBalanceAndHistory]);
+
   const checkPendingInvoices = useCallback(async (): Promise<CheckPendingInvoicesResult> => {
     if (!cashuWalletRef.current) {
       await initWallet();
@@ -714,105 +527,14 @@ export function useWalletOperations({
       throw new Error("Wallet is not initialized");
     }
 
-    const now = Date.now();
-    const invoices = readWalletInvoices();
-    const pendingMintInvoices = invoices.filter((invoice) => {
-      if (invoice.type !== "mint") return false;
-      if (invoice.state === "ISSUED" || invoice.state === "PAID") return false;
-      if (invoice.expiresAt && now > invoice.expiresAt) return false;
-      return true;
+    const result = await checkPendingQuotes({
+      syncAccount,
+      fallbackMintUrl: walletMintUrlRef.current,
+      force: true,
     });
-    const pendingMeltInvoices = invoices.filter((invoice) => {
-      if (invoice.type !== "melt") return false;
-      if (invoice.state === "ISSUED" || invoice.state === "PAID") return false;
-      if (invoice.expiresAt && now > invoice.expiresAt) return false;
-      return true;
-    });
-
-    let updated = 0;
-
-    for (const invoice of pendingMintInvoices) {
-      try {
-        const quoteStatus = await cashuWalletRef.current.checkMintQuote(invoice.quoteId);
-        const nextState = mapMintStateToInvoiceState(quoteStatus.state);
-
-        if (nextState === "PAID" || nextState === "ISSUED") {
-          updateWalletInvoiceByQuote(invoice.quoteId, {
-            state: "PAID",
-            paidAt: Date.now(),
-          });
-
-          try {
-            const proofs = (await cashuWalletRef.current.mintProofs(
-              invoice.amount,
-              invoice.quoteId
-            )) as CashuProof[];
-            if (Array.isArray(proofs) && proofs.length > 0) {
-              appendCashuProofs(proofs);
-              const balance = getProofsBalanceSats();
-              appendTransaction(addMintTransaction(invoice.quoteId, invoice.amount, balance));
-            }
-          } catch (mintError) {
-            const message =
-              mintError instanceof Error ? mintError.message : "Mint failed";
-            if (!isAlreadyProcessedError(message)) {
-              console.warn("Failed to mint pending invoice", invoice.quoteId, message);
-            }
-          }
-
-          updateWalletInvoiceByQuote(invoice.quoteId, {
-            state: "ISSUED",
-            paidAt: Date.now(),
-          });
-          updated += 1;
-        } else {
-          updateWalletInvoiceByQuote(invoice.quoteId, {
-            state: nextState,
-          });
-        }
-      } catch {
-        updateWalletInvoiceByQuote(invoice.quoteId, {
-          retryCount: (invoice.retryCount || 0) + 1,
-          nextRetryAt: Date.now() + 30_000,
-        });
-      }
-    }
-
-    for (const invoice of pendingMeltInvoices) {
-      try {
-        const meltStatus = await cashuWalletRef.current.checkMeltQuote(invoice.quoteId);
-        const nextState = mapMeltStateToInvoiceState(
-          String((meltStatus as { state?: string }).state || "")
-        );
-        updateWalletInvoiceByQuote(invoice.quoteId, {
-          state: nextState,
-          ...(nextState === "PAID" || nextState === "ISSUED"
-            ? { paidAt: Date.now() }
-            : {}),
-        });
-        if (nextState === "PAID" || nextState === "ISSUED") {
-          updated += 1;
-        }
-      } catch {
-        updateWalletInvoiceByQuote(invoice.quoteId, {
-          retryCount: (invoice.retryCount || 0) + 1,
-          nextRetryAt: Date.now() + 30_000,
-        });
-      }
-    }
-
-    for (const invoice of invoices) {
-      if (invoice.state === "UNPAID" && invoice.expiresAt && now > invoice.expiresAt) {
-        updateWalletInvoiceByQuote(invoice.quoteId, { state: "EXPIRED" });
-      }
-    }
-
     syncBalanceAndHistory();
-    return {
-      checked: pendingMintInvoices.length + pendingMeltInvoices.length,
-      updated,
-    };
-  }, [initWallet, syncBalanceAndHistory]);
+    return { checked: result.checked, updated: result.updated };
+  }, [initWallet, syncAccount, syncBalanceAndHistory]);
 
   const setupAutoRefresh = useCallback(
     (
@@ -821,48 +543,83 @@ export function useWalletOperations({
       checkQuote: () => Promise<void>,
       _isAutoChecking: boolean,
       setIsAutoChecking: (checking: boolean) => void,
-      setCountdown: (countdown: number | ((prev: number) => number)) => void
+      setCountdown: (countdown: number | ((prev: number) => number)) => void,
+      setLiveUpdates: (live: boolean) => void
     ) => {
-      if (checkIntervalRef.current) {
-        clearInterval(checkIntervalRef.current);
-        checkIntervalRef.current = null;
+      const clearTimers = () => {
+        if (checkIntervalRef.current) {
+          clearInterval(checkIntervalRef.current);
+          checkIntervalRef.current = null;
+        }
+        if (countdownIntervalRef.current) {
+          clearInterval(countdownIntervalRef.current);
+          countdownIntervalRef.current = null;
+        }
+      };
+
+      const startPolling = () => {
+        clearTimers();
+        setCountdown(POLL_INTERVAL_SECONDS);
+        countdownIntervalRef.current = setInterval(() => {
+          setCountdown((prev: number) => (prev <= 1 ? POLL_INTERVAL_SECONDS : prev - 1));
+        }, 1000);
+        checkIntervalRef.current = setInterval(() => {
+          void checkQuote();
+        }, POLL_INTERVAL_SECONDS * 1000);
+      };
+
+      if (checkIntervalRef.current || countdownIntervalRef.current) {
+        clearTimers();
         setIsAutoChecking(false);
       }
 
-      if (countdownIntervalRef.current) {
-        clearInterval(countdownIntervalRef.current);
-        countdownIntervalRef.current = null;
-      }
+      let disposed = false;
+      let cancelSubscription: SubscriptionCanceller | null = null;
 
       if (mintInvoice && mintQuote) {
         setIsAutoChecking(true);
-        setCountdown(3);
-
-        countdownIntervalRef.current = setInterval(() => {
-          setCountdown((prev: number) => {
-            if (prev <= 1) {
-              void checkQuote();
-              return 3;
+        startPolling();
+
+        // Switch to the mint's WebSocket when it supports NUT-17, polling
+        // slowly as a safety net; fall back to fast polling if it drops
+        void subscribeMintQuotes(
+          walletMintUrlRef.current,
+          [mintQuote.quote],
+          (update) => {
+            const state = String(update.state).toUpperCase();
+            if (state === "PAID" || state === "ISSUED") void checkQuote();
+          },
+          () => {
+            cancelSubscription = null;
+            if (disposed) return;
+            setLiveUpdates(false);
+            startPolling();
+          }
+        )
+          .catch(() => null)
+          .then((cancel) => {
+            if (!cancel) return;
+            if (disposed) {
+              cancel();
+              return;
             }
-            return prev - 1;
+            cancelSubscription = cancel;
+            clearTimers();
+            setLiveUpdates(true);
+            checkIntervalRef.current = setInterval(() => {
+              void checkQuote();
+            }, LIVE_SAFETY_POLL_SECONDS * 1000);
           });
-        }, 1000);
-
-        checkIntervalRef.current = setInterval(() => {
-          void checkQuote();
-        }, 3000);
       }
 
       return () => {
-        if (checkIntervalRef.current) {
-          clearInterval(checkIntervalRef.current);
-          checkIntervalRef.current = null;
+        disposed = true;
+        cancelSubscription?.();
+        if (checkIntervalRef.current || countdownIntervalRef.current) {
+          clearTimers();
           setIsAutoChecking(false);
         }
-        if (countdownIntervalRef.current) {
-          clearInterval(countdownIntervalRef.current);
-          countdownIntervalRef.current = null;
-        }
+        setLiveUpdates(false);
       };
     },
     []
@@ -878,6 +635,8 @@ export function useWalletOperations({
     generateSendToken,
     generateTokenCore,
     checkPendingInvoices,
+    reclaimPendingToken,
+    checkPendingTokens,
     setupAutoRefresh,
     cashuWalletRef,
     mintQuoteRef,
@@ -0,0 +1,39 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from "vitest";
+import { markApiKeyUsed, mergeApiKeyStates, parseStoredApiKeys } from "@/lib/apiKeySync";
+
+describe("mergeApiKeyStates", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("keeps an edit from another device over a later playground use", () => {
+    localStorage.setItem(
+      "api_keys",
+      JSON.stringify([{ key: "sk-shared", balance: 40, label: "Shared", updatedAt: 100 }])
+    );
+    markApiKeyUsed("sk-shared", 300);
+    const local = parseStoredApiKeys(localStorage.getItem("api_keys"));
+    expect(local[0]).toMatchObject({ lastUsedAt: 300, updatedAt: 100 });
+
+    // Renamed and tagged elsewhere before the key was used here
+    const remote = {
+      keys: [
+        { key: "sk-shared", balance: 40, label: "Renamed", tags: ["prod"], updatedAt: 200 },
+      ],
+      tombstones: [],
+    };
+    const merged = mergeApiKeyStates({ keys: local, tombstones: [] }, remote);
+
+    expect(merged.keys).toEqual([
+      {
+        key: "sk-shared",
+        balance: 40,
+        label: "Renamed",
+        tags: ["prod"],
+        updatedAt: 200,
+        lastUsedAt: 300,
+      },
+    ]);
+  });
+});
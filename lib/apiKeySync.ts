@@ -0,0 +1,425 @@
+"use client";
+
+import type { Event as NostrEvent, EventTemplate } from "nostr-tools";
+import type { CloudSyncCapableAccount } from "@/lib/nip60WalletSync";
+import {
+  isRelayPublishError,
+  publishToRelays,
+  queryRelays,
+} from "@/lib/relayManager";
+
+export const API_KEYS_SYNC_KIND = 30078;
+/** Plain key array read by existing Routstr chat clients. */
+export const API_KEYS_SYNC_V1_D_TAG = "routstr-chat-api-keys-v1";
+export const API_KEYS_SYNC_D_TAG = "routstr-chat-api-keys-v2";
+export const API_KEYS_SYNC_VERSION = 2;
+
+const CHAT_LOCAL_API_KEYS_STORAGE_KEY = "api_keys";
+const API_KEY_TOMBSTONES_STORAGE_KEY = "platform_api_key_tombstones";
+const TOMBSTONE_TTL_MS = 180 * 24 * 60 * 60 * 1000;
+const CLOUD_QUERY_WAIT_MS = 6000;
+
+export interface StoredApiKey {
+  key: string;
+  balance: number | null;
+  label?: string;
+  baseUrl?: string;
+  isInvalid?: boolean;
+  tags?: string[];
+  project?: string;
+  environment?: string;
+  notes?: string;
+  createdAt?: number;
+  /** Last time the key was seen spending or used from the playground. */
+  lastUsedAt?: number;
+  /** Last local edit, used to merge lists from different devices. */
+  updatedAt?: number;
+}
+
+export interface ApiKeyTombstone {
+  key: string;
+  deletedAt: number;
+}
+
+export interface ApiKeySyncState {
+  keys: StoredApiKey[];
+  tombstones: ApiKeyTombstone[];
+}
+
+interface ApiKeySyncPayload extends ApiKeySyncState {
+  version: number;
+}
+
+export interface ApiKeySyncResult extends ApiKeySyncState {
+  /** False when the merged list is waiting in the relay outbox. */
+  synced: boolean;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value : undefined;
+}
+
+function optionalTimestamp(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+function parseKeyList(items: unknown[], defaultUpdatedAt: number): StoredApiKey[] {
+  return items
+    .filter(
+      (item): item is StoredApiKey => isObject(item) && typeof item.key === "string"
+    )
+    .map((item) => ({
+      key: item.key,
+      balance:
+        typeof item.balance === "number" && Number.isFinite(item.balance)
+          ? item.balance
+          : null,
+      label: optionalString(item.label),
+      baseUrl: optionalString(item.baseUrl),
+      isInvalid: Boolean(item.isInvalid),
+      tags: Array.isArray(item.tags)
+        ? item.tags.filter((tag): tag is string => typeof tag === "string")
+        : undefined,
+      project: optionalString(item.project),
+      environment: optionalString(item.environment),
+      notes: optionalString(item.notes),
+      createdAt: optionalTimestamp(item.createdAt),
+      lastUsedAt: optionalTimestamp(item.lastUsedAt),
+      updatedAt:
+        typeof item.updatedAt === "number" && Number.isFinite(item.updatedAt)
+          ? item.updatedAt
+          : defaultUpdatedAt,
+    }));
+}
+
+function parseTombstones(items: unknown): ApiKeyTombstone[] {
+  if (!Array.isArray(items)) return [];
+  return items.filter(
+    (item): item is ApiKeyTombstone =>
+      isObject(item) &&
+      typeof item.key === "string" &&
+      typeof item.deletedAt === "number" &&
+      Number.isFinite(item.deletedAt)
+  );
+}
+
+/** Parses the `api_keys` storage value or a v1 event's plain key array. */
+export function parseStoredApiKeys(raw: string | null, defaultUpdatedAt = 0): StoredApiKey[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parseKeyList(parsed, defaultUpdatedAt) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Parses a synced key list. v1 content is a bare array; its keys are treated
+ * as last updated when the event was published.
+ */
+function parseApiKeySyncPayload(raw: string, createdAtMs: number): ApiKeySyncPayload | null {
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (Array.isArray(parsed)) {
+      return { version: 1, keys: parseKeyList(parsed, createdAtMs), tombstones: [] };
+    }
+    if (!isObject(parsed) || !Array.isArray(parsed.keys)) return null;
+    return {
+      version: typeof parsed.version === "number" ? parsed.version : API_KEYS_SYNC_VERSION,
+      keys: parseKeyList(parsed.keys, createdAtMs),
+      tombstones: parseTombstones(parsed.tombstones),
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function readApiKeyTombstones(): ApiKeyTombstone[] {
+  if (typeof window === "undefined") return [];
+  try {
+    return parseTombstones(
+      JSON.parse(localStorage.getItem(API_KEY_TOMBSTONES_STORAGE_KEY) || "[]")
+    );
+  } catch {
+    return [];
+  }
+}
+
+export function writeApiKeyTombstones(tombstones: ApiKeyTombstone[]): void {
+  localStorage.setItem(API_KEY_TOMBSTONES_STORAGE_KEY, JSON.stringify(tombstones));
+}
+
+export function recordApiKeyDeletions(keys: string[], deletedAt = Date.now()): void {
+  if (keys.length === 0) return;
+  const removed = new Set(keys);
+  writeApiKeyTombstones([
+    ...readApiKeyTombstones().filter((tombstone) => !removed.has(tombstone.key)),
+    ...keys.map((key) => ({ key, deletedAt })),
+  ]);
+}
+
+/**
+ * Records that a key was just used, e.g. by a playground request. Writes the
+ * local key list directly; open panels pick it up on their next sync. Only
+ * `lastUsedAt` changes, so a use never wins a merge over an edit.
+ */
+export function markApiKeyUsed(key: string, usedAt = Date.now()): void {
+  if (typeof window === "undefined") return;
+  const keys = parseStoredApiKeys(localStorage.getItem(CHAT_LOCAL_API_KEYS_STORAGE_KEY));
+  if (!keys.some((keyData) => keyData.key === key)) return;
+  localStorage.setItem(
+    CHAT_LOCAL_API_KEYS_STORAGE_KEY,
+    JSON.stringify(
+      keys.map((keyData) =>
+        keyData.key === key ? { ...keyData, lastUsedAt: usedAt } : keyData
+      )
+    )
+  );
+  window.dispatchEvent(new Event("platform-api-keys-updated"));
+}
+
+/**
+ * Adds a key to the local list, or refreshes the balance of a known one,
+ * for flows that finish outside the API keys view.
+ */
+export function upsertLocalApiKey(keyData: StoredApiKey): void {
+  if (typeof window === "undefined") return;
+  const keys = parseStoredApiKeys(localStorage.getItem(CHAT_LOCAL_API_KEYS_STORAGE_KEY));
+  const exists = keys.some((item) => item.key === keyData.key);
+  const next = exists
+    ? keys.map((item) =>
+        item.key === keyData.key ? { ...item, balance: keyData.balance, isInvalid: false } : item
+      )
+    : [keyData, ...keys];
+  localStorage.setItem(
+    CHAT_LOCAL_API_KEYS_STORAGE_KEY,
+    JSON.stringify(stampApiKeyChanges(keys, next))
+  );
+  window.dispatchEvent(new Event("platform-api-keys-updated"));
+}
+
+function stripSyncFields(keyData: StoredApiKey): Omit<StoredApiKey, "updatedAt"> {
+  const rest = { ...keyData };
+  delete rest.updatedAt;
+  return rest;
+}
+
+/** Fields refreshes and sync bookkeeping change without the user editing the key. */
+const VOLATILE_API_KEY_FIELDS = new Set(["balance", "isInvalid", "lastUsedAt", "updatedAt"]);
+
+function editableFields(keyData: StoredApiKey): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(keyData).filter(([field]) => !VOLATILE_API_KEY_FIELDS.has(field))
+  );
+}
+
+/**
+ * Stamps `updatedAt` on keys that are new or edited since `previous` (and
+ * `createdAt` on new ones) and records tombstones for keys that were removed.
+ * Balance, validity and last-used updates alone don't count as edits.
+ */
+export function stampApiKeyChanges(
+  previous: StoredApiKey[],
+  next: StoredApiKey[],
+  now = Date.now()
+): StoredApiKey[] {
+  const previousByKey = new Map(previous.map((keyData) => [keyData.key, keyData]));
+  const nextKeys = new Set(next.map((keyData) => keyData.key));
+  recordApiKeyDeletions(
+    previous.map((keyData) => keyData.key).filter((key) => !nextKeys.has(key)),
+    now
+  );
+
+  return next.map((keyData) => {
+    const before = previousByKey.get(keyData.key);
+    const unchanged =
+      before &&
+      JSON.stringify(editableFields(before)) === JSON.stringify(editableFields(keyData));
+    if (unchanged) return { ...keyData, updatedAt: before.updatedAt ?? 0 };
+    return {
+      ...keyData,
+      createdAt: keyData.createdAt ?? before?.createdAt ?? now,
+      updatedAt: now,
+    };
+  });
+}
+
+/**
+ * Merges key lists by key: the newest edit of each key wins, with the latest
+ * `lastUsedAt` of any copy, and a key stays deleted unless it was edited
+ * after its tombstone.
+ */
+export function mergeApiKeyStates(...states: ApiKeySyncState[]): ApiKeySyncState {
+  const keys = new Map<string, StoredApiKey>();
+  const tombstones = new Map<string, number>();
+
+  for (const state of states) {
+    for (const keyData of state.keys) {
+      const existing = keys.get(keyData.key);
+      const newest =
+        !existing || (keyData.updatedAt ?? 0) > (existing.updatedAt ?? 0) ? keyData : existing;
+      const lastUsedAt = Math.max(existing?.lastUsedAt ?? 0, keyData.lastUsedAt ?? 0);
+      keys.set(keyData.key, lastUsedAt > 0 ? { ...newest, lastUsedAt } : newest);
+    }
+    for (const tombstone of state.tombstones) {
+      tombstones.set(
+        tombstone.key,
+        Math.max(tombstones.get(tombstone.key) ?? 0, tombstone.deletedAt)
+      );
+    }
+  }
+
+  const cutoff = Date.now() - TOMBSTONE_TTL_MS;
+  const liveKeys: StoredApiKey[] = [];
+  for (const keyData of keys.values()) {
+    const deletedAt = tombstones.get(keyData.key);
+    if (deletedAt !== undefined && deletedAt >= (keyData.updatedAt ?? 0)) continue;
+    tombstones.delete(keyData.key);
+    liveKeys.push(keyData);
+  }
+
+  return {
+    keys: liveKeys,
+    tombstones: Array.from(tombstones.entries())
+      .filter(([, deletedAt]) => deletedAt >= cutoff)
+      .map(([key, deletedAt]) => ({ key, deletedAt })),
+  };
+}
+
+function stateSignature(state: ApiKeySyncState): string {
+  return JSON.stringify({
+    keys: [...state.keys].sort((a, b) => a.key.localeCompare(b.key)),
+    tombstones: [...state.tombstones].sort((a, b) => a.key.localeCompare(b.key)),
+  });
+}
+
+function latestEvent(events: NostrEvent[], dTag: string): NostrEvent | null {
+  return (
+    events
+      .filter((event) => event.tags.some((tag) => tag[0] === "d" && tag[1] === dTag))
+      .sort((a, b) => {
+        if (a.created_at !== b.created_at) return b.created_at - a.created_at;
+        return b.id.localeCompare(a.id);
+      })[0] ?? null
+  );
+}
+
+async function decryptPayload(
+  account: CloudSyncCapableAccount,
+  event: NostrEvent | null
+): Promise<ApiKeySyncPayload | null> {
+  if (!event) return null;
+  try {
+    const decrypted = await account.nip44.decrypt(account.pubkey, event.content);
+    return parseApiKeySyncPayload(decrypted, event.created_at * 1000);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fetches the synced key list. A v1 list newer than the v2 event came from
+ * an older client, so keys it dropped since their last edit count as deleted.
+ * `current` is false when the v2 event is missing or behind the v1 one.
+ */
+export async function fetchApiKeySyncState(
+  account: CloudSyncCapableAccount
+): Promise<{ state: ApiKeySyncState; current: boolean }> {
+  const events = await queryRelays(
+    {
+      kinds: [API_KEYS_SYNC_KIND],
+      authors: [account.pubkey],
+      "#d": [API_KEYS_SYNC_D_TAG, API_KEYS_SYNC_V1_D_TAG],
+      limit: 50,
+    },
+    { maxWaitMs: CLOUD_QUERY_WAIT_MS }
+  );
+
+  const v2Event = latestEvent(events, API_KEYS_SYNC_D_TAG);
+  const v1Event = latestEvent(events, API_KEYS_SYNC_V1_D_TAG);
+  const v2 = await decryptPayload(account, v2Event);
+  const v1 = await decryptPayload(account, v1Event);
+
+  if (!v1 || !v1Event || (v2Event && v2Event.created_at >= v1Event.created_at)) {
+    return { state: v2 ?? { keys: [], tombstones: [] }, current: Boolean(v2) };
+  }
+
+  const v1PublishedAt = v1Event.created_at * 1000;
+  const v1Keys = new Set(v1.keys.map((keyData) => keyData.key));
+  const droppedByV1 = (v2?.keys ?? [])
+    .filter((keyData) => !v1Keys.has(keyData.key) && (keyData.updatedAt ?? 0) < v1PublishedAt)
+    .map((keyData) => ({ key: keyData.key, deletedAt: v1PublishedAt }));
+
+  return {
+    state: mergeApiKeyStates(v2 ?? { keys: [], tombstones: [] }, v1, {
+      keys: [],
+      tombstones: droppedByV1,
+    }),
+    current: false,
+  };
+}
+
+async function publishPayload(
+  account: CloudSyncCapableAccount,
+  dTag: string,
+  content: unknown
+): Promise<boolean> {
+  const template: EventTemplate = {
+    kind: API_KEYS_SYNC_KIND,
+    created_at: Math.floor(Date.now() / 1000),
+    tags: [["d", dTag]],
+    content: await account.nip44.encrypt(account.pubkey, JSON.stringify(content)),
+  };
+  const signedEvent = await account.signEvent(template);
+  try {
+    await publishToRelays(signedEvent, { label: "API key sync" });
+    return true;
+  } catch (error) {
+    if (isRelayPublishError(error)) return false;
+    throw error;
+  }
+}
+
+/**
+ * Publishes the v2 list and mirrors the live keys to the v1 event. Returns
+ * false when either was queued because too few relays confirmed it.
+ */
+export async function publishApiKeySyncState(
+  account: CloudSyncCapableAccount,
+  state: ApiKeySyncState
+): Promise<boolean> {
+  const payload: ApiKeySyncPayload = { version: API_KEYS_SYNC_VERSION, ...state };
+  const v2Synced = await publishPayload(account, API_KEYS_SYNC_D_TAG, payload);
+  const v1Synced = await publishPayload(
+    account,
+    API_KEYS_SYNC_V1_D_TAG,
+    state.keys.map(stripSyncFields)
+  );
+  return v2Synced && v1Synced;
+}
+
+/**
+ * Merges the local keys and tombstones with the relay copy, and publishes the
+ * result when the relays are missing anything. Safe to call with stale local
+ * data: nothing newer on the relays is overwritten.
+ */
+export async function syncApiKeys(
+  account: CloudSyncCapableAccount,
+  local: StoredApiKey[]
+): Promise<ApiKeySyncResult> {
+  const localState: ApiKeySyncState = { keys: local, tombstones: readApiKeyTombstones() };
+  const remote = await fetchApiKeySyncState(account);
+  const merged = mergeApiKeyStates(remote.state, localState);
+  writeApiKeyTombstones(merged.tombstones);
+
+  if (remote.current && stateSignature(merged) === stateSignature(remote.state)) {
+    return { ...merged, synced: true };
+  }
+  const synced = await publishApiKeySyncState(account, merged);
+  return { ...merged, synced };
+}
@@ -0,0 +1,317 @@
+"use client";
+
+import type { StoredApiKey } from "@/lib/apiKeySync";
+import { reclaimSend, send as sendCashuToken, settleSend } from "@/lib/cashuEngine";
+import { recordBalanceSnapshot } from "@/lib/keyUsage";
+import type { CloudSyncCapableAccount } from "@/lib/nip60WalletSync";
+import { RoutstrNodeClient } from "@/lib/routstrNodeClient";
+
+const AUTO_TOPUP_RULES_STORAGE_KEY = "platform_auto_topup_rules";
+const AUTO_TOPUP_PAUSED_STORAGE_KEY = "platform_auto_topup_paused";
+const AUTO_TOPUP_LOG_STORAGE_KEY = "platform_auto_topup_log";
+const CHAT_LOCAL_API_KEYS_STORAGE_KEY = "api_keys";
+const ACTIVE_MINT_STORAGE_KEY = "platform_active_mint_url";
+const MAX_LOG_ENTRIES = 200;
+/** Minimum gap between automatic attempts on the same key. */
+const ATTEMPT_COOLDOWN_MS = 10 * 60 * 1000;
+const DAILY_CAP_WINDOW_MS = 24 * 60 * 60 * 1000;
+const MONITOR_INTERVAL_MS = 5 * 60 * 1000;
+
+export const PLATFORM_AUTO_TOPUP_UPDATED_EVENT = "platform-auto-topup-updated";
+
+export interface AutoTopupRule {
+  key: string;
+  enabled: boolean;
+  /** Top up when the key balance drops below this many sats. */
+  thresholdSats: number;
+  amountSats: number;
+  /** Most sats added automatically in any rolling 24 hours. */
+  dailyCapSats: number;
+  /** Mint to pay from; the active mint when empty. */
+  mintUrl?: string;
+}
+
+export interface AutoTopupLogEntry {
+  id: string;
+  key: string;
+  label: string;
+  baseUrl: string;
+  at: number;
+  amountSats: number;
+  balanceBeforeMsats: number;
+  mintUrl: string;
+  /**
+   * "unconfirmed" when the node call failed and the token wasn't reclaimed,
+   * so the sats may have reached the key and still count toward the cap.
+   */
+  status: "success" | "failed" | "unconfirmed";
+  error?: string;
+}
+
+export interface AutoTopupOptions {
+  syncAccount?: CloudSyncCapableAccount | null;
+  fallbackBaseUrl: string;
+}
+
+const inFlightKeys = new Set<string>();
+
+function notifyAutoTopupUpdated(): void {
+  window.dispatchEvent(new Event(PLATFORM_AUTO_TOPUP_UPDATED_EVENT));
+}
+
+function normalizeMintUrl(url: string): string {
+  const trimmed = url.trim();
+  if (!trimmed) return "";
+  const withProtocol = /^https?:\/\//.test(trimmed) ? trimmed : `https://${trimmed}`;
+  return withProtocol.replace(/\/+$/, "");
+}
+
+function normalizeBaseUrl(url: string): string {
+  const trimmed = url.trim();
+  if (!trimmed) return "";
+  const withProtocol = /^https?:\/\//.test(trimmed) ? trimmed : `https://${trimmed}`;
+  return withProtocol.endsWith("/") ? withProtocol : `${withProtocol}/`;
+}
+
+export function readAutoTopupRules(): Record<string, AutoTopupRule> {
+  if (typeof window === "undefined") return {};
+  try {
+    const parsed = JSON.parse(localStorage.getItem(AUTO_TOPUP_RULES_STORAGE_KEY) || "{}");
+    return parsed && typeof parsed === "object"
+      ? (parsed as Record<string, AutoTopupRule>)
+      : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveAutoTopupRule(rule: AutoTopupRule): void {
+  if (!(rule.thresholdSats > 0) || !(rule.amountSats > 0) || !(rule.dailyCapSats > 0)) {
+    throw new Error("Threshold, amount and daily cap must be positive");
+  }
+  if (rule.amountSats > rule.dailyCapSats) {
+    throw new Error("Top-up amount cannot exceed the daily cap");
+  }
+  const rules = readAutoTopupRules();
+  rules[rule.key] = rule;
+  localStorage.setItem(AUTO_TOPUP_RULES_STORAGE_KEY, JSON.stringify(rules));
+  notifyAutoTopupUpdated();
+}
+
+export function removeAutoTopupRules(keys: string[]): void {
+  if (keys.length === 0) return;
+  const rules = readAutoTopupRules();
+  keys.forEach((key) => delete rules[key]);
+  localStorage.setItem(AUTO_TOPUP_RULES_STORAGE_KEY, JSON.stringify(rules));
+  notifyAutoTopupUpdated();
+}
+
+/** Global kill switch; no rule fires while paused. */
+export function isAutoTopupPaused(): boolean {
+  if (typeof window === "undefined") return true;
+  return localStorage.getItem(AUTO_TOPUP_PAUSED_STORAGE_KEY) === "true";
+}
+
+export function setAutoTopupPaused(paused: boolean): void {
+  localStorage.setItem(AUTO_TOPUP_PAUSED_STORAGE_KEY, String(paused));
+  notifyAutoTopupUpdated();
+}
+
+export function readAutoTopupLog(): AutoTopupLogEntry[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const parsed = JSON.parse(localStorage.getItem(AUTO_TOPUP_LOG_STORAGE_KEY) || "[]");
+    return Array.isArray(parsed) ? (parsed as AutoTopupLogEntry[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function clearAutoTopupLog(): void {
+  localStorage.removeItem(AUTO_TOPUP_LOG_STORAGE_KEY);
+  notifyAutoTopupUpdated();
+}
+
+function appendAutoTopupLog(entry: AutoTopupLogEntry): void {
+  const log = [entry, ...readAutoTopupLog()].slice(0, MAX_LOG_ENTRIES);
+  localStorage.setItem(AUTO_TOPUP_LOG_STORAGE_KEY, JSON.stringify(log));
+  notifyAutoTopupUpdated();
+}
+
+/** Sats added automatically to a key over the last 24 hours. */
+export function getAutoTopupSpentToday(key: string, now = Date.now()): number {
+  return readAutoTopupLog()
+    .filter(
+      (entry) =>
+        entry.key === key &&
+        entry.status !== "failed" &&
+        now - entry.at < DAILY_CAP_WINDOW_MS
+    )
+    .reduce((sum, entry) => sum + entry.amountSats, 0);
+}
+
+/**
+ * Sats to add to a key right now under its rule, or 0 when the rule should
+ * not fire. The amount is trimmed to what is left of the daily cap.
+ */
+export function getAutoTopupAmount(
+  rule: AutoTopupRule | undefined,
+  balanceMsats: number | null,
+  now = Date.now()
+): number {
+  if (!rule?.enabled || balanceMsats === null) return 0;
+  if (balanceMsats / 1000 >= rule.thresholdSats) return 0;
+
+  const lastAttempt = readAutoTopupLog().find((entry) => entry.key === rule.key);
+  if (lastAttempt && now - lastAttempt.at < ATTEMPT_COOLDOWN_MS) return 0;
+
+  const remainingCap = rule.dailyCapSats - getAutoTopupSpentToday(rule.key, now);
+  return Math.max(0, Math.min(rule.amountSats, remainingCap));
+}
+
+async function topupKey(
+  keyData: StoredApiKey,
+  rule: AutoTopupRule,
+  amountSats: number,
+  options: AutoTopupOptions
+): Promise<AutoTopupLogEntry> {
+  const baseUrl = normalizeBaseUrl(keyData.baseUrl || options.fallbackBaseUrl);
+  const mintUrl = normalizeMintUrl(
+    rule.mintUrl || localStorage.getItem(ACTIVE_MINT_STORAGE_KEY) || ""
+  );
+  const entry: AutoTopupLogEntry = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    key: keyData.key,
+    label: keyData.label || "Unnamed",
+    baseUrl,
+    at: Date.now(),
+    amountSats,
+    balanceBeforeMsats: keyData.balance ?? 0,
+    mintUrl,
+    status: "failed",
+  };
+
+  let reservationId: string | null = null;
+  try {
+    if (!mintUrl) {
+      throw new Error("No active mint selected");
+    }
+    const client = new RoutstrNodeClient(baseUrl);
+    const nodeMints = (await client.getAcceptedMints().catch(() => [])).map(normalizeMintUrl);
+    const sent = await sendCashuToken(amountSats, {
+      nodeMints,
+      preferredMint: mintUrl,
+      strictPreferredMint: true,
+      message: "Automatic API key top-up",
+      purpose: `Auto top-up ${entry.label} on ${baseUrl}`,
+      syncAccount: options.syncAccount,
+    });
+    reservationId = sent.reservationId;
+    await client.topup(keyData.key, sent.token);
+    await settleSend(sent.reservationId);
+    reservationId = null;
+    entry.mintUrl = sent.mintUrl;
+    entry.status = "success";
+  } catch (error) {
+    entry.error = error instanceof Error ? error.message : String(error);
+    if (reservationId) {
+      // Leave it in the pending tokens list if the mint can't be reached;
+      // only a reclaimed token proves the sats never left the wallet
+      const reclaim = await reclaimSend(reservationId, {
+        syncAccount: options.syncAccount,
+      }).catch(() => null);
+      if (!reclaim?.reclaimed) entry.status = "unconfirmed";
+    }
+  }
+
+  appendAutoTopupLog(entry);
+  return entry;
+}
+
+/**
+ * Applies auto top-up rules to keys with freshly fetched balances. Returns
+ * one log entry per attempt; callers should re-read balances of keys that
+ * were topped up.
+ */
+export async function runAutoTopups(
+  keys: StoredApiKey[],
+  options: AutoTopupOptions
+): Promise<AutoTopupLogEntry[]> {
+  if (typeof window === "undefined" || isAutoTopupPaused()) return [];
+  const rules = readAutoTopupRules();
+  const attempts: AutoTopupLogEntry[] = [];
+
+  for (const keyData of keys) {
+    if (keyData.isInvalid || inFlightKeys.has(keyData.key)) continue;
+    const rule = rules[keyData.key];
+    const amountSats = getAutoTopupAmount(rule, keyData.balance);
+    if (!rule || amountSats <= 0) continue;
+
+    inFlightKeys.add(keyData.key);
+    try {
+      attempts.push(await topupKey(keyData, rule, amountSats, options));
+    } finally {
+      inFlightKeys.delete(keyData.key);
+    }
+    // The kill switch may have been flipped while a top-up was running
+    if (isAutoTopupPaused()) break;
+  }
+  return attempts;
+}
+
+function readLocalApiKeys(): StoredApiKey[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(CHAT_LOCAL_API_KEYS_STORAGE_KEY) || "[]");
+    return Array.isArray(parsed) ? (parsed as StoredApiKey[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Refreshes keys that have an enabled rule and tops them up as needed, so
+ * rules keep firing while the API keys view is closed. Returns a cleanup.
+ */
+export function startAutoTopupMonitor(
+  getSyncAccount: () => CloudSyncCapableAccount | null,
+  fallbackBaseUrl: string
+): () => void {
+  let running = false;
+
+  const check = async () => {
+    if (running || isAutoTopupPaused()) return;
+    const rules = readAutoTopupRules();
+    const watched = readLocalApiKeys().filter(
+      (keyData) => rules[keyData.key]?.enabled && !keyData.isInvalid
+    );
+    if (watched.length === 0) return;
+
+    running = true;
+    try {
+      const refreshed: StoredApiKey[] = [];
+      for (const keyData of watched) {
+        const baseUrl = normalizeBaseUrl(keyData.baseUrl || fallbackBaseUrl);
+        try {
+          const info = await new RoutstrNodeClient(baseUrl).getWalletInfo(keyData.key);
+          recordBalanceSnapshot(keyData.key, baseUrl, info.balance, "auto");
+          refreshed.push({ ...keyData, balance: info.balance });
+        } catch {
+          // Unreachable nodes are retried on the next check
+        }
+      }
+      await runAutoTopups(refreshed, { syncAccount: getSyncAccount(), fallbackBaseUrl });
+    } finally {
+      running = false;
+    }
+  };
+
+  const intervalId = window.setInterval(() => {
+    void check().catch((error) => {
+      console.warn("Auto top-up check failed:", error);
+    });
+  }, MONITOR_INTERVAL_MS);
+
+  return () => {
+    window.clearInterval(intervalId);
+  };
+}
@@ -0,0 +1,135 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { pointFromHex, serializeMintKeys } from "@cashu/cashu-ts/crypto/common";
+import { createBlindSignature, createNewMintKeys } from "@cashu/cashu-ts/crypto/mint";
+import type { CloudSyncCapableAccount } from "@/lib/nip60WalletSync";
+
+const MINT_URL = "https://seed.mint.test";
+const MNEMONIC =
+  "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about";
+
+type BlindedMessage = { amount: number; id: string; B_: string };
+type Signature = { amount: number; id: string; C_: string };
+
+/**
+ * Signs outputs for paid mint quotes and answers NUT-09 restore requests
+ * with every signature it ever gave out.
+ */
+function serveSigningMint(paidQuotes: string[]) {
+  const { keysetId, pubKeys, privKeys } = createNewMintKeys(8);
+  const keys = serializeMintKeys(pubKeys);
+  const signed = new Map<string, Signature>();
+
+  const fetchMock = vi.fn(async (input: string | URL | Request, init?: RequestInit) => {
+    const url = String(input instanceof Request ? input.url : input);
+    const path = url.slice(MINT_URL.length);
+    const json = (body: unknown, status = 200) =>
+      new Response(JSON.stringify(body), {
+        status,
+        headers: { "Content-Type": "application/json" },
+      });
+    const body = init?.body ? JSON.parse(String(init.body)) : {};
+
+    if (path === "/v1/info") return json({ name: "Seed mint", version: "test/0.0.0", nuts: {} });
+    if (path === "/v1/keysets") {
+      return json({ keysets: [{ id: keysetId, unit: "sat", active: true, input_fee_ppk: 0 }] });
+    }
+    if (path.startsWith("/v1/keys")) {
+      return json({ keysets: [{ id: keysetId, unit: "sat", keys }] });
+    }
+    if (path === "/v1/mint/bolt11") {
+      const { quote, outputs } = body as { quote: string; outputs: BlindedMessage[] };
+      if (!paidQuotes.includes(quote)) {
+        return json({ detail: "Quote not paid", code: 20001 }, 400);
+      }
+      const signatures = outputs.map(({ amount, id, B_ }) => {
+        const { C_ } = createBlindSignature(pointFromHex(B_), privKeys[amount], amount, id);
+        const signature = { amount, id, C_: C_.toHex(true) };
+        signed.set(B_, signature);
+        return signature;
+      });
+      return json({ signatures });
+    }
+    if (path === "/v1/restore") {
+      const outputs = (body as { outputs: BlindedMessage[] }).outputs.filter((output) =>
+        signed.has(output.B_)
+      );
+      return json({ outputs, signatures: outputs.map((output) => signed.get(output.B_)) });
+    }
+    if (path === "/v1/checkstate") {
+      const { Ys } = body as { Ys: string[] };
+      return json({ states: Ys.map((Y) => ({ Y, state: "UNSPENT", witness: null })) });
+    }
+    return new Response("Not found", { status: 404 });
+  });
+  vi.stubGlobal("fetch", fetchMock);
+
+  return { keysetId, signed };
+}
+
+/** Stores the seed "encrypted" to the account, which just keeps it as-is. */
+const account = {
+  pubkey: "f".repeat(64),
+  nip44: {
+    encrypt: async (_peer: string, plaintext: string) => plaintext,
+    decrypt: async (_peer: string, ciphertext: string) => ciphertext,
+  },
+} as unknown as CloudSyncCapableAccount;
+
+/** A blank browser profile with the seed unlocked. */
+async function freshDevice() {
+  localStorage.clear();
+  vi.resetModules();
+  const engine = await import("@/lib/cashuEngine");
+  const seed = await import("@/lib/cashuSeed");
+  const walletStore = await import("@/lib/walletStore");
+  await walletStore.ensureWalletStore();
+  await seed.saveSeedMnemonic(account, MNEMONIC);
+  return engine;
+}
+
+function storedCounter(keysetId: string): number | undefined {
+  return JSON.parse(localStorage.getItem("platform_keyset_counters") || "{}")[keysetId];
+}
+
+describe("restoreFromSeed", () => {
+  beforeEach(() => {
+    // jsdom has no IndexedDB, so the wallet store warns and uses localStorage
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.unstubAllGlobals();
+  });
+
+  it("finds proofs minted after operations that signed nothing", async () => {
+    const mint = serveSigningMint(["paid-1", "paid-2"]);
+    const first = await freshDevice();
+
+    const minted = await first.claimMintQuote(MINT_URL, "paid-1", 13);
+    expect(minted).toHaveLength(3);
+    expect(storedCounter(mint.keysetId)).toBe(3);
+
+    // Failed claims leave the counter where it was
+    for (let attempt = 0; attempt < 4; attempt += 1) {
+      await expect(first.claimMintQuote(MINT_URL, "unpaid", 5)).rejects.toThrow();
+    }
+    expect(storedCounter(mint.keysetId)).toBe(3);
+
+    const later = await first.claimMintQuote(MINT_URL, "paid-2", 6);
+    expect(later).toHaveLength(2);
+    expect(storedCounter(mint.keysetId)).toBe(5);
+    expect(mint.signed.size).toBe(5);
+
+    const second = await freshDevice();
+    const [result] = await second.restoreFromSeed([MINT_URL]);
+
+    expect(result).toMatchObject({
+      mintUrl: MINT_URL,
+      restoredProofs: 5,
+      restoredSats: 19,
+      keysetsScanned: 1,
+    });
+    expect(result.error).toBeUndefined();
+    const balances = await second.balanceByMint();
+    expect(balances.map((balance) => balance.sats)).toEqual([19]);
+    expect(storedCounter(mint.keysetId)).toBe(5);
+  });
+});
@@ -0,0 +1,1623 @@
+"use client";
+
+import {
+  CashuMint,
+  CashuWallet,
+  CheckStateEnum,
+  getDecodedToken,
+  getEncodedTokenV4,
+  type MeltQuoteResponse,
+  type MintQuoteResponse,
+  type Proof,
+  type ProofState,
+} from "@cashu/cashu-ts";
+import {
+  appendTransaction,
+  commitCashuProofChanges,
+  getProofsBalanceSats,
+  loadPlatformWallet,
+  readCashuProofs,
+  readOutgoingTokens,
+  readPendingCashuProofs,
+  saveOutgoingToken,
+  updateOutgoingToken,
+  updateWalletInvoiceByQuote,
+  upsertWalletInvoice,
+  type OutgoingToken,
+  type WalletTokenEventRefs,
+  type WalletTransactionType,
+} from "@/lib/platformWallet";
+import {
+  annotateProofsWithMint,
+  fetchNip60MintEvents,
+  getProofsForMint,
+  publishNip60MintSnapshot,
+  recordNip60Conflict,
+  type CloudSyncCapableAccount,
+  type WalletProof,
+} from "@/lib/nip60WalletSync";
+import { getActiveSeed, getSeedVersion } from "@/lib/cashuSeed";
+import { reserveKeysetCounter } from "@/lib/walletStore";
+
+export const FALLBACK_MINT_URL = "https://mint.minibits.cash/Bitcoin";
+
+export type MintUnit = "sat" | "msat";
+
+export interface MintWallet {
+  mintUrl: string;
+  wallet: CashuWallet;
+  unit: MintUnit;
+  preferredKeysetId?: string;
+  /** True when the wallet derives NUT-13 secrets from the active seed. */
+  seeded: boolean;
+}
+
+export interface ProofStore {
+  ready: () => Promise<void>;
+  read: () => WalletProof[];
+  /** Proofs currently reserved as pending, when the store tracks them. */
+  readPending?: () => WalletProof[];
+  /**
+   * Persists the changes between two snapshots without rewriting other proofs.
+   * Proofs in `pending` are reserved instead of being marked spent.
+   */
+  commit: (before: WalletProof[], after: WalletProof[], pending?: WalletProof[]) => Promise<void>;
+}
+
+export interface EngineOptions {
+  store?: ProofStore;
+  syncAccount?: CloudSyncCapableAccount | null;
+}
+
+export interface SendOptions extends EngineOptions {
+  nodeMints?: string[];
+  preferredMint?: string;
+  strictPreferredMint?: boolean;
+  message?: string;
+  /** Shown in the pending outgoing tokens list, e.g. "Top up key sk-…". */
+  purpose?: string;
+}
+
+export interface SendResult {
+  token: string;
+  mintUrl: string;
+  unit: MintUnit;
+  amountSats: number;
+  proofs: Proof[];
+  /** Id of the outgoing token reservation; settle or reclaim it once the recipient responds. */
+  reservationId: string;
+  tokenEvents?: WalletTokenEventRefs;
+}
+
+export interface ReclaimResult {
+  reclaimed: boolean;
+  amountSats: number;
+}
+
+export interface ReceiveOptions extends EngineOptions {
+  transactionType?: Extract<WalletTransactionType, "import" | "refund">;
+  message?: string;
+  /** Unlocks P2PK-locked proofs, e.g. nutzaps sent to the NIP-60 wallet key. */
+  privkey?: string;
+  /** Nutzap events this receive redeems, referenced in the history event. */
+  redeemedEventIds?: string[];
+}
+
+export interface ReceiveResult {
+  mintUrl: string;
+  unit: MintUnit;
+  amountSats: number;
+  proofs: WalletProof[];
+}
+
+export interface MeltResult {
+  amountSats: number;
+  feeReserveSats: number;
+  feePaidSats: number;
+  change: WalletProof[];
+  tokenEvents?: WalletTokenEventRefs;
+}
+
+export interface MoveFundsResult {
+  fromMintUrl: string;
+  toMintUrl: string;
+  amountSats: number;
+  feePaidSats: number;
+  claimed: boolean;
+  quoteId: string;
+}
+
+export interface RestoreResult {
+  mintUrl: string;
+  restoredProofs: number;
+  restoredSats: number;
+  keysetsScanned: number;
+  error?: string;
+}
+
+export interface MintReconciliation {
+  mintUrl: string;
+  checkedProofs: number;
+  spentProofs: number;
+  spentSats: number;
+  pendingProofs: number;
+  pendingSats: number;
+  releasedProofs: number;
+  releasedSats: number;
+}
+
+export interface ReconciliationReport {
+  startedAt: number;
+  finishedAt: number;
+  mints: MintReconciliation[];
+  unreachableMints: string[];
+  settledTokens: number;
+}
+
+export interface MintBalance {
+  mintUrl: string;
+  unit: MintUnit | null;
+  amount: number;
+  sats: number;
+  proofCount: number;
+}
+
+export const localProofStore: ProofStore = {
+  ready: () => loadPlatformWallet(),
+  read: () => readCashuProofs() as WalletProof[],
+  readPending: () => readPendingCashuProofs() as WalletProof[],
+  commit: (before, after, pending) => commitCashuProofChanges(before, after, pending),
+};
+
+async function openProofStore(store: ProofStore = localProofStore): Promise<ProofStore> {
+  await store.ready();
+  return store;
+}
+
+const mintWalletCache = new Map<string, Promise<MintWallet>>();
+
+const RECONCILE_BATCH_SIZE = 100;
+const CONFLICT_QUERY_WAIT_MS = 3000;
+
+// Restore stops after this many counters without a signature, so counters are
+// only advanced by the outputs an operation actually created.
+const RESTORE_GAP_LIMIT = 300;
+const RESTORE_BATCH_SIZE = 100;
+
+export function normalizeMintUrl(url: string): string {
+  const trimmed = String(url || "").trim();
+  if (!trimmed) return "";
+  const withProtocol = /^https?:\/\//.test(trimmed) ? trimmed : `https://${trimmed}`;
+  return withProtocol.replace(/\/+$/, "");
+}
+
+export function proofIdentity(proof: Pick<Proof, "id" | "amount" | "C"> & { secret?: string }): string {
+  if (typeof proof.secret === "string" && proof.secret.length > 0) {
+    return proof.secret;
+  }
+  return `${String(proof.id || "")}:${Number(proof.amount || 0)}:${String(proof.C || "")}`;
+}
+
+export function sumProofAmounts(proofs: Array<{ amount?: number }>): number {
+  return proofs.reduce((sum, proof) => {
+    const amount = Number(proof.amount || 0);
+    return sum + (Number.isFinite(amount) ? amount : 0);
+  }, 0);
+}
+
+export function toSats(amount: number, unit: MintUnit | null | undefined): number {
+  return unit === "msat" ? amount / 1000 : amount;
+}
+
+export function fromSats(amountSats: number, unit: MintUnit): number {
+  return unit === "msat" ? Math.round(amountSats * 1000) : amountSats;
+}
+
+export function encodeCashuTokenV4(
+  mintUrl: string,
+  unit: MintUnit,
+  proofs: Proof[]
+): string {
+  const normalizedProofs = proofs.map((proof) => ({
+    id: String(proof.id || ""),
+    amount: Number(proof.amount || 0),
+    secret: String(proof.secret || ""),
+    C: String(proof.C || ""),
+  }));
+
+  if (
+    normalizedProofs.some(
+      (proof) =>
+        !proof.id ||
+        !proof.secret ||
+        !proof.C ||
+        !Number.isFinite(proof.amount) ||
+        proof.amount <= 0
+    )
+  ) {
+    throw new Error("Mint returned invalid proofs for token generation");
+  }
+
+  return getEncodedTokenV4({
+    mint: mintUrl,
+    unit,
+    proofs: normalizedProofs,
+  });
+}
+
+async function loadMintWallet(
+  mintUrl: string,
+  preferredUnit?: MintUnit
+): Promise<MintWallet> {
+  const mint = new CashuMint(mintUrl);
+  const keysets = await mint.getKeySets();
+  const activeKeysets = keysets.keysets.filter((keyset) => keyset.active);
+  const msatKeyset = activeKeysets.find(
+    (keyset) => String(keyset.unit).toLowerCase() === "msat"
+  );
+  const satKeyset = activeKeysets.find(
+    (keyset) => String(keyset.unit).toLowerCase() === "sat"
+  );
+  const unit: MintUnit | null =
+    preferredUnit === "sat" && satKeyset
+      ? "sat"
+      : msatKeyset
+        ? "msat"
+        : satKeyset
+          ? "sat"
+          : null;
+
+  if (!unit) {
+    const units = [...new Set(activeKeysets.map((keyset) => String(keyset.unit).toLowerCase()))];
+    throw new Error(
+      `Mint ${mintUrl} has no active sat/msat keyset (units: ${units.join(", ") || "none"})`
+    );
+  }
+
+  const seed = getActiveSeed();
+  const wallet = new CashuWallet(mint, { unit, ...(seed ? { bip39seed: seed } : {}) });
+  await wallet.loadMint();
+  return {
+    mintUrl,
+    wallet,
+    unit,
+    preferredKeysetId: (unit === "msat" ? msatKeyset?.id : satKeyset?.id) || undefined,
+    seeded: Boolean(seed),
+  };
+}
+
+interface DeterministicOptions {
+  keysetId?: string;
+  counter?: number;
+}
+
+const keysetCounterLocks = new Map<string, Promise<unknown>>();
+
+/** Runs `task` while holding the keyset's counter, across tabs where Web Locks exist. */
+function withKeysetCounterLock<T>(keysetId: string, task: () => Promise<T>): Promise<T> {
+  if (typeof navigator !== "undefined" && navigator.locks) {
+    // The DOM typings don't unwrap the callback's promise
+    return navigator.locks.request(`platform-keyset-counter-${keysetId}`, task) as Promise<T>;
+  }
+  const previous = keysetCounterLocks.get(keysetId) ?? Promise.resolve();
+  const run = previous.catch(() => undefined).then(task);
+  keysetCounterLocks.set(keysetId, run);
+  return run;
+}
+
+/**
+ * Runs one wallet operation from the keyset's next NUT-13 counter and then
+ * advances the stored counter by the outputs it created, so operations on a
+ * keyset run one at a time. A failed operation advances nothing and the next
+ * one reuses its counters. Unseeded wallets only pin the keyset.
+ */
+async function withDeterministicOptions<T>(
+  mintWallet: MintWallet,
+  operation: (options: DeterministicOptions) => Promise<T>,
+  countOutputs: (result: T) => number
+): Promise<T> {
+  const keysetId = mintWallet.preferredKeysetId || mintWallet.wallet.keysetId;
+  if (!mintWallet.seeded) {
+    return operation(mintWallet.preferredKeysetId ? { keysetId } : {});
+  }
+  return withKeysetCounterLock(keysetId, async () => {
+    const counter = await reserveKeysetCounter(keysetId, 0);
+    const result = await operation({ keysetId, counter });
+    await reserveKeysetCounter(keysetId, 0, counter + countOutputs(result));
+    return result;
+  });
+}
+
+/**
+ * Reserves counters for an operation whose output count is known up front,
+ * e.g. melt change outputs, so the lock isn't held while it runs.
+ */
+async function reserveDeterministicOptions(
+  mintWallet: MintWallet,
+  outputs: number
+): Promise<DeterministicOptions> {
+  const keysetId = mintWallet.preferredKeysetId || mintWallet.wallet.keysetId;
+  if (!mintWallet.seeded) {
+    return mintWallet.preferredKeysetId ? { keysetId } : {};
+  }
+  const counter = await withKeysetCounterLock(keysetId, () =>
+    reserveKeysetCounter(keysetId, outputs)
+  );
+  return { keysetId, counter };
+}
+
+/** New outputs of a swap; `keep` also returns inputs that weren't selected. */
+function countSwapOutputs(
+  inputs: Proof[],
+  result: { keep: Proof[]; send: Proof[] }
+): number {
+  const inputIds = new Set(inputs.map(proofIdentity));
+  return (
+    result.send.length +
+    result.keep.filter((proof) => !inputIds.has(proofIdentity(proof))).length
+  );
+}
+
+/** NUT-08 blank outputs cashu-ts adds to a melt overpaying by `overpaid`. */
+function countBlankOutputs(overpaid: number): number {
+  const count = Math.ceil(Math.log2(overpaid)) || 1;
+  return count < 0 ? 0 : count;
+}
+
+/** Swaps proofs for a send of `amount`, including the swap fees. */
+function swapForSend(mintWallet: MintWallet, amount: number, proofs: WalletProof[]) {
+  return withDeterministicOptions(
+    mintWallet,
+    (deterministic) =>
+      mintWallet.wallet.send(amount, proofs, { ...deterministic, includeFees: true }),
+    (result) => countSwapOutputs(proofs, result)
+  );
+}
+
+/**
+ * Returns a loaded wallet for the mint, preferring msat keysets unless a sat
+ * wallet is requested. Wallets are cached per mint, unit and seed; failed
+ * loads are evicted so the next call retries.
+ */
+export function getMintWallet(
+  mintUrl: string,
+  preferredUnit?: MintUnit
+): Promise<MintWallet> {
+  const normalizedMint = normalizeMintUrl(mintUrl);
+  if (!normalizedMint) {
+    return Promise.reject(new Error("Mint URL is required"));
+  }
+
+  const cacheKey = `${normalizedMint}::${preferredUnit || "auto"}::${getSeedVersion()}`;
+  const cached = mintWalletCache.get(cacheKey);
+  if (cached) return cached;
+
+  const pending = loadMintWallet(normalizedMint, preferredUnit);
+  mintWalletCache.set(cacheKey, pending);
+  pending.catch(() => {
+    if (mintWalletCache.get(cacheKey) === pending) {
+      mintWalletCache.delete(cacheKey);
+    }
+  });
+  return pending;
+}
+
+export function clearMintWalletCache(mintUrl?: string): void {
+  if (!mintUrl) {
+    mintWalletCache.clear();
+    return;
+  }
+  const prefix = `${normalizeMintUrl(mintUrl)}::`;
+  for (const key of Array.from(mintWalletCache.keys())) {
+    if (key.startsWith(prefix)) mintWalletCache.delete(key);
+  }
+}
+
+export type SubscriptionCanceller = () => void;
+
+type SubscriptionKind = "bolt11_mint_quote" | "bolt11_melt_quote" | "proof_state";
+
+/** True when the mint advertises NUT-17 WebSocket support for `kind` in the wallet's unit. */
+async function supportsSubscription(
+  mintWallet: MintWallet,
+  kind: SubscriptionKind
+): Promise<boolean> {
+  if (typeof WebSocket === "undefined") return false;
+  try {
+    const info = await mintWallet.wallet.getMintInfo();
+    const { supported, params } = info.isSupported(17);
+    return (
+      supported &&
+      (params || []).some(
+        (entry) =>
+          entry.method === "bolt11" &&
+          entry.unit === mintWallet.unit &&
+          entry.commands.includes(kind)
+      )
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Opens a NUT-17 subscription on the mint's WebSocket. Resolves null when the
+ * mint doesn't support it or the socket can't be opened, so callers keep
+ * polling. `onError` also fires once if the socket closes later.
+ */
+async function openSubscription(
+  mintWallet: MintWallet,
+  kind: SubscriptionKind,
+  subscribe: (onError: (error: Error) => void) => Promise<SubscriptionCanceller>,
+  onError: (error: Error) => void
+): Promise<SubscriptionCanceller | null> {
+  if (!(await supportsSubscription(mintWallet, kind))) return null;
+
+  let failed = false;
+  let cancelled = false;
+  const fail = (error: Error) => {
+    if (failed || cancelled) return;
+    failed = true;
+    onError(error);
+  };
+
+  try {
+    const cancel = await subscribe(fail);
+    mintWallet.wallet.mint.webSocketConnection?.onClose(() => {
+      fail(new Error("Mint WebSocket closed"));
+    });
+    return () => {
+      if (cancelled) return;
+      cancelled = true;
+      cancel();
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** Subscribes to state changes of mint quotes (NUT-17 `bolt11_mint_quote`). */
+export async function subscribeMintQuotes(
+  mintUrl: string,
+  quoteIds: string[],
+  onUpdate: (quote: MintQuoteResponse) => void,
+  onError: (error: Error) => void
+): Promise<SubscriptionCanceller | null> {
+  if (quoteIds.length === 0) return null;
+  const mintWallet = await getMintWallet(mintUrl);
+  return openSubscription(
+    mintWallet,
+    "bolt11_mint_quote",
+    (fail) => mintWallet.wallet.onMintQuoteUpdates(quoteIds, onUpdate, fail),
+    onError
+  );
+}
+
+/** Subscribes to state changes of melt quotes (NUT-17 `bolt11_melt_quote`). */
+export async function subscribeMeltQuotes(
+  mintUrl: string,
+  quoteIds: string[],
+  onUpdate: (quote: MeltQuoteResponse) => void,
+  onError: (error: Error) => void
+): Promise<SubscriptionCanceller | null> {
+  if (quoteIds.length === 0) return null;
+  const mintWallet = await getMintWallet(mintUrl);
+  return openSubscription(
+    mintWallet,
+    "bolt11_melt_quote",
+    (fail) => mintWallet.wallet.onMeltQuoteUpdates(quoteIds, onUpdate, fail),
+    onError
+  );
+}
+
+/** Subscribes to spent/pending changes of proofs (NUT-17 `proof_state`). */
+export async function subscribeProofStates(
+  mintUrl: string,
+  proofs: Proof[],
+  onUpdate: (state: ProofState & { proof: Proof }) => void,
+  onError: (error: Error) => void,
+  preferredUnit?: MintUnit
+): Promise<SubscriptionCanceller | null> {
+  if (proofs.length === 0) return null;
+  const mintWallet = await getMintWallet(mintUrl, preferredUnit);
+  return openSubscription(
+    mintWallet,
+    "proof_state",
+    (fail) => mintWallet.wallet.onProofStateUpdates(proofs, onUpdate, fail),
+    onError
+  );
+}
+
+/**
+ * Finds live token events for the mint that the local snapshot doesn't know
+ * about, i.e. written concurrently by another device, and returns their
+ * unspent proofs that are missing locally.
+ */
+async function collectDivergentProofs(
+  account: CloudSyncCapableAccount,
+  mintUrl: string,
+  knownEventIds: Set<string>,
+  knownProofs: WalletProof[]
+): Promise<{ eventIds: string[]; proofs: WalletProof[]; sats: number; droppedSpent: number }> {
+  const liveEvents = await fetchNip60MintEvents(account, mintUrl, {
+    maxWaitMs: CONFLICT_QUERY_WAIT_MS,
+  });
+  const divergent = liveEvents.filter((event) => !knownEventIds.has(event.id));
+  if (divergent.length === 0) return { eventIds: [], proofs: [], sats: 0, droppedSpent: 0 };
+
+  const known = new Set(
+    [...knownProofs, ...(readPendingCashuProofs() as WalletProof[])].map(proofIdentity)
+  );
+  const candidates = new Map<string, WalletProof>();
+  for (const event of divergent) {
+    for (const proof of event.proofs) {
+      const identity = proofIdentity(proof);
+      if (!known.has(identity)) candidates.set(identity, { ...proof, mintUrl });
+    }
+  }
+
+  const unknown = Array.from(candidates.values());
+  let unspent = unknown;
+  let sats = 0;
+  if (unknown.length > 0) {
+    const { wallet, unit } = await getMintWallet(mintUrl);
+    const states = await checkStatesInBatches(wallet, unknown);
+    unspent = unknown.filter((_, index) => states[index] === CheckStateEnum.UNSPENT);
+    sats = toSats(sumProofAmounts(unspent), unit);
+  }
+
+  return {
+    eventIds: divergent.map((event) => event.id),
+    proofs: unspent,
+    sats,
+    droppedSpent: unknown.length - unspent.length,
+  };
+}
+
+/**
+ * Publishes the mint's current proofs as a NIP-60 token event replacing the
+ * events the previous proofs came from, and returns the proofs re-tagged with
+ * the new event id. Snapshots written concurrently by another device are
+ * merged by proof identity and replaced too, instead of being overwritten.
+ */
+export async function publishMintSnapshot(
+  account: CloudSyncCapableAccount,
+  mintUrl: string,
+  beforeProofs: WalletProof[],
+  afterProofs: WalletProof[]
+): Promise<WalletProof[]> {
+  const normalizedMint = normalizeMintUrl(mintUrl);
+  const beforeMintProofs = getProofsForMint(beforeProofs, normalizedMint);
+  const afterMintProofs = getProofsForMint(afterProofs, normalizedMint);
+  const eventIdsToDelete = mintEventIds(beforeMintProofs, normalizedMint);
+
+  let divergent: Awaited<ReturnType<typeof collectDivergentProofs>> = {
+    eventIds: [],
+    proofs: [],
+    sats: 0,
+    droppedSpent: 0,
+  };
+  try {
+    divergent = await collectDivergentProofs(
+      account,
+      normalizedMint,
+      new Set(eventIdsToDelete),
+      [...beforeMintProofs, ...afterMintProofs]
+    );
+  } catch (error) {
+    console.warn("Failed to check NIP-60 snapshots for conflicts:", error);
+  }
+
+  if (
+    afterMintProofs.length === 0 &&
+    eventIdsToDelete.length === 0 &&
+    divergent.eventIds.length === 0
+  ) {
+    return afterProofs;
+  }
+
+  const { eventId: newEventId } = await publishNip60MintSnapshot(
+    account,
+    normalizedMint,
+    [...afterMintProofs, ...divergent.proofs],
+    [...eventIdsToDelete, ...divergent.eventIds]
+  );
+
+  if (divergent.eventIds.length > 0) {
+    recordNip60Conflict({
+      id: newEventId,
+      mintUrl: normalizedMint,
+      resolvedAt: Date.now(),
+      divergentEventIds: divergent.eventIds,
+      mergedProofs: divergent.proofs.length,
+      mergedSats: divergent.sats,
+      droppedSpentProofs: divergent.droppedSpent,
+    });
+  }
+
+  return [...afterProofs, ...divergent.proofs].map((proof) =>
+    normalizeMintUrl(proof.mintUrl || "") === normalizedMint
+      ? { ...proof, eventId: newEventId }
+      : proof
+  );
+}
+
+/**
+ * Merges divergent NIP-60 snapshots for the given mints: drops local proofs
+ * the mint reports spent, folds in unknown unspent proofs from other devices'
+ * snapshots and republishes one snapshot per mint.
+ */
+export async function resolveSnapshotConflicts(
+  mintUrls: string[],
+  options: EngineOptions & { syncAccount: CloudSyncCapableAccount }
+): Promise<void> {
+  const store = await openProofStore(options.store);
+  for (const mintUrl of Array.from(new Set(mintUrls.map(normalizeMintUrl)))) {
+    if (!mintUrl) continue;
+    try {
+      const proofsBefore = store.read();
+      const proofsForMint = getProofsForMint(proofsBefore, mintUrl);
+      let spent = new Set<string>();
+      if (proofsForMint.length > 0) {
+        const { wallet } = await getMintWallet(mintUrl);
+        const states = await checkStatesInBatches(wallet, proofsForMint);
+        spent = new Set(
+          proofsForMint
+            .filter((_, index) => states[index] === CheckStateEnum.SPENT)
+            .map(proofIdentity)
+        );
+      }
+      await commitMintProofs(
+        mintUrl,
+        proofsBefore,
+        proofsBefore.filter((proof) => !spent.has(proofIdentity(proof))),
+        options
+      );
+    } catch (error) {
+      console.warn("Failed to resolve NIP-60 snapshot conflict for", mintUrl, error);
+    }
+  }
+}
+
+function mintEventIds(proofs: WalletProof[], mintUrl: string): string[] {
+  return Array.from(
+    new Set(
+      getProofsForMint(proofs, mintUrl)
+        .map((proof) => proof.eventId)
+        .filter((eventId): eventId is string => typeof eventId === "string")
+    )
+  );
+}
+
+/**
+ * Commits the change locally, then republishes the mint's NIP-60 snapshot
+ * when a sync account is given. Returns the token events the snapshot
+ * created and replaced, or undefined when nothing was published.
+ */
+async function commitMintProofs(
+  mintUrl: string,
+  beforeProofs: WalletProof[],
+  afterProofs: WalletProof[],
+  options: EngineOptions,
+  pendingProofs: WalletProof[] = []
+): Promise<WalletTokenEventRefs | undefined> {
+  const store = await openProofStore(options.store);
+  await store.commit(beforeProofs, afterProofs, pendingProofs);
+  return syncMintProofs(mintUrl, beforeProofs, afterProofs, options);
+}
+
+/**
+ * Republishes the mint's NIP-60 snapshot for a change that is already
+ * committed locally. Returns the token events it created and replaced, or
+ * undefined when nothing was published.
+ */
+async function syncMintProofs(
+  mintUrl: string,
+  beforeProofs: WalletProof[],
+  afterProofs: WalletProof[],
+  options: EngineOptions
+): Promise<WalletTokenEventRefs | undefined> {
+  if (!options.syncAccount) return undefined;
+
+  const store = await openProofStore(options.store);
+  try {
+    const synced = await publishMintSnapshot(
+      options.syncAccount,
+      mintUrl,
+      beforeProofs,
+      afterProofs
+    );
+    await store.commit(afterProofs, synced);
+    const destroyed = mintEventIds(beforeProofs, mintUrl);
+    const created = mintEventIds(synced, mintUrl).filter((id) => !destroyed.includes(id));
+    return { created, destroyed };
+  } catch (error) {
+    console.warn("Failed to sync NIP-60 wallet proofs:", error);
+    return undefined;
+  }
+}
+
+export async function removeSpentProofsForMint(
+  wallet: CashuWallet,
+  proofsForMint: WalletProof[],
+  store: ProofStore = localProofStore
+): Promise<WalletProof[]> {
+  await store.ready();
+  const proofStates = await wallet.checkProofsStates(proofsForMint as Proof[]);
+  if (!Array.isArray(proofStates) || proofStates.length === 0) {
+    return proofsForMint;
+  }
+
+  const spentProofs: WalletProof[] = [];
+  const remainingProofs: WalletProof[] = [];
+  proofsForMint.forEach((proof, index) => {
+    if (proofStates[index]?.state === CheckStateEnum.SPENT) {
+      spentProofs.push(proof);
+      return;
+    }
+    remainingProofs.push(proof);
+  });
+
+  if (spentProofs.length === 0) {
+    return proofsForMint;
+  }
+
+  await store.commit(spentProofs, []);
+  return remainingProofs;
+}
+
+function isRecoverableSendError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return (
+    message.includes("Not enough funds available") ||
+    message.includes("Token already spent") ||
+    message.includes("Not enough balance to send")
+  );
+}
+
+function rankSendCandidates(proofs: WalletProof[], options: SendOptions): string[] {
+  const walletMintBalances = new Map<string, number>();
+  for (const proof of proofs) {
+    const mint = normalizeMintUrl(proof.mintUrl || "");
+    if (!mint) continue;
+    walletMintBalances.set(mint, (walletMintBalances.get(mint) || 0) + Number(proof.amount || 0));
+  }
+
+  const sortedWalletMints = Array.from(walletMintBalances.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([mint]) => mint);
+  const nodeMintSet = new Set(
+    (options.nodeMints || []).map((mint) => normalizeMintUrl(mint)).filter(Boolean)
+  );
+  const hasNodeMintHints = nodeMintSet.size > 0;
+  const preferredMint = normalizeMintUrl(options.preferredMint || "");
+
+  if (options.strictPreferredMint) {
+    if (!preferredMint) {
+      throw new Error("No active mint selected");
+    }
+    if (hasNodeMintHints && !nodeMintSet.has(preferredMint)) {
+      throw new Error("Active mint is not supported by the selected node");
+    }
+    return [preferredMint];
+  }
+
+  const baseCandidates = Array.from(
+    new Set(
+      [preferredMint, ...sortedWalletMints, normalizeMintUrl(FALLBACK_MINT_URL)].filter(Boolean)
+    )
+  );
+  if (!hasNodeMintHints) return baseCandidates;
+  return [
+    ...baseCandidates.filter((mint) => nodeMintSet.has(mint)),
+    ...baseCandidates.filter((mint) => !nodeMintSet.has(mint)),
+  ];
+}
+
+async function sendFromMint(
+  mintUrl: string,
+  amountSats: number,
+  options: SendOptions
+): Promise<SendResult | null> {
+  const store = await openProofStore(options.store);
+  const mintWallet = await getMintWallet(mintUrl);
+  const { wallet, unit } = mintWallet;
+  let proofsSnapshot = store.read();
+  let proofsForMint = getProofsForMint(proofsSnapshot, mintUrl);
+  if (proofsForMint.length === 0) return null;
+
+  const amountInMintUnit = fromSats(amountSats, unit);
+  if (sumProofAmounts(proofsForMint) < amountInMintUnit) return null;
+
+  let sendResult: Awaited<ReturnType<CashuWallet["send"]>>;
+  try {
+    sendResult = await swapForSend(mintWallet, amountInMintUnit, proofsForMint);
+  } catch (firstSendError) {
+    if (!isRecoverableSendError(firstSendError)) throw firstSendError;
+
+    proofsForMint = await removeSpentProofsForMint(wallet, proofsForMint, store);
+    if (proofsForMint.length === 0) {
+      throw new Error("Token already spent. Please sync wallet and retry.");
+    }
+    proofsSnapshot = store.read();
+    if (sumProofAmounts(proofsForMint) < amountInMintUnit) {
+      throw new Error("Not enough funds on this mint after removing spent proofs");
+    }
+    sendResult = await swapForSend(mintWallet, amountInMintUnit, proofsForMint);
+  }
+
+  const sendProofs = sendResult?.send || [];
+  const keepProofs = sendResult?.keep || [];
+  if (sendProofs.length === 0) {
+    throw new Error("Unable to generate Cashu token");
+  }
+
+  const spentIds = new Set(proofsForMint.map((proof) => proofIdentity(proof)));
+  const untouched = proofsSnapshot.filter((proof) => !spentIds.has(proofIdentity(proof)));
+  const nextProofs = [...untouched, ...annotateProofsWithMint(keepProofs, mintUrl)];
+  const reservedProofs = annotateProofsWithMint(sendProofs, mintUrl);
+  const token = encodeCashuTokenV4(mintUrl, unit, sendProofs);
+  const reservationId = `outgoing-${proofIdentity(sendProofs[0])}`;
+  const now = Date.now();
+  // The reservation has to exist before its proofs are stored as pending,
+  // otherwise reconciliation would release them while the snapshot publishes.
+  await saveOutgoingToken({
+    id: reservationId,
+    token,
+    mintUrl,
+    unit,
+    amountSats,
+    purpose: options.purpose || options.message || "eCash token",
+    proofs: reservedProofs,
+    status: "pending",
+    createdAt: now,
+    updatedAt: now,
+  });
+  await store.commit(proofsSnapshot, nextProofs, reservedProofs);
+  const tokenEvents = await syncMintProofs(mintUrl, proofsSnapshot, nextProofs, options);
+
+  return {
+    token,
+    mintUrl,
+    unit,
+    amountSats,
+    proofs: sendProofs,
+    reservationId,
+    tokenEvents,
+  };
+}
+
+/**
+ * Creates a V4 token for `amountSats` from local proofs. Candidate mints are
+ * the preferred mint, then wallet mints by balance, with mints accepted by the
+ * node moved to the front. Only the chosen mint's proofs are swapped.
+ */
+export async function send(amountSats: number, options: SendOptions = {}): Promise<SendResult> {
+  if (!Number.isFinite(amountSats) || amountSats <= 0) {
+    throw new Error("Please enter a valid amount");
+  }
+
+  const store = await openProofStore(options.store);
+  const initialProofs = store.read();
+  if (initialProofs.length === 0) {
+    throw new Error("No wallet balance available");
+  }
+
+  const candidates = rankSendCandidates(initialProofs, options);
+  if (candidates.length === 0) {
+    throw new Error("No eligible mint found for wallet balance");
+  }
+
+  let lastError: unknown = null;
+  for (const mint of candidates) {
+    try {
+      const result = await sendFromMint(mint, amountSats, options);
+      if (!result) continue;
+      if (options.message) {
+        appendTransaction({
+          type: "send",
+          amount: amountSats,
+          timestamp: Date.now(),
+          status: "success",
+          message: options.message,
+          balance: getProofsBalanceSats(),
+          tokenEvents: result.tokenEvents,
+        });
+      }
+      return result;
+    } catch (error) {
+      lastError = error;
+    }
+  }
+
+  if (lastError instanceof Error) {
+    throw new Error(lastError.message);
+  }
+  throw new Error("Insufficient wallet balance on available mints");
+}
+
+export async function receive(
+  token: string,
+  options: ReceiveOptions = {}
+): Promise<ReceiveResult> {
+  const trimmed = token.trim();
+  if (!trimmed) {
+    throw new Error("Token is required");
+  }
+
+  const decoded = getDecodedToken(trimmed);
+  const mintUrl = normalizeMintUrl(String(decoded?.mint || ""));
+  if (!mintUrl) {
+    throw new Error("Token is missing its mint URL");
+  }
+
+  const tokenUnit: MintUnit = decoded?.unit === "msat" ? "msat" : "sat";
+  const mintWallet = await getMintWallet(mintUrl, tokenUnit);
+  const { wallet, unit } = mintWallet;
+  const receivedProofs = await withDeterministicOptions(
+    mintWallet,
+    (deterministic) =>
+      wallet.receive(trimmed, {
+        ...deterministic,
+        ...(options.privkey ? { privkey: options.privkey } : {}),
+      }),
+    (proofs) => proofs.length
+  );
+  if (!Array.isArray(receivedProofs) || receivedProofs.length === 0) {
+    throw new Error("Token contained no spendable proofs");
+  }
+
+  const store = await openProofStore(options.store);
+  const proofsBefore = store.read();
+  const annotated = annotateProofsWithMint(receivedProofs, mintUrl);
+  const tokenEvents = await commitMintProofs(
+    mintUrl,
+    proofsBefore,
+    [...proofsBefore, ...annotated],
+    options
+  );
+
+  const amountSats = toSats(sumProofAmounts(receivedProofs), unit);
+  if (options.transactionType) {
+    appendTransaction({
+      type: options.transactionType,
+      amount: amountSats,
+      timestamp: Date.now(),
+      status: "success",
+      message: options.message,
+      balance: getProofsBalanceSats(),
+      tokenEvents: options.redeemedEventIds
+        ? {
+            created: tokenEvents?.created || [],
+            destroyed: tokenEvents?.destroyed || [],
+            redeemed: options.redeemedEventIds,
+          }
+        : tokenEvents,
+    });
+  }
+
+  return { mintUrl, unit, amountSats, proofs: annotated };
+}
+
+function findOutgoingToken(reservationId: string): OutgoingToken {
+  const outgoing = readOutgoingTokens().find((item) => item.id === reservationId);
+  if (!outgoing) {
+    throw new Error("Pending token not found");
+  }
+  return outgoing;
+}
+
+/** Marks a reserved send as redeemed by its recipient; its proofs become spent. */
+export async function settleSend(
+  reservationId: string,
+  options: Pick<EngineOptions, "store"> = {}
+): Promise<void> {
+  const store = await openProofStore(options.store);
+  const outgoing = findOutgoingToken(reservationId);
+  if (outgoing.status !== "pending") return;
+
+  await store.commit(outgoing.proofs as WalletProof[], []);
+  updateOutgoingToken(reservationId, { status: "redeemed", error: undefined });
+}
+
+/**
+ * Receives a reserved send back into the wallet. If the mint already reports
+ * its proofs as spent the recipient redeemed it, so the reservation is settled
+ * and `reclaimed` is false.
+ */
+export async function reclaimSend(
+  reservationId: string,
+  options: EngineOptions = {}
+): Promise<ReclaimResult> {
+  const store = await openProofStore(options.store);
+  const outgoing = findOutgoingToken(reservationId);
+  if (outgoing.status !== "pending") {
+    throw new Error("Token is no longer pending");
+  }
+
+  const reservedProofs = outgoing.proofs as WalletProof[];
+  const mintWallet = await getMintWallet(
+    outgoing.mintUrl,
+    outgoing.unit === "msat" ? "msat" : "sat"
+  );
+  const { wallet, unit } = mintWallet;
+
+  let receivedProofs: Proof[];
+  try {
+    receivedProofs = await withDeterministicOptions(
+      mintWallet,
+      (deterministic) => wallet.receive(outgoing.token, deterministic),
+      (proofs) => proofs.length
+    );
+  } catch (error) {
+    const states = await wallet.checkProofsStates(reservedProofs).catch(() => []);
+    if (
+      states.length > 0 &&
+      states.every((state) => state?.state === CheckStateEnum.SPENT)
+    ) {
+      await settleSend(reservationId, options);
+      return { reclaimed: false, amountSats: 0 };
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    updateOutgoingToken(reservationId, { error: message });
+    throw new Error(`Failed to reclaim token: ${message}`);
+  }
+
+  const proofsBefore = store.read();
+  const annotated = annotateProofsWithMint(receivedProofs, outgoing.mintUrl);
+  const tokenEvents = await commitMintProofs(
+    outgoing.mintUrl,
+    [...proofsBefore, ...reservedProofs],
+    [...proofsBefore, ...annotated],
+    options
+  );
+  updateOutgoingToken(reservationId, { status: "reclaimed", error: undefined });
+
+  const amountSats = toSats(sumProofAmounts(receivedProofs), unit);
+  appendTransaction({
+    type: "refund",
+    amount: amountSats,
+    timestamp: Date.now(),
+    status: "success",
+    message: `Reclaimed pending token: ${outgoing.purpose}`,
+    balance: getProofsBalanceSats(),
+    tokenEvents,
+  });
+
+  return { reclaimed: true, amountSats };
+}
+
+/**
+ * Checks pending outgoing tokens against their mints and settles the ones the
+ * recipient already redeemed. Returns how many were settled.
+ */
+export async function refreshOutgoingTokens(
+  options: Pick<EngineOptions, "store"> = {}
+): Promise<number> {
+  await openProofStore(options.store);
+  const pending = readOutgoingTokens().filter((item) => item.status === "pending");
+  let settled = 0;
+
+  for (const outgoing of pending) {
+    try {
+      const { wallet } = await getMintWallet(
+        outgoing.mintUrl,
+        outgoing.unit === "msat" ? "msat" : "sat"
+      );
+      const states = await wallet.checkProofsStates(outgoing.proofs as WalletProof[]);
+      if (
+        states.length > 0 &&
+        states.every((state) => state?.state === CheckStateEnum.SPENT)
+      ) {
+        await settleSend(outgoing.id, options);
+        settled += 1;
+      }
+    } catch {
+      // Leave the reservation pending when the mint can't be reached
+    }
+  }
+
+  return settled;
+}
+
+export async function mintQuote(
+  mintUrl: string,
+  amountSats: number
+): Promise<MintQuoteResponse> {
+  if (!Number.isFinite(amountSats) || amountSats <= 0) {
+    throw new Error("Please enter a valid amount");
+  }
+  const { wallet, unit } = await getMintWallet(mintUrl);
+  return wallet.createMintQuote(fromSats(amountSats, unit));
+}
+
+/**
+ * Mints proofs for a paid quote and stores them under the mint. Returns the
+ * stored proofs, or an empty list when the mint returned none.
+ */
+export async function claimMintQuote(
+  mintUrl: string,
+  quoteId: string,
+  amountSats: number,
+  options: EngineOptions = {}
+): Promise<WalletProof[]> {
+  const normalizedMint = normalizeMintUrl(mintUrl);
+  const mintWallet = await getMintWallet(normalizedMint);
+  const { wallet, unit } = mintWallet;
+  const proofs = await withDeterministicOptions(
+    mintWallet,
+    (deterministic) => wallet.mintProofs(fromSats(amountSats, unit), quoteId, deterministic),
+    (minted) => minted.length
+  );
+  if (!Array.isArray(proofs) || proofs.length === 0) return [];
+
+  const store = await openProofStore(options.store);
+  const proofsBefore = store.read();
+  const annotated = annotateProofsWithMint(proofs, normalizedMint);
+  await commitMintProofs(normalizedMint, proofsBefore, [...proofsBefore, ...annotated], options);
+  return annotated;
+}
+
+export async function meltQuote(
+  mintUrl: string,
+  paymentRequest: string
+): Promise<MeltQuoteResponse> {
+  const request = paymentRequest.trim();
+  if (!request) {
+    throw new Error("Please enter a Lightning invoice");
+  }
+  const { wallet } = await getMintWallet(mintUrl);
+  return wallet.createMeltQuote(request);
+}
+
+/**
+ * Pays a melt quote with the mint's proofs. Proofs from other mints are left
+ * untouched; change is stored under the mint. The melt inputs are stored as
+ * pending while the payment is in flight.
+ */
+export async function melt(
+  mintUrl: string,
+  quote: MeltQuoteResponse,
+  options: EngineOptions = {}
+): Promise<MeltResult> {
+  const normalizedMint = normalizeMintUrl(mintUrl);
+  const store = await openProofStore(options.store);
+  const mintWallet = await getMintWallet(normalizedMint);
+  const { wallet, unit } = mintWallet;
+
+  const proofsBefore = store.read();
+  const proofsForMint = getProofsForMint(proofsBefore, normalizedMint);
+  if (proofsForMint.length === 0) {
+    throw new Error("No tokens available for the selected mint");
+  }
+
+  const amount = Number(quote.amount || 0);
+  const feeReserve = Number(quote.fee_reserve || 0);
+  const amountToSend = amount + feeReserve;
+  if (!Number.isFinite(amountToSend) || amountToSend <= 0) {
+    throw new Error("Invalid invoice amount");
+  }
+  if (amountToSend > sumProofAmounts(proofsForMint)) {
+    throw new Error("Insufficient balance to pay invoice");
+  }
+
+  const { send: sendProofs, keep } = await swapForSend(mintWallet, amountToSend, proofsForMint);
+  if (!sendProofs || sendProofs.length === 0) {
+    throw new Error("Unable to select proofs for payment");
+  }
+
+  const previousByIdentity = new Map(
+    proofsForMint.map((proof) => [proofIdentity(proof), proof])
+  );
+  const keepWithMetadata = keep.map((proof): WalletProof => {
+    const existing = previousByIdentity.get(proofIdentity(proof));
+    return {
+      ...proof,
+      mintUrl: normalizedMint,
+      ...(existing?.eventId ? { eventId: existing.eventId } : {}),
+    };
+  });
+  const spentIds = new Set(proofsForMint.map((proof) => proofIdentity(proof)));
+  const untouched = proofsBefore.filter((proof) => !spentIds.has(proofIdentity(proof)));
+  const inputs = annotateProofsWithMint(sendProofs, normalizedMint);
+  const inputIds = new Set(inputs.map(proofIdentity));
+  // The swap already spent the old proofs, so store its outputs before paying
+  await store.commit(proofsBefore, [...untouched, ...keepWithMetadata], inputs);
+
+  let meltResult: Awaited<ReturnType<CashuWallet["meltProofs"]>>;
+  try {
+    meltResult = await wallet.meltProofs(
+      quote,
+      sendProofs,
+      await reserveDeterministicOptions(
+        mintWallet,
+        countBlankOutputs(sumProofAmounts(sendProofs) - amount)
+      )
+    );
+  } catch (error) {
+    // Inputs the mint never took are spendable again. Anything else stays
+    // pending until reconciliation sees the mint settle or release it.
+    const states = await checkStatesInBatches(wallet, inputs).catch(() => []);
+    const current = store.read().filter((proof) => !inputIds.has(proofIdentity(proof)));
+    let afterFailure = current;
+    if (states.length > 0 && states.every((state) => state === CheckStateEnum.UNSPENT)) {
+      afterFailure = [...current, ...inputs];
+      await store.commit(current, afterFailure);
+    }
+    await syncMintProofs(normalizedMint, proofsBefore, afterFailure, options);
+    throw error;
+  }
+
+  const change = annotateProofsWithMint(
+    Array.isArray(meltResult?.change) ? meltResult.change : [],
+    normalizedMint
+  );
+  // Inputs are in `before` only, so the commit marks them spent
+  const current = store.read().filter((proof) => !inputIds.has(proofIdentity(proof)));
+  const afterMelt = [...current, ...change];
+  await store.commit([...current, ...inputs], afterMelt);
+  const tokenEvents = await syncMintProofs(normalizedMint, proofsBefore, afterMelt, options);
+
+  return {
+    amountSats: toSats(amount, unit),
+    feeReserveSats: toSats(feeReserve, unit),
+    feePaidSats: toSats(Math.max(feeReserve - sumProofAmounts(change), 0), unit),
+    change,
+    tokenEvents,
+  };
+}
+
+/**
+ * Moves `amountSats` between mints by paying a mint quote on the destination
+ * with a melt from the source. The mint quote is recorded as a wallet invoice
+ * first, so an unclaimed quote can still be recovered from the invoice list.
+ */
+export async function moveFunds(
+  fromMintUrl: string,
+  toMintUrl: string,
+  amountSats: number,
+  options: EngineOptions = {}
+): Promise<MoveFundsResult> {
+  const fromMint = normalizeMintUrl(fromMintUrl);
+  const toMint = normalizeMintUrl(toMintUrl);
+  if (!fromMint || !toMint) {
+    throw new Error("Select a source and a destination mint");
+  }
+  if (fromMint === toMint) {
+    throw new Error("Source and destination mints must be different");
+  }
+
+  const destinationQuote = await mintQuote(toMint, amountSats);
+  const createdAt = Date.now();
+  upsertWalletInvoice({
+    id: `invoice-${destinationQuote.quote}`,
+    type: "mint",
+    mintUrl: toMint,
+    quoteId: destinationQuote.quote,
+    paymentRequest: destinationQuote.request,
+    amount: amountSats,
+    state: "UNPAID",
+    createdAt,
+    checkedAt: createdAt,
+    expiresAt: destinationQuote.expiry ? destinationQuote.expiry * 1000 : undefined,
+  });
+
+  const sourceQuote = await meltQuote(fromMint, destinationQuote.request);
+  upsertWalletInvoice({
+    id: `invoice-${sourceQuote.quote}`,
+    type: "melt",
+    mintUrl: fromMint,
+    quoteId: sourceQuote.quote,
+    paymentRequest: destinationQuote.request,
+    amount: Number(sourceQuote.amount || 0),
+    state: "UNPAID",
+    createdAt,
+    checkedAt: createdAt,
+    expiresAt: sourceQuote.expiry ? sourceQuote.expiry * 1000 : undefined,
+    fee: Number(sourceQuote.fee_reserve || 0),
+  });
+
+  const meltResult = await melt(fromMint, sourceQuote, options);
+  updateWalletInvoiceByQuote(sourceQuote.quote, { state: "PAID", paidAt: Date.now() });
+  appendTransaction({
+    type: "send",
+    amount: meltResult.amountSats + meltResult.feePaidSats,
+    timestamp: Date.now(),
+    status: "success",
+    message: `Moved funds to ${toMint}`,
+    balance: getProofsBalanceSats(),
+    quoteId: sourceQuote.quote,
+    tokenEvents: meltResult.tokenEvents,
+  });
+
+  let claimed = false;
+  try {
+    const { wallet } = await getMintWallet(toMint);
+    const status = await wallet.checkMintQuote(destinationQuote.quote);
+    const state = String(status.state).toUpperCase();
+    if (state === "PAID") {
+      await claimMintQuote(toMint, destinationQuote.quote, amountSats, options);
+      claimed = true;
+    } else if (state === "ISSUED") {
+      claimed = true;
+    }
+  } catch (error) {
+    console.warn("Failed to claim moved funds", destinationQuote.quote, error);
+  }
+
+  if (claimed) {
+    updateWalletInvoiceByQuote(destinationQuote.quote, {
+      state: "ISSUED",
+      paidAt: Date.now(),
+    });
+    appendTransaction({
+      type: "mint",
+      amount: amountSats,
+      timestamp: Date.now(),
+      status: "success",
+      message: `Moved funds from ${fromMint}`,
+      balance: getProofsBalanceSats(),
+      quoteId: destinationQuote.quote,
+    });
+  }
+
+  return {
+    fromMintUrl: fromMint,
+    toMintUrl: toMint,
+    amountSats,
+    feePaidSats: meltResult.feePaidSats,
+    claimed,
+    quoteId: destinationQuote.quote,
+  };
+}
+
+/**
+ * Groups stored proofs by mint. Units are resolved from the mint's keysets;
+ * unreachable mints report `unit: null` and their raw amount as sats.
+ */
+export async function balanceByMint(
+  options: Pick<EngineOptions, "store"> = {}
+): Promise<MintBalance[]> {
+  const store = await openProofStore(options.store);
+  const grouped = new Map<string, WalletProof[]>();
+  for (const proof of store.read()) {
+    const mint = normalizeMintUrl(proof.mintUrl || "");
+    grouped.set(mint, [...(grouped.get(mint) || []), proof]);
+  }
+
+  const balances = await Promise.all(
+    Array.from(grouped.entries()).map(async ([mintUrl, proofs]): Promise<MintBalance> => {
+      const amount = sumProofAmounts(proofs);
+      let unit: MintUnit | null = null;
+      if (mintUrl) {
+        try {
+          unit = (await getMintWallet(mintUrl)).unit;
+        } catch {
+          unit = null;
+        }
+      }
+      return {
+        mintUrl,
+        unit,
+        amount,
+        sats: toSats(amount, unit),
+        proofCount: proofs.length,
+      };
+    })
+  );
+
+  return balances.sort((a, b) => b.sats - a.sats);
+}
+
+export async function getMintBalanceSats(
+  mintUrl: string,
+  options: Pick<EngineOptions, "store"> = {}
+): Promise<number> {
+  const normalizedMint = normalizeMintUrl(mintUrl);
+  if (!normalizedMint) return 0;
+
+  const store = await openProofStore(options.store);
+  const proofsForMint = getProofsForMint(store.read(), normalizedMint);
+  const rawBalance = sumProofAmounts(proofsForMint);
+  if (rawBalance === 0) return 0;
+
+  try {
+    const { unit } = await getMintWallet(normalizedMint);
+    return toSats(rawBalance, unit);
+  } catch {
+    return rawBalance;
+  }
+}
+
+/**
+ * Scans every keyset of each mint for proofs derived from the active seed and
+ * stores the unspent ones that are missing locally. Keyset counters are moved
+ * past the last restored signature so new secrets never collide with old ones.
+ */
+export async function restoreFromSeed(
+  mintUrls: string[],
+  options: EngineOptions = {}
+): Promise<RestoreResult[]> {
+  if (!getActiveSeed()) {
+    throw new Error("Unlock or restore a wallet seed first");
+  }
+
+  const store = await openProofStore(options.store);
+  const mints = Array.from(new Set(mintUrls.map(normalizeMintUrl).filter(Boolean)));
+  const results: RestoreResult[] = [];
+
+  for (const mintUrl of mints) {
+    const result: RestoreResult = {
+      mintUrl,
+      restoredProofs: 0,
+      restoredSats: 0,
+      keysetsScanned: 0,
+    };
+    try {
+      const { wallet, unit } = await getMintWallet(mintUrl);
+      const keysets = await wallet.getKeySets();
+      const restored: Proof[] = [];
+
+      for (const keyset of keysets) {
+        const { proofs, lastCounterWithSignature } = await wallet.batchRestore(
+          RESTORE_GAP_LIMIT,
+          RESTORE_BATCH_SIZE,
+          0,
+          keyset.id
+        );
+        result.keysetsScanned += 1;
+        if (typeof lastCounterWithSignature === "number") {
+          await reserveKeysetCounter(keyset.id, 0, lastCounterWithSignature + 1);
+        }
+        if (proofs.length === 0) continue;
+
+        const states = await wallet.checkProofsStates(proofs);
+        proofs.forEach((proof, index) => {
+          if (states[index]?.state === CheckStateEnum.UNSPENT) restored.push(proof);
+        });
+      }
+
+      const proofsBefore = store.read();
+      const known = new Set(proofsBefore.map(proofIdentity));
+      const missing = annotateProofsWithMint(
+        restored.filter((proof) => !known.has(proofIdentity(proof))),
+        mintUrl
+      );
+      if (missing.length > 0) {
+        const tokenEvents = await commitMintProofs(
+          mintUrl,
+          proofsBefore,
+          [...proofsBefore, ...missing],
+          options
+        );
+        result.restoredProofs = missing.length;
+        result.restoredSats = toSats(sumProofAmounts(missing), unit);
+        appendTransaction({
+          type: "import",
+          amount: result.restoredSats,
+          timestamp: Date.now(),
+          status: "success",
+          message: `Restored from seed: ${mintUrl}`,
+          balance: getProofsBalanceSats(),
+          tokenEvents,
+        });
+      }
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : "Restore failed";
+    }
+    results.push(result);
+  }
+
+  return results;
+}
+
+async function checkStatesInBatches(
+  wallet: CashuWallet,
+  proofs: WalletProof[]
+): Promise<Array<CheckStateEnum | undefined>> {
+  const states: Array<CheckStateEnum | undefined> = [];
+  for (let start = 0; start < proofs.length; start += RECONCILE_BATCH_SIZE) {
+    const batch = proofs.slice(start, start + RECONCILE_BATCH_SIZE);
+    const batchStates = await wallet.checkProofsStates(batch);
+    batch.forEach((_, index) => states.push(batchStates[index]?.state));
+  }
+  return states;
+}
+
+/**
+ * Checks every stored proof against its mint. Spent proofs leave the active
+ * set, proofs the mint reports as pending are reserved, and pending proofs
+ * the mint still reports unspent are released. Proofs reserved by outgoing
+ * tokens are settled through refreshOutgoingTokens instead.
+ */
+export async function reconcileProofStates(
+  options: EngineOptions = {}
+): Promise<ReconciliationReport> {
+  const startedAt = Date.now();
+  const store = await openProofStore(options.store);
+  const settledTokens = await refreshOutgoingTokens(options);
+
+  // Read pending proofs before the reservations: sends save their reservation
+  // first, so every pending proof seen here is matched if it belongs to one.
+  const storedPending = store.readPending?.() ?? [];
+  const reservedKeys = new Set(
+    readOutgoingTokens()
+      .filter((item) => item.status === "pending")
+      .flatMap((item) => (item.proofs as WalletProof[]).map(proofIdentity))
+  );
+  const activeProofs = store.read();
+  const pendingProofs = storedPending.filter(
+    (proof) => !reservedKeys.has(proofIdentity(proof))
+  );
+  const mints = Array.from(
+    new Set(
+      [...activeProofs, ...pendingProofs]
+        .map((proof) => normalizeMintUrl(proof.mintUrl || ""))
+        .filter(Boolean)
+    )
+  );
+
+  const report: ReconciliationReport = {
+    startedAt,
+    finishedAt: startedAt,
+    mints: [],
+    unreachableMints: [],
+    settledTokens,
+  };
+
+  for (const mintUrl of mints) {
+    const active = getProofsForMint(activeProofs, mintUrl);
+    const pending = getProofsForMint(pendingProofs, mintUrl);
+    let wallet: CashuWallet;
+    let unit: MintUnit;
+    let activeStates: Array<CheckStateEnum | undefined>;
+    let pendingStates: Array<CheckStateEnum | undefined>;
+    try {
+      ({ wallet, unit } = await getMintWallet(mintUrl));
+      activeStates = await checkStatesInBatches(wallet, active);
+      pendingStates = await checkStatesInBatches(wallet, pending);
+    } catch {
+      report.unreachableMints.push(mintUrl);
+      continue;
+    }
+
+    const spent = [
+      ...active.filter((_, index) => activeStates[index] === CheckStateEnum.SPENT),
+      ...pending.filter((_, index) => pendingStates[index] === CheckStateEnum.SPENT),
+    ];
+    const nowPending = active.filter(
+      (_, index) => activeStates[index] === CheckStateEnum.PENDING
+    );
+    const released = pending.filter(
+      (_, index) => pendingStates[index] === CheckStateEnum.UNSPENT
+    );
+
+    report.mints.push({
+      mintUrl,
+      checkedProofs: active.length + pending.length,
+      spentProofs: spent.length,
+      spentSats: toSats(sumProofAmounts(spent), unit),
+      pendingProofs: nowPending.length,
+      pendingSats: toSats(sumProofAmounts(nowPending), unit),
+      releasedProofs: released.length,
+      releasedSats: toSats(sumProofAmounts(released), unit),
+    });
+    if (spent.length === 0 && nowPending.length === 0 && released.length === 0) continue;
+
+    // Spent pending proofs go in `before` so the commit marks them spent;
+    // released ones only appear in `after` so they become unspent again.
+    const removedKeys = new Set([...spent, ...nowPending].map(proofIdentity));
+    const current = store.read();
+    const spentPending = spent.filter((proof) => pending.includes(proof));
+    await commitMintProofs(
+      mintUrl,
+      [...current, ...spentPending],
+      [...current.filter((proof) => !removedKeys.has(proofIdentity(proof))), ...released],
+      options,
+      nowPending
+    );
+  }
+
+  report.finishedAt = Date.now();
+  return report;
+}
@@ -0,0 +1,251 @@
+"use client";
+
+import { generateMnemonic, mnemonicToSeedSync, validateMnemonic } from "@scure/bip39";
+import { wordlist } from "@scure/bip39/wordlists/english.js";
+import {
+  fetchNip60WalletConfig,
+  publishNip60WalletMints,
+  type CloudSyncCapableAccount,
+  type WalletPublishResult,
+} from "@/lib/nip60WalletSync";
+
+const SEED_STORAGE_KEY = "platform_cashu_seed_v1";
+
+export const PLATFORM_SEED_UPDATED_EVENT = "platform-seed-updated";
+
+export type SeedStatus = "none" | "locked" | "unlocked";
+
+export interface SeedInfo {
+  status: SeedStatus;
+  pubkey: string | null;
+  createdAt: number | null;
+  syncedToNostr: boolean;
+}
+
+interface StoredSeed {
+  pubkey: string;
+  ciphertext: string;
+  createdAt: number;
+  syncedToNostr: boolean;
+}
+
+interface UnlockedSeed {
+  pubkey: string;
+  mnemonic: string;
+  seed: Uint8Array;
+}
+
+let unlockedSeed: UnlockedSeed | null = null;
+let seedVersion = 0;
+
+function isBrowser(): boolean {
+  return typeof window !== "undefined";
+}
+
+function readStoredSeed(): StoredSeed | null {
+  if (!isBrowser()) return null;
+  try {
+    const raw = localStorage.getItem(SEED_STORAGE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as Partial<StoredSeed>;
+    if (typeof parsed?.pubkey !== "string" || typeof parsed.ciphertext !== "string") {
+      return null;
+    }
+    return {
+      pubkey: parsed.pubkey,
+      ciphertext: parsed.ciphertext,
+      createdAt: Number(parsed.createdAt || 0),
+      syncedToNostr: Boolean(parsed.syncedToNostr),
+    };
+  } catch {
+    return null;
+  }
+}
+
+function writeStoredSeed(record: StoredSeed | null): void {
+  if (!isBrowser()) return;
+  if (record) {
+    localStorage.setItem(SEED_STORAGE_KEY, JSON.stringify(record));
+  } else {
+    localStorage.removeItem(SEED_STORAGE_KEY);
+  }
+}
+
+function emitSeedUpdated(): void {
+  if (!isBrowser()) return;
+  window.dispatchEvent(new Event(PLATFORM_SEED_UPDATED_EVENT));
+}
+
+function setUnlockedSeed(next: UnlockedSeed | null): void {
+  unlockedSeed = next;
+  seedVersion += 1;
+  emitSeedUpdated();
+}
+
+export function normalizeMnemonic(mnemonic: string): string {
+  return mnemonic.trim().toLowerCase().split(/\s+/).filter(Boolean).join(" ");
+}
+
+export function generateSeedMnemonic(): string {
+  return generateMnemonic(wordlist, 128);
+}
+
+export function isValidSeedMnemonic(mnemonic: string): boolean {
+  return validateMnemonic(normalizeMnemonic(mnemonic), wordlist);
+}
+
+export function readSeedInfo(): SeedInfo {
+  const stored = readStoredSeed();
+  if (!stored) {
+    return { status: "none", pubkey: null, createdAt: null, syncedToNostr: false };
+  }
+  return {
+    status: unlockedSeed?.pubkey === stored.pubkey ? "unlocked" : "locked",
+    pubkey: stored.pubkey,
+    createdAt: stored.createdAt || null,
+    syncedToNostr: stored.syncedToNostr,
+  };
+}
+
+/** BIP-39 seed bytes for NUT-13 secrets, or null while no seed is unlocked. */
+export function getActiveSeed(): Uint8Array | null {
+  return unlockedSeed?.seed ?? null;
+}
+
+/** Changes whenever the active seed changes, so cached wallets can be rebuilt. */
+export function getSeedVersion(): number {
+  return seedVersion;
+}
+
+export function getUnlockedMnemonic(): string | null {
+  return unlockedSeed?.mnemonic ?? null;
+}
+
+/**
+ * The mnemonic to keep in the NIP-60 wallet event when republishing it.
+ * Without a local seed the remote backup is preserved as-is.
+ */
+export function getWalletEventMnemonic(remoteMnemonic: string | null): string | null {
+  const stored = readStoredSeed();
+  if (!stored) return remoteMnemonic;
+  if (!stored.syncedToNostr) return null;
+  return unlockedSeed?.pubkey === stored.pubkey ? unlockedSeed.mnemonic : remoteMnemonic;
+}
+
+/**
+ * Decrypts the stored seed with the account's NIP-44 key. Returns false when
+ * no seed is stored for this account or decryption fails.
+ */
+export async function unlockStoredSeed(account: CloudSyncCapableAccount): Promise<boolean> {
+  const stored = readStoredSeed();
+  if (!stored || stored.pubkey !== account.pubkey) {
+    if (unlockedSeed) setUnlockedSeed(null);
+    return false;
+  }
+  if (unlockedSeed?.pubkey === account.pubkey) return true;
+
+  try {
+    const mnemonic = normalizeMnemonic(
+      await account.nip44.decrypt(account.pubkey, stored.ciphertext)
+    );
+    if (!validateMnemonic(mnemonic, wordlist)) return false;
+    setUnlockedSeed({
+      pubkey: account.pubkey,
+      mnemonic,
+      seed: mnemonicToSeedSync(mnemonic),
+    });
+    return true;
+  } catch (error) {
+    console.warn("Failed to unlock wallet seed:", error);
+    return false;
+  }
+}
+
+export function lockSeed(): void {
+  if (unlockedSeed) setUnlockedSeed(null);
+}
+
+/**
+ * Writes or clears the seed tag on the NIP-60 wallet event, keeping its
+ * privkey and mints. `queued` is true while the event waits for relays.
+ */
+export async function syncSeedToNostr(
+  account: CloudSyncCapableAccount,
+  enabled: boolean
+): Promise<WalletPublishResult> {
+  const stored = readStoredSeed();
+  if (enabled && (!stored || unlockedSeed?.pubkey !== account.pubkey)) {
+    throw new Error("Unlock the wallet seed before syncing it");
+  }
+
+  const walletConfig = await fetchNip60WalletConfig(account);
+  if (!walletConfig.privkey) {
+    throw new Error("Missing NIP-60 wallet key. Open routstr-chat wallet once, then retry.");
+  }
+
+  const result = await publishNip60WalletMints(
+    account,
+    walletConfig.mints,
+    walletConfig.privkey,
+    enabled ? unlockedSeed?.mnemonic : null
+  );
+  if (stored) {
+    writeStoredSeed({ ...stored, syncedToNostr: enabled });
+    emitSeedUpdated();
+  }
+  return result;
+}
+
+/**
+ * Encrypts the mnemonic to the account and makes it the active seed. Any
+ * previously stored seed is replaced.
+ */
+export async function saveSeedMnemonic(
+  account: CloudSyncCapableAccount,
+  mnemonic: string,
+  options: { syncToNostr?: boolean } = {}
+): Promise<WalletPublishResult> {
+  const normalized = normalizeMnemonic(mnemonic);
+  if (!validateMnemonic(normalized, wordlist)) {
+    throw new Error("Invalid recovery phrase");
+  }
+
+  const ciphertext = await account.nip44.encrypt(account.pubkey, normalized);
+  writeStoredSeed({
+    pubkey: account.pubkey,
+    ciphertext,
+    createdAt: Date.now(),
+    syncedToNostr: false,
+  });
+  setUnlockedSeed({
+    pubkey: account.pubkey,
+    mnemonic: normalized,
+    seed: mnemonicToSeedSync(normalized),
+  });
+
+  if (!options.syncToNostr) return { queued: false };
+  return syncSeedToNostr(account, true);
+}
+
+export async function fetchSeedFromNostr(
+  account: CloudSyncCapableAccount
+): Promise<string | null> {
+  const walletConfig = await fetchNip60WalletConfig(account);
+  if (!walletConfig.mnemonic || !isValidSeedMnemonic(walletConfig.mnemonic)) return null;
+  return normalizeMnemonic(walletConfig.mnemonic);
+}
+
+/**
+ * Replaces the stored seed with a record from a vault backup. The active seed
+ * is locked until the record's account unlocks it.
+ */
+export function importStoredSeed(raw: string): void {
+  if (!isBrowser()) return;
+  localStorage.setItem(SEED_STORAGE_KEY, raw);
+  setUnlockedSeed(null);
+}
+
+export function removeStoredSeed(): void {
+  writeStoredSeed(null);
+  setUnlockedSeed(null);
+}
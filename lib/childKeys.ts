@@ -0,0 +1,231 @@
+"use client";
+
+import {
+  RoutstrNodeClient,
+  type RoutstrBalanceInfo,
+  type RoutstrChildKeyRequest,
+} from "@/lib/routstrNodeClient";
+
+const CHILD_KEYS_STORAGE_KEY = "platform_child_keys";
+const STATUS_CHECK_CONCURRENCY = 4;
+
+export const PLATFORM_CHILD_KEYS_UPDATED_EVENT = "platform-child-keys-updated";
+
+export type ChildKeyState = "active" | "drained" | "expired" | "revoked";
+
+export interface ChildKeyStatus {
+  checkedAt: number;
+  totalSpentMsats: number;
+  balanceLimitMsats: number | null;
+  balanceLimitReset: string | null;
+  validityDateUnix: number | null;
+  /** Set when the last check failed, e.g. the node no longer knows the key. */
+  error?: string;
+}
+
+export interface ChildKeyRecord {
+  key: string;
+  parentKey: string;
+  baseUrl: string;
+  /** Who or what the key was handed out to. */
+  label?: string;
+  balanceLimitMsats: number | null;
+  balanceLimitReset: string | null;
+  validityDateUnix: number | null;
+  createdAt: number;
+  /**
+   * Nodes have no endpoint to disable a child key, so revocation is tracked
+   * here: revoked keys are no longer polled and can't be re-issued again.
+   */
+  revokedAt?: number;
+  /** The key this one was re-issued as. */
+  replacedBy?: string;
+  status?: ChildKeyStatus;
+}
+
+function readChildKeyStore(): ChildKeyRecord[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const parsed = JSON.parse(localStorage.getItem(CHILD_KEYS_STORAGE_KEY) || "[]");
+    return Array.isArray(parsed)
+      ? parsed.filter(
+          (item): item is ChildKeyRecord =>
+            typeof item?.key === "string" && typeof item?.parentKey === "string"
+        )
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeChildKeyStore(records: ChildKeyRecord[]): void {
+  localStorage.setItem(CHILD_KEYS_STORAGE_KEY, JSON.stringify(records));
+  window.dispatchEvent(new Event(PLATFORM_CHILD_KEYS_UPDATED_EVENT));
+}
+
+function updateChildKeys(
+  keys: string[],
+  update: (record: ChildKeyRecord) => ChildKeyRecord
+): void {
+  const targets = new Set(keys);
+  writeChildKeyStore(
+    readChildKeyStore().map((record) => (targets.has(record.key) ? update(record) : record))
+  );
+}
+
+export function readChildKeys(): ChildKeyRecord[] {
+  return readChildKeyStore();
+}
+
+export function getChildKeyState(record: ChildKeyRecord, now = Date.now()): ChildKeyState {
+  if (record.revokedAt) return "revoked";
+  const validity = record.status?.validityDateUnix ?? record.validityDateUnix;
+  if (validity !== null && now / 1000 > validity) return "expired";
+  const limit = record.status?.balanceLimitMsats ?? record.balanceLimitMsats;
+  if (limit !== null && record.status && record.status.totalSpentMsats >= limit) {
+    return "drained";
+  }
+  return "active";
+}
+
+/**
+ * Mints child keys from a parent key and stores them with the limits they
+ * were created with.
+ */
+export async function issueChildKeys(
+  baseUrl: string,
+  parentKey: string,
+  request: RoutstrChildKeyRequest,
+  label?: string
+): Promise<{ records: ChildKeyRecord[]; costMsats: number | null; parentBalance: number | null }> {
+  const result = await new RoutstrNodeClient(baseUrl).createChildKeys(parentKey, request);
+  const keys = Array.isArray(result.api_keys) ? result.api_keys.filter(Boolean) : [];
+  const createdAt = Date.now();
+  const records = keys.map(
+    (key): ChildKeyRecord => ({
+      key,
+      parentKey,
+      baseUrl,
+      label: label?.trim() || undefined,
+      balanceLimitMsats: request.balance_limit ?? null,
+      balanceLimitReset: request.balance_limit_reset ?? null,
+      validityDateUnix: request.validity_date ?? null,
+      createdAt,
+    })
+  );
+
+  if (records.length > 0) {
+    const created = new Set(keys);
+    writeChildKeyStore([
+      ...readChildKeyStore().filter((record) => !created.has(record.key)),
+      ...records,
+    ]);
+  }
+
+  return {
+    records,
+    costMsats: typeof result.cost_msats === "number" ? result.cost_msats : null,
+    parentBalance: typeof result.parent_balance === "number" ? result.parent_balance : null,
+  };
+}
+
+/**
+ * Mints a replacement with the same limits and label, then revokes the old
+ * key. An expired validity date isn't carried over.
+ */
+export async function reissueChildKey(record: ChildKeyRecord): Promise<ChildKeyRecord> {
+  if (record.revokedAt) {
+    throw new Error("Revoked keys can't be re-issued");
+  }
+  const request: RoutstrChildKeyRequest = { count: 1 };
+  if (record.balanceLimitMsats !== null) request.balance_limit = record.balanceLimitMsats;
+  if (record.balanceLimitReset) request.balance_limit_reset = record.balanceLimitReset;
+  if (record.validityDateUnix !== null && record.validityDateUnix > Date.now() / 1000) {
+    request.validity_date = record.validityDateUnix;
+  }
+
+  const { records } = await issueChildKeys(
+    record.baseUrl,
+    record.parentKey,
+    request,
+    record.label
+  );
+  const replacement = records[0];
+  if (!replacement) {
+    throw new Error("Node did not return a new child key");
+  }
+  updateChildKeys([record.key], (item) => ({
+    ...item,
+    revokedAt: Date.now(),
+    replacedBy: replacement.key,
+  }));
+  return replacement;
+}
+
+export function revokeChildKeys(keys: string[]): void {
+  const revokedAt = Date.now();
+  updateChildKeys(keys, (record) => (record.revokedAt ? record : { ...record, revokedAt }));
+}
+
+export function removeChildKeys(keys: string[]): void {
+  const targets = new Set(keys);
+  writeChildKeyStore(readChildKeyStore().filter((record) => !targets.has(record.key)));
+}
+
+/** Drops the child records of parents that were removed from the key list. */
+export function removeChildKeysForParents(parentKeys: string[]): void {
+  const parents = new Set(parentKeys);
+  const records = readChildKeyStore();
+  const remaining = records.filter((record) => !parents.has(record.parentKey));
+  if (remaining.length !== records.length) writeChildKeyStore(remaining);
+}
+
+function toStatus(info: RoutstrBalanceInfo): ChildKeyStatus {
+  return {
+    checkedAt: Date.now(),
+    totalSpentMsats: info.totalSpentMsats,
+    balanceLimitMsats: info.balanceLimitMsats,
+    balanceLimitReset: info.balanceLimitReset,
+    validityDateUnix: info.validityDateUnix,
+  };
+}
+
+/**
+ * Polls `v1/balance/info` for every non-revoked child key and stores the
+ * results. Failed checks keep the last known numbers alongside the error.
+ */
+export async function refreshChildKeyStatuses(): Promise<{ checked: number; failed: number }> {
+  const targets = readChildKeyStore().filter((record) => !record.revokedAt);
+  const statuses = new Map<string, ChildKeyStatus>();
+  let failed = 0;
+
+  for (let index = 0; index < targets.length; index += STATUS_CHECK_CONCURRENCY) {
+    await Promise.all(
+      targets.slice(index, index + STATUS_CHECK_CONCURRENCY).map(async (record) => {
+        try {
+          const info = await new RoutstrNodeClient(record.baseUrl).getBalanceInfo(record.key);
+          statuses.set(record.key, toStatus(info));
+        } catch (error) {
+          failed += 1;
+          statuses.set(record.key, {
+            totalSpentMsats: 0,
+            balanceLimitMsats: record.balanceLimitMsats,
+            balanceLimitReset: record.balanceLimitReset,
+            validityDateUnix: record.validityDateUnix,
+            ...record.status,
+            checkedAt: Date.now(),
+            error: error instanceof Error ? error.message : "Status check failed",
+          });
+        }
+      })
+    );
+  }
+
+  if (statuses.size > 0) {
+    updateChildKeys(Array.from(statuses.keys()), (record) => ({
+      ...record,
+      status: statuses.get(record.key) ?? record.status,
+    }));
+  }
+  return { checked: targets.length, failed };
+}
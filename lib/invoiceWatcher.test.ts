@@ -0,0 +1,275 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { deriveKeysetId, injectWebSocketImpl } from "@cashu/cashu-ts";
+import { startInvoiceWatcher } from "@/lib/invoiceWatcher";
+import {
+  readOutgoingTokens,
+  readWalletInvoices,
+  saveOutgoingToken,
+  upsertWalletInvoice,
+  type WalletInvoice,
+} from "@/lib/platformWallet";
+import { commitProofStates, ensureWalletStore } from "@/lib/walletStore";
+
+type Notify = (payload: unknown) => void;
+
+/** Mint WebSockets opened by cashu-ts, with the NUT-17 subscriptions they carry. */
+const sockets: FakeMintSocket[] = [];
+
+/** Answers NUT-17 JSON-RPC subscribe/unsubscribe requests like a mint would. */
+class FakeMintSocket {
+  readyState = 0;
+  onopen?: () => void;
+  onclose?: (event: unknown) => void;
+  onerror?: () => void;
+  onmessage?: (message: { data: string }) => void;
+  readonly subscriptions: Array<{ kind: string; filters: string[]; notify: Notify }> = [];
+
+  constructor(readonly url: string) {
+    sockets.push(this);
+    setTimeout(() => {
+      this.readyState = 1;
+      this.onopen?.();
+    });
+  }
+
+  send(raw: string) {
+    const request = JSON.parse(raw) as {
+      id: number;
+      method: string;
+      params: { kind: string; filters: string[]; subId: string };
+    };
+    if (request.method === "subscribe") {
+      const { kind, filters, subId } = request.params;
+      this.subscriptions.push({
+        kind,
+        filters,
+        notify: (payload) =>
+          this.reply({ jsonrpc: "2.0", method: "subscribe", params: { subId, payload } }),
+      });
+    }
+    this.reply({
+      jsonrpc: "2.0",
+      result: { status: "OK", subId: request.params.subId },
+      id: request.id,
+    });
+  }
+
+  close() {
+    this.readyState = 3;
+    this.onclose?.({});
+  }
+
+  private reply(message: unknown) {
+    setTimeout(() => this.onmessage?.({ data: JSON.stringify(message) }));
+  }
+}
+
+injectWebSocketImpl(FakeMintSocket as unknown as typeof WebSocket);
+
+const KEYS = {
+  "1": "02194603ffa36356f4a56b7df9371fc3192472351453ec7398b8da8117e7c3e104",
+  "2": "03b0f36d6d47ce14df8a7be9137712c42bcdd960b19dd02f1d4a9703b1f31d7513",
+};
+const KEYSET_ID = deriveKeysetId(KEYS);
+
+/**
+ * Serves the mint HTTP endpoints the watcher hits. `nut17` lists the
+ * subscription commands advertised in the mint info.
+ */
+function serveMint(mintUrl: string, nut17: string[]) {
+  const quoteStates = new Map<string, string>();
+  const spentSecrets = new Set<string>();
+  const quoteChecks: string[] = [];
+
+  const fetchMock = vi.fn(async (input: string | URL | Request, init?: RequestInit) => {
+    const url = String(input instanceof Request ? input.url : input);
+    const path = url.startsWith(mintUrl) ? url.slice(mintUrl.length) : url;
+    const json = (body: unknown) =>
+      new Response(JSON.stringify(body), { headers: { "Content-Type": "application/json" } });
+
+    if (path === "/v1/info") {
+      return json({
+        name: "Fake mint",
+        version: "test/0.0.0",
+        nuts:
+          nut17.length > 0
+            ? { 17: { supported: [{ method: "bolt11", unit: "sat", commands: nut17 }] } }
+            : {},
+      });
+    }
+    if (path === "/v1/keysets") {
+      return json({ keysets: [{ id: KEYSET_ID, unit: "sat", active: true, input_fee_ppk: 0 }] });
+    }
+    if (path.startsWith("/v1/keys")) {
+      return json({ keysets: [{ id: KEYSET_ID, unit: "sat", keys: KEYS }] });
+    }
+    const quote = path.match(/^\/v1\/(mint|melt)\/quote\/bolt11\/(.+)$/);
+    if (quote) {
+      const [, type, quoteId] = quote;
+      quoteChecks.push(quoteId);
+      const state = quoteStates.get(quoteId) ?? "UNPAID";
+      return json(
+        type === "mint"
+          ? { quote: quoteId, request: "lnbc1", amount: 21, unit: "sat", state, expiry: null }
+          : { quote: quoteId, amount: 21, unit: "sat", fee_reserve: 1, state, expiry: null }
+      );
+    }
+    if (path === "/v1/checkstate") {
+      const { Ys } = JSON.parse(String(init?.body)) as { Ys: string[] };
+      const state = spentSecrets.size > 0 ? "SPENT" : "UNSPENT";
+      return json({ states: Ys.map((Y) => ({ Y, state, witness: null })) });
+    }
+    return new Response("Not found", { status: 404 });
+  });
+  vi.stubGlobal("fetch", fetchMock);
+
+  return {
+    quoteChecks,
+    setQuoteState: (quoteId: string, state: string) => quoteStates.set(quoteId, state),
+    spend: (secret: string) => spentSecrets.add(secret),
+  };
+}
+
+function quoteInvoice(mintUrl: string, type: "mint" | "melt", quoteId: string): WalletInvoice {
+  return {
+    id: `${type}-${quoteId}`,
+    type,
+    mintUrl,
+    quoteId,
+    paymentRequest: "lnbc1",
+    amount: 21,
+    state: type === "mint" ? "UNPAID" : "PENDING",
+    createdAt: Date.now(),
+  };
+}
+
+function invoiceState(quoteId: string) {
+  return readWalletInvoices().find((invoice) => invoice.quoteId === quoteId)?.state;
+}
+
+describe("startInvoiceWatcher", () => {
+  let stop: (() => void) | null = null;
+
+  beforeEach(async () => {
+    localStorage.clear();
+    sockets.length = 0;
+    // jsdom has no IndexedDB, so the wallet store warns and uses localStorage
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    await ensureWalletStore();
+  });
+
+  afterEach(() => {
+    stop?.();
+    stop = null;
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("checks quotes as soon as the mint pushes an update", async () => {
+    const mintUrl = "https://push.mint.test";
+    const mint = serveMint(mintUrl, ["bolt11_mint_quote", "bolt11_melt_quote"]);
+    upsertWalletInvoice(quoteInvoice(mintUrl, "mint", "push-mint"));
+    upsertWalletInvoice(quoteInvoice(mintUrl, "melt", "push-melt"));
+    const onSettled = vi.fn();
+
+    stop = startInvoiceWatcher(() => null, onSettled);
+
+    await vi.waitFor(() => expect(sockets[0]?.subscriptions).toHaveLength(2));
+    expect(sockets).toHaveLength(1);
+    expect(sockets[0].url).toBe("wss://push.mint.test/v1/ws");
+    const [meltSub, mintSub] = [...sockets[0].subscriptions].sort((a, b) =>
+      a.kind.localeCompare(b.kind)
+    );
+    expect(meltSub).toMatchObject({ kind: "bolt11_melt_quote", filters: ["push-melt"] });
+    expect(mintSub).toMatchObject({ kind: "bolt11_mint_quote", filters: ["push-mint"] });
+    expect(mint.quoteChecks).toEqual(["push-mint", "push-melt"]);
+
+    // Well inside the 5 second poll, so only the push can explain the checks
+    mint.setQuoteState("push-melt", "PAID");
+    meltSub.notify({ quote: "push-melt", state: "PAID" });
+    await vi.waitFor(() => expect(onSettled).toHaveBeenCalledWith({ kind: "melt", count: 1 }));
+    expect(invoiceState("push-melt")).toBe("PAID");
+
+    mint.setQuoteState("push-mint", "ISSUED");
+    mintSub.notify({ quote: "push-mint", state: "ISSUED" });
+    await vi.waitFor(() => expect(invoiceState("push-mint")).toBe("ISSUED"));
+    expect(mint.quoteChecks).toEqual(["push-mint", "push-melt", "push-melt", "push-mint"]);
+  });
+
+  it("settles sent tokens when the mint reports their proofs spent", async () => {
+    const mintUrl = "https://proofs.mint.test";
+    const mint = serveMint(mintUrl, ["proof_state"]);
+    const proof = { id: KEYSET_ID, amount: 2, secret: "sent-secret", C: KEYS["2"], mintUrl };
+    await commitProofStates([{ proof, state: "pending" }]);
+    await saveOutgoingToken({
+      id: "sent-1",
+      token: "cashuBtoken",
+      mintUrl,
+      unit: "sat",
+      amountSats: 2,
+      purpose: "Test send",
+      proofs: [proof],
+      status: "pending",
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+
+    stop = startInvoiceWatcher(() => null, vi.fn());
+
+    await vi.waitFor(() => expect(sockets[0]?.subscriptions).toHaveLength(1));
+    const [subscription] = sockets[0].subscriptions;
+    expect(subscription.kind).toBe("proof_state");
+    expect(subscription.filters).toHaveLength(1);
+
+    mint.spend(proof.secret);
+    subscription.notify({ Y: subscription.filters[0], state: "SPENT", witness: null });
+    await vi.waitFor(() => expect(readOutgoingTokens()[0]?.status).toBe("redeemed"));
+  });
+
+  it("polls mints without NUT-17 support", async () => {
+    vi.useFakeTimers();
+    const mintUrl = "https://poll.mint.test";
+    const mint = serveMint(mintUrl, []);
+    upsertWalletInvoice(quoteInvoice(mintUrl, "melt", "poll-melt"));
+    const onSettled = vi.fn();
+
+    stop = startInvoiceWatcher(() => null, onSettled);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(mint.quoteChecks).toEqual(["poll-melt"]);
+
+    mint.setQuoteState("poll-melt", "PAID");
+    await vi.advanceTimersByTimeAsync(5_000);
+
+    expect(onSettled).toHaveBeenCalledWith({ kind: "melt", count: 1 });
+    expect(invoiceState("poll-melt")).toBe("PAID");
+    expect(sockets).toHaveLength(0);
+  });
+
+  it("keeps polling and resubscribes after the mint socket closes", async () => {
+    vi.useFakeTimers();
+    const mintUrl = "https://flaky.mint.test";
+    const mint = serveMint(mintUrl, ["bolt11_melt_quote"]);
+    upsertWalletInvoice(quoteInvoice(mintUrl, "melt", "flaky-melt"));
+    const onSettled = vi.fn();
+
+    stop = startInvoiceWatcher(() => null, onSettled);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(sockets[0].subscriptions).toHaveLength(1);
+
+    sockets[0].close();
+    // The retry waits 30 seconds, then the next 5 second tick reopens it
+    await vi.advanceTimersByTimeAsync(36_000);
+    expect(sockets).toHaveLength(2);
+    expect(sockets[1].subscriptions).toMatchObject([
+      { kind: "bolt11_melt_quote", filters: ["flaky-melt"] },
+    ]);
+    const checksWhileSubscribed = mint.quoteChecks.length;
+
+    // No push arrives, but the safety-net poll still finds the payment
+    mint.setQuoteState("flaky-melt", "PAID");
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(mint.quoteChecks.length).toBeGreaterThan(checksWhileSubscribed);
+    expect(onSettled).toHaveBeenCalledWith({ kind: "melt", count: 1 });
+  });
+});
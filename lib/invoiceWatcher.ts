@@ -0,0 +1,461 @@
+"use client";
+
+import type { MeltQuoteState, MintQuoteState, Proof } from "@cashu/cashu-ts";
+import {
+  claimMintQuote,
+  FALLBACK_MINT_URL,
+  getMintWallet,
+  refreshOutgoingTokens,
+  subscribeMeltQuotes,
+  subscribeMintQuotes,
+  subscribeProofStates,
+  type SubscriptionCanceller,
+} from "@/lib/cashuEngine";
+import type { CloudSyncCapableAccount, WalletProof } from "@/lib/nip60WalletSync";
+import { checkNodeInvoices } from "@/lib/nodeInvoices";
+import {
+  appendTransaction,
+  getProofsBalanceSats,
+  loadPlatformWallet,
+  readOutgoingTokens,
+  readWalletInvoices,
+  updateWalletInvoiceByQuote,
+  type WalletInvoice,
+  type WalletInvoiceState,
+  type WalletTransactionHistory,
+} from "@/lib/platformWallet";
+
+const WATCH_INTERVAL_MS = 5 * 1000;
+const NODE_CHECK_INTERVAL_MS = 15 * 1000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+// Safety-net polling for quotes and tokens that have a live subscription
+const SUBSCRIBED_POLL_INTERVAL_MS = 60 * 1000;
+const TOKEN_POLL_INTERVAL_MS = 60 * 1000;
+const SUBSCRIBE_RETRY_MS = 30 * 1000;
+const UNSUPPORTED_RETRY_MS = 10 * 60 * 1000;
+
+// Next time an unpaid quote is due, kept in memory so polling doesn't write to the store
+const nextCheckAt = new Map<string, number>();
+const inFlightQuotes = new Set<string>();
+const pendingClaims = new Map<string, Promise<WalletProof[]>>();
+// Live NUT-17 subscriptions by `quote:<id>` / `token:<id>`; null while opening
+const subscriptions = new Map<string, SubscriptionCanceller | null>();
+const subscribeRetryAt = new Map<string, number>();
+
+export interface QuoteCheckResult {
+  checked: number;
+  updated: number;
+  /** Sats minted from quotes that got paid. */
+  claimedSats: number;
+  /** Melt quotes whose Lightning payment completed. */
+  paidMelts: number;
+}
+
+export type SettledInvoice =
+  | { kind: "mint"; amount: number }
+  | { kind: "melt"; count: number }
+  | { kind: "node"; apiKey: string };
+
+export function mapMintStateToInvoiceState(state: MintQuoteState): WalletInvoiceState {
+  const upper = String(state).toUpperCase();
+  if (upper === "UNPAID") return "UNPAID";
+  if (upper === "PAID") return "PAID";
+  if (upper === "ISSUED") return "ISSUED";
+  return "PENDING";
+}
+
+export function mapMeltStateToInvoiceState(state: MeltQuoteState | string): WalletInvoiceState {
+  const upper = String(state).toUpperCase();
+  if (upper === "UNPAID") return "UNPAID";
+  if (upper === "PAID") return "PAID";
+  if (upper === "ISSUED") return "ISSUED";
+  if (upper === "EXPIRED" || upper === "FAILED") return "EXPIRED";
+  return "PENDING";
+}
+
+export function isAlreadyProcessedError(message: string): boolean {
+  const value = message.toLowerCase();
+  return (
+    value.includes("already issued") ||
+    value.includes("already minted") ||
+    value.includes("already spent") ||
+    value.includes("token already spent")
+  );
+}
+
+function addMintTransaction(
+  quoteId: string,
+  amount: number,
+  balance: number
+): WalletTransactionHistory {
+  return {
+    type: "mint",
+    amount,
+    timestamp: Date.now(),
+    status: "success",
+    message: "Tokens minted",
+    balance,
+    quoteId,
+  };
+}
+
+/**
+ * Mints the proofs for a paid quote, records the transaction and marks the
+ * invoice issued. Concurrent calls for the same quote share one claim, so the
+ * watcher and an open invoice dialog never mint twice.
+ */
+export function claimPaidMintQuote(
+  mintUrl: string,
+  quoteId: string,
+  amount: number,
+  options: { syncAccount?: CloudSyncCapableAccount | null } = {}
+): Promise<WalletProof[]> {
+  const existing = pendingClaims.get(quoteId);
+  if (existing) return existing;
+
+  const claim = (async () => {
+    const proofs = await claimMintQuote(mintUrl, quoteId, amount, options);
+    if (proofs.length > 0) {
+      appendTransaction(addMintTransaction(quoteId, amount, getProofsBalanceSats()));
+    }
+    updateWalletInvoiceByQuote(quoteId, { state: "ISSUED", paidAt: Date.now() });
+    return proofs;
+  })().finally(() => {
+    pendingClaims.delete(quoteId);
+  });
+  pendingClaims.set(quoteId, claim);
+  return claim;
+}
+
+/** Polls fresh quotes often and slows down as they age. */
+function getPollDelay(invoice: WalletInvoice, now: number): number {
+  if (subscriptions.get(`quote:${invoice.quoteId}`)) return SUBSCRIBED_POLL_INTERVAL_MS;
+  const age = now - invoice.createdAt;
+  if (age < 2 * 60 * 1000) return WATCH_INTERVAL_MS;
+  if (age < 15 * 60 * 1000) return 20 * 1000;
+  return 60 * 1000;
+}
+
+function isWatchedQuote(invoice: WalletInvoice): boolean {
+  if (invoice.type !== "mint" && invoice.type !== "melt") return false;
+  // Paid mint quotes are kept until their proofs are claimed
+  if (invoice.type === "mint" && invoice.state === "PAID") return true;
+  return invoice.state === "UNPAID" || invoice.state === "PENDING";
+}
+
+function isDue(invoice: WalletInvoice, now: number): boolean {
+  if (invoice.nextRetryAt && now < invoice.nextRetryAt) return false;
+  return now >= (nextCheckAt.get(invoice.quoteId) ?? 0);
+}
+
+/** True when the invoice was settled elsewhere while its check was running. */
+function settledMeanwhile(invoice: WalletInvoice): boolean {
+  const current = readWalletInvoices().find((item) => item.quoteId === invoice.quoteId);
+  if (!current) return true;
+  if (current.state === "ISSUED" || current.state === "EXPIRED") return true;
+  return invoice.type === "melt" && current.state === "PAID";
+}
+
+async function checkMintInvoice(
+  invoice: WalletInvoice,
+  mintUrl: string,
+  syncAccount: CloudSyncCapableAccount | null | undefined,
+  now: number
+): Promise<number> {
+  const { wallet } = await getMintWallet(mintUrl);
+  const quoteStatus = await wallet.checkMintQuote(invoice.quoteId);
+  const nextState = mapMintStateToInvoiceState(quoteStatus.state);
+
+  if (nextState === "ISSUED") {
+    // Claimed elsewhere, e.g. by the invoice dialog
+    updateWalletInvoiceByQuote(invoice.quoteId, {
+      state: "ISSUED",
+      paidAt: invoice.paidAt ?? Date.now(),
+      nextRetryAt: undefined,
+    });
+    return 0;
+  }
+  if (nextState === "PAID") {
+    updateWalletInvoiceByQuote(invoice.quoteId, {
+      state: "PAID",
+      paidAt: invoice.paidAt ?? Date.now(),
+    });
+    try {
+      const proofs = await claimPaidMintQuote(mintUrl, invoice.quoteId, invoice.amount, {
+        syncAccount,
+      });
+      return proofs.length > 0 ? invoice.amount : 0;
+    } catch (mintError) {
+      const message = mintError instanceof Error ? mintError.message : "Mint failed";
+      if (!isAlreadyProcessedError(message)) throw mintError;
+      updateWalletInvoiceByQuote(invoice.quoteId, { state: "ISSUED" });
+      return 0;
+    }
+  }
+
+  if (settledMeanwhile(invoice)) return 0;
+  if (invoice.expiresAt && now > invoice.expiresAt) {
+    updateWalletInvoiceByQuote(invoice.quoteId, { state: "EXPIRED" });
+  } else if (nextState !== invoice.state || invoice.nextRetryAt) {
+    updateWalletInvoiceByQuote(invoice.quoteId, { state: nextState, nextRetryAt: undefined });
+  }
+  return 0;
+}
+
+async function checkMeltInvoice(
+  invoice: WalletInvoice,
+  mintUrl: string,
+  now: number
+): Promise<boolean> {
+  const { wallet } = await getMintWallet(mintUrl);
+  const meltStatus = await wallet.checkMeltQuote(invoice.quoteId);
+  const nextState = mapMeltStateToInvoiceState(
+    String((meltStatus as { state?: string }).state || "")
+  );
+
+  if (settledMeanwhile(invoice)) return false;
+  if (nextState === "PAID" || nextState === "ISSUED") {
+    updateWalletInvoiceByQuote(invoice.quoteId, {
+      state: nextState,
+      paidAt: Date.now(),
+      nextRetryAt: undefined,
+    });
+    return true;
+  }
+  if (nextState === "UNPAID" && invoice.expiresAt && now > invoice.expiresAt) {
+    updateWalletInvoiceByQuote(invoice.quoteId, { state: "EXPIRED" });
+  } else if (nextState !== invoice.state || invoice.nextRetryAt) {
+    updateWalletInvoiceByQuote(invoice.quoteId, { state: nextState, nextRetryAt: undefined });
+  }
+  return false;
+}
+
+/**
+ * Checks pending mint and melt quotes across all mints, claiming proofs for
+ * paid mint quotes. Quotes are polled on a schedule that slows with age, and
+ * failed checks back off using the invoice's `retryCount`/`nextRetryAt`;
+ * `force` checks everything now.
+ */
+export async function checkPendingQuotes(
+  options: {
+    syncAccount?: CloudSyncCapableAccount | null;
+    fallbackMintUrl?: string;
+    force?: boolean;
+  } = {}
+): Promise<QuoteCheckResult> {
+  await loadPlatformWallet();
+  const now = Date.now();
+  const pending = readWalletInvoices()
+    .filter(isWatchedQuote)
+    .filter((invoice) => !inFlightQuotes.has(invoice.quoteId))
+    .filter((invoice) => options.force || isDue(invoice, now));
+
+  const result: QuoteCheckResult = { checked: 0, updated: 0, claimedSats: 0, paidMelts: 0 };
+  for (const invoice of pending) {
+    const mintUrl = invoice.mintUrl || options.fallbackMintUrl || FALLBACK_MINT_URL;
+    inFlightQuotes.add(invoice.quoteId);
+    result.checked += 1;
+    try {
+      if (invoice.type === "mint") {
+        const claimed = await checkMintInvoice(invoice, mintUrl, options.syncAccount, now);
+        if (claimed > 0) {
+          result.updated += 1;
+          result.claimedSats += claimed;
+        }
+      } else if (await checkMeltInvoice(invoice, mintUrl, now)) {
+        result.updated += 1;
+        result.paidMelts += 1;
+      }
+      nextCheckAt.set(invoice.quoteId, Date.now() + getPollDelay(invoice, now));
+    } catch (error) {
+      if (invoice.state === "UNPAID" && invoice.expiresAt && now > invoice.expiresAt) {
+        updateWalletInvoiceByQuote(invoice.quoteId, { state: "EXPIRED" });
+        continue;
+      }
+      const retryCount = (invoice.retryCount || 0) + 1;
+      updateWalletInvoiceByQuote(invoice.quoteId, {
+        retryCount,
+        nextRetryAt: Date.now() + Math.min(MAX_RETRY_DELAY_MS, WATCH_INTERVAL_MS * 2 ** retryCount),
+      });
+      console.warn("Failed to check quote", invoice.quoteId, error);
+    } finally {
+      inFlightQuotes.delete(invoice.quoteId);
+    }
+  }
+
+  return result;
+}
+
+function openSubscription(
+  key: string,
+  subscribe: (onError: (error: Error) => void) => Promise<SubscriptionCanceller | null>
+): void {
+  let opened: SubscriptionCanceller | null = null;
+  subscriptions.set(key, null);
+  const onError = () => {
+    // Ignore errors from a subscription that was already replaced
+    if (subscriptions.get(key) !== opened) return;
+    subscriptions.delete(key);
+    subscribeRetryAt.set(key, Date.now() + SUBSCRIBE_RETRY_MS);
+  };
+  void subscribe(onError)
+    .catch(() => null)
+    .then((cancel) => {
+      if (!subscriptions.has(key)) {
+        // Dropped or no longer wanted while opening
+        cancel?.();
+        return;
+      }
+      if (cancel) {
+        opened = cancel;
+        subscriptions.set(key, cancel);
+      } else {
+        subscriptions.delete(key);
+        subscribeRetryAt.set(key, Date.now() + UNSUPPORTED_RETRY_MS);
+      }
+    });
+}
+
+/**
+ * Keeps a NUT-17 subscription open for every pending quote and outgoing token
+ * on mints that support it. `onQuoteUpdate` and `onTokenSpent` fire as soon as
+ * the mint pushes a change; everything else is left to polling.
+ */
+function syncSubscriptions(
+  onQuoteUpdate: (quoteId: string) => void,
+  onTokenSpent: () => void
+): void {
+  const now = Date.now();
+  const wanted = new Set<string>();
+
+  for (const invoice of readWalletInvoices()) {
+    if (invoice.type !== "mint" && invoice.type !== "melt") continue;
+    if (invoice.state !== "UNPAID" && invoice.state !== "PENDING") continue;
+    const key = `quote:${invoice.quoteId}`;
+    wanted.add(key);
+    if (subscriptions.has(key) || now < (subscribeRetryAt.get(key) ?? 0)) continue;
+
+    const mintUrl = invoice.mintUrl || FALLBACK_MINT_URL;
+    const onUpdate = () => {
+      nextCheckAt.delete(invoice.quoteId);
+      onQuoteUpdate(invoice.quoteId);
+    };
+    openSubscription(key, (onError) =>
+      invoice.type === "mint"
+        ? subscribeMintQuotes(mintUrl, [invoice.quoteId], onUpdate, onError)
+        : subscribeMeltQuotes(mintUrl, [invoice.quoteId], onUpdate, onError)
+    );
+  }
+
+  for (const outgoing of readOutgoingTokens()) {
+    if (outgoing.status !== "pending") continue;
+    const key = `token:${outgoing.id}`;
+    wanted.add(key);
+    if (subscriptions.has(key) || now < (subscribeRetryAt.get(key) ?? 0)) continue;
+
+    openSubscription(key, (onError) =>
+      subscribeProofStates(
+        outgoing.mintUrl,
+        outgoing.proofs as Proof[],
+        (update) => {
+          if (String(update.state).toUpperCase() === "SPENT") onTokenSpent();
+        },
+        onError,
+        outgoing.unit === "msat" ? "msat" : "sat"
+      )
+    );
+  }
+
+  for (const [key, cancel] of Array.from(subscriptions.entries())) {
+    if (wanted.has(key)) continue;
+    subscriptions.delete(key);
+    cancel?.();
+  }
+}
+
+function closeSubscriptions(): void {
+  for (const cancel of Array.from(subscriptions.values())) {
+    cancel?.();
+  }
+  subscriptions.clear();
+  subscribeRetryAt.clear();
+}
+
+function hasUnsubscribedTokens(): boolean {
+  return readOutgoingTokens().some(
+    (outgoing) => outgoing.status === "pending" && !subscriptions.get(`token:${outgoing.id}`)
+  );
+}
+
+/**
+ * Watches pending mint, melt and node invoices for as long as the app is
+ * open, whatever page is showing. Quotes on mints with NUT-17 support are
+ * checked the moment the mint reports a change. `onSettled` is called for
+ * each invoice that got paid. Returns a cleanup.
+ */
+export function startInvoiceWatcher(
+  getSyncAccount: () => CloudSyncCapableAccount | null,
+  onSettled: (settled: SettledInvoice) => void
+): () => void {
+  let running = false;
+  let rerun = false;
+  let tokensDirty = false;
+  let lastNodeCheckAt = 0;
+  let lastTokenCheckAt = Date.now();
+
+  const check = async () => {
+    if (running) {
+      rerun = true;
+      return;
+    }
+    running = true;
+    try {
+      const result = await checkPendingQuotes({ syncAccount: getSyncAccount() });
+      syncSubscriptions(runCheck, () => {
+        tokensDirty = true;
+        runCheck();
+      });
+      if (result.claimedSats > 0) {
+        onSettled({ kind: "mint", amount: result.claimedSats });
+      }
+      if (result.paidMelts > 0) {
+        onSettled({ kind: "melt", count: result.paidMelts });
+      }
+
+      if (Date.now() - lastNodeCheckAt >= NODE_CHECK_INTERVAL_MS) {
+        lastNodeCheckAt = Date.now();
+        const { settled } = await checkNodeInvoices();
+        settled.forEach((apiKey) => onSettled({ kind: "node", apiKey }));
+      }
+
+      if (
+        tokensDirty ||
+        (Date.now() - lastTokenCheckAt >= TOKEN_POLL_INTERVAL_MS && hasUnsubscribedTokens())
+      ) {
+        tokensDirty = false;
+        lastTokenCheckAt = Date.now();
+        await refreshOutgoingTokens();
+      }
+    } finally {
+      running = false;
+    }
+    if (rerun) {
+      rerun = false;
+      runCheck();
+    }
+  };
+
+  function runCheck() {
+    void check().catch((error) => {
+      console.warn("Invoice check failed:", error);
+    });
+  }
+
+  runCheck();
+  const intervalId = window.setInterval(runCheck, WATCH_INTERVAL_MS);
+
+  return () => {
+    window.clearInterval(intervalId);
+    closeSubscriptions();
+  };
+}
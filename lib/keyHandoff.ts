@@ -0,0 +1,98 @@
+"use client";
+
+import {
+  derivePassphraseKey,
+  fromBase64Url,
+  toBase64Url,
+} from "@/lib/passphraseCrypto";
+
+/** Hash parameter carrying a passphrase-encrypted key for import. */
+export const HANDOFF_PARAM_NAME = "handoff";
+
+const HANDOFF_VERSION = "v1";
+const PBKDF2_ITERATIONS = 310_000;
+
+export interface KeyHandoff {
+  apiKey: string;
+  baseUrl?: string;
+  label?: string;
+}
+
+function getImportUrl(): URL {
+  return new URL("/", window.location.origin);
+}
+
+/**
+ * Builds an import link for the app's `api_key`/`base_url`/`label` params.
+ * Everything goes in the fragment, which browsers never send to servers.
+ */
+export function buildHandoffLink(handoff: KeyHandoff): string {
+  const params = new URLSearchParams({ api_key: handoff.apiKey });
+  if (handoff.baseUrl) params.set("base_url", handoff.baseUrl);
+  if (handoff.label) params.set("label", handoff.label);
+  const url = getImportUrl();
+  url.hash = params.toString();
+  return url.toString();
+}
+
+export async function buildEncryptedHandoffLink(
+  handoff: KeyHandoff,
+  passphrase: string
+): Promise<string> {
+  if (passphrase.length < 8) {
+    throw new Error("Use a passphrase of at least 8 characters");
+  }
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await derivePassphraseKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(
+      JSON.stringify({
+        api_key: handoff.apiKey,
+        base_url: handoff.baseUrl,
+        label: handoff.label,
+      })
+    )
+  );
+
+  const token = [
+    HANDOFF_VERSION,
+    toBase64Url(salt),
+    toBase64Url(iv),
+    toBase64Url(new Uint8Array(ciphertext)),
+  ].join(".");
+  const url = getImportUrl();
+  url.hash = new URLSearchParams({ [HANDOFF_PARAM_NAME]: token }).toString();
+  return url.toString();
+}
+
+export async function decryptHandoff(token: string, passphrase: string): Promise<KeyHandoff> {
+  const [version, salt, iv, data] = token.split(".");
+  if (version !== HANDOFF_VERSION || !salt || !iv || !data) {
+    throw new Error("This handoff link is malformed or from a newer version of the app");
+  }
+
+  let plaintext: ArrayBuffer;
+  try {
+    const key = await derivePassphraseKey(passphrase, fromBase64Url(salt), PBKDF2_ITERATIONS);
+    plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromBase64Url(iv) },
+      key,
+      fromBase64Url(data)
+    );
+  } catch {
+    throw new Error("Wrong passphrase or corrupted handoff link");
+  }
+
+  const payload = JSON.parse(new TextDecoder().decode(plaintext)) as Record<string, unknown>;
+  if (typeof payload.api_key !== "string" || !payload.api_key.trim()) {
+    throw new Error("Handoff link does not contain an API key");
+  }
+  return {
+    apiKey: payload.api_key.trim(),
+    baseUrl: typeof payload.base_url === "string" ? payload.base_url : undefined,
+    label: typeof payload.label === "string" ? payload.label : undefined,
+  };
+}
@@ -0,0 +1,172 @@
+"use client";
+
+const KEY_USAGE_STORAGE_KEY = "platform_key_usage_snapshots";
+const MAX_SNAPSHOTS_PER_KEY = 500;
+const SNAPSHOT_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+/** Burn rates are averaged over this much recent history. */
+const BURN_RATE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export const HOUR_MS = 60 * 60 * 1000;
+export const DAY_MS = 24 * HOUR_MS;
+
+export const PLATFORM_KEY_USAGE_UPDATED_EVENT = "platform-key-usage-updated";
+
+export type BalanceSnapshotSource = "manual" | "auto" | "playground";
+
+export interface BalanceSnapshot {
+  at: number;
+  /** Key balance in msats as reported by `v1/wallet/info`. */
+  balance: number;
+  source: BalanceSnapshotSource;
+}
+
+export interface KeyUsageHistory {
+  key: string;
+  baseUrl: string;
+  snapshots: BalanceSnapshot[];
+}
+
+export interface SpendBucket {
+  start: number;
+  spentMsats: number;
+}
+
+export interface KeyUsageSummary {
+  key: string;
+  baseUrl: string;
+  balance: number | null;
+  spentLastDayMsats: number;
+  /** Average spend per hour over recent history, or null without enough data. */
+  burnRateMsatsPerHour: number | null;
+  /** Hours until the balance runs out at the current burn rate. */
+  runwayHours: number | null;
+  lastSnapshotAt: number | null;
+}
+
+function readUsageStore(): Record<string, KeyUsageHistory> {
+  if (typeof window === "undefined") return {};
+  try {
+    const parsed = JSON.parse(localStorage.getItem(KEY_USAGE_STORAGE_KEY) || "{}");
+    return parsed && typeof parsed === "object"
+      ? (parsed as Record<string, KeyUsageHistory>)
+      : {};
+  } catch {
+    return {};
+  }
+}
+
+function writeUsageStore(store: Record<string, KeyUsageHistory>): void {
+  localStorage.setItem(KEY_USAGE_STORAGE_KEY, JSON.stringify(store));
+  window.dispatchEvent(new Event(PLATFORM_KEY_USAGE_UPDATED_EVENT));
+}
+
+export function readKeyUsageHistory(): KeyUsageHistory[] {
+  return Object.values(readUsageStore());
+}
+
+/**
+ * Appends a balance snapshot for a key. Runs of an unchanged balance are
+ * collapsed to their first and last snapshot to keep storage small.
+ */
+export function recordBalanceSnapshot(
+  key: string,
+  baseUrl: string,
+  balance: number,
+  source: BalanceSnapshotSource
+): void {
+  if (typeof window === "undefined" || !key || !Number.isFinite(balance)) return;
+  const store = readUsageStore();
+  const now = Date.now();
+  const history = store[key] ?? { key, baseUrl, snapshots: [] };
+  const snapshots = history.snapshots.filter(
+    (snapshot) => now - snapshot.at < SNAPSHOT_RETENTION_MS
+  );
+
+  const last = snapshots[snapshots.length - 1];
+  const previous = snapshots[snapshots.length - 2];
+  if (last && previous && last.balance === balance && previous.balance === balance) {
+    snapshots[snapshots.length - 1] = { at: now, balance, source };
+  } else {
+    snapshots.push({ at: now, balance, source });
+  }
+
+  store[key] = {
+    key,
+    baseUrl,
+    snapshots: snapshots.slice(-MAX_SNAPSHOTS_PER_KEY),
+  };
+  writeUsageStore(store);
+}
+
+export function removeKeyUsageHistory(keys: string[]): void {
+  if (keys.length === 0) return;
+  const store = readUsageStore();
+  keys.forEach((key) => delete store[key]);
+  writeUsageStore(store);
+}
+
+/**
+ * Spend between consecutive snapshots, attributed to the bucket of the later
+ * one. Balance increases are top-ups and don't count as negative spend.
+ */
+export function getSpendBuckets(
+  histories: KeyUsageHistory[],
+  bucketMs: number,
+  since: number,
+  now = Date.now()
+): SpendBucket[] {
+  const firstBucket = Math.floor(since / bucketMs) * bucketMs;
+  const buckets: SpendBucket[] = [];
+  for (let start = firstBucket; start <= now; start += bucketMs) {
+    buckets.push({ start, spentMsats: 0 });
+  }
+
+  for (const history of histories) {
+    for (let index = 1; index < history.snapshots.length; index += 1) {
+      const before = history.snapshots[index - 1];
+      const after = history.snapshots[index];
+      const spent = before.balance - after.balance;
+      if (spent <= 0 || after.at < firstBucket) continue;
+      const bucket = buckets[Math.floor((after.at - firstBucket) / bucketMs)];
+      if (bucket) bucket.spentMsats += spent;
+    }
+  }
+  return buckets;
+}
+
+function spentSince(history: KeyUsageHistory, since: number): number {
+  let spent = 0;
+  for (let index = 1; index < history.snapshots.length; index += 1) {
+    const delta = history.snapshots[index - 1].balance - history.snapshots[index].balance;
+    if (delta > 0 && history.snapshots[index].at >= since) spent += delta;
+  }
+  return spent;
+}
+
+export function summarizeKeyUsage(
+  history: KeyUsageHistory,
+  now = Date.now()
+): KeyUsageSummary {
+  const last = history.snapshots[history.snapshots.length - 1];
+  const windowStart = now - BURN_RATE_WINDOW_MS;
+  const inWindow = history.snapshots.filter((snapshot) => snapshot.at >= windowStart);
+  const observedMs =
+    inWindow.length >= 2 ? inWindow[inWindow.length - 1].at - inWindow[0].at : 0;
+  const windowSpend = spentSince(history, windowStart);
+
+  // Need at least a few minutes of history to say anything about the rate
+  const burnRate =
+    observedMs >= 5 * 60 * 1000 ? (windowSpend / observedMs) * HOUR_MS : null;
+  const balance = last ? last.balance : null;
+
+  return {
+    key: history.key,
+    baseUrl: history.baseUrl,
+    balance,
+    spentLastDayMsats: spentSince(history, now - DAY_MS),
+    burnRateMsatsPerHour: burnRate,
+    runwayHours:
+      burnRate && burnRate > 0 && balance !== null ? balance / burnRate : null,
+    lastSnapshotAt: last ? last.at : null,
+  };
+}
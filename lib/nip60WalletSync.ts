@@ -1,22 +1,34 @@
 "use client";
 
-import { SimplePool, type Event as NostrEvent, type EventTemplate } from "nostr-tools";
+import {
+  SimplePool,
+  getPublicKey,
+  type Event as NostrEvent,
+  type EventTemplate,
+} from "nostr-tools";
+import { hexToBytes } from "nostr-tools/utils";
 import type { Proof } from "@cashu/cashu-ts";
-
-const NOSTR_APP_CONFIG_STORAGE_KEY = "nostr:app-config";
-const NOSTR_RELAYS_STORAGE_KEY = "nostr_relays";
-
-const DEFAULT_SYNC_RELAYS = [
-  "wss://relay.chorus.community",
-  "wss://relay.damus.io",
-  "wss://relay.nostr.band",
-  "wss://nos.lol",
-];
+import type { WalletTransactionHistory } from "@/lib/platformWallet";
+import {
+  countQueuedPublishes,
+  getConfiguredRelayUrls,
+  getSyncRelays,
+  isRelayPublishError,
+  publishToRelays,
+  queryRelays,
+  readOutboxRelays,
+  setWalletRelayHints,
+} from "@/lib/relayManager";
+
+export { getConfiguredRelayUrls };
 
 const DEFAULT_TOKEN_QUERY_WAIT_MS = 7000;
 
 const CASHU_WALLET_KIND = 17375;
 const CASHU_TOKEN_KIND = 7375;
+const CASHU_HISTORY_KIND = 7376;
+const NUTZAP_INFO_KIND = 10019;
+const NUTZAP_KIND = 9321;
 
 export interface CloudSyncCapableAccount {
   pubkey: string;
@@ -47,24 +59,47 @@ interface DecryptedTokenEvent {
 interface Nip60WalletConfig {
   privkey: string | null;
   mints: string[];
+  mnemonic: string | null;
+  relays: string[];
 }
 
 type WalletTagTuple = [string, string];
 
-function isObject(value: unknown): value is Record<string, unknown> {
-  return typeof value === "object" && value !== null;
+export type Nip60HistoryDirection = "in" | "out";
+
+/** A decrypted NIP-60 spending history event (kind 7376). */
+export interface Nip60HistoryEntry {
+  id: string;
+  createdAt: number;
+  direction: Nip60HistoryDirection;
+  amount: number;
+  unit: string;
+  created: string[];
+  destroyed: string[];
+  redeemed: string[];
 }
 
-function uniqueRelayUrls(candidates: string[]): string[] {
-  const urls = new Set<string>();
-  for (const candidate of candidates) {
-    if (typeof candidate !== "string") continue;
-    const trimmed = candidate.trim();
-    if (!trimmed) continue;
-    if (!/^wss?:\/\//i.test(trimmed)) continue;
-    urls.add(trimmed);
-  }
-  return Array.from(urls);
+/** An incoming NIP-61 nutzap (kind 9321) with its P2PK-locked proofs. */
+export interface Nutzap {
+  id: string;
+  sender: string;
+  createdAt: number;
+  mintUrl: string;
+  unit: string;
+  proofs: Proof[];
+  comment: string;
+}
+
+export interface HistoryTimelineItem {
+  key: string;
+  transaction: WalletTransactionHistory;
+  /** Present locally, on relays, or both. */
+  local: boolean;
+  synced: boolean;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
 }
 
 function parseTokenPayload(payload: unknown): Nip60TokenPayload | null {
@@ -98,6 +133,33 @@ function proofIdentity(proof: Proof): string {
   return `${String(proof.id)}:${Number(proof.amount)}:${String((proof as { C?: string }).C || "")}`;
 }
 
+export interface WalletPublishResult {
+  /** True when too few relays confirmed and the event waits in the relay outbox. */
+  queued: boolean;
+}
+
+/**
+ * Publishes a wallet event, leaving it in the relay outbox for retries when
+ * too few relays confirm instead of failing the wallet operation.
+ */
+async function publishOrQueue(
+  event: NostrEvent,
+  options: { label: string; collapseKey?: string }
+): Promise<WalletPublishResult> {
+  try {
+    await publishToRelays(event, options);
+    return { queued: false };
+  } catch (error) {
+    if (!isRelayPublishError(error)) throw error;
+    return { queued: true };
+  }
+}
+
+/** NIP-60 wallet and token events still waiting in the relay outbox. */
+export function countUnsyncedWalletEvents(pubkey: string): number {
+  return countQueuedPublishes({ kinds: [CASHU_WALLET_KIND, CASHU_TOKEN_KIND], pubkey });
+}
+
 export function isCloudSyncCapableAccount(
   account: unknown
 ): account is CloudSyncCapableAccount {
@@ -113,90 +175,68 @@ export function isCloudSyncCapableAccount(
   );
 }
 
-export function getConfiguredRelayUrls(): string[] {
-  if (typeof window === "undefined") return DEFAULT_SYNC_RELAYS;
-
-  const fromAppConfig = (() => {
-    try {
-      const raw = localStorage.getItem(NOSTR_APP_CONFIG_STORAGE_KEY);
-      if (!raw) return [];
-      const parsed = JSON.parse(raw) as { relayUrls?: string[] };
-      return Array.isArray(parsed?.relayUrls) ? parsed.relayUrls : [];
-    } catch {
-      return [];
-    }
-  })();
+async function fetchDecryptedTokenEvents(
+  account: CloudSyncCapableAccount,
+  maxWaitMs = DEFAULT_TOKEN_QUERY_WAIT_MS
+): Promise<DecryptedTokenEvent[]> {
+  const events = await queryRelays(
+    {
+      kinds: [CASHU_TOKEN_KIND],
+      authors: [account.pubkey],
+      limit: 500,
+    },
+    { maxWaitMs }
+  );
 
-  const fromRelayStorage = (() => {
+  const decryptedEvents: DecryptedTokenEvent[] = [];
+  for (const event of events) {
     try {
-      const raw = localStorage.getItem(NOSTR_RELAYS_STORAGE_KEY);
-      if (!raw) return [];
-      const parsed = JSON.parse(raw);
-      return Array.isArray(parsed) ? parsed : [];
+      const decrypted = await account.nip44.decrypt(account.pubkey, event.content);
+      const token = parseTokenPayload(JSON.parse(decrypted));
+      if (!token) continue;
+      decryptedEvents.push({
+        id: event.id,
+        createdAt: event.created_at,
+        token,
+      });
     } catch {
-      return [];
+      // Ignore malformed or undecryptable token events for this account
     }
-  })();
-
-  const relays = uniqueRelayUrls([
-    ...fromAppConfig,
-    ...fromRelayStorage,
-    ...DEFAULT_SYNC_RELAYS,
-  ]);
+  }
 
-  return relays.length > 0 ? relays : DEFAULT_SYNC_RELAYS;
+  return decryptedEvents;
 }
 
-async function fetchDecryptedTokenEvents(
-  account: CloudSyncCapableAccount,
-  relays: string[],
-  maxWaitMs = DEFAULT_TOKEN_QUERY_WAIT_MS
-): Promise<DecryptedTokenEvent[]> {
-  const pool = new SimplePool();
-  try {
-    const events = await pool.querySync(
-      relays,
-      {
-        kinds: [CASHU_TOKEN_KIND],
-        authors: [account.pubkey],
-        limit: 500,
-      },
-      { maxWait: maxWaitMs }
-    );
+export interface Nip60WalletState {
+  proofs: WalletProof[];
+  /** Mints with more than one live token event, i.e. divergent snapshots. */
+  divergentMints: string[];
+}
 
-    const decryptedEvents: DecryptedTokenEvent[] = [];
-    for (const event of events) {
-      try {
-        const decrypted = await account.nip44.decrypt(account.pubkey, event.content);
-        const token = parseTokenPayload(JSON.parse(decrypted));
-        if (!token) continue;
-        decryptedEvents.push({
-          id: event.id,
-          createdAt: event.created_at,
-          token,
-        });
-      } catch {
-        // Ignore malformed or undecryptable token events for this account
-      }
-    }
+export interface Nip60LiveTokenEvent {
+  id: string;
+  createdAt: number;
+  mintUrl: string;
+  proofs: WalletProof[];
+}
 
-    return decryptedEvents;
-  } finally {
-    pool.close(relays);
-    pool.destroy();
-  }
+export interface Nip60ConflictRecord {
+  id: string;
+  mintUrl: string;
+  resolvedAt: number;
+  divergentEventIds: string[];
+  mergedProofs: number;
+  mergedSats: number;
+  droppedSpentProofs: number;
 }
 
-export async function fetchNip60ActiveProofs(
+export const NIP60_CONFLICTS_UPDATED_EVENT = "platform-nip60-conflicts-updated";
+
+async function fetchLiveTokenEvents(
   account: CloudSyncCapableAccount,
-  options?: { maxWaitMs?: number }
-): Promise<WalletProof[]> {
-  const relays = getConfiguredRelayUrls();
-  const tokenEvents = await fetchDecryptedTokenEvents(
-    account,
-    relays,
-    options?.maxWaitMs
-  );
+  maxWaitMs?: number
+): Promise<Nip60LiveTokenEvent[]> {
+  const tokenEvents = await fetchDecryptedTokenEvents(account, maxWaitMs);
 
   const deletedEventIds = new Set<string>();
   for (const event of tokenEvents) {
@@ -205,24 +245,97 @@ export async function fetchNip60ActiveProofs(
     }
   }
 
-  const sortedEvents = [...tokenEvents].sort((a, b) => {
-    if (a.createdAt !== b.createdAt) return a.createdAt - b.createdAt;
-    return a.id.localeCompare(b.id);
-  });
+  return tokenEvents
+    .filter((event) => !deletedEventIds.has(event.id))
+    .sort((a, b) => {
+      if (a.createdAt !== b.createdAt) return a.createdAt - b.createdAt;
+      return a.id.localeCompare(b.id);
+    })
+    .map((event) => {
+      const mintUrl = normalizeMintUrl(event.token.mint);
+      return {
+        id: event.id,
+        createdAt: event.createdAt,
+        mintUrl,
+        proofs: event.token.proofs.map((proof) => ({
+          ...proof,
+          mintUrl: event.token.mint,
+          eventId: event.id,
+        })),
+      };
+    });
+}
+
+/**
+ * Reads the live token events and merges their proofs by identity. Each
+ * snapshot should replace all earlier ones for its mint, so a mint with more
+ * than one live event was updated concurrently from two devices.
+ */
+export async function fetchNip60WalletState(
+  account: CloudSyncCapableAccount,
+  options?: { maxWaitMs?: number }
+): Promise<Nip60WalletState> {
+  const liveEvents = await fetchLiveTokenEvents(account, options?.maxWaitMs);
 
   const proofByIdentity = new Map<string, WalletProof>();
-  for (const event of sortedEvents) {
-    if (deletedEventIds.has(event.id)) continue;
-    for (const proof of event.token.proofs) {
-      proofByIdentity.set(proofIdentity(proof), {
-        ...proof,
-        mintUrl: event.token.mint,
-        eventId: event.id,
-      });
+  const eventsPerMint = new Map<string, number>();
+  for (const event of liveEvents) {
+    eventsPerMint.set(event.mintUrl, (eventsPerMint.get(event.mintUrl) || 0) + 1);
+    for (const proof of event.proofs) {
+      proofByIdentity.set(proofIdentity(proof), proof);
     }
   }
 
-  return Array.from(proofByIdentity.values());
+  return {
+    proofs: Array.from(proofByIdentity.values()),
+    divergentMints: Array.from(eventsPerMint.entries())
+      .filter(([, count]) => count > 1)
+      .map(([mintUrl]) => mintUrl),
+  };
+}
+
+export async function fetchNip60ActiveProofs(
+  account: CloudSyncCapableAccount,
+  options?: { maxWaitMs?: number }
+): Promise<WalletProof[]> {
+  return (await fetchNip60WalletState(account, options)).proofs;
+}
+
+/** Live token events for one mint, oldest first. */
+export async function fetchNip60MintEvents(
+  account: CloudSyncCapableAccount,
+  mintUrl: string,
+  options?: { maxWaitMs?: number }
+): Promise<Nip60LiveTokenEvent[]> {
+  const normalizedMint = normalizeMintUrl(mintUrl);
+  const liveEvents = await fetchLiveTokenEvents(account, options?.maxWaitMs);
+  return liveEvents.filter((event) => event.mintUrl === normalizedMint);
+}
+
+const NIP60_CONFLICTS_STORAGE_KEY = "platform_nip60_conflicts";
+const MAX_CONFLICT_RECORDS = 20;
+
+export function readNip60Conflicts(): Nip60ConflictRecord[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const parsed = JSON.parse(localStorage.getItem(NIP60_CONFLICTS_STORAGE_KEY) || "[]");
+    return Array.isArray(parsed) ? (parsed as Nip60ConflictRecord[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function recordNip60Conflict(record: Nip60ConflictRecord): void {
+  if (typeof window === "undefined") return;
+  const next = [record, ...readNip60Conflicts()].slice(0, MAX_CONFLICT_RECORDS);
+  localStorage.setItem(NIP60_CONFLICTS_STORAGE_KEY, JSON.stringify(next));
+  window.dispatchEvent(new Event(NIP60_CONFLICTS_UPDATED_EVENT));
+}
+
+export function clearNip60Conflicts(): void {
+  if (typeof window === "undefined") return;
+  localStorage.removeItem(NIP60_CONFLICTS_STORAGE_KEY);
+  window.dispatchEvent(new Event(NIP60_CONFLICTS_UPDATED_EVENT));
 }
 
 export function getProofsForMint(
@@ -261,11 +374,13 @@ export function annotateProofsWithMint(
 
 function parseWalletTags(payload: unknown): Nip60WalletConfig {
   if (!Array.isArray(payload)) {
-    return { privkey: null, mints: [] };
+    return { privkey: null, mints: [], mnemonic: null, relays: [] };
   }
 
   let privkey: string | null = null;
+  let mnemonic: string | null = null;
   const mints = new Set<string>();
+  const relays: string[] = [];
 
   for (const item of payload) {
     if (!Array.isArray(item) || item.length < 2) continue;
@@ -276,36 +391,43 @@ function parseWalletTags(payload: unknown): Nip60WalletConfig {
       privkey = value.trim();
       continue;
     }
+    if (key === "mnemonic" && value.trim()) {
+      mnemonic = value.trim();
+      continue;
+    }
     if (key === "mint" && value.trim()) {
       const normalizedMint = normalizeMintUrl(value);
       if (normalizedMint) mints.add(normalizedMint);
+      continue;
+    }
+    if (key === "relay" && value.trim()) {
+      relays.push(value.trim());
     }
   }
 
   return {
     privkey,
     mints: Array.from(mints),
+    mnemonic,
+    relays,
   };
 }
 
 export async function fetchNip60WalletConfig(
   account: CloudSyncCapableAccount
 ): Promise<Nip60WalletConfig> {
-  const relays = getConfiguredRelayUrls();
-  const pool = new SimplePool();
   try {
-    const events = await pool.querySync(
-      relays,
+    const events = await queryRelays(
       {
         kinds: [CASHU_WALLET_KIND],
         authors: [account.pubkey],
         limit: 50,
       },
-      { maxWait: 7000 }
+      { maxWaitMs: 7000 }
     );
 
     if (!events || events.length === 0) {
-      return { privkey: null, mints: [] };
+      return { privkey: null, mints: [], mnemonic: null, relays: [] };
     }
 
     const latest = [...events].sort((a, b) => {
@@ -314,54 +436,56 @@ export async function fetchNip60WalletConfig(
     })[0];
 
     const decrypted = await account.nip44.decrypt(account.pubkey, latest.content);
-    return parseWalletTags(JSON.parse(decrypted));
+    const config = parseWalletTags(JSON.parse(decrypted));
+    setWalletRelayHints(account.pubkey, config.relays);
+    return config;
   } catch {
-    return { privkey: null, mints: [] };
-  } finally {
-    pool.close(relays);
-    pool.destroy();
+    return { privkey: null, mints: [], mnemonic: null, relays: [] };
   }
 }
 
+/**
+ * Publishes the NIP-60 wallet event. `mnemonic` carries the optional NUT-13
+ * seed backup; pass the current one when only mints change so it isn't dropped.
+ */
 export async function publishNip60WalletMints(
   account: CloudSyncCapableAccount,
   mints: string[],
-  privkey: string
-): Promise<void> {
-  const relays = getConfiguredRelayUrls();
-  const pool = new SimplePool();
-  try {
-    const normalizedMints = Array.from(
-      new Set(
-        mints
-          .map((mint) => normalizeMintUrl(mint))
-          .filter((mint) => mint.length > 0)
-      )
-    );
-
-    const tags: WalletTagTuple[] = [
-      ["privkey", String(privkey)],
-      ...normalizedMints.map((mint): WalletTagTuple => ["mint", mint]),
-    ];
+  privkey: string,
+  mnemonic?: string | null
+): Promise<WalletPublishResult> {
+  const normalizedMints = Array.from(
+    new Set(
+      mints
+        .map((mint) => normalizeMintUrl(mint))
+        .filter((mint) => mint.length > 0)
+    )
+  );
 
-    const encryptedContent = await account.nip44.encrypt(
-      account.pubkey,
-      JSON.stringify(tags)
-    );
+  const tags: WalletTagTuple[] = [
+    ["privkey", String(privkey)],
+    ...normalizedMints.map((mint): WalletTagTuple => ["mint", mint]),
+    ...(mnemonic ? [["mnemonic", mnemonic] as WalletTagTuple] : []),
+    // Keep the wallet's relay hints when rewriting the event
+    ...(readOutboxRelays(account.pubkey)?.walletRelays || []).map(
+      (relay): WalletTagTuple => ["relay", relay]
+    ),
+  ];
+
+  const encryptedContent = await account.nip44.encrypt(
+    account.pubkey,
+    JSON.stringify(tags)
+  );
 
-    const template: EventTemplate = {
-      kind: CASHU_WALLET_KIND,
-      created_at: Math.floor(Date.now() / 1000),
-      tags: [],
-      content: encryptedContent,
-    };
+  const template: EventTemplate = {
+    kind: CASHU_WALLET_KIND,
+    created_at: Math.floor(Date.now() / 1000),
+    tags: [],
+    content: encryptedContent,
+  };
 
-    const signedEvent = await account.signEvent(template);
-    await Promise.allSettled(pool.publish(relays, signedEvent));
-  } finally {
-    pool.close(relays);
-    pool.destroy();
-  }
+  const signedEvent = await account.signEvent(template);
+  return publishOrQueue(signedEvent, { label: "NIP-60 wallet" });
 }
 
 export async function publishNip60MintSnapshot(
@@ -369,40 +493,299 @@ export async function publishNip60MintSnapshot(
   mintUrl: string,
   proofs: WalletProof[],
   eventIdsToDelete: string[]
-): Promise<string> {
-  const relays = getConfiguredRelayUrls();
-  const pool = new SimplePool();
-  try {
-    const payload: Nip60TokenPayload = {
-      mint: mintUrl,
-      proofs: proofs.map((proof) => ({
-        id: String(proof.id),
-        amount: Number(proof.amount),
-        secret: String(proof.secret),
-        C: String(proof.C),
-      })),
-      ...(eventIdsToDelete.length > 0
-        ? { del: Array.from(new Set(eventIdsToDelete)) }
-        : {}),
-    };
+): Promise<WalletPublishResult & { eventId: string }> {
+  const payload: Nip60TokenPayload = {
+    mint: mintUrl,
+    proofs: proofs.map((proof) => ({
+      id: String(proof.id),
+      amount: Number(proof.amount),
+      secret: String(proof.secret),
+      C: String(proof.C),
+    })),
+    ...(eventIdsToDelete.length > 0
+      ? { del: Array.from(new Set(eventIdsToDelete)) }
+      : {}),
+  };
 
-    const encryptedContent = await account.nip44.encrypt(
-      account.pubkey,
-      JSON.stringify(payload)
-    );
+  const encryptedContent = await account.nip44.encrypt(
+    account.pubkey,
+    JSON.stringify(payload)
+  );
+
+  const template: EventTemplate = {
+    kind: CASHU_TOKEN_KIND,
+    created_at: Math.floor(Date.now() / 1000),
+    tags: [],
+    content: encryptedContent,
+  };
+
+  const signedEvent = await account.signEvent(template);
+  // Later snapshots delete this one by id, so a queued copy is safe to keep
+  const result = await publishOrQueue(signedEvent, {
+    label: "NIP-60 token snapshot",
+    collapseKey: `${CASHU_TOKEN_KIND}:${account.pubkey}:${mintUrl}`,
+  });
+  return { ...result, eventId: signedEvent.id };
+}
+
+function parseHistoryTags(
+  event: NostrEvent,
+  payload: unknown
+): Nip60HistoryEntry | null {
+  if (!Array.isArray(payload)) return null;
+  const entry: Nip60HistoryEntry = {
+    id: event.id,
+    createdAt: event.created_at,
+    direction: "in",
+    amount: 0,
+    unit: "sat",
+    created: [],
+    destroyed: [],
+    redeemed: [],
+  };
+  let hasDirection = false;
+
+  for (const tag of [...payload, ...event.tags]) {
+    if (!Array.isArray(tag) || typeof tag[0] !== "string") continue;
+    const [name, value, , marker] = tag as string[];
+    if (name === "direction" && (value === "in" || value === "out")) {
+      entry.direction = value;
+      hasDirection = true;
+    } else if (name === "amount") {
+      entry.amount = Number(value) || 0;
+    } else if (name === "unit" && typeof value === "string") {
+      entry.unit = value;
+    } else if (name === "e" && typeof value === "string") {
+      if (marker === "created") entry.created.push(value);
+      if (marker === "destroyed") entry.destroyed.push(value);
+      if (marker === "redeemed") entry.redeemed.push(value);
+    }
+  }
+
+  return hasDirection && entry.amount > 0 ? entry : null;
+}
+
+export function getHistoryDirection(
+  transaction: Pick<WalletTransactionHistory, "type">
+): Nip60HistoryDirection {
+  return transaction.type === "send" ? "out" : "in";
+}
+
+/**
+ * Publishes a successful wallet transaction as a NIP-60 history event. The
+ * event's created_at matches the transaction time so timelines can dedupe it.
+ */
+export async function publishNip60HistoryEvent(
+  account: CloudSyncCapableAccount,
+  transaction: WalletTransactionHistory
+): Promise<WalletPublishResult & { eventId: string }> {
+  const contentTags: string[][] = [
+    ["direction", getHistoryDirection(transaction)],
+    ["amount", String(Math.round(transaction.amount))],
+    ["unit", "sat"],
+    ...(transaction.tokenEvents?.created || []).map((id) => ["e", id, "", "created"]),
+    ...(transaction.tokenEvents?.destroyed || []).map((id) => ["e", id, "", "destroyed"]),
+  ];
+
+  const encryptedContent = await account.nip44.encrypt(
+    account.pubkey,
+    JSON.stringify(contentTags)
+  );
+
+  const template: EventTemplate = {
+    kind: CASHU_HISTORY_KIND,
+    created_at: Math.floor(transaction.timestamp / 1000),
+    tags: (transaction.tokenEvents?.redeemed || []).map((id) => ["e", id, "", "redeemed"]),
+    content: encryptedContent,
+  };
+
+  const signedEvent = await account.signEvent(template);
+  const result = await publishOrQueue(signedEvent, { label: "NIP-60 history" });
+  return { ...result, eventId: signedEvent.id };
+}
+
+export async function fetchNip60History(
+  account: CloudSyncCapableAccount,
+  options?: { maxWaitMs?: number; limit?: number }
+): Promise<Nip60HistoryEntry[]> {
+  const events = await queryRelays(
+    {
+      kinds: [CASHU_HISTORY_KIND],
+      authors: [account.pubkey],
+      limit: options?.limit ?? 200,
+    },
+    { maxWaitMs: options?.maxWaitMs ?? DEFAULT_TOKEN_QUERY_WAIT_MS }
+  );
+
+  const entries = new Map<string, Nip60HistoryEntry>();
+  for (const event of events) {
+    try {
+      const decrypted = await account.nip44.decrypt(account.pubkey, event.content);
+      const entry = parseHistoryTags(event, JSON.parse(decrypted));
+      if (entry) entries.set(entry.id, entry);
+    } catch {
+      // Ignore malformed or undecryptable history events for this account
+    }
+  }
+  return Array.from(entries.values());
+}
+
+function timelineKey(direction: Nip60HistoryDirection, amount: number, seconds: number): string {
+  return `${direction}:${Math.round(amount)}:${seconds}`;
+}
+
+/**
+ * Merges local transactions with relay history into one timeline, newest
+ * first. Entries match when they share a token event reference or the same
+ * direction, amount and second.
+ */
+export function mergeTransactionHistory(
+  local: WalletTransactionHistory[],
+  remote: Nip60HistoryEntry[]
+): HistoryTimelineItem[] {
+  const items: HistoryTimelineItem[] = local.map((transaction, index) => ({
+    key: `local:${transaction.timestamp}:${index}`,
+    transaction,
+    local: true,
+    synced: false,
+  }));
+  const byKey = new Map(
+    items.map((item) => [
+      timelineKey(
+        getHistoryDirection(item.transaction),
+        item.transaction.amount,
+        Math.floor(item.transaction.timestamp / 1000)
+      ),
+      item,
+    ])
+  );
+  const byEventRef = new Map<string, HistoryTimelineItem>();
+  for (const item of items) {
+    const refs = item.transaction.tokenEvents;
+    for (const id of [...(refs?.created || []), ...(refs?.destroyed || [])]) {
+      byEventRef.set(id, item);
+    }
+  }
 
-    const template: EventTemplate = {
-      kind: CASHU_TOKEN_KIND,
-      created_at: Math.floor(Date.now() / 1000),
-      tags: [],
-      content: encryptedContent,
+  for (const entry of remote) {
+    const key = timelineKey(entry.direction, entry.amount, entry.createdAt);
+    const match =
+      byKey.get(key) ||
+      [...entry.created, ...entry.destroyed]
+        .map((id) => byEventRef.get(id))
+        .find((item): item is HistoryTimelineItem => Boolean(item));
+    if (match) {
+      match.synced = true;
+      continue;
+    }
+
+    const item: HistoryTimelineItem = {
+      key: `relay:${entry.id}`,
+      transaction: {
+        type: entry.direction === "out" ? "send" : "import",
+        amount: entry.unit === "msat" ? Math.floor(entry.amount / 1000) : entry.amount,
+        timestamp: entry.createdAt * 1000,
+        status: "success",
+        tokenEvents: { created: entry.created, destroyed: entry.destroyed },
+      },
+      local: false,
+      synced: true,
     };
+    items.push(item);
+    byKey.set(key, item);
+  }
+
+  return items.sort((a, b) => b.transaction.timestamp - a.transaction.timestamp);
+}
+
+/** The P2PK pubkey senders lock nutzaps to, derived from the wallet privkey. */
+export function getNutzapPubkey(privkey: string): string {
+  return `02${getPublicKey(hexToBytes(privkey))}`;
+}
+
+/**
+ * Publishes the kind 10019 nutzap info event so senders know which relays,
+ * mints and P2PK pubkey to use when zapping this account.
+ */
+export async function publishNutzapInfo(
+  account: CloudSyncCapableAccount,
+  mints: string[],
+  privkey: string
+): Promise<WalletPublishResult> {
+  const relays = getSyncRelays(account.pubkey, "read");
+  const normalizedMints = Array.from(
+    new Set(mints.map((mint) => normalizeMintUrl(mint)).filter(Boolean))
+  );
+  const template: EventTemplate = {
+    kind: NUTZAP_INFO_KIND,
+    created_at: Math.floor(Date.now() / 1000),
+    tags: [
+      ...relays.map((relay) => ["relay", relay]),
+      ...normalizedMints.map((mint) => ["mint", mint, "sat"]),
+      ["pubkey", getNutzapPubkey(privkey)],
+    ],
+    content: "",
+  };
+
+  const signedEvent = await account.signEvent(template);
+  return publishOrQueue(signedEvent, { label: "Nutzap info" });
+}
+
+function parseNutzapEvent(event: NostrEvent): Nutzap | null {
+  const mintTag = event.tags.find((tag) => tag[0] === "u" && typeof tag[1] === "string");
+  if (!mintTag) return null;
+
+  const proofs: Proof[] = [];
+  for (const tag of event.tags) {
+    if (tag[0] !== "proof" || typeof tag[1] !== "string") continue;
+    try {
+      const proof = JSON.parse(tag[1]) as Proof;
+      if (proof && typeof proof.secret === "string" && Number(proof.amount) > 0) {
+        proofs.push(proof);
+      }
+    } catch {
+      // Skip malformed proof tags
+    }
+  }
+  if (proofs.length === 0) return null;
 
-    const signedEvent = await account.signEvent(template);
-    await Promise.allSettled(pool.publish(relays, signedEvent));
-    return signedEvent.id;
-  } finally {
+  const unitTag = event.tags.find((tag) => tag[0] === "unit");
+  return {
+    id: event.id,
+    sender: event.pubkey,
+    createdAt: event.created_at,
+    mintUrl: normalizeMintUrl(mintTag[1]),
+    unit: unitTag?.[1] || "sat",
+    proofs,
+    comment: event.content,
+  };
+}
+
+/**
+ * Streams nutzaps addressed to the account, starting with stored events newer
+ * than `since`. Returns a function that closes the subscription.
+ */
+export function subscribeNutzaps(
+  account: Pick<CloudSyncCapableAccount, "pubkey">,
+  since: number,
+  onNutzap: (nutzap: Nutzap) => void
+): () => void {
+  const relays = getSyncRelays(account.pubkey, "read");
+  const pool = new SimplePool();
+  const subscription = pool.subscribeMany(
+    relays,
+    { kinds: [NUTZAP_KIND], "#p": [account.pubkey], since },
+    {
+      onevent: (event) => {
+        const nutzap = parseNutzapEvent(event);
+        if (nutzap) onNutzap(nutzap);
+      },
+    }
+  );
+
+  return () => {
+    subscription.close();
     pool.close(relays);
     pool.destroy();
-  }
+  };
 }
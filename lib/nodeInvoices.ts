@@ -0,0 +1,153 @@
+"use client";
+
+import { upsertLocalApiKey } from "@/lib/apiKeySync";
+import {
+  readWalletInvoices,
+  updateWalletInvoice,
+  upsertWalletInvoice,
+  type NodeInvoiceDetails,
+  type WalletInvoice,
+} from "@/lib/platformWallet";
+import {
+  RoutstrNodeClient,
+  type RoutstrLightningInvoice,
+  type RoutstrLightningInvoiceStatus,
+} from "@/lib/routstrNodeClient";
+
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+const inFlightInvoices = new Set<string>();
+
+export type TrackedNodeInvoice = WalletInvoice & { node: NodeInvoiceDetails };
+
+function isNodeInvoice(invoice: WalletInvoice): invoice is TrackedNodeInvoice {
+  return invoice.type === "node" && Boolean(invoice.node);
+}
+
+/**
+ * Unpaid, or paid without the key stored yet. Expired invoices get one more
+ * check so a payment made right before expiry isn't missed.
+ */
+function needsCheck(invoice: TrackedNodeInvoice): boolean {
+  return invoice.state === "UNPAID" || invoice.state === "PENDING" || invoice.state === "PAID";
+}
+
+/**
+ * Persists a node-issued invoice so the purchased key can still be claimed
+ * if the dialog that created it is closed before payment.
+ */
+export function trackNodeInvoice(
+  baseUrl: string,
+  invoice: RoutstrLightningInvoice,
+  details: Pick<NodeInvoiceDetails, "purpose" | "apiKey" | "label">
+): TrackedNodeInvoice {
+  const record: TrackedNodeInvoice = {
+    id: `node:${invoice.invoice_id}`,
+    type: "node",
+    mintUrl: "",
+    quoteId: invoice.invoice_id,
+    paymentRequest: invoice.bolt11,
+    amount: invoice.amount_sats,
+    state: "UNPAID",
+    createdAt: Date.now(),
+    expiresAt: invoice.expires_at * 1000,
+    node: { baseUrl, invoiceId: invoice.invoice_id, ...details },
+  };
+  upsertWalletInvoice(record);
+  return record;
+}
+
+/**
+ * Records a status from the node. Once paid, the purchased key is added to
+ * the local key list (or the topped-up key's balance refreshed) and the
+ * invoice is marked issued. Returns the key when that happened.
+ */
+export async function applyNodeInvoiceStatus(
+  invoice: TrackedNodeInvoice,
+  status: RoutstrLightningInvoiceStatus
+): Promise<string | null> {
+  if (status.status === "expired" || status.status === "cancelled") {
+    updateWalletInvoice(invoice.id, { state: "EXPIRED" });
+    return null;
+  }
+  if (status.status !== "paid") return null;
+
+  const apiKey = status.api_key || invoice.node.apiKey;
+  if (!apiKey) {
+    throw new Error("Paid invoice did not include an API key");
+  }
+  if (inFlightInvoices.has(invoice.id)) return null;
+
+  inFlightInvoices.add(invoice.id);
+  try {
+    // Keep the key on the invoice first so it's never lost if the steps below fail
+    updateWalletInvoice(invoice.id, {
+      state: "PAID",
+      paidAt: status.paid_at ? status.paid_at * 1000 : Date.now(),
+      node: { ...invoice.node, apiKey },
+    });
+    const info = await new RoutstrNodeClient(invoice.node.baseUrl).getWalletInfo(apiKey);
+    upsertLocalApiKey({
+      key: apiKey,
+      balance: info.balance,
+      label:
+        invoice.node.label || (invoice.node.purpose === "create" ? "Lightning key" : "Top-up key"),
+      baseUrl: invoice.node.baseUrl,
+      isInvalid: false,
+    });
+    updateWalletInvoice(invoice.id, { state: "ISSUED", retryCount: 0, nextRetryAt: undefined });
+    return apiKey;
+  } finally {
+    inFlightInvoices.delete(invoice.id);
+  }
+}
+
+/** Marks a tracked invoice as settled after its key was recovered by bolt11. */
+export function markNodeInvoiceRecovered(bolt11: string, apiKey: string): void {
+  const invoice = readWalletInvoices().find(
+    (item) => isNodeInvoice(item) && item.paymentRequest === bolt11
+  );
+  if (!invoice || !isNodeInvoice(invoice)) return;
+  updateWalletInvoice(invoice.id, {
+    state: "ISSUED",
+    paidAt: invoice.paidAt ?? Date.now(),
+    node: { ...invoice.node, apiKey },
+  });
+}
+
+/**
+ * Checks every pending node invoice once. Failed checks back off using the
+ * invoice's `retryCount`/`nextRetryAt` unless `force` is set.
+ */
+export async function checkNodeInvoices(
+  options: { force?: boolean } = {}
+): Promise<{ checked: number; settled: string[] }> {
+  const now = Date.now();
+  const pending = readWalletInvoices()
+    .filter(isNodeInvoice)
+    .filter(needsCheck)
+    .filter((invoice) => options.force || !invoice.nextRetryAt || now >= invoice.nextRetryAt);
+
+  const settled: string[] = [];
+  for (const invoice of pending) {
+    try {
+      const status = await new RoutstrNodeClient(invoice.node.baseUrl).getLightningInvoiceStatus(
+        invoice.node.invoiceId
+      );
+      const apiKey = await applyNodeInvoiceStatus(invoice, status);
+      if (apiKey) settled.push(apiKey);
+    } catch {
+      if (invoice.state !== "PAID" && invoice.expiresAt && now > invoice.expiresAt) {
+        updateWalletInvoice(invoice.id, { state: "EXPIRED" });
+        continue;
+      }
+      const retryCount = (invoice.retryCount || 0) + 1;
+      updateWalletInvoice(invoice.id, {
+        retryCount,
+        nextRetryAt: Date.now() + Math.min(MAX_RETRY_DELAY_MS, 15_000 * 2 ** retryCount),
+      });
+    }
+  }
+
+  return { checked: pending.length, settled };
+}
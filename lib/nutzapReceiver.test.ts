@@ -0,0 +1,294 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  finalizeEvent,
+  generateSecretKey,
+  getPublicKey,
+  nip44,
+  type Event as NostrEvent,
+  type EventTemplate,
+} from "nostr-tools";
+import { bytesToHex } from "nostr-tools/utils";
+import { getMintWallet, receive } from "@/lib/cashuEngine";
+import { getNutzapPubkey } from "@/lib/nip60WalletSync";
+import { startNutzapReceiver } from "@/lib/nutzapReceiver";
+import { writeStoredRelayUrls } from "@/lib/relayManager";
+
+// nostr-tools captures the WebSocket global on import, so the local relay has
+// to be installed before any module that pulls it in.
+const relay = vi.hoisted(() => {
+  type Filter = Record<string, unknown> & { kinds?: number[]; authors?: string[]; since?: number };
+  type StoredEvent = { id: string; kind: number; pubkey: string; created_at: number; tags: string[][] };
+
+  const events: StoredEvent[] = [];
+  const sockets = new Set<LocalRelaySocket>();
+
+  const matches = (filter: Filter, event: StoredEvent) =>
+    (!filter.kinds || filter.kinds.includes(event.kind)) &&
+    (!filter.authors || filter.authors.includes(event.pubkey)) &&
+    (!filter.since || event.created_at >= filter.since) &&
+    Object.entries(filter).every(
+      ([key, values]) =>
+        !key.startsWith("#") ||
+        event.tags.some(
+          (tag) => tag[0] === key.slice(1) && (values as string[]).includes(tag[1])
+        )
+    );
+
+  /** Speaks enough NIP-01 for SimplePool: EVENT/OK, REQ/EOSE and CLOSE. */
+  class LocalRelaySocket {
+    static OPEN = 1;
+    readyState = 0;
+    onopen?: () => void;
+    onclose?: (event: unknown) => void;
+    onerror?: () => void;
+    onmessage?: (message: { data: string }) => void;
+    private subscriptions = new Map<string, Filter[]>();
+
+    constructor(readonly url: string) {
+      sockets.add(this);
+      setTimeout(() => {
+        this.readyState = 1;
+        this.onopen?.();
+      });
+    }
+
+    send(raw: string) {
+      const [type, ...rest] = JSON.parse(raw) as [string, ...unknown[]];
+      if (type === "EVENT") {
+        const event = rest[0] as StoredEvent;
+        events.push(event);
+        this.reply(["OK", event.id, true, ""]);
+        sockets.forEach((socket) => socket.deliver(event));
+      } else if (type === "REQ") {
+        const [id, ...filters] = rest as [string, ...Filter[]];
+        this.subscriptions.set(id, filters);
+        events
+          .filter((event) => filters.some((filter) => matches(filter, event)))
+          .forEach((event) => this.reply(["EVENT", id, event]));
+        this.reply(["EOSE", id]);
+      } else if (type === "CLOSE") {
+        this.subscriptions.delete(rest[0] as string);
+      }
+    }
+
+    close() {
+      this.readyState = 3;
+      sockets.delete(this);
+      this.onclose?.({});
+    }
+
+    private deliver(event: StoredEvent) {
+      for (const [id, filters] of this.subscriptions) {
+        if (filters.some((filter) => matches(filter, event))) this.reply(["EVENT", id, event]);
+      }
+    }
+
+    private reply(message: unknown[]) {
+      setTimeout(() => {
+        if (this.readyState === 1) this.onmessage?.({ data: JSON.stringify(message) });
+      });
+    }
+  }
+
+  globalThis.WebSocket = LocalRelaySocket as unknown as typeof WebSocket;
+  return {
+    events,
+    reset: () => {
+      events.length = 0;
+    },
+  };
+});
+
+vi.mock("@/lib/cashuEngine", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/cashuEngine")>()),
+  receive: vi.fn(),
+  getMintWallet: vi.fn(),
+}));
+
+const MINT_URL = "https://mint.local";
+const RELAY_URL = "wss://relay.local";
+
+function createAccount() {
+  const secret = generateSecretKey();
+  const pubkey = getPublicKey(secret);
+  return {
+    pubkey,
+    signEvent: async (template: EventTemplate) => finalizeEvent(template, secret),
+    nip44: {
+      encrypt: async (peer: string, plaintext: string) =>
+        nip44.encrypt(plaintext, nip44.getConversationKey(secret, peer)),
+      decrypt: async (peer: string, ciphertext: string) =>
+        nip44.decrypt(ciphertext, nip44.getConversationKey(secret, peer)),
+    },
+  };
+}
+
+function nutzapEvent(
+  recipient: string,
+  mintUrl: string,
+  amount: number,
+  ageSeconds = 60
+): NostrEvent {
+  const proof = { id: "009a1f293253e41e", amount, secret: crypto.randomUUID(), C: "02".padEnd(66, "a") };
+  return finalizeEvent(
+    {
+      kind: 9321,
+      created_at: Math.floor(Date.now() / 1000) - ageSeconds,
+      tags: [
+        ["proof", JSON.stringify(proof)],
+        ["u", mintUrl],
+        ["unit", "sat"],
+        ["p", recipient],
+      ],
+      content: "thanks",
+    },
+    generateSecretKey()
+  );
+}
+
+async function publishToRelay(event: NostrEvent) {
+  const socket = new WebSocket(RELAY_URL);
+  await new Promise((resolve) => setTimeout(resolve));
+  socket.send(JSON.stringify(["EVENT", event]));
+  socket.close();
+}
+
+function handledNutzaps(): string[] {
+  return JSON.parse(localStorage.getItem("platform_handled_nutzaps") || "[]");
+}
+
+function failedNutzaps(): string[] {
+  const failed = JSON.parse(localStorage.getItem("platform_failed_nutzaps") || "[]");
+  return failed.map((nutzap: { id: string }) => nutzap.id);
+}
+
+describe("startNutzapReceiver", () => {
+  const privkey = bytesToHex(generateSecretKey());
+  let stop: (() => void) | null = null;
+
+  beforeEach(() => {
+    localStorage.clear();
+    relay.reset();
+    writeStoredRelayUrls([RELAY_URL]);
+    vi.mocked(receive).mockReset();
+    vi.mocked(getMintWallet).mockReset();
+  });
+
+  afterEach(() => {
+    stop?.();
+    stop = null;
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("publishes nutzap info and redeems stored and live nutzaps from accepted mints", async () => {
+    const account = createAccount();
+    const stored = nutzapEvent(account.pubkey, MINT_URL, 21);
+    relay.events.push(stored);
+    vi.mocked(receive).mockImplementation(async () => ({
+      mintUrl: MINT_URL,
+      unit: "sat",
+      amountSats: 21,
+      proofs: [],
+    }));
+    const onRedeemed = vi.fn();
+
+    stop = startNutzapReceiver(account, { privkey, mints: [MINT_URL], onRedeemed });
+
+    await vi.waitFor(() => expect(onRedeemed).toHaveBeenCalledTimes(1));
+    expect(vi.mocked(receive).mock.calls[0][1]).toMatchObject({
+      privkey,
+      transactionType: "import",
+      message: "Nutzap: thanks",
+      redeemedEventIds: [stored.id],
+    });
+    expect(handledNutzaps()).toEqual([stored.id]);
+    expect(localStorage.getItem("platform_nutzap_cursor")).toBe(String(stored.created_at));
+
+    const info = relay.events.find((event) => event.kind === 10019);
+    expect(info?.pubkey).toBe(account.pubkey);
+    expect(info?.tags).toContainEqual(["mint", MINT_URL, "sat"]);
+    expect(info?.tags).toContainEqual(["pubkey", getNutzapPubkey(privkey)]);
+
+    const foreign = nutzapEvent(account.pubkey, "https://other-mint.local", 5);
+    const live = nutzapEvent(account.pubkey, MINT_URL, 8);
+    await publishToRelay(foreign);
+    await publishToRelay(live);
+
+    await vi.waitFor(() => expect(onRedeemed).toHaveBeenCalledTimes(2));
+    expect(vi.mocked(receive)).toHaveBeenCalledTimes(2);
+    expect(vi.mocked(receive).mock.calls[1][1]).toMatchObject({ redeemedEventIds: [live.id] });
+    expect(handledNutzaps()).toEqual([stored.id, live.id]);
+  });
+
+  it("skips handled nutzaps and marks already-spent ones as handled", async () => {
+    const account = createAccount();
+    const handled = nutzapEvent(account.pubkey, MINT_URL, 3);
+    const spent = nutzapEvent(account.pubkey, MINT_URL, 4);
+    relay.events.push(handled, spent);
+    localStorage.setItem("platform_handled_nutzaps", JSON.stringify([handled.id]));
+    vi.mocked(receive).mockRejectedValue(new Error("Token already spent"));
+    const checkProofsStates = vi.fn(async () => [{ state: "SPENT" }]);
+    vi.mocked(getMintWallet).mockResolvedValue({
+      wallet: { checkProofsStates },
+    } as unknown as Awaited<ReturnType<typeof getMintWallet>>);
+    const onRedeemed = vi.fn();
+
+    stop = startNutzapReceiver(account, { privkey, mints: [MINT_URL], onRedeemed });
+
+    await vi.waitFor(() => expect(handledNutzaps()).toEqual([handled.id, spent.id]));
+    expect(vi.mocked(receive)).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(getMintWallet)).toHaveBeenCalledWith(MINT_URL);
+    expect(onRedeemed).not.toHaveBeenCalled();
+  });
+
+  it("retries failed redeems and keeps the cursor before them", async () => {
+    vi.useFakeTimers({ toFake: ["setInterval", "clearInterval"] });
+    const account = createAccount();
+    const earlier = nutzapEvent(account.pubkey, MINT_URL, 2, 600);
+    const failing = nutzapEvent(account.pubkey, MINT_URL, 5, 300);
+    const redeemed = nutzapEvent(account.pubkey, MINT_URL, 8, 60);
+    relay.events.push(failing, redeemed);
+    // Failed in an earlier session and no longer on the relay
+    localStorage.setItem(
+      "platform_failed_nutzaps",
+      JSON.stringify([
+        {
+          id: earlier.id,
+          sender: earlier.pubkey,
+          createdAt: earlier.created_at,
+          mintUrl: MINT_URL,
+          unit: "sat",
+          proofs: [JSON.parse(earlier.tags[0][1])],
+          comment: "thanks",
+        },
+      ])
+    );
+    localStorage.setItem("platform_nutzap_cursor", String(earlier.created_at));
+    let mintReachable = false;
+    vi.mocked(receive).mockImplementation(async (_token, receiveOptions) => {
+      if (receiveOptions?.redeemedEventIds?.[0] === failing.id && !mintReachable) {
+        throw new Error("Mint unreachable");
+      }
+      return { mintUrl: MINT_URL, unit: "sat", amountSats: 1, proofs: [] };
+    });
+    vi.mocked(getMintWallet).mockRejectedValue(new Error("Mint unreachable"));
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const onRedeemed = vi.fn();
+
+    stop = startNutzapReceiver(account, { privkey, mints: [MINT_URL], onRedeemed });
+
+    await vi.waitFor(() => expect(handledNutzaps()).toEqual([earlier.id, redeemed.id]));
+    expect(failedNutzaps()).toEqual([failing.id]);
+    expect(localStorage.getItem("platform_nutzap_cursor")).toBe(String(failing.created_at));
+
+    mintReachable = true;
+    vi.advanceTimersByTime(5 * 60 * 1000);
+
+    await vi.waitFor(() => expect(failedNutzaps()).toEqual([]));
+    expect(handledNutzaps()).toEqual([earlier.id, redeemed.id, failing.id]);
+    expect(onRedeemed).toHaveBeenCalledTimes(3);
+    expect(localStorage.getItem("platform_nutzap_cursor")).toBe(String(redeemed.created_at));
+  });
+});
@@ -0,0 +1,240 @@
+"use client";
+
+import { CheckStateEnum } from "@cashu/cashu-ts";
+import {
+  encodeCashuTokenV4,
+  FALLBACK_MINT_URL,
+  getMintWallet,
+  normalizeMintUrl,
+  receive,
+  type ReceiveResult,
+} from "@/lib/cashuEngine";
+import {
+  fetchNip60History,
+  fetchNip60WalletConfig,
+  publishNutzapInfo,
+  subscribeNutzaps,
+  type CloudSyncCapableAccount,
+  type Nutzap,
+} from "@/lib/nip60WalletSync";
+import { loadPlatformWallet, readCashuProofs } from "@/lib/platformWallet";
+
+const HANDLED_NUTZAPS_STORAGE_KEY = "platform_handled_nutzaps";
+const NUTZAP_CURSOR_STORAGE_KEY = "platform_nutzap_cursor";
+const FAILED_NUTZAPS_STORAGE_KEY = "platform_failed_nutzaps";
+const MAX_HANDLED_NUTZAPS = 500;
+const INITIAL_LOOKBACK_SECONDS = 30 * 24 * 60 * 60;
+const NUTZAP_RETRY_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface NutzapReceiverOptions {
+  privkey: string;
+  mints: string[];
+  onRedeemed?: (nutzap: Nutzap, result: ReceiveResult) => void;
+}
+
+function readHandledNutzaps(): string[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(HANDLED_NUTZAPS_STORAGE_KEY) || "[]");
+    return Array.isArray(parsed) ? parsed.filter((id) => typeof id === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Nutzaps whose redeem failed for a reason other than their proofs being spent. */
+function readFailedNutzaps(): Nutzap[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(FAILED_NUTZAPS_STORAGE_KEY) || "[]");
+    return Array.isArray(parsed)
+      ? parsed.filter((item) => typeof item?.id === "string" && Array.isArray(item.proofs))
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeFailedNutzaps(nutzaps: Nutzap[]): void {
+  if (nutzaps.length > 0) {
+    localStorage.setItem(FAILED_NUTZAPS_STORAGE_KEY, JSON.stringify(nutzaps));
+  } else {
+    localStorage.removeItem(FAILED_NUTZAPS_STORAGE_KEY);
+  }
+}
+
+/**
+ * Moves the subscription cursor forward to `createdAt`, but never past a
+ * nutzap that is still waiting for a retry.
+ */
+function advanceNutzapCursor(createdAt: number): void {
+  const cursor = Number(localStorage.getItem(NUTZAP_CURSOR_STORAGE_KEY) || 0);
+  const next = Math.min(
+    Math.max(cursor, createdAt),
+    ...readFailedNutzaps().map((nutzap) => nutzap.createdAt)
+  );
+  if (next !== cursor) {
+    localStorage.setItem(NUTZAP_CURSOR_STORAGE_KEY, String(next));
+  }
+}
+
+/** `newestHandled` lets the cursor catch up once an older retried nutzap clears. */
+function markNutzapHandled(nutzap: Nutzap, newestHandled: number): void {
+  const handled = readHandledNutzaps().filter((id) => id !== nutzap.id);
+  handled.push(nutzap.id);
+  localStorage.setItem(
+    HANDLED_NUTZAPS_STORAGE_KEY,
+    JSON.stringify(handled.slice(-MAX_HANDLED_NUTZAPS))
+  );
+  writeFailedNutzaps(readFailedNutzaps().filter((item) => item.id !== nutzap.id));
+  advanceNutzapCursor(Math.max(nutzap.createdAt, newestHandled));
+}
+
+function markNutzapFailed(nutzap: Nutzap): void {
+  const failed = readFailedNutzaps().filter((item) => item.id !== nutzap.id);
+  writeFailedNutzaps([...failed, nutzap]);
+  advanceNutzapCursor(0);
+}
+
+async function areNutzapProofsSpent(nutzap: Nutzap): Promise<boolean> {
+  try {
+    const { wallet } = await getMintWallet(nutzap.mintUrl);
+    const states = await wallet.checkProofsStates(nutzap.proofs);
+    return (
+      states.length > 0 && states.every((state) => state?.state === CheckStateEnum.SPENT)
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Publishes the account's nutzap info and redeems incoming nutzaps into the
+ * wallet, one at a time. Nutzaps from mints outside `mints`, or already
+ * redeemed on another device, are skipped. Failed redeems are retried on
+ * start and every few minutes. Returns a function that stops it.
+ */
+export function startNutzapReceiver(
+  account: CloudSyncCapableAccount,
+  options: NutzapReceiverOptions
+): () => void {
+  const acceptedMints = new Set(options.mints.map(normalizeMintUrl).filter(Boolean));
+  const handled = new Set(readHandledNutzaps());
+  let stopped = false;
+  let newestHandled = 0;
+  let queue: Promise<void> = Promise.resolve();
+  let closeSubscription: (() => void) | null = null;
+
+  const handle = (nutzap: Nutzap) => {
+    handled.add(nutzap.id);
+    newestHandled = Math.max(newestHandled, nutzap.createdAt);
+    markNutzapHandled(nutzap, newestHandled);
+  };
+
+  const redeem = async (nutzap: Nutzap) => {
+    if (stopped || !acceptedMints.has(nutzap.mintUrl)) return;
+    if (handled.has(nutzap.id)) {
+      newestHandled = Math.max(newestHandled, nutzap.createdAt);
+      return;
+    }
+
+    try {
+      const token = encodeCashuTokenV4(
+        nutzap.mintUrl,
+        nutzap.unit === "msat" ? "msat" : "sat",
+        nutzap.proofs
+      );
+      const result = await receive(token, {
+        privkey: options.privkey,
+        transactionType: "import",
+        message: nutzap.comment ? `Nutzap: ${nutzap.comment}` : "Nutzap received",
+        redeemedEventIds: [nutzap.id],
+        syncAccount: account,
+      });
+      handle(nutzap);
+      options.onRedeemed?.(nutzap, result);
+    } catch (error) {
+      if (await areNutzapProofsSpent(nutzap)) {
+        handle(nutzap);
+        return;
+      }
+      console.warn("Failed to redeem nutzap, will retry", nutzap.id, error);
+      markNutzapFailed(nutzap);
+    }
+  };
+
+  const retryFailed = () => {
+    queue = queue.then(async () => {
+      for (const nutzap of readFailedNutzaps()) {
+        // Redeemed on another device since it failed here
+        if (handled.has(nutzap.id)) handle(nutzap);
+        else await redeem(nutzap);
+      }
+    });
+  };
+
+  const start = async () => {
+    try {
+      await publishNutzapInfo(account, Array.from(acceptedMints), options.privkey);
+    } catch (error) {
+      console.warn("Failed to publish nutzap info:", error);
+    }
+
+    try {
+      const history = await fetchNip60History(account);
+      for (const entry of history) {
+        entry.redeemed.forEach((id) => handled.add(id));
+      }
+    } catch {
+      // Fall back to the locally handled list
+    }
+    if (stopped) return;
+
+    retryFailed();
+    const cursor = Number(localStorage.getItem(NUTZAP_CURSOR_STORAGE_KEY) || 0);
+    const since = cursor || Math.floor(Date.now() / 1000) - INITIAL_LOOKBACK_SECONDS;
+    closeSubscription = subscribeNutzaps(account, since, (nutzap) => {
+      queue = queue.then(() => redeem(nutzap));
+    });
+  };
+
+  void start();
+  const retryTimer = setInterval(retryFailed, NUTZAP_RETRY_INTERVAL_MS);
+  return () => {
+    stopped = true;
+    clearInterval(retryTimer);
+    closeSubscription?.();
+  };
+}
+
+/**
+ * Runs the receiver for an account using the key and mints from its NIP-60
+ * wallet event, plus mints the local wallet already holds. Does nothing when
+ * the account has no wallet key yet. Returns a function that stops it.
+ */
+export function startAccountNutzapReceiver(
+  account: CloudSyncCapableAccount,
+  onRedeemed?: NutzapReceiverOptions["onRedeemed"]
+): () => void {
+  let stopped = false;
+  let stopReceiver: (() => void) | null = null;
+
+  const start = async () => {
+    const [config] = await Promise.all([fetchNip60WalletConfig(account), loadPlatformWallet()]);
+    if (stopped || !config.privkey) return;
+
+    const proofMints = readCashuProofs().map((proof) => proof.mintUrl || "");
+    const mints = [...config.mints, ...proofMints].filter(Boolean);
+    stopReceiver = startNutzapReceiver(account, {
+      privkey: config.privkey,
+      mints: mints.length > 0 ? mints : [FALLBACK_MINT_URL],
+      onRedeemed,
+    });
+  };
+
+  void start().catch((error) => {
+    console.warn("Failed to start nutzap receiver:", error);
+  });
+  return () => {
+    stopped = true;
+    stopReceiver?.();
+  };
+}
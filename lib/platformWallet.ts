@@ -1,14 +1,37 @@
 "use client";
 
-export const PLATFORM_WALLET_UPDATED_EVENT = "platform-wallet-updated";
+import {
+  appendHistoryRecord,
+  commitProofStates,
+  deleteOutgoingRecord,
+  ensureWalletStore,
+  onWalletStoreChange,
+  proofKey,
+  readHistoryRecords,
+  readInvoiceRecords,
+  readOutgoingRecords,
+  readProofRecords,
+  putOutgoingRecord,
+  replaceHistoryRecords,
+  writeInvoiceRecords,
+  type ProofStateUpdate,
+  type StoredProof,
+} from "@/lib/walletStore";
 
-const CASHU_PROOFS_STORAGE_KEY = "cashu_proofs";
-const CHAT_LIGHTNING_INVOICES_STORAGE_KEY = "lightning_invoices";
-const LEGACY_PLATFORM_INVOICES_STORAGE_KEY = "platform_lightning_invoices";
-const TRANSACTION_HISTORY_STORAGE_KEY = "transaction_history";
+export const PLATFORM_WALLET_UPDATED_EVENT = "platform-wallet-updated";
 
 export type WalletTransactionType = "mint" | "send" | "import" | "refund";
 
+/**
+ * NIP-60 token events (kind 7375) a transaction created and deleted, plus any
+ * nutzap events (kind 9321) it redeemed.
+ */
+export interface WalletTokenEventRefs {
+  created: string[];
+  destroyed: string[];
+  redeemed?: string[];
+}
+
 export interface WalletTransactionHistory {
   type: WalletTransactionType;
   amount: number;
@@ -17,8 +40,11 @@ export interface WalletTransactionHistory {
   message?: string;
   balance?: number;
   quoteId?: string;
+  tokenEvents?: WalletTokenEventRefs;
 }
 
+type TransactionSyncHandler = (transaction: WalletTransactionHistory) => void;
+
 export type WalletInvoiceState =
   | "UNPAID"
   | "PAID"
@@ -26,9 +52,19 @@ export type WalletInvoiceState =
   | "EXPIRED"
   | "PENDING";
 
+/** A Lightning invoice issued by a Routstr node to buy or top up an API key. */
+export interface NodeInvoiceDetails {
+  baseUrl: string;
+  invoiceId: string;
+  purpose: "create" | "topup";
+  /** The key being topped up, or the purchased key once the invoice is paid. */
+  apiKey?: string;
+  label?: string;
+}
+
 export interface WalletInvoice {
   id: string;
-  type: "mint" | "melt";
+  type: "mint" | "melt" | "node";
   mintUrl: string;
   quoteId: string;
   paymentRequest: string;
@@ -41,33 +77,43 @@ export interface WalletInvoice {
   fee?: number;
   retryCount?: number;
   nextRetryAt?: number;
+  node?: NodeInvoiceDetails;
 }
 
-interface WalletInvoiceStore {
-  invoices: WalletInvoice[];
-  lastSync: number;
-}
+export type OutgoingTokenStatus = "pending" | "redeemed" | "reclaimed";
 
-interface ProofLike {
-  amount: number;
-  secret?: string;
-  C?: string;
-  id?: string;
-  mintUrl?: string;
-  eventId?: string;
+/**
+ * A token that left the wallet but hasn't been confirmed as redeemed. Its
+ * proofs stay reserved (state "pending") until it is settled or reclaimed.
+ */
+export interface OutgoingToken {
+  id: string;
+  token: string;
+  mintUrl: string;
+  unit: string;
+  amountSats: number;
+  purpose: string;
+  proofs: StoredProof[];
+  status: OutgoingTokenStatus;
+  createdAt: number;
+  updatedAt: number;
+  error?: string;
 }
 
+type ProofLike = StoredProof;
+
+let transactionSyncHandler: TransactionSyncHandler | null = null;
+
 function isBrowser(): boolean {
   return typeof window !== "undefined";
 }
 
-function safeJsonParse<T>(raw: string | null, fallback: T): T {
-  if (!raw) return fallback;
-  try {
-    return JSON.parse(raw) as T;
-  } catch {
-    return fallback;
-  }
+/**
+ * Runs a store write without waiting for it. The write queue already logs
+ * failures, so the rejection is only swallowed here.
+ */
+function writeInBackground(write: Promise<void>): void {
+  write.catch(() => undefined);
 }
 
 export function emitPlatformWalletUpdated(): void {
@@ -75,25 +121,76 @@ export function emitPlatformWalletUpdated(): void {
   window.dispatchEvent(new Event(PLATFORM_WALLET_UPDATED_EVENT));
 }
 
+if (isBrowser()) {
+  onWalletStoreChange(emitPlatformWalletUpdated);
+}
+
+/**
+ * Resolves once the IndexedDB wallet store has loaded. The synchronous readers
+ * below return an empty wallet until then; listen for
+ * PLATFORM_WALLET_UPDATED_EVENT to pick up the loaded state.
+ */
+export function loadPlatformWallet(): Promise<void> {
+  return ensureWalletStore();
+}
+
 export function readCashuProofs(): ProofLike[] {
   if (!isBrowser()) return [];
-  return safeJsonParse<ProofLike[]>(
-    localStorage.getItem(CASHU_PROOFS_STORAGE_KEY),
-    []
-  );
+  void ensureWalletStore();
+  return readProofRecords()
+    .filter((record) => record.state === "unspent")
+    .map((record) => record.proof);
+}
+
+/** Proofs reserved by an in-flight send or melt. */
+export function readPendingCashuProofs(): ProofLike[] {
+  if (!isBrowser()) return [];
+  return readProofRecords()
+    .filter((record) => record.state === "pending")
+    .map((record) => record.proof);
+}
+
+/**
+ * Persists the difference between two proof lists in one transaction: proofs
+ * missing from `after` are marked spent (or pending when listed in `pending`),
+ * new or re-tagged ones are stored as unspent. Proofs added by other flows in
+ * the meantime are left untouched.
+ */
+export function commitCashuProofChanges(
+  before: ProofLike[],
+  after: ProofLike[],
+  pending: ProofLike[] = []
+): Promise<void> {
+  const previous = new Map(before.map((proof) => [proofKey(proof), proof]));
+  const nextKeys = new Set(after.map((proof) => proofKey(proof)));
+  const pendingKeys = new Set(pending.map((proof) => proofKey(proof)));
+  const updates: ProofStateUpdate[] = pending.map((proof) => ({ proof, state: "pending" }));
+
+  for (const [key, proof] of previous) {
+    if (!nextKeys.has(key) && !pendingKeys.has(key)) updates.push({ proof, state: "spent" });
+  }
+  for (const proof of after) {
+    const existing = previous.get(proofKey(proof));
+    if (
+      !existing ||
+      existing.mintUrl !== proof.mintUrl ||
+      existing.eventId !== proof.eventId
+    ) {
+      updates.push({ proof, state: "unspent" });
+    }
+  }
+
+  return commitProofStates(updates);
 }
 
 export function writeCashuProofs(proofs: ProofLike[]): void {
   if (!isBrowser()) return;
-  localStorage.setItem(CASHU_PROOFS_STORAGE_KEY, JSON.stringify(proofs));
-  emitPlatformWalletUpdated();
+  writeInBackground(commitCashuProofChanges(readCashuProofs(), proofs));
 }
 
 export function appendCashuProofs(proofs: ProofLike[]): ProofLike[] {
-  const existing = readCashuProofs();
-  const next = [...existing, ...proofs];
-  writeCashuProofs(next);
-  return next;
+  writeInBackground(commitProofStates(proofs.map((proof) => ({ proof, state: "unspent" }))));
+  return readCashuProofs();
 }
 
 export function getProofsBalanceSats(): number {
@@ -105,40 +202,14 @@ export function getProofsBalanceSats(): number {
 
 export function readWalletInvoices(): WalletInvoice[] {
   if (!isBrowser()) return [];
-
-  const parseInvoices = (raw: string | null): WalletInvoice[] => {
-    if (!raw) return [];
-    try {
-      const parsed = JSON.parse(raw) as WalletInvoice[] | WalletInvoiceStore;
-      if (Array.isArray(parsed)) return parsed;
-      if (parsed && typeof parsed === "object" && Array.isArray(parsed.invoices)) {
-        return parsed.invoices;
-      }
-      return [];
-    } catch {
-      return [];
-    }
-  };
-
-  const chatRaw = localStorage.getItem(CHAT_LIGHTNING_INVOICES_STORAGE_KEY);
-  if (chatRaw !== null) {
-    return parseInvoices(chatRaw);
-  }
-
-  return parseInvoices(localStorage.getItem(LEGACY_PLATFORM_INVOICES_STORAGE_KEY));
+  void ensureWalletStore();
+  return readInvoiceRecords();
 }
 
 export function writeWalletInvoices(invoices: WalletInvoice[]): void {
   if (!isBrowser()) return;
-  const store: WalletInvoiceStore = {
-    invoices,
-    lastSync: Date.now(),
-  };
-  localStorage.setItem(CHAT_LIGHTNING_INVOICES_STORAGE_KEY, JSON.stringify(store));
-  localStorage.setItem(LEGACY_PLATFORM_INVOICES_STORAGE_KEY, JSON.stringify(invoices));
-  emitPlatformWalletUpdated();
+  writeInBackground(writeInvoiceRecords(invoices));
 }
-
 export function upsertWalletInvoice(invoice: WalletInvoice): WalletInvoice[] {
   const existing = readWalletInvoices();
   const next = existing
@@ -193,20 +264,22 @@ export function deleteWalletInvoice(id: string): WalletInvoice[] {
   return next;
 }
 
+/** Receives every appended transaction, e.g. to publish NIP-60 history events. */
+export function setTransactionSyncHandler(handler: TransactionSyncHandler | null): void {
+  transactionSyncHandler = handler;
+}
+
 export function readTransactionHistory(): WalletTransactionHistory[] {
   if (!isBrowser()) return [];
-  return safeJsonParse<WalletTransactionHistory[]>(
-    localStorage.getItem(TRANSACTION_HISTORY_STORAGE_KEY),
-    []
-  );
+  void ensureWalletStore();
+  return readHistoryRecords();
 }
 
 export function writeTransactionHistory(
   history: WalletTransactionHistory[]
 ): WalletTransactionHistory[] {
   if (!isBrowser()) return history;
-  localStorage.setItem(TRANSACTION_HISTORY_STORAGE_KEY, JSON.stringify(history));
-  emitPlatformWalletUpdated();
+  writeInBackground(replaceHistoryRecords(history));
   return history;
 }
 
@@ -227,6 +300,33 @@ export function appendTransaction(
     return existing;
   }
 
-  const next = [...existing, transaction];
-  return writeTransactionHistory(next);
+  if (!isBrowser()) return existing;
+  writeInBackground(appendHistoryRecord(transaction));
+  transactionSyncHandler?.(transaction);
+  return readTransactionHistory();
+}
+
+export function readOutgoingTokens(): OutgoingToken[] {
+  if (!isBrowser()) return [];
+  void ensureWalletStore();
+  return readOutgoingRecords();
+}
+
+export function saveOutgoingToken(outgoing: OutgoingToken): Promise<void> {
+  return putOutgoingRecord(outgoing);
+}
+
+export function updateOutgoingToken(
+  id: string,
+  updates: Partial<OutgoingToken>
+): OutgoingToken | null {
+  const existing = readOutgoingTokens().find((item) => item.id === id);
+  if (!existing) return null;
+  const updated: OutgoingToken = { ...existing, ...updates, updatedAt: Date.now() };
+  writeInBackground(putOutgoingRecord(updated));
+  return updated;
+}
+
+export function deleteOutgoingToken(id: string): Promise<void> {
+  return deleteOutgoingRecord(id);
 }
@@ -0,0 +1,733 @@
+"use client";
+
+import { SimplePool, type Event as NostrEvent, type Filter } from "nostr-tools";
+
+const NOSTR_APP_CONFIG_STORAGE_KEY = "nostr:app-config";
+const NOSTR_RELAYS_STORAGE_KEY = "nostr_relays";
+const RELAY_STATS_STORAGE_KEY = "platform_relay_stats";
+const RELAY_RETRY_QUEUE_STORAGE_KEY = "platform_relay_retry_queue";
+const OUTBOX_RELAYS_STORAGE_KEY = "platform_outbox_relays";
+
+const RELAY_LIST_KIND = 10002;
+
+export const DEFAULT_SYNC_RELAYS = [
+  "wss://relay.chorus.community",
+  "wss://relay.damus.io",
+  "wss://relay.nostr.band",
+  "wss://nos.lol",
+];
+
+/** Relays that must accept a publish before it counts as synced. */
+export const MIN_PUBLISH_CONFIRMATIONS = 2;
+
+const DEFAULT_QUERY_WAIT_MS = 7000;
+const PUBLISH_TIMEOUT_MS = 8000;
+const RELAY_TEST_TIMEOUT_MS = 5000;
+const RETRY_CHECK_INTERVAL_MS = 15_000;
+const RETRY_BASE_DELAY_MS = 15_000;
+const RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+const LATENCY_SAMPLE_WEIGHT = 0.3;
+const OUTBOX_REFRESH_MS = 6 * 60 * 60 * 1000;
+const RELAY_LIST_QUERY_WAIT_MS = 5000;
+
+export const PLATFORM_RELAYS_UPDATED_EVENT = "platform-relays-updated";
+
+export interface RelayStats {
+  url: string;
+  publishOk: number;
+  publishFailed: number;
+  queryOk: number;
+  queryFailed: number;
+  /** Exponential moving average of successful round trips. */
+  avgLatencyMs: number | null;
+  lastLatencyMs: number | null;
+  lastOkAt: number | null;
+  lastFailedAt: number | null;
+  lastError?: string;
+}
+
+export interface RelayPublishResult {
+  url: string;
+  ok: boolean;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface PublishReport {
+  eventId: string;
+  confirmed: number;
+  required: number;
+  results: RelayPublishResult[];
+}
+
+export interface QueuedPublish {
+  event: NostrEvent;
+  label: string;
+  minConfirmations: number;
+  /** Queued events sharing a key are collapsed to the newest one. */
+  collapseKey?: string;
+  attempts: number;
+  queuedAt: number;
+  lastAttemptAt: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+/** A user's NIP-65 relay list plus the relay hints from their NIP-60 wallet. */
+export interface OutboxRelays {
+  pubkey: string;
+  read: string[];
+  write: string[];
+  walletRelays: string[];
+  /** created_at of the kind 10002 event the lists came from. */
+  relayListAt: number | null;
+  fetchedAt: number;
+}
+
+export type RelayMode = "read" | "write";
+
+export interface PublishOptions {
+  relays?: string[];
+  minConfirmations?: number;
+  /** Shown in the retry queue, e.g. "NIP-60 wallet". */
+  label?: string;
+  /** Keep the event for background retries when too few relays confirm. */
+  queueOnFailure?: boolean;
+  /**
+   * Collapses queued events that aren't replaceable but supersede each
+   * other, e.g. successive NIP-60 snapshots for one mint.
+   */
+  collapseKey?: string;
+}
+
+export class RelayPublishError extends Error {
+  readonly report: PublishReport;
+
+  constructor(label: string, report: PublishReport) {
+    const firstError = report.results.find((result) => !result.ok)?.error;
+    super(
+      `${label} reached ${report.confirmed} of ${report.required} required relays` +
+        (firstError ? ` (${firstError})` : "")
+    );
+    this.name = "RelayPublishError";
+    this.report = report;
+  }
+}
+
+export function isRelayPublishError(error: unknown): error is RelayPublishError {
+  return error instanceof RelayPublishError;
+}
+
+function isBrowser(): boolean {
+  return typeof window !== "undefined";
+}
+
+function emitRelaysUpdated(): void {
+  if (!isBrowser()) return;
+  window.dispatchEvent(new Event(PLATFORM_RELAYS_UPDATED_EVENT));
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  return String(error || "Unknown relay error");
+}
+
+export function normalizeRelayUrl(url: string): string {
+  const trimmed = String(url || "").trim();
+  if (!trimmed) return "";
+  const withProtocol = /^wss?:\/\//i.test(trimmed) ? trimmed : `wss://${trimmed}`;
+  return withProtocol.replace(/\/+$/, "");
+}
+
+function uniqueRelayUrls(candidates: unknown[]): string[] {
+  const urls = new Set<string>();
+  for (const candidate of candidates) {
+    if (typeof candidate !== "string") continue;
+    const trimmed = candidate.trim();
+    if (!trimmed) continue;
+    if (!/^wss?:\/\//i.test(trimmed)) continue;
+    urls.add(trimmed);
+  }
+  return Array.from(urls);
+}
+
+function readAppConfigRelays(): string[] {
+  try {
+    const raw = localStorage.getItem(NOSTR_APP_CONFIG_STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw) as { relayUrls?: string[] };
+    return Array.isArray(parsed?.relayUrls) ? parsed.relayUrls : [];
+  } catch {
+    return [];
+  }
+}
+
+/** The user's relay list from `nostr_relays`, or null when it was never edited. */
+export function readStoredRelayUrls(): string[] | null {
+  if (!isBrowser()) return null;
+  try {
+    const raw = localStorage.getItem(NOSTR_RELAYS_STORAGE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? uniqueRelayUrls(parsed) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function writeStoredRelayUrls(relays: string[]): void {
+  if (!isBrowser()) return;
+  localStorage.setItem(
+    NOSTR_RELAYS_STORAGE_KEY,
+    JSON.stringify(uniqueRelayUrls(relays.map(normalizeRelayUrl)))
+  );
+  emitRelaysUpdated();
+}
+
+/**
+ * Relays used for wallet and key sync: the app config relays plus the user's
+ * `nostr_relays` list, falling back to the defaults until that list exists.
+ */
+export function getConfiguredRelayUrls(): string[] {
+  if (!isBrowser()) return DEFAULT_SYNC_RELAYS;
+  const relays = uniqueRelayUrls([
+    ...readAppConfigRelays(),
+    ...(readStoredRelayUrls() ?? DEFAULT_SYNC_RELAYS),
+  ]);
+  return relays.length > 0 ? relays : DEFAULT_SYNC_RELAYS;
+}
+
+function readOutboxStore(): Record<string, OutboxRelays> {
+  if (!isBrowser()) return {};
+  try {
+    const parsed = JSON.parse(localStorage.getItem(OUTBOX_RELAYS_STORAGE_KEY) || "{}");
+    return parsed && typeof parsed === "object" ? (parsed as Record<string, OutboxRelays>) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function readOutboxRelays(pubkey: string | null | undefined): OutboxRelays | null {
+  if (!pubkey) return null;
+  return readOutboxStore()[pubkey] ?? null;
+}
+
+function writeOutboxRelays(entry: OutboxRelays): void {
+  if (!isBrowser()) return;
+  const store = readOutboxStore();
+  store[entry.pubkey] = entry;
+  localStorage.setItem(OUTBOX_RELAYS_STORAGE_KEY, JSON.stringify(store));
+  emitRelaysUpdated();
+}
+
+function emptyOutbox(pubkey: string): OutboxRelays {
+  return { pubkey, read: [], write: [], walletRelays: [], relayListAt: null, fetchedAt: 0 };
+}
+
+function normalizeRelayList(candidates: unknown[]): string[] {
+  return uniqueRelayUrls(
+    candidates.map((candidate) =>
+      typeof candidate === "string" ? normalizeRelayUrl(candidate) : candidate
+    )
+  );
+}
+
+/** Splits a kind 10002 event's `r` tags; unmarked relays are both read and write. */
+export function parseRelayListEvent(event: NostrEvent): { read: string[]; write: string[] } {
+  const read: string[] = [];
+  const write: string[] = [];
+  for (const tag of event.tags) {
+    if (tag[0] !== "r" || typeof tag[1] !== "string") continue;
+    if (tag[2] !== "write") read.push(tag[1]);
+    if (tag[2] !== "read") write.push(tag[1]);
+  }
+  return { read: normalizeRelayList(read), write: normalizeRelayList(write) };
+}
+
+/** Stores the `relay` tags from the account's NIP-60 wallet event. */
+export function setWalletRelayHints(pubkey: string, relays: string[]): void {
+  const entry = readOutboxRelays(pubkey) ?? emptyOutbox(pubkey);
+  const walletRelays = normalizeRelayList(relays);
+  if (walletRelays.join(" ") === entry.walletRelays.join(" ")) return;
+  writeOutboxRelays({ ...entry, walletRelays });
+}
+
+/**
+ * Relays for syncing a user's events. Writes go to their NIP-65 write relays
+ * and wallet hints (plus any relays configured in the app); reads use those
+ * and the configured relays. Without an outbox both fall back to the configured list.
+ */
+export function getSyncRelays(pubkey: string | null | undefined, mode: RelayMode): string[] {
+  const configured = getConfiguredRelayUrls();
+  const outbox = readOutboxRelays(pubkey);
+  const outboxRelays = outbox ? uniqueRelayUrls([...outbox.write, ...outbox.walletRelays]) : [];
+  if (outboxRelays.length === 0) return configured;
+
+  if (mode === "write") {
+    return uniqueRelayUrls([
+      ...outboxRelays,
+      ...readAppConfigRelays(),
+      ...(readStoredRelayUrls() ?? []),
+    ]);
+  }
+  return uniqueRelayUrls([...outboxRelays, ...configured]);
+}
+
+const outboxRefreshes = new Map<string, Promise<OutboxRelays>>();
+
+/**
+ * Fetches the user's kind 10002 relay list, at most every few hours unless
+ * forced. Keeps the stored lists when no newer event is found.
+ */
+export function refreshOutboxRelays(
+  pubkey: string,
+  options: { force?: boolean } = {}
+): Promise<OutboxRelays> {
+  const cached = readOutboxRelays(pubkey);
+  if (cached && !options.force && Date.now() - cached.fetchedAt < OUTBOX_REFRESH_MS) {
+    return Promise.resolve(cached);
+  }
+
+  let refresh = outboxRefreshes.get(pubkey);
+  if (!refresh) {
+    refresh = fetchOutboxRelays(pubkey).finally(() => {
+      outboxRefreshes.delete(pubkey);
+    });
+    outboxRefreshes.set(pubkey, refresh);
+  }
+  return refresh;
+}
+
+async function fetchOutboxRelays(pubkey: string): Promise<OutboxRelays> {
+  const entry = readOutboxRelays(pubkey) ?? emptyOutbox(pubkey);
+  const events = await queryRelays(
+    { kinds: [RELAY_LIST_KIND], authors: [pubkey], limit: 5 },
+    {
+      relays: uniqueRelayUrls([...entry.write, ...getConfiguredRelayUrls()]),
+      maxWaitMs: RELAY_LIST_QUERY_WAIT_MS,
+    }
+  );
+
+  const latest = events.sort((a, b) => b.created_at - a.created_at)[0];
+  const next: OutboxRelays = { ...entry, fetchedAt: Date.now() };
+  if (latest && latest.created_at > (entry.relayListAt ?? 0)) {
+    const { read, write } = parseRelayListEvent(latest);
+    next.read = read;
+    next.write = write;
+    next.relayListAt = latest.created_at;
+  }
+  writeOutboxRelays(next);
+  return next;
+}
+
+async function resolveSyncRelays(pubkey: string | undefined, mode: RelayMode): Promise<string[]> {
+  if (pubkey && isBrowser()) {
+    try {
+      await refreshOutboxRelays(pubkey);
+    } catch (error) {
+      console.warn("Failed to refresh relay list:", error);
+    }
+  }
+  return getSyncRelays(pubkey, mode);
+}
+
+export function readRelayStats(): Record<string, RelayStats> {
+  if (!isBrowser()) return {};
+  try {
+    const parsed = JSON.parse(localStorage.getItem(RELAY_STATS_STORAGE_KEY) || "{}");
+    return parsed && typeof parsed === "object" ? (parsed as Record<string, RelayStats>) : {};
+  } catch {
+    return {};
+  }
+}
+
+function emptyStats(url: string): RelayStats {
+  return {
+    url,
+    publishOk: 0,
+    publishFailed: 0,
+    queryOk: 0,
+    queryFailed: 0,
+    avgLatencyMs: null,
+    lastLatencyMs: null,
+    lastOkAt: null,
+    lastFailedAt: null,
+  };
+}
+
+function recordRelayResults(
+  operation: "publish" | "query",
+  results: RelayPublishResult[]
+): void {
+  if (!isBrowser() || results.length === 0) return;
+  const stats = readRelayStats();
+  const now = Date.now();
+  for (const result of results) {
+    const entry = stats[result.url] ?? emptyStats(result.url);
+    if (result.ok) {
+      if (operation === "publish") entry.publishOk += 1;
+      else entry.queryOk += 1;
+      entry.lastLatencyMs = result.latencyMs;
+      entry.avgLatencyMs =
+        entry.avgLatencyMs === null
+          ? result.latencyMs
+          : Math.round(
+              entry.avgLatencyMs * (1 - LATENCY_SAMPLE_WEIGHT) +
+                result.latencyMs * LATENCY_SAMPLE_WEIGHT
+            );
+      entry.lastOkAt = now;
+    } else {
+      if (operation === "publish") entry.publishFailed += 1;
+      else entry.queryFailed += 1;
+      entry.lastFailedAt = now;
+      entry.lastError = result.error;
+    }
+    stats[result.url] = entry;
+  }
+  localStorage.setItem(RELAY_STATS_STORAGE_KEY, JSON.stringify(stats));
+  emitRelaysUpdated();
+}
+
+async function publishToEachRelay(
+  relays: string[],
+  event: NostrEvent
+): Promise<RelayPublishResult[]> {
+  const pool = new SimplePool();
+  try {
+    const startedAt = Date.now();
+    const settled = await Promise.allSettled(
+      pool.publish(relays, event, { maxWait: PUBLISH_TIMEOUT_MS }).map((publish) =>
+        publish.then(() => Date.now() - startedAt)
+      )
+    );
+    return settled.map((outcome, index) =>
+      outcome.status === "fulfilled"
+        ? { url: relays[index], ok: true, latencyMs: outcome.value }
+        : {
+            url: relays[index],
+            ok: false,
+            latencyMs: Date.now() - startedAt,
+            error: errorMessage(outcome.reason),
+          }
+    );
+  } finally {
+    pool.close(relays);
+    pool.destroy();
+  }
+}
+
+/**
+ * Publishes a signed event and records each relay's outcome. Throws a
+ * RelayPublishError when fewer than `minConfirmations` relays accepted it;
+ * the event is then queued for background retries unless disabled. Without
+ * explicit relays it goes to the author's write relays.
+ */
+export async function publishToRelays(
+  event: NostrEvent,
+  options: PublishOptions = {}
+): Promise<PublishReport> {
+  const relays = options.relays ?? (await resolveSyncRelays(event.pubkey, "write"));
+  const label = options.label || `Kind ${event.kind} event`;
+  // With no relays at all nothing was published, so it still counts as a failure
+  const required = Math.max(
+    1,
+    Math.min(options.minConfirmations ?? MIN_PUBLISH_CONFIRMATIONS, relays.length)
+  );
+
+  const offline = isBrowser() && navigator.onLine === false;
+  const results = offline
+    ? relays.map((url) => ({ url, ok: false, latencyMs: 0, error: "Offline" }))
+    : await publishToEachRelay(relays, event);
+  if (!offline) recordRelayResults("publish", results);
+
+  const report: PublishReport = {
+    eventId: event.id,
+    confirmed: results.filter((result) => result.ok).length,
+    required,
+    results,
+  };
+  if (report.confirmed >= required) {
+    dropSupersededPublishes(event, options.collapseKey);
+    return report;
+  }
+
+  if (options.queueOnFailure !== false) {
+    enqueuePublish(event, {
+      label,
+      minConfirmations: required,
+      collapseKey: options.collapseKey,
+      lastError:
+        results.find((result) => !result.ok)?.error ??
+        (relays.length === 0 ? "No relays configured" : undefined),
+    });
+  }
+  throw new RelayPublishError(label, report);
+}
+
+/**
+ * Queries every relay separately so each one's EOSE, failure or timeout is
+ * recorded, and returns the events deduplicated by id. Single-author filters
+ * read from that author's outbox relays.
+ */
+export async function queryRelays(
+  filter: Filter,
+  options: { relays?: string[]; maxWaitMs?: number } = {}
+): Promise<NostrEvent[]> {
+  const author = filter.authors?.length === 1 ? filter.authors[0] : undefined;
+  const relays = options.relays ?? (await resolveSyncRelays(author, "read"));
+  const maxWaitMs = options.maxWaitMs ?? DEFAULT_QUERY_WAIT_MS;
+  const pool = new SimplePool();
+  const events = new Map<string, NostrEvent>();
+
+  try {
+    const results = await Promise.all(
+      relays.map(
+        (url) =>
+          new Promise<RelayPublishResult>((resolve) => {
+            const startedAt = Date.now();
+            let done = false;
+            let closeSubscription: (() => void) | null = null;
+            const finish = (ok: boolean, error?: string) => {
+              if (done) return;
+              done = true;
+              clearTimeout(timer);
+              closeSubscription?.();
+              resolve({ url, ok, latencyMs: Date.now() - startedAt, error });
+            };
+            const timer = setTimeout(() => finish(false, "Timed out"), maxWaitMs);
+
+            pool
+              .ensureRelay(url, { connectionTimeout: maxWaitMs })
+              .then((relay) => {
+                if (done) return;
+                const subscription = relay.subscribe([filter], {
+                  onevent: (event) => {
+                    if (!events.has(event.id)) events.set(event.id, event);
+                  },
+                  oneose: () => finish(true),
+                  onclose: (reason) => finish(false, reason || "Closed"),
+                });
+                closeSubscription = () => subscription.close();
+              })
+              .catch((error) => finish(false, errorMessage(error)));
+          })
+      )
+    );
+    recordRelayResults("query", results);
+  } finally {
+    pool.close(relays);
+    pool.destroy();
+  }
+
+  return Array.from(events.values());
+}
+
+/** Connects to a relay and waits for EOSE on a tiny query. */
+export async function testRelay(url: string): Promise<RelayPublishResult> {
+  const relayUrl = normalizeRelayUrl(url);
+  const startedAt = Date.now();
+  try {
+    await queryRelays({ kinds: [0], limit: 1 }, {
+      relays: [relayUrl],
+      maxWaitMs: RELAY_TEST_TIMEOUT_MS,
+    });
+    const stats = readRelayStats()[relayUrl];
+    const ok = Boolean(stats?.lastOkAt && stats.lastOkAt >= startedAt);
+    return {
+      url: relayUrl,
+      ok,
+      latencyMs: stats?.lastLatencyMs ?? Date.now() - startedAt,
+      error: ok ? undefined : stats?.lastError,
+    };
+  } catch (error) {
+    return {
+      url: relayUrl,
+      ok: false,
+      latencyMs: Date.now() - startedAt,
+      error: errorMessage(error),
+    };
+  }
+}
+
+export function readPublishQueue(): QueuedPublish[] {
+  if (!isBrowser()) return [];
+  try {
+    const parsed = JSON.parse(localStorage.getItem(RELAY_RETRY_QUEUE_STORAGE_KEY) || "[]");
+    return Array.isArray(parsed) ? (parsed as QueuedPublish[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Number of queued events, optionally only those of the given kinds or author. */
+export function countQueuedPublishes(filter: { kinds?: number[]; pubkey?: string } = {}): number {
+  return readPublishQueue().filter(
+    (item) =>
+      (!filter.kinds || filter.kinds.includes(item.event.kind)) &&
+      (!filter.pubkey || item.event.pubkey === filter.pubkey)
+  ).length;
+}
+
+function writePublishQueue(queue: QueuedPublish[]): void {
+  localStorage.setItem(RELAY_RETRY_QUEUE_STORAGE_KEY, JSON.stringify(queue));
+  emitRelaysUpdated();
+}
+
+function replaceableAddress(event: NostrEvent): string | null {
+  const isReplaceable =
+    event.kind === 0 ||
+    event.kind === 3 ||
+    (event.kind >= 10000 && event.kind < 20000);
+  if (isReplaceable) return `${event.kind}:${event.pubkey}`;
+  if (event.kind >= 30000 && event.kind < 40000) {
+    const dTag = event.tags.find((tag) => tag[0] === "d")?.[1] || "";
+    return `${event.kind}:${event.pubkey}:${dTag}`;
+  }
+  return null;
+}
+
+function supersedes(
+  event: NostrEvent,
+  collapseKey: string | undefined,
+  item: QueuedPublish
+): boolean {
+  if (item.event.created_at > event.created_at) return false;
+  if (collapseKey && item.collapseKey === collapseKey) return true;
+  const address = replaceableAddress(event);
+  return Boolean(address && replaceableAddress(item.event) === address);
+}
+
+function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_DELAY_MS);
+}
+
+function enqueuePublish(
+  event: NostrEvent,
+  options: {
+    label: string;
+    minConfirmations: number;
+    collapseKey?: string;
+    lastError?: string;
+  }
+): void {
+  if (!isBrowser()) return;
+  const now = Date.now();
+  // A newer version supersedes any queued older one
+  const queue = readPublishQueue().filter(
+    (item) => item.event.id !== event.id && !supersedes(event, options.collapseKey, item)
+  );
+  queue.push({
+    event,
+    ...options,
+    attempts: 1,
+    queuedAt: now,
+    lastAttemptAt: now,
+    nextAttemptAt: now + getRetryDelay(1),
+  });
+  writePublishQueue(queue);
+}
+
+function dropSupersededPublishes(event: NostrEvent, collapseKey?: string): void {
+  if (!isBrowser()) return;
+  const queue = readPublishQueue();
+  const next = queue.filter(
+    (item) => item.event.id !== event.id && !supersedes(event, collapseKey, item)
+  );
+  if (next.length !== queue.length) writePublishQueue(next);
+}
+
+export function removeQueuedPublish(eventId: string): void {
+  writePublishQueue(readPublishQueue().filter((item) => item.event.id !== eventId));
+}
+
+let retryInFlight: Promise<number> | null = null;
+
+/**
+ * Retries queued publishes and returns how many went through. Only events
+ * whose backoff has elapsed are tried unless `force` is set.
+ */
+export function retryQueuedPublishes(options: { force?: boolean } = {}): Promise<number> {
+  if (!retryInFlight) {
+    retryInFlight = runQueuedPublishes(Boolean(options.force)).finally(() => {
+      retryInFlight = null;
+    });
+  }
+  return retryInFlight;
+}
+
+async function runQueuedPublishes(force: boolean): Promise<number> {
+  let delivered = 0;
+  const now = Date.now();
+  for (const item of readPublishQueue()) {
+    if (!force && (item.nextAttemptAt ?? 0) > now) continue;
+    // Skip items a newer publish superseded while this run was going
+    if (!readPublishQueue().some((queued) => queued.event.id === item.event.id)) continue;
+    let confirmed = false;
+    let lastError: string | undefined;
+    try {
+      await publishToRelays(item.event, {
+        minConfirmations: item.minConfirmations,
+        label: item.label,
+        collapseKey: item.collapseKey,
+        queueOnFailure: false,
+      });
+      confirmed = true;
+    } catch (error) {
+      lastError = errorMessage(error);
+    }
+
+    if (confirmed) {
+      // publishToRelays already dropped it from the queue
+      delivered += 1;
+      continue;
+    }
+
+    const queue = readPublishQueue();
+    const rest = queue.filter((queued) => queued.event.id !== item.event.id);
+    if (rest.length < queue.length) {
+      const attempts = item.attempts + 1;
+      writePublishQueue([
+        ...rest,
+        {
+          ...item,
+          attempts,
+          lastAttemptAt: Date.now(),
+          nextAttemptAt: Date.now() + getRetryDelay(attempts),
+          lastError,
+        },
+      ]);
+    }
+  }
+  return delivered;
+}
+
+/**
+ * Retries the queue with backoff, and right away when the browser comes back
+ * online or the tab regains focus.
+ */
+export function startRelayRetryQueue(): () => void {
+  const retry = (force: boolean) => {
+    if (readPublishQueue().length === 0) return;
+    if (navigator.onLine === false) return;
+    void retryQueuedPublishes({ force }).catch((error) => {
+      console.warn("Relay retry failed:", error);
+    });
+  };
+  const tick = () => retry(false);
+  const resume = () => retry(true);
+  const onVisibilityChange = () => {
+    if (document.visibilityState === "visible") resume();
+  };
+
+  const timer = window.setInterval(tick, RETRY_CHECK_INTERVAL_MS);
+  window.addEventListener("online", resume);
+  window.addEventListener("focus", resume);
+  document.addEventListener("visibilitychange", onVisibilityChange);
+  tick();
+  return () => {
+    window.clearInterval(timer);
+    window.removeEventListener("online", resume);
+    window.removeEventListener("focus", resume);
+    document.removeEventListener("visibilitychange", onVisibilityChange);
+  };
+}
@@ -0,0 +1,137 @@
+import { describe, expect, it, vi } from "vitest";
+import { isRoutstrNodeError, RoutstrNodeClient, RoutstrNodeError } from "@/lib/routstrNodeClient";
+
+function jsonResponse(body: unknown, init: ResponseInit = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+    ...init,
+  });
+}
+
+function clientWith(fetchImpl: (url: string, init: RequestInit) => Promise<Response>) {
+  const fetchMock = vi.fn(fetchImpl);
+  const client = new RoutstrNodeClient("node.example/", {
+    fetch: fetchMock as unknown as typeof fetch,
+  });
+  return { client, fetchMock };
+}
+
+async function captureError(promise: Promise<unknown>): Promise<RoutstrNodeError> {
+  try {
+    await promise;
+  } catch (error) {
+    if (error instanceof RoutstrNodeError) return error;
+    throw error;
+  }
+  throw new Error("Expected the request to fail");
+}
+
+describe("RoutstrNodeClient", () => {
+  it("normalizes the base URL and sends the bearer", async () => {
+    const { client, fetchMock } = clientWith(async () =>
+      jsonResponse({ api_key: " sk-new ", balance: "2500" })
+    );
+
+    await expect(client.getWalletInfo("cashuA123")).resolves.toEqual({
+      apiKey: "sk-new",
+      balance: 2500,
+    });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://node.example/v1/wallet/info");
+    expect(new Headers(init.headers).get("Authorization")).toBe("Bearer cashuA123");
+  });
+
+  it("reads models from either response shape", async () => {
+    const { client } = clientWith(async () => jsonResponse({ data: [{ id: "gpt" }] }));
+    await expect(client.getModels()).resolves.toEqual([{ id: "gpt" }]);
+
+    const { client: bare } = clientWith(async () => jsonResponse([{ id: "claude" }]));
+    await expect(bare.getModels()).resolves.toEqual([{ id: "claude" }]);
+  });
+
+  it("classifies invalid keys from nested error payloads", async () => {
+    const { client } = clientWith(async () =>
+      jsonResponse(
+        { detail: { error: { code: "invalid_api_key", message: "Invalid API key" } } },
+        { status: 401, headers: { "x-routstr-request-id": "req-1" } }
+      )
+    );
+
+    const error = await captureError(client.getWalletInfo("sk-bad"));
+    expect(error.code).toBe("invalid_api_key");
+    expect(error.message).toBe("Invalid API key");
+    expect(error.status).toBe(401);
+    expect(error.requestId).toBe("req-1");
+  });
+
+  it("classifies 402 as insufficient balance", async () => {
+    const { client } = clientWith(async () => jsonResponse({ detail: "Pay up" }, { status: 402 }));
+
+    const error = await captureError(client.refund("sk-empty"));
+    expect(isRoutstrNodeError(error, "insufficient_balance")).toBe(true);
+    expect(error.message).toBe("Pay up");
+  });
+
+  it("falls back to the status when the error body is empty", async () => {
+    const { client } = clientWith(async () => new Response("", { status: 500 }));
+
+    const error = await captureError(client.getInfo());
+    expect(error.code).toBe("http");
+    expect(error.message).toBe("Unable to load node info (500)");
+  });
+
+  it("reports unreachable nodes as network errors", async () => {
+    const { client } = clientWith(async () => {
+      throw new TypeError("fetch failed");
+    });
+
+    const error = await captureError(client.getInfo());
+    expect(error.code).toBe("network");
+  });
+
+  it("times out and honours caller aborts", async () => {
+    const hang = (_url: string, init: RequestInit) =>
+      new Promise<Response>((_resolve, reject) => {
+        init.signal?.addEventListener("abort", () => reject(new DOMException("aborted", "AbortError")));
+      });
+    const { client } = clientWith(hang);
+
+    const timeout = await captureError(client.getInfo({ timeoutMs: 10 }));
+    expect(timeout.code).toBe("timeout");
+
+    const controller = new AbortController();
+    const pending = client.getInfo({ signal: controller.signal, timeoutMs: 0 });
+    controller.abort();
+    const aborted = await captureError(pending);
+    expect(aborted.code).toBe("aborted");
+  });
+
+  it("returns chat completions as a readable stream", async () => {
+    const { client, fetchMock } = clientWith(
+      async () =>
+        new Response('data: {"choices":[{"delta":{"content":"Hi"}}]}\n\n', {
+          headers: { "Content-Type": "text/event-stream" },
+        })
+    );
+
+    const response = await client.createChatCompletion("sk-chat", { model: "gpt", stream: true });
+    expect(await response.text()).toContain('"content":"Hi"');
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://node.example/v1/chat/completions");
+    expect(JSON.parse(String(init.body))).toEqual({ model: "gpt", stream: true });
+  });
+
+  it("keeps the error payload of a failed chat completion", async () => {
+    const { client } = clientWith(async () =>
+      jsonResponse({ error: { code: "insufficient_balance", message: "Top up first" } }, { status: 402 })
+    );
+
+    const error = await captureError(client.createChatCompletion("sk-chat", { model: "gpt" }));
+    expect(error.code).toBe("insufficient_balance");
+    expect(error.message).toBe("Top up first");
+    expect(error.payload).toEqual({
+      error: { code: "insufficient_balance", message: "Top up first" },
+    });
+  });
+});
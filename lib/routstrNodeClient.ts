@@ -0,0 +1,532 @@
+const DEFAULT_TIMEOUT_MS = 15_000;
+const REFUND_TIMEOUT_MS = 60_000;
+const CHAT_TIMEOUT_MS = 120_000;
+const REQUEST_ID_HEADER = "x-routstr-request-id";
+
+export type RoutstrNodeErrorCode =
+  | "invalid_api_key"
+  | "insufficient_balance"
+  | "network"
+  | "timeout"
+  | "aborted"
+  | "http";
+
+export class RoutstrNodeError extends Error {
+  readonly code: RoutstrNodeErrorCode;
+  readonly status?: number;
+  readonly requestId?: string;
+  readonly payload?: unknown;
+
+  constructor(
+    code: RoutstrNodeErrorCode,
+    message: string,
+    details: { status?: number; requestId?: string; payload?: unknown } = {}
+  ) {
+    super(message);
+    this.name = "RoutstrNodeError";
+    this.code = code;
+    this.status = details.status;
+    this.requestId = details.requestId;
+    this.payload = details.payload;
+  }
+}
+
+export function isRoutstrNodeError(
+  error: unknown,
+  code?: RoutstrNodeErrorCode
+): error is RoutstrNodeError {
+  if (!(error instanceof RoutstrNodeError)) return false;
+  return code ? error.code === code : true;
+}
+
+export interface RoutstrRequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+export interface RoutstrNodeClientOptions {
+  timeoutMs?: number;
+  fetch?: typeof fetch;
+}
+
+export interface RoutstrNodeInfo {
+  name?: string;
+  description?: string;
+  version?: string;
+  npub?: string | null;
+  mints?: string[];
+  http_url?: string;
+  onion_url?: string;
+  [key: string]: unknown;
+}
+
+export interface RoutstrNodeModel {
+  id?: string;
+  name?: string;
+  sats_pricing?: {
+    prompt?: number;
+    completion?: number;
+  } | null;
+  [key: string]: unknown;
+}
+
+export interface RoutstrWalletInfo {
+  apiKey: string;
+  balance: number;
+}
+
+export interface RoutstrRefundResult {
+  token?: string;
+  requestId?: string;
+}
+
+export interface RoutstrTopupResult {
+  msats?: number;
+}
+
+export interface RoutstrChildKeyRequest {
+  count: number;
+  balance_limit?: number;
+  balance_limit_reset?: string;
+  validity_date?: number;
+}
+
+export interface RoutstrChildKeyResponse {
+  api_keys?: string[];
+  count?: number;
+  cost_msats?: number;
+  parent_balance?: number;
+}
+
+export interface RoutstrBalanceInfo {
+  totalSpentMsats: number;
+  balanceLimitMsats: number | null;
+  balanceLimitReset: string | null;
+  validityDateUnix: number | null;
+}
+
+export interface RoutstrLightningInvoiceRequest {
+  amount_sats: number;
+  purpose: "create" | "topup";
+  api_key?: string;
+  balance_limit?: number;
+  balance_limit_reset?: string;
+  validity_date?: number;
+}
+
+export interface RoutstrLightningInvoice {
+  invoice_id: string;
+  bolt11: string;
+  amount_sats: number;
+  expires_at: number;
+  payment_hash: string;
+}
+
+export interface RoutstrLightningInvoiceStatus {
+  status: string;
+  api_key?: string;
+  amount_sats: number;
+  paid_at?: number;
+  created_at: number;
+  expires_at: number;
+}
+
+function trimBaseUrl(url: string): string {
+  const trimmed = String(url || "").trim();
+  if (!trimmed) return "";
+  const withProtocol = /^https?:\/\//.test(trimmed) ? trimmed : `https://${trimmed}`;
+  return withProtocol.replace(/\/+$/, "");
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function extractErrorDetail(payload: unknown): { code: string; message: string } {
+  if (!isObject(payload)) {
+    return { code: "", message: typeof payload === "string" ? payload : "" };
+  }
+
+  const detail = payload.detail;
+  const nestedError = isObject(detail) && isObject(detail.error) ? detail.error : null;
+  const topLevelError = isObject(payload.error) ? payload.error : null;
+
+  const code =
+    (nestedError && typeof nestedError.code === "string" && nestedError.code) ||
+    (topLevelError && typeof topLevelError.code === "string" && topLevelError.code) ||
+    (typeof payload.code === "string" && payload.code) ||
+    "";
+
+  const message =
+    (typeof detail === "string" && detail) ||
+    (isObject(detail) && typeof detail.message === "string" && detail.message) ||
+    (nestedError && typeof nestedError.message === "string" && nestedError.message) ||
+    (topLevelError && typeof topLevelError.message === "string" && topLevelError.message) ||
+    (typeof payload.error === "string" && payload.error) ||
+    (typeof payload.message === "string" && payload.message) ||
+    "";
+
+  return { code, message };
+}
+
+function classifyHttpError(status: number, code: string, message: string): RoutstrNodeErrorCode {
+  const combined = `${code} ${message}`.toLowerCase();
+  if (
+    code === "invalid_api_key" ||
+    combined.includes("invalid api key") ||
+    combined.includes("invalid_api_key")
+  ) {
+    return "invalid_api_key";
+  }
+  if (
+    status === 402 ||
+    code === "insufficient_balance" ||
+    combined.includes("insufficient balance") ||
+    combined.includes("no balance to refund")
+  ) {
+    return "insufficient_balance";
+  }
+  return "http";
+}
+
+async function readResponseError(
+  response: Response,
+  fallback: string
+): Promise<RoutstrNodeError> {
+  const requestId = response.headers.get(REQUEST_ID_HEADER) || undefined;
+  let payload: unknown = null;
+  let rawText = "";
+  try {
+    rawText = await response.text();
+    payload = rawText ? JSON.parse(rawText) : null;
+  } catch {
+    payload = rawText || null;
+  }
+
+  const { code, message } = extractErrorDetail(payload);
+  return new RoutstrNodeError(
+    classifyHttpError(response.status, code, message),
+    message || fallback,
+    { status: response.status, requestId, payload }
+  );
+}
+
+/**
+ * Typed client for a single Routstr node. Every call goes through one request
+ * path so timeouts, aborts and error payloads are normalized into
+ * `RoutstrNodeError` regardless of which endpoint failed.
+ */
+export class RoutstrNodeClient {
+  readonly baseUrl: string;
+  private readonly timeoutMs: number;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(baseUrl: string, options: RoutstrNodeClientOptions = {}) {
+    this.baseUrl = trimBaseUrl(baseUrl);
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  getInfo(options?: RoutstrRequestOptions): Promise<RoutstrNodeInfo> {
+    return this.request<RoutstrNodeInfo | null>(
+      "v1/info",
+      { cache: "no-store" },
+      "Unable to load node info",
+      options
+    ).then((payload) => payload || {});
+  }
+
+  async getAcceptedMints(options?: RoutstrRequestOptions): Promise<string[]> {
+    const info = await this.getInfo(options);
+    if (!Array.isArray(info.mints)) return [];
+    return info.mints
+      .map((mint) => trimBaseUrl(String(mint || "")))
+      .filter(Boolean);
+  }
+
+  async getModels(options?: RoutstrRequestOptions): Promise<RoutstrNodeModel[]> {
+    const payload = await this.request<{ data?: RoutstrNodeModel[] } | RoutstrNodeModel[]>(
+      "v1/models",
+      { cache: "no-store" },
+      "Unable to load models",
+      options
+    );
+    if (Array.isArray(payload)) return payload;
+    return Array.isArray(payload?.data) ? payload.data : [];
+  }
+
+  /**
+   * Reads key info. The bearer can be an API key or a Cashu token; with a
+   * token the node redeems it and returns the newly created key in `apiKey`.
+   */
+  async getWalletInfo(
+    bearer: string,
+    options?: RoutstrRequestOptions
+  ): Promise<RoutstrWalletInfo> {
+    const payload = await this.request<{
+      api_key?: unknown;
+      apiKey?: unknown;
+      balance?: unknown;
+    }>(
+      "v1/wallet/info",
+      { headers: { Authorization: `Bearer ${bearer}` } },
+      "Failed to fetch key info",
+      options
+    );
+
+    const apiKey =
+      typeof payload?.api_key === "string"
+        ? payload.api_key
+        : typeof payload?.apiKey === "string"
+          ? payload.apiKey
+          : "";
+    const balance = Number(payload?.balance ?? 0);
+    return {
+      apiKey: apiKey.trim(),
+      balance: Number.isFinite(balance) ? balance : 0,
+    };
+  }
+
+  async refund(
+    apiKey: string,
+    options?: RoutstrRequestOptions
+  ): Promise<RoutstrRefundResult> {
+    const { payload, requestId } = await this.requestWithMeta<{ token?: string }>(
+      "v1/wallet/refund",
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+      },
+      "Refund failed",
+      { timeoutMs: REFUND_TIMEOUT_MS, ...options }
+    );
+    return {
+      token: typeof payload?.token === "string" ? payload.token : undefined,
+      requestId,
+    };
+  }
+
+  async topup(
+    apiKey: string,
+    cashuToken: string,
+    options?: RoutstrRequestOptions
+  ): Promise<RoutstrTopupResult> {
+    const payload = await this.request<RoutstrTopupResult>(
+      `v1/wallet/topup?cashu_token=${encodeURIComponent(cashuToken)}`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+      },
+      "Top up failed",
+      options
+    );
+    return payload || {};
+  }
+
+  async createChildKeys(
+    parentApiKey: string,
+    body: RoutstrChildKeyRequest,
+    options?: RoutstrRequestOptions
+  ): Promise<RoutstrChildKeyResponse> {
+    const payload = await this.request<RoutstrChildKeyResponse>(
+      "v1/balance/child-key",
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${parentApiKey}`,
+        },
+        body: JSON.stringify(body),
+      },
+      "Failed to create child keys",
+      options
+    );
+    return payload || {};
+  }
+
+  async getBalanceInfo(
+    apiKey: string,
+    options?: RoutstrRequestOptions
+  ): Promise<RoutstrBalanceInfo> {
+    const payload = await this.request<{
+      total_spent?: number;
+      balance_limit?: number | null;
+      balance_limit_reset?: string | null;
+      validity_date?: number | null;
+    }>(
+      "v1/balance/info",
+      {
+        cache: "no-store",
+        headers: { Authorization: `Bearer ${apiKey}` },
+      },
+      "Failed to check key balance",
+      options
+    );
+
+    const totalSpent = Number(payload?.total_spent ?? 0);
+    return {
+      totalSpentMsats: Number.isFinite(totalSpent) ? totalSpent : 0,
+      balanceLimitMsats:
+        typeof payload?.balance_limit === "number" ? payload.balance_limit : null,
+      balanceLimitReset:
+        typeof payload?.balance_limit_reset === "string"
+          ? payload.balance_limit_reset
+          : null,
+      validityDateUnix:
+        typeof payload?.validity_date === "number" ? payload.validity_date : null,
+    };
+  }
+
+  createLightningInvoice(
+    body: RoutstrLightningInvoiceRequest,
+    options?: RoutstrRequestOptions
+  ): Promise<RoutstrLightningInvoice> {
+    return this.request<RoutstrLightningInvoice>(
+      "v1/balance/lightning/invoice",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      },
+      "Failed to create Lightning invoice",
+      options
+    );
+  }
+
+  getLightningInvoiceStatus(
+    invoiceId: string,
+    options?: RoutstrRequestOptions
+  ): Promise<RoutstrLightningInvoiceStatus> {
+    return this.request<RoutstrLightningInvoiceStatus>(
+      `v1/balance/lightning/invoice/${encodeURIComponent(invoiceId)}/status`,
+      { cache: "no-store" },
+      "Failed to check invoice status",
+      options
+    );
+  }
+
+  recoverLightningInvoice(
+    bolt11: string,
+    options?: RoutstrRequestOptions
+  ): Promise<RoutstrLightningInvoiceStatus> {
+    return this.request<RoutstrLightningInvoiceStatus>(
+      "v1/balance/lightning/recover",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ bolt11 }),
+      },
+      "Failed to recover invoice",
+      options
+    );
+  }
+
+  /**
+   * Starts a chat completion and resolves with the response as soon as its
+   * headers arrive, so the caller can read a streamed body. The timeout only
+   * covers the wait for headers.
+   */
+  createChatCompletion(
+    apiKey: string,
+    body: Record<string, unknown>,
+    options?: RoutstrRequestOptions
+  ): Promise<Response> {
+    return this.requestWithMeta<Response>(
+      "v1/chat/completions",
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify(body),
+      },
+      "Request failed",
+      { timeoutMs: CHAT_TIMEOUT_MS, ...options },
+      async (response) => response
+    ).then(({ payload }) => payload);
+  }
+
+  private async request<T>(
+    path: string,
+    init: RequestInit,
+    fallbackError: string,
+    options?: RoutstrRequestOptions
+  ): Promise<T> {
+    const { payload } = await this.requestWithMeta<T>(path, init, fallbackError, options);
+    return payload;
+  }
+
+  private async requestWithMeta<T>(
+    path: string,
+    init: RequestInit,
+    fallbackError: string,
+    options: RoutstrRequestOptions = {},
+    readPayload: (response: Response) => Promise<T> = (response) => response.json()
+  ): Promise<{ payload: T; requestId?: string }> {
+    if (!this.baseUrl) {
+      throw new RoutstrNodeError("network", "Node URL is not configured");
+    }
+
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+    const controller = new AbortController();
+    let timedOut = false;
+    const timeoutId =
+      timeoutMs > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, timeoutMs)
+        : null;
+    const forwardAbort = () => controller.abort();
+    if (options.signal) {
+      if (options.signal.aborted) controller.abort();
+      else options.signal.addEventListener("abort", forwardAbort, { once: true });
+    }
+
+    try {
+      const response = await this.fetchImpl(`${this.baseUrl}/${path}`, {
+        ...init,
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw await readResponseError(response, `${fallbackError} (${response.status})`);
+      }
+
+      const requestId = response.headers.get(REQUEST_ID_HEADER) || undefined;
+      const payload = await readPayload(response);
+      return { payload, requestId };
+    } catch (error) {
+      if (error instanceof RoutstrNodeError) throw error;
+      if (timedOut) {
+        throw new RoutstrNodeError(
+          "timeout",
+          `Request timed out after ${Math.round(timeoutMs / 1000)}s`
+        );
+      }
+      if (controller.signal.aborted) {
+        throw new RoutstrNodeError("aborted", "Request was cancelled");
+      }
+      if (error instanceof TypeError) {
+        throw new RoutstrNodeError(
+          "network",
+          `Node ${this.baseUrl} is not responding`
+        );
+      }
+      throw new RoutstrNodeError(
+        "http",
+        error instanceof Error && error.message ? error.message : fallbackError
+      );
+    } finally {
+      if (timeoutId) clearTimeout(timeoutId);
+      options.signal?.removeEventListener("abort", forwardAbort);
+    }
+  }
+}
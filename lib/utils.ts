@@ -6,3 +6,54 @@ export function cn(...inputs: ClassValue[]) {
 }
 
 export const DEFAULT_BASE_URL = "https://api.routstr.com/";
+
+/** Hostname of a mint URL without `www.`, or the raw value if it doesn't parse. */
+export function getMintHost(mintUrl: string): string {
+  try {
+    return new URL(mintUrl).hostname.replace(/^www\./, "");
+  } catch {
+    return mintUrl;
+  }
+}
+
+function normalizeSearchText(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, "");
+}
+
+/**
+ * Scores how well `candidate` matches `query`: substring hits rank highest,
+ * then in-order character matches with a bonus for consecutive runs. 0 means
+ * no match.
+ */
+export function fuzzyScore(candidate: string, query: string): number {
+  const normalizedQuery = normalizeSearchText(query);
+  if (!normalizedQuery) return 1;
+
+  const normalizedCandidate = normalizeSearchText(candidate);
+  if (!normalizedCandidate) return 0;
+
+  const directIndex = normalizedCandidate.indexOf(normalizedQuery);
+  if (directIndex >= 0) {
+    return 300 - directIndex;
+  }
+
+  let queryIndex = 0;
+  let streak = 0;
+  let bonus = 0;
+
+  for (const char of normalizedCandidate) {
+    if (char === normalizedQuery[queryIndex]) {
+      queryIndex += 1;
+      streak += 1;
+      bonus += 2 + streak;
+      if (queryIndex === normalizedQuery.length) break;
+    } else {
+      streak = 0;
+    }
+  }
+
+  if (queryIndex !== normalizedQuery.length) return 0;
+
+  const density = normalizedQuery.length / normalizedCandidate.length;
+  return 100 + bonus + density * 10;
+}
@@ -0,0 +1,139 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const PASSPHRASE = "correct horse battery";
+const SEED_RECORD = JSON.stringify({
+  pubkey: "f".repeat(64),
+  ciphertext: "nip44-ciphertext",
+  createdAt: 1_700_000_000_000,
+  syncedToNostr: false,
+});
+const PROOF = {
+  id: "009a1f293253e41e",
+  amount: 64,
+  secret: "secret-1",
+  C: "02abc",
+  mintUrl: "https://mint.one",
+};
+
+/** A blank browser profile: empty storage and freshly loaded modules. */
+async function freshDevice() {
+  localStorage.clear();
+  vi.resetModules();
+  const vault = await import("@/lib/vault");
+  const walletStore = await import("@/lib/walletStore");
+  await walletStore.ensureWalletStore();
+  return { ...vault, ...walletStore };
+}
+
+async function exportFromFirstDevice(): Promise<string> {
+  const device = await freshDevice();
+  localStorage.setItem(
+    "api_keys",
+    JSON.stringify([
+      { key: "sk-main", balance: 1000, label: "Main", updatedAt: 10 },
+      { key: "sk-shared", balance: 50, label: "Renamed", updatedAt: 20 },
+    ])
+  );
+  localStorage.setItem("nostr_relays", JSON.stringify(["wss://relay.one"]));
+  localStorage.setItem("platform_active_mint_url", "https://mint.one");
+  localStorage.setItem("platform_cashu_seed_v1", SEED_RECORD);
+  await device.commitProofStates([{ proof: PROOF, state: "unspent" }]);
+  await device.replaceHistoryRecords([
+    { type: "mint", amount: 64, timestamp: 1_700_000_000_000, status: "success" },
+  ]);
+
+  return device.encryptVault(await device.collectVaultContents(), PASSPHRASE);
+}
+
+describe("vault", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    // jsdom has no IndexedDB, so the wallet store warns and uses localStorage
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("round-trips through encrypt, decrypt, diff and apply", async () => {
+    const file = await exportFromFirstDevice();
+    expect(file).not.toContain("sk-main");
+
+    const device = await freshDevice();
+    localStorage.setItem(
+      "api_keys",
+      JSON.stringify([{ key: "sk-shared", balance: 50, label: "Shared", updatedAt: 5 }])
+    );
+    localStorage.setItem("platform_active_mint_url", "https://mint.two");
+
+    const incoming = await device.decryptVault(file, PASSPHRASE);
+    expect(incoming.apiKeys.map((keyData) => keyData.key)).toEqual(["sk-main", "sk-shared"]);
+    expect(incoming.proofs).toEqual([PROOF]);
+    expect(incoming.storage).toEqual({
+      nostr_relays: JSON.stringify(["wss://relay.one"]),
+      platform_active_mint_url: "https://mint.one",
+      platform_cashu_seed_v1: SEED_RECORD,
+    });
+
+    const diff = device.diffVault(await device.collectVaultContents(), incoming);
+    const sections = Object.fromEntries(diff.map((section) => [section.id, section]));
+    expect(sections.apiKeys.added).toEqual([{ id: "sk-main", label: "Main" }]);
+    expect(sections.apiKeys.overwritten).toEqual([{ id: "sk-shared", label: "Renamed" }]);
+    expect(sections.proofs.added).toHaveLength(1);
+    expect(sections.history.added).toHaveLength(1);
+    expect(sections.relays.added).toEqual([{ id: "nostr_relays", label: "nostr_relays" }]);
+    expect(sections.seed.added).toEqual([
+      { id: "platform_cashu_seed_v1", label: "platform_cashu_seed_v1" },
+    ]);
+    expect(sections.settings.overwritten).toEqual([
+      { id: "platform_active_mint_url", label: "platform_active_mint_url" },
+    ]);
+
+    await device.applyVault(incoming, ["apiKeys", "proofs", "history", "relays", "seed"]);
+
+    const applied = await device.collectVaultContents();
+    expect(applied.apiKeys.map((keyData) => [keyData.key, keyData.label])).toEqual([
+      ["sk-shared", "Renamed"],
+      ["sk-main", "Main"],
+    ]);
+    expect(applied.proofs).toEqual([PROOF]);
+    expect(applied.history).toEqual(incoming.history);
+    expect(JSON.parse(localStorage.getItem("nostr_relays") || "[]")).toEqual(["wss://relay.one"]);
+    expect(localStorage.getItem("platform_cashu_seed_v1")).toBe(SEED_RECORD);
+    // Sections that weren't picked stay as they were
+    expect(localStorage.getItem("platform_active_mint_url")).toBe("https://mint.two");
+
+    const again = device.diffVault(applied, incoming);
+    const proofs = again.find((section) => section.id === "proofs");
+    expect(proofs).toMatchObject({ added: [], overwritten: [], unchanged: 1 });
+  });
+
+  it("rejects a wrong passphrase", async () => {
+    const file = await exportFromFirstDevice();
+    const { decryptVault } = await freshDevice();
+
+    await expect(decryptVault(file, "not the passphrase")).rejects.toThrow(
+      "Wrong passphrase or corrupted vault file"
+    );
+  });
+
+  it("refuses files from a newer version of the app", async () => {
+    const file = JSON.parse(await exportFromFirstDevice());
+    const { decryptVault, VAULT_VERSION } = await freshDevice();
+    file.version = VAULT_VERSION + 1;
+
+    await expect(decryptVault(JSON.stringify(file), PASSPHRASE)).rejects.toThrow(
+      "This vault was exported by a newer version of the app"
+    );
+  });
+
+  it("refuses key derivation settings outside the supported range", async () => {
+    const file = JSON.parse(await exportFromFirstDevice());
+    const { decryptVault } = await freshDevice();
+
+    for (const iterations of [1_000, 1_000_000_000]) {
+      file.kdf.iterations = iterations;
+      await expect(decryptVault(JSON.stringify(file), PASSPHRASE)).rejects.toThrow(
+        "Vault file uses an unsupported key derivation strength"
+      );
+    }
+  });
+});
@@ -0,0 +1,498 @@
+"use client";
+
+import {
+  parseStoredApiKeys,
+  stampApiKeyChanges,
+  type StoredApiKey,
+} from "@/lib/apiKeySync";
+import { importStoredSeed } from "@/lib/cashuSeed";
+import {
+  loadPlatformWallet,
+  type OutgoingToken,
+  type WalletInvoice,
+  type WalletTransactionHistory,
+} from "@/lib/platformWallet";
+import { derivePassphraseKey, fromBase64, toBase64 } from "@/lib/passphraseCrypto";
+import { writeStoredRelayUrls } from "@/lib/relayManager";
+import {
+  commitProofStates,
+  proofKey,
+  putOutgoingRecord,
+  readHistoryRecords,
+  readInvoiceRecords,
+  readOutgoingRecords,
+  readProofRecords,
+  replaceHistoryRecords,
+  writeInvoiceRecords,
+  type StoredProof,
+} from "@/lib/walletStore";
+
+export const VAULT_FILE_TYPE = "routstr-platform-vault";
+export const VAULT_VERSION = 1;
+
+const PBKDF2_ITERATIONS = 310_000;
+// Files outside this range are tampered with or not ours; the upper bound
+// keeps a crafted file from locking up the tab during key derivation.
+const MIN_PBKDF2_ITERATIONS = 100_000;
+const MAX_PBKDF2_ITERATIONS = 2_000_000;
+const CHAT_LOCAL_API_KEYS_STORAGE_KEY = "api_keys";
+const LOCAL_CASHU_TOKENS_STORAGE_KEY = "local_cashu_tokens";
+const NOSTR_RELAYS_STORAGE_KEY = "nostr_relays";
+/** NUT-13 seed record, still NIP-44 encrypted to the account that created it. */
+const SEED_STORAGE_KEY = "platform_cashu_seed_v1";
+const PLAYGROUND_SETTINGS_STORAGE_KEY_PREFIX = "platform_playground_settings_v1:";
+/** Plain localStorage values carried in the "settings" section. */
+const SETTINGS_STORAGE_KEYS = [
+  "platform_active_mint_url",
+  "platform_active_base_url",
+  "base_urls_list",
+  "api_keys_cloud_sync_enabled",
+  "platform_auto_topup_rules",
+  "platform_child_keys",
+];
+
+export type VaultSectionId =
+  | "apiKeys"
+  | "cashuTokens"
+  | "proofs"
+  | "invoices"
+  | "outgoing"
+  | "history"
+  | "playground"
+  | "relays"
+  | "seed"
+  | "settings";
+
+export const VAULT_SECTION_LABELS: Record<VaultSectionId, string> = {
+  apiKeys: "API keys",
+  cashuTokens: "Local Cashu tokens",
+  proofs: "Wallet proofs",
+  invoices: "Lightning invoices",
+  outgoing: "Pending sent tokens",
+  history: "Transaction history",
+  playground: "Playground settings",
+  relays: "Relay config",
+  seed: "Wallet seed",
+  settings: "App settings",
+};
+
+export interface LocalCashuToken {
+  baseUrl: string;
+  token: string;
+}
+
+export interface VaultContents {
+  version: number;
+  exportedAt: number;
+  apiKeys: StoredApiKey[];
+  cashuTokens: LocalCashuToken[];
+  /** Unspent proofs only; spent ones are useless and pending ones live in `outgoing`. */
+  proofs: StoredProof[];
+  invoices: WalletInvoice[];
+  outgoing: OutgoingToken[];
+  history: WalletTransactionHistory[];
+  /** Raw localStorage values for playground, relay, seed and app settings. */
+  storage: Record<string, string>;
+}
+
+interface VaultFile {
+  type: typeof VAULT_FILE_TYPE;
+  version: number;
+  kdf: { name: "PBKDF2"; hash: "SHA-256"; iterations: number; salt: string };
+  cipher: { name: "AES-GCM"; iv: string };
+  data: string;
+}
+
+export interface VaultDiffItem {
+  id: string;
+  label: string;
+}
+
+export interface VaultSectionDiff {
+  id: VaultSectionId;
+  label: string;
+  added: VaultDiffItem[];
+  overwritten: VaultDiffItem[];
+  unchanged: number;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function parseStringList(raw: string): string[] {
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed)
+      ? parsed.filter((item): item is string => typeof item === "string")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+function isVaultStorageKey(key: string): boolean {
+  return (
+    key === NOSTR_RELAYS_STORAGE_KEY ||
+    key === SEED_STORAGE_KEY ||
+    key.startsWith(PLAYGROUND_SETTINGS_STORAGE_KEY_PREFIX) ||
+    SETTINGS_STORAGE_KEYS.includes(key)
+  );
+}
+
+function getStorageSection(key: string): VaultSectionId {
+  if (key === NOSTR_RELAYS_STORAGE_KEY) return "relays";
+  if (key === SEED_STORAGE_KEY) return "seed";
+  if (key.startsWith(PLAYGROUND_SETTINGS_STORAGE_KEY_PREFIX)) return "playground";
+  return "settings";
+}
+
+function historyId(item: WalletTransactionHistory): string {
+  return `${item.timestamp}:${item.type}:${item.amount}:${item.quoteId ?? ""}`;
+}
+
+/** Reads everything the vault covers from localStorage and the wallet store. */
+export async function collectVaultContents(): Promise<VaultContents> {
+  await loadPlatformWallet();
+
+  const storage: Record<string, string> = {};
+  for (let index = 0; index < localStorage.length; index += 1) {
+    const key = localStorage.key(index);
+    if (!key || !isVaultStorageKey(key)) continue;
+    const value = localStorage.getItem(key);
+    if (value !== null) storage[key] = value;
+  }
+
+  return {
+    version: VAULT_VERSION,
+    exportedAt: Date.now(),
+    apiKeys: parseStoredApiKeys(localStorage.getItem(CHAT_LOCAL_API_KEYS_STORAGE_KEY)),
+    cashuTokens: readJson<LocalCashuToken[]>(LOCAL_CASHU_TOKENS_STORAGE_KEY, []),
+    proofs: readProofRecords()
+      .filter((record) => record.state === "unspent")
+      .map((record) => record.proof),
+    invoices: readInvoiceRecords(),
+    outgoing: readOutgoingRecords().filter((token) => token.status === "pending"),
+    history: readHistoryRecords(),
+    storage,
+  };
+}
+
+export async function encryptVault(
+  contents: VaultContents,
+  passphrase: string
+): Promise<string> {
+  if (passphrase.length < 8) {
+    throw new Error("Use a passphrase of at least 8 characters");
+  }
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await derivePassphraseKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(contents))
+  );
+
+  const file: VaultFile = {
+    type: VAULT_FILE_TYPE,
+    version: VAULT_VERSION,
+    kdf: { name: "PBKDF2", hash: "SHA-256", iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: "AES-GCM", iv: toBase64(iv) },
+    data: toBase64(new Uint8Array(ciphertext)),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+function parseVaultFile(raw: string): VaultFile {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error("Not a vault file");
+  }
+  if (!isObject(parsed) || parsed.type !== VAULT_FILE_TYPE) {
+    throw new Error("Not a vault file");
+  }
+  if (typeof parsed.version !== "number" || parsed.version > VAULT_VERSION) {
+    throw new Error("This vault was exported by a newer version of the app");
+  }
+  const { kdf, cipher, data } = parsed;
+  if (
+    !isObject(kdf) ||
+    typeof kdf.salt !== "string" ||
+    typeof kdf.iterations !== "number" ||
+    !isObject(cipher) ||
+    typeof cipher.iv !== "string" ||
+    typeof data !== "string"
+  ) {
+    throw new Error("Vault file is incomplete");
+  }
+  if (
+    !Number.isInteger(kdf.iterations) ||
+    kdf.iterations < MIN_PBKDF2_ITERATIONS ||
+    kdf.iterations > MAX_PBKDF2_ITERATIONS
+  ) {
+    throw new Error("Vault file uses an unsupported key derivation strength");
+  }
+  return parsed as unknown as VaultFile;
+}
+
+function parseVaultContents(value: unknown): VaultContents {
+  if (!isObject(value)) throw new Error("Vault contents are invalid");
+  const list = <T>(field: unknown): T[] => (Array.isArray(field) ? (field as T[]) : []);
+  const storage: Record<string, string> = {};
+  if (isObject(value.storage)) {
+    for (const [key, item] of Object.entries(value.storage)) {
+      if (typeof item === "string" && isVaultStorageKey(key)) storage[key] = item;
+    }
+  }
+
+  return {
+    version: typeof value.version === "number" ? value.version : VAULT_VERSION,
+    exportedAt: typeof value.exportedAt === "number" ? value.exportedAt : 0,
+    apiKeys: parseStoredApiKeys(JSON.stringify(list(value.apiKeys))),
+    cashuTokens: list<LocalCashuToken>(value.cashuTokens).filter(
+      (entry) => isObject(entry) && typeof entry.baseUrl === "string" && typeof entry.token === "string"
+    ),
+    proofs: list<StoredProof>(value.proofs).filter(
+      (proof) => isObject(proof) && typeof proof.amount === "number"
+    ),
+    invoices: list<WalletInvoice>(value.invoices).filter(
+      (invoice) => isObject(invoice) && typeof invoice.id === "string"
+    ),
+    outgoing: list<OutgoingToken>(value.outgoing).filter(
+      (token) => isObject(token) && typeof token.id === "string" && Array.isArray(token.proofs)
+    ),
+    history: list<WalletTransactionHistory>(value.history).filter(
+      (item) => isObject(item) && typeof item.timestamp === "number"
+    ),
+    storage,
+  };
+}
+
+export async function decryptVault(raw: string, passphrase: string): Promise<VaultContents> {
+  const file = parseVaultFile(raw);
+  const key = await derivePassphraseKey(
+    passphrase,
+    fromBase64(file.kdf.salt),
+    file.kdf.iterations
+  );
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromBase64(file.cipher.iv) },
+      key,
+      fromBase64(file.data)
+    );
+  } catch {
+    throw new Error("Wrong passphrase or corrupted vault file");
+  }
+  return parseVaultContents(JSON.parse(new TextDecoder().decode(plaintext)));
+}
+
+/**
+ * Compares incoming records to current ones by id. Append-only sections pass
+ * `overwrite: false` so existing records always count as unchanged.
+ */
+function diffRecords<T>(
+  current: T[],
+  incoming: T[],
+  getId: (item: T) => string,
+  describe: (item: T) => string,
+  overwrite = true
+): Omit<VaultSectionDiff, "id" | "label"> {
+  const existing = new Map(current.map((item) => [getId(item), item]));
+  const added: VaultDiffItem[] = [];
+  const overwritten: VaultDiffItem[] = [];
+  let unchanged = 0;
+
+  for (const item of incoming) {
+    const id = getId(item);
+    const before = existing.get(id);
+    if (before === undefined) {
+      added.push({ id, label: describe(item) });
+    } else if (overwrite && JSON.stringify(before) !== JSON.stringify(item)) {
+      overwritten.push({ id, label: describe(item) });
+    } else {
+      unchanged += 1;
+    }
+  }
+  return { added, overwritten, unchanged };
+}
+
+function stripUpdatedAt(keyData: StoredApiKey): Omit<StoredApiKey, "updatedAt"> {
+  const rest = { ...keyData };
+  delete rest.updatedAt;
+  return rest;
+}
+
+/** What importing `incoming` would add or overwrite, per section. */
+export function diffVault(current: VaultContents, incoming: VaultContents): VaultSectionDiff[] {
+  const storageEntries = (contents: VaultContents, section: VaultSectionId) =>
+    Object.entries(contents.storage).filter(([key]) => getStorageSection(key) === section);
+
+  const sections: Array<[VaultSectionId, Omit<VaultSectionDiff, "id" | "label">]> = [
+    [
+      "apiKeys",
+      diffRecords(
+        current.apiKeys.map(stripUpdatedAt),
+        incoming.apiKeys.map(stripUpdatedAt),
+        (keyData) => keyData.key,
+        (keyData) => keyData.label || `${keyData.key.slice(0, 12)}...`
+      ),
+    ],
+    [
+      "cashuTokens",
+      diffRecords(
+        current.cashuTokens,
+        incoming.cashuTokens,
+        (entry) => entry.baseUrl,
+        (entry) => entry.baseUrl
+      ),
+    ],
+    [
+      "proofs",
+      diffRecords(
+        current.proofs,
+        incoming.proofs,
+        proofKey,
+        (proof) => `${proof.amount} from ${proof.mintUrl || "unknown mint"}`,
+        false
+      ),
+    ],
+    [
+      "invoices",
+      diffRecords(
+        current.invoices,
+        incoming.invoices,
+        (invoice) => invoice.id,
+        (invoice) => `${invoice.type} ${invoice.amount} sats (${invoice.state})`
+      ),
+    ],
+    [
+      "outgoing",
+      diffRecords(
+        current.outgoing,
+        incoming.outgoing,
+        (token) => token.id,
+        (token) => `${token.amountSats} sats · ${token.purpose}`,
+        false
+      ),
+    ],
+    [
+      "history",
+      diffRecords(
+        current.history,
+        incoming.history,
+        historyId,
+        (item) => `${item.type} ${item.amount} sats`,
+        false
+      ),
+    ],
+    ...(["playground", "relays", "seed", "settings"] as const).map(
+      (section) =>
+        [
+          section,
+          diffRecords(
+            storageEntries(current, section),
+            storageEntries(incoming, section),
+            ([key]) => key,
+            ([key]) => key
+          ),
+        ] as [VaultSectionId, Omit<VaultSectionDiff, "id" | "label">]
+    ),
+  ];
+
+  return sections
+    .map(([id, diff]) => ({ id, label: VAULT_SECTION_LABELS[id], ...diff }))
+    .filter((section) => section.added.length + section.overwritten.length + section.unchanged > 0);
+}
+
+function mergeById<T>(current: T[], incoming: T[], getId: (item: T) => string): T[] {
+  const merged = new Map(current.map((item) => [getId(item), item]));
+  for (const item of incoming) merged.set(getId(item), item);
+  return Array.from(merged.values());
+}
+
+/**
+ * Merges the chosen sections of a decrypted vault into local state. Records
+ * are matched by id; wallet proofs and history are only ever added.
+ */
+export async function applyVault(
+  incoming: VaultContents,
+  sections: VaultSectionId[]
+): Promise<void> {
+  const selected = new Set(sections);
+  const current = await collectVaultContents();
+
+  if (selected.has("apiKeys")) {
+    const merged = mergeById(current.apiKeys, incoming.apiKeys, (keyData) => keyData.key);
+    // Stamp imported keys as edited now so cloud sync doesn't drop them
+    const stamped = stampApiKeyChanges(current.apiKeys, merged);
+    localStorage.setItem(CHAT_LOCAL_API_KEYS_STORAGE_KEY, JSON.stringify(stamped));
+    window.dispatchEvent(new Event("platform-api-keys-updated"));
+  }
+
+  if (selected.has("cashuTokens")) {
+    localStorage.setItem(
+      LOCAL_CASHU_TOKENS_STORAGE_KEY,
+      JSON.stringify(mergeById(current.cashuTokens, incoming.cashuTokens, (entry) => entry.baseUrl))
+    );
+  }
+
+  if (selected.has("proofs")) {
+    const known = new Set(readProofRecords().map((record) => record.key));
+    await commitProofStates(
+      incoming.proofs
+        .filter((proof) => !known.has(proofKey(proof)))
+        .map((proof) => ({ proof, state: "unspent" as const }))
+    );
+  }
+
+  if (selected.has("invoices")) {
+    await writeInvoiceRecords(
+      mergeById(current.invoices, incoming.invoices, (invoice) => invoice.id)
+    );
+  }
+
+  if (selected.has("outgoing")) {
+    const known = new Set(readOutgoingRecords().map((token) => token.id));
+    for (const token of incoming.outgoing) {
+      if (!known.has(token.id)) await putOutgoingRecord(token);
+    }
+  }
+
+  if (selected.has("history")) {
+    const known = new Set(current.history.map(historyId));
+    const added = incoming.history.filter((item) => !known.has(historyId(item)));
+    if (added.length > 0) {
+      await replaceHistoryRecords(
+        [...current.history, ...added].sort((a, b) => a.timestamp - b.timestamp)
+      );
+    }
+  }
+
+  for (const [key, value] of Object.entries(incoming.storage)) {
+    if (!selected.has(getStorageSection(key))) continue;
+    if (key === NOSTR_RELAYS_STORAGE_KEY) {
+      const relays = parseStringList(value);
+      if (relays.length > 0) writeStoredRelayUrls(relays);
+      continue;
+    }
+    if (key === SEED_STORAGE_KEY) {
+      importStoredSeed(value);
+      continue;
+    }
+    localStorage.setItem(key, value);
+  }
+}
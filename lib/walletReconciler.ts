@@ -0,0 +1,73 @@
+"use client";
+
+import { reconcileProofStates, type ReconciliationReport } from "@/lib/cashuEngine";
+import type { CloudSyncCapableAccount } from "@/lib/nip60WalletSync";
+
+const RECONCILIATION_REPORT_STORAGE_KEY = "platform_wallet_reconciliation";
+const DEFAULT_RECONCILE_INTERVAL_MS = 5 * 60 * 1000;
+
+export const PLATFORM_RECONCILIATION_UPDATED_EVENT = "platform-wallet-reconciliation-updated";
+
+let inFlight: Promise<ReconciliationReport> | null = null;
+
+function isBrowser(): boolean {
+  return typeof window !== "undefined";
+}
+
+export function readReconciliationReport(): ReconciliationReport | null {
+  if (!isBrowser()) return null;
+  try {
+    const raw = localStorage.getItem(RECONCILIATION_REPORT_STORAGE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as ReconciliationReport;
+    return Array.isArray(parsed?.mints) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeReconciliationReport(report: ReconciliationReport): void {
+  if (!isBrowser()) return;
+  localStorage.setItem(RECONCILIATION_REPORT_STORAGE_KEY, JSON.stringify(report));
+  window.dispatchEvent(new Event(PLATFORM_RECONCILIATION_UPDATED_EVENT));
+}
+
+/**
+ * Runs one reconciliation pass and stores its report. Concurrent callers share
+ * the pass already in flight.
+ */
+export function runWalletReconciliation(
+  syncAccount: CloudSyncCapableAccount | null
+): Promise<ReconciliationReport> {
+  if (inFlight) return inFlight;
+  inFlight = reconcileProofStates({ syncAccount })
+    .then((report) => {
+      writeReconciliationReport(report);
+      return report;
+    })
+    .finally(() => {
+      inFlight = null;
+    });
+  return inFlight;
+}
+
+/**
+ * Reconciles right away and then on an interval while the page is visible,
+ * using whichever account is active at each tick. Returns a function that
+ * stops the schedule.
+ */
+export function startWalletReconciler(
+  getSyncAccount: () => CloudSyncCapableAccount | null,
+  intervalMs = DEFAULT_RECONCILE_INTERVAL_MS
+): () => void {
+  const tick = () => {
+    if (document.visibilityState === "hidden") return;
+    void runWalletReconciliation(getSyncAccount()).catch((error) => {
+      console.warn("Wallet reconciliation failed:", error);
+    });
+  };
+
+  tick();
+  const timer = window.setInterval(tick, intervalMs);
+  return () => window.clearInterval(timer);
+}
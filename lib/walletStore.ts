@@ -0,0 +1,606 @@
+"use client";
+
+import type {
+  OutgoingToken,
+  WalletInvoice,
+  WalletTransactionHistory,
+} from "@/lib/platformWallet";
+
+const DB_NAME = "routstr-platform-wallet";
+const DB_VERSION = 2;
+const PROOFS_STORE = "proofs";
+const INVOICES_STORE = "invoices";
+const HISTORY_STORE = "history";
+const OUTGOING_STORE = "outgoing";
+const META_STORE = "meta";
+const CHANGE_CHANNEL_NAME = "routstr-platform-wallet";
+const LEGACY_MIGRATION_META_KEY = "legacyMigratedAt";
+const SPENT_PROOF_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+const CASHU_PROOFS_STORAGE_KEY = "cashu_proofs";
+const CHAT_LIGHTNING_INVOICES_STORAGE_KEY = "lightning_invoices";
+const LEGACY_PLATFORM_INVOICES_STORAGE_KEY = "platform_lightning_invoices";
+const TRANSACTION_HISTORY_STORAGE_KEY = "transaction_history";
+const OUTGOING_TOKENS_STORAGE_KEY = "platform_outgoing_tokens";
+const KEYSET_COUNTERS_STORAGE_KEY = "platform_keyset_counters";
+
+export type ProofState = "unspent" | "pending" | "spent";
+
+export type WalletStoreName = "proofs" | "invoices" | "history" | "outgoing";
+
+export interface StoredProof {
+  amount: number;
+  secret?: string;
+  C?: string;
+  id?: string;
+  mintUrl?: string;
+  eventId?: string;
+}
+
+export interface ProofRecord {
+  key: string;
+  state: ProofState;
+  updatedAt: number;
+  proof: StoredProof;
+}
+
+export interface ProofStateUpdate {
+  proof: StoredProof;
+  state: ProofState;
+}
+
+interface HistoryRecord extends WalletTransactionHistory {
+  seq?: number;
+}
+
+interface ChangeMessage {
+  type: "wallet-store-changed";
+  stores: WalletStoreName[];
+}
+
+type Backend = "indexeddb" | "localStorage";
+
+const cache: {
+  proofs: Map<string, ProofRecord>;
+  invoices: WalletInvoice[];
+  history: WalletTransactionHistory[];
+  outgoing: OutgoingToken[];
+} = {
+  proofs: new Map(),
+  invoices: [],
+  history: [],
+  outgoing: [],
+};
+
+const listeners = new Set<() => void>();
+
+let backend: Backend = "localStorage";
+let dbPromise: Promise<IDBDatabase> | null = null;
+let readyPromise: Promise<void> | null = null;
+let writeQueue: Promise<void> = Promise.resolve();
+let pendingWrites = 0;
+let changeChannel: BroadcastChannel | null = null;
+
+function isBrowser(): boolean {
+  return typeof window !== "undefined";
+}
+
+function safeJsonParse<T>(raw: string | null, fallback: T): T {
+  if (!raw) return fallback;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+export function proofKey(proof: StoredProof): string {
+  if (typeof proof.secret === "string" && proof.secret.length > 0) {
+    return proof.secret;
+  }
+  return `${String(proof.id || "")}:${Number(proof.amount || 0)}:${String(proof.C || "")}`;
+}
+
+function toHistoryItem(record: HistoryRecord): WalletTransactionHistory {
+  const item = { ...record };
+  delete item.seq;
+  return item;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () =>
+      reject(transaction.error || new Error("Wallet store transaction aborted"));
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PROOFS_STORE)) {
+        const proofs = db.createObjectStore(PROOFS_STORE, { keyPath: "key" });
+        proofs.createIndex("state", "state", { unique: false });
+      }
+      if (!db.objectStoreNames.contains(INVOICES_STORE)) {
+        db.createObjectStore(INVOICES_STORE, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+        db.createObjectStore(HISTORY_STORE, { keyPath: "seq", autoIncrement: true });
+      }
+      if (!db.objectStoreNames.contains(OUTGOING_STORE)) {
+        db.createObjectStore(OUTGOING_STORE, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE, { keyPath: "key" });
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error("Wallet database is blocked by another tab"));
+  });
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+}
+
+function readLegacyInvoices(): WalletInvoice[] {
+  const parse = (raw: string | null): WalletInvoice[] => {
+    const parsed = safeJsonParse<unknown>(raw, null);
+    if (Array.isArray(parsed)) return parsed as WalletInvoice[];
+    if (
+      parsed &&
+      typeof parsed === "object" &&
+      Array.isArray((parsed as { invoices?: unknown }).invoices)
+    ) {
+      return (parsed as { invoices: WalletInvoice[] }).invoices;
+    }
+    return [];
+  };
+
+  const chatRaw = localStorage.getItem(CHAT_LIGHTNING_INVOICES_STORAGE_KEY);
+  if (chatRaw !== null) return parse(chatRaw);
+  return parse(localStorage.getItem(LEGACY_PLATFORM_INVOICES_STORAGE_KEY));
+}
+
+function readLegacyProofRecords(): ProofRecord[] {
+  const now = Date.now();
+  return safeJsonParse<Array<StoredProof & { state?: ProofState }>>(
+    localStorage.getItem(CASHU_PROOFS_STORAGE_KEY),
+    []
+  )
+    .filter((proof) => proof && Number.isFinite(Number(proof.amount)))
+    .map(({ state, ...proof }) => ({
+      key: proofKey(proof),
+      state: state === "pending" ? "pending" : "unspent",
+      updatedAt: now,
+      proof,
+    }));
+}
+
+function loadCacheFromLocalStorage(stores: WalletStoreName[]): void {
+  if (stores.includes("proofs")) {
+    cache.proofs = new Map(readLegacyProofRecords().map((record) => [record.key, record]));
+  }
+  if (stores.includes("invoices")) {
+    cache.invoices = readLegacyInvoices();
+  }
+  if (stores.includes("history")) {
+    cache.history = safeJsonParse<WalletTransactionHistory[]>(
+      localStorage.getItem(TRANSACTION_HISTORY_STORAGE_KEY),
+      []
+    );
+  }
+  if (stores.includes("outgoing")) {
+    cache.outgoing = safeJsonParse<OutgoingToken[]>(
+      localStorage.getItem(OUTGOING_TOKENS_STORAGE_KEY),
+      []
+    );
+  }
+}
+
+/**
+ * Fallback persistence for browsers without IndexedDB. Keeps the original
+ * localStorage layout; spent proofs are dropped and pending ones are tagged.
+ */
+function persistToLocalStorage(stores: WalletStoreName[]): void {
+  if (stores.includes("proofs")) {
+    const proofs = Array.from(cache.proofs.values())
+      .filter((record) => record.state !== "spent")
+      .map((record) =>
+        record.state === "pending" ? { ...record.proof, state: "pending" } : record.proof
+      );
+    localStorage.setItem(CASHU_PROOFS_STORAGE_KEY, JSON.stringify(proofs));
+  }
+  if (stores.includes("invoices")) {
+    localStorage.setItem(
+      CHAT_LIGHTNING_INVOICES_STORAGE_KEY,
+      JSON.stringify({ invoices: cache.invoices, lastSync: Date.now() })
+    );
+    localStorage.setItem(LEGACY_PLATFORM_INVOICES_STORAGE_KEY, JSON.stringify(cache.invoices));
+  }
+  if (stores.includes("history")) {
+    localStorage.setItem(TRANSACTION_HISTORY_STORAGE_KEY, JSON.stringify(cache.history));
+  }
+  if (stores.includes("outgoing")) {
+    localStorage.setItem(OUTGOING_TOKENS_STORAGE_KEY, JSON.stringify(cache.outgoing));
+  }
+}
+
+/**
+ * Copies the legacy localStorage blobs into the database once. The meta check
+ * and the copy share one transaction so two tabs opening at once can't both
+ * migrate.
+ */
+async function migrateLegacyStorage(db: IDBDatabase): Promise<void> {
+  const proofs = readLegacyProofRecords();
+  const invoices = readLegacyInvoices();
+  const history = safeJsonParse<WalletTransactionHistory[]>(
+    localStorage.getItem(TRANSACTION_HISTORY_STORAGE_KEY),
+    []
+  );
+
+  const tx = db.transaction([PROOFS_STORE, INVOICES_STORE, HISTORY_STORE, META_STORE], "readwrite");
+  const metaStore = tx.objectStore(META_STORE);
+  let migrated = false;
+  const metaRequest = metaStore.get(LEGACY_MIGRATION_META_KEY);
+  metaRequest.onsuccess = () => {
+    if (metaRequest.result) return;
+
+    const proofStore = tx.objectStore(PROOFS_STORE);
+    for (const record of proofs) proofStore.put(record);
+    const invoiceStore = tx.objectStore(INVOICES_STORE);
+    for (const invoice of invoices) {
+      if (invoice && typeof invoice.id === "string") invoiceStore.put(invoice);
+    }
+    const historyStore = tx.objectStore(HISTORY_STORE);
+    for (const item of history) {
+      if (item && typeof item === "object") historyStore.add(toHistoryItem(item));
+    }
+    metaStore.put({ key: LEGACY_MIGRATION_META_KEY, value: Date.now() });
+    migrated = true;
+  };
+  await transactionDone(tx);
+  if (!migrated) return;
+
+  localStorage.removeItem(CASHU_PROOFS_STORAGE_KEY);
+  localStorage.removeItem(CHAT_LIGHTNING_INVOICES_STORAGE_KEY);
+  localStorage.removeItem(LEGACY_PLATFORM_INVOICES_STORAGE_KEY);
+  localStorage.removeItem(TRANSACTION_HISTORY_STORAGE_KEY);
+}
+
+async function pruneSpentProofs(db: IDBDatabase): Promise<void> {
+  const cutoff = Date.now() - SPENT_PROOF_RETENTION_MS;
+  const tx = db.transaction(PROOFS_STORE, "readwrite");
+  const request = tx.objectStore(PROOFS_STORE).index("state").openCursor(IDBKeyRange.only("spent"));
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    const record = cursor.value as ProofRecord;
+    if (record.updatedAt < cutoff) cursor.delete();
+    cursor.continue();
+  };
+  await transactionDone(tx);
+}
+
+async function loadCacheFromDatabase(stores: WalletStoreName[]): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(stores, "readonly");
+  const [proofs, invoices, history, outgoing] = await Promise.all([
+    stores.includes("proofs")
+      ? requestToPromise(tx.objectStore(PROOFS_STORE).getAll() as IDBRequest<ProofRecord[]>)
+      : null,
+    stores.includes("invoices")
+      ? requestToPromise(tx.objectStore(INVOICES_STORE).getAll() as IDBRequest<WalletInvoice[]>)
+      : null,
+    stores.includes("history")
+      ? requestToPromise(tx.objectStore(HISTORY_STORE).getAll() as IDBRequest<HistoryRecord[]>)
+      : null,
+    stores.includes("outgoing")
+      ? requestToPromise(tx.objectStore(OUTGOING_STORE).getAll() as IDBRequest<OutgoingToken[]>)
+      : null,
+  ]);
+
+  if (proofs) {
+    cache.proofs = new Map(proofs.map((record) => [record.key, record]));
+  }
+  if (invoices) {
+    cache.invoices = invoices;
+  }
+  if (history) {
+    cache.history = history.map(toHistoryItem);
+  }
+  if (outgoing) {
+    cache.outgoing = outgoing;
+  }
+}
+
+function notifyListeners(): void {
+  for (const listener of listeners) {
+    try {
+      listener();
+    } catch (error) {
+      console.warn("Wallet store listener failed:", error);
+    }
+  }
+}
+
+async function reloadStores(stores: WalletStoreName[]): Promise<void> {
+  if (backend === "indexeddb") {
+    await loadCacheFromDatabase(stores);
+  } else {
+    loadCacheFromLocalStorage(stores);
+  }
+  notifyListeners();
+}
+
+function broadcastChange(stores: WalletStoreName[]): void {
+  if (!changeChannel) return;
+  const message: ChangeMessage = { type: "wallet-store-changed", stores };
+  try {
+    changeChannel.postMessage(message);
+  } catch {
+    // Ignore closed channels
+  }
+}
+
+function openChangeChannel(): void {
+  if (changeChannel || typeof BroadcastChannel === "undefined") return;
+  changeChannel = new BroadcastChannel(CHANGE_CHANNEL_NAME);
+  changeChannel.onmessage = (event: MessageEvent<ChangeMessage>) => {
+    const data = event.data;
+    if (!data || data.type !== "wallet-store-changed" || !Array.isArray(data.stores)) return;
+    void reloadStores(data.stores).catch((error) => {
+      console.warn("Failed to reload wallet store after remote change:", error);
+    });
+  };
+}
+
+/**
+ * Opens the wallet database, migrates the legacy localStorage keys once and
+ * loads everything into the in-memory cache that the synchronous readers use.
+ * Falls back to localStorage when IndexedDB is unavailable.
+ */
+export function ensureWalletStore(): Promise<void> {
+  if (!isBrowser()) return Promise.resolve();
+  if (readyPromise) return readyPromise;
+
+  readyPromise = (async () => {
+    const allStores: WalletStoreName[] = ["proofs", "invoices", "history", "outgoing"];
+    try {
+      if (typeof indexedDB === "undefined") {
+        throw new Error("IndexedDB is not available");
+      }
+      const db = await openDatabase();
+      await migrateLegacyStorage(db);
+      await pruneSpentProofs(db);
+      backend = "indexeddb";
+      await loadCacheFromDatabase(allStores);
+    } catch (error) {
+      console.warn("Wallet store falling back to localStorage:", error);
+      backend = "localStorage";
+      loadCacheFromLocalStorage(allStores);
+    }
+    openChangeChannel();
+    notifyListeners();
+  })();
+
+  return readyPromise;
+}
+
+export function onWalletStoreChange(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function enqueueWrite(
+  stores: WalletStoreName[],
+  writeToDatabase: (db: IDBDatabase) => Promise<void>
+): Promise<void> {
+  notifyListeners();
+  pendingWrites += 1;
+  const run = async () => {
+    try {
+      await ensureWalletStore();
+      if (backend === "indexeddb") {
+        await writeToDatabase(await openDatabase());
+      } else {
+        persistToLocalStorage(stores);
+      }
+    } finally {
+      pendingWrites -= 1;
+    }
+    // Re-read once the queue drains so queued optimistic changes don't flicker
+    if (backend === "indexeddb" && pendingWrites === 0) {
+      await reloadStores(stores);
+    }
+    broadcastChange(stores);
+  };
+
+  const result = writeQueue.then(run);
+  writeQueue = result.catch((error) => {
+    console.warn("Wallet store write failed:", error);
+  });
+  return result;
+}
+
+export function readProofRecords(): ProofRecord[] {
+  return Array.from(cache.proofs.values());
+}
+
+/**
+ * Applies proof state changes in a single transaction. Spent is terminal: a
+ * stale caller can never resurrect a proof another flow or tab already spent.
+ */
+export function commitProofStates(updates: ProofStateUpdate[]): Promise<void> {
+  if (!isBrowser() || updates.length === 0) return Promise.resolve();
+
+  const now = Date.now();
+  const records: ProofRecord[] = updates.map(({ proof, state }) => {
+    const cleanProof: StoredProof & { state?: unknown } = { ...proof };
+    delete cleanProof.state;
+    return { key: proofKey(cleanProof), state, updatedAt: now, proof: cleanProof };
+  });
+
+  for (const record of records) {
+    const existing = cache.proofs.get(record.key);
+    if (existing?.state === "spent" && record.state !== "spent") continue;
+    cache.proofs.set(record.key, record);
+  }
+
+  return enqueueWrite(["proofs"], async (db) => {
+    const tx = db.transaction(PROOFS_STORE, "readwrite");
+    const store = tx.objectStore(PROOFS_STORE);
+    for (const record of records) {
+      const request = store.get(record.key);
+      request.onsuccess = () => {
+        const existing = request.result as ProofRecord | undefined;
+        if (existing?.state === "spent" && record.state !== "spent") return;
+        store.put(record);
+      };
+    }
+    await transactionDone(tx);
+  });
+}
+
+export function readInvoiceRecords(): WalletInvoice[] {
+  return cache.invoices;
+}
+
+/**
+ * Replaces the invoice list by diffing against the cache, so only invoices
+ * this caller added, changed or removed are written.
+ */
+export function writeInvoiceRecords(invoices: WalletInvoice[]): Promise<void> {
+  if (!isBrowser()) return Promise.resolve();
+
+  const previous = new Map(cache.invoices.map((invoice) => [invoice.id, invoice]));
+  const nextIds = new Set(invoices.map((invoice) => invoice.id));
+  const removedIds = Array.from(previous.keys()).filter((id) => !nextIds.has(id));
+  const changed = invoices.filter((invoice) => previous.get(invoice.id) !== invoice);
+  cache.invoices = invoices;
+
+  return enqueueWrite(["invoices"], async (db) => {
+    const tx = db.transaction(INVOICES_STORE, "readwrite");
+    const store = tx.objectStore(INVOICES_STORE);
+    for (const id of removedIds) store.delete(id);
+    for (const invoice of changed) store.put(invoice);
+    await transactionDone(tx);
+  });
+}
+
+export function readHistoryRecords(): WalletTransactionHistory[] {
+  return cache.history;
+}
+
+export function appendHistoryRecord(transaction: WalletTransactionHistory): Promise<void> {
+  if (!isBrowser()) return Promise.resolve();
+  cache.history = [...cache.history, transaction];
+
+  return enqueueWrite(["history"], async (db) => {
+    const tx = db.transaction(HISTORY_STORE, "readwrite");
+    tx.objectStore(HISTORY_STORE).add({ ...transaction });
+    await transactionDone(tx);
+  });
+}
+
+export function replaceHistoryRecords(history: WalletTransactionHistory[]): Promise<void> {
+  if (!isBrowser()) return Promise.resolve();
+  cache.history = history;
+
+  return enqueueWrite(["history"], async (db) => {
+    const tx = db.transaction(HISTORY_STORE, "readwrite");
+    const store = tx.objectStore(HISTORY_STORE);
+    store.clear();
+    for (const item of history) store.add(toHistoryItem(item));
+    await transactionDone(tx);
+  });
+}
+
+export function readOutgoingRecords(): OutgoingToken[] {
+  return cache.outgoing;
+}
+
+export function putOutgoingRecord(record: OutgoingToken): Promise<void> {
+  if (!isBrowser()) return Promise.resolve();
+  cache.outgoing = cache.outgoing.filter((item) => item.id !== record.id).concat(record);
+
+  return enqueueWrite(["outgoing"], async (db) => {
+    const tx = db.transaction(OUTGOING_STORE, "readwrite");
+    tx.objectStore(OUTGOING_STORE).put(record);
+    await transactionDone(tx);
+  });
+}
+
+export function deleteOutgoingRecord(id: string): Promise<void> {
+  if (!isBrowser()) return Promise.resolve();
+  cache.outgoing = cache.outgoing.filter((item) => item.id !== id);
+
+  return enqueueWrite(["outgoing"], async (db) => {
+    const tx = db.transaction(OUTGOING_STORE, "readwrite");
+    tx.objectStore(OUTGOING_STORE).delete(id);
+    await transactionDone(tx);
+  });
+}
+
+function counterMetaKey(keysetId: string): string {
+  return `counter:${keysetId}`;
+}
+
+function readLocalCounters(): Record<string, number> {
+  return safeJsonParse<Record<string, number>>(
+    localStorage.getItem(KEYSET_COUNTERS_STORAGE_KEY),
+    {}
+  );
+}
+
+/**
+ * Atomically reserves `size` NUT-13 counters for a keyset and returns the
+ * first one. `minimum` lets callers skip past counters found during restore.
+ */
+export async function reserveKeysetCounter(
+  keysetId: string,
+  size: number,
+  minimum = 0
+): Promise<number> {
+  await ensureWalletStore();
+
+  if (backend !== "indexeddb") {
+    const counters = readLocalCounters();
+    const start = Math.max(counters[keysetId] || 0, minimum);
+    counters[keysetId] = start + size;
+    localStorage.setItem(KEYSET_COUNTERS_STORAGE_KEY, JSON.stringify(counters));
+    return start;
+  }
+
+  const db = await openDatabase();
+  const tx = db.transaction(META_STORE, "readwrite");
+  const store = tx.objectStore(META_STORE);
+  let start = minimum;
+  const request = store.get(counterMetaKey(keysetId));
+  request.onsuccess = () => {
+    const current = Number((request.result as { value?: number } | undefined)?.value || 0);
+    start = Math.max(current, minimum);
+    store.put({ key: counterMetaKey(keysetId), value: start + size });
+  };
+  await transactionDone(tx);
+  return start;
+}